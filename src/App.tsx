@@ -3,25 +3,52 @@ import Login from './components/Login';
 import Navbar from './components/Navbar';
 import Dashboard from './components/Dashboard';
 import News from './components/News';
-import PresentationView from './components/PresentationView';
 import SiteEditor from './components/SiteEditor';
 import Store from './components/Store/Store';
 import Images from './components/Images';
 import TeacherSchedule from './components/TeacherSchedule';
+import TimetablePrint from './components/TimetablePrint';
 import Teachers from './components/Teachers';
+import Rooms from './components/Rooms';
 import PresentationEditor from './components/PresentationEditor';
+import Accounts from './components/Accounts';
+import TeacherPortal from './components/TeacherPortal';
+import ScheduleRequests from './components/ScheduleRequests';
+import DisplayDevices from './components/DisplayDevices';
+import DisplayGate from './components/DisplayGate';
+import Audit from './components/Audit';
+import WorkloadReport from './components/WorkloadReport';
+import Closures from './components/Closures';
+import Students from './components/Students';
+import RosterPrint from './components/RosterPrint';
+import { useSession } from './hooks/useSession';
+import { getStoredSession } from './lib/session';
+import { Role, ROUTE_ROLES } from './lib/roles';
 
 // ProtectedRoute wrapper component
 const ProtectedLayout = () => {
-  const isAuthenticated = localStorage.getItem('isAuthenticated') === 'true';
+  const { session, loading } = useSession();
   
-  if (!isAuthenticated) {
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[#0a0a0a] flex items-center justify-center">
+        <div className="w-10 h-10 border-4 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+  
+  if (!session) {
     return <Navigate to="/login" replace />;
   }
+
+  // Display devices only ever show the presentation screen
+  if (session.role === 'display') {
+    return <Navigate to="/presentation" replace />;
+  }
   
   return (
     <>
-      <Navbar />
+      <Navbar session={session} />
       <div className="pt-16 min-h-screen bg-[#0a0a0a]">
         <Outlet />
       </div>
@@ -29,9 +56,20 @@ const ProtectedLayout = () => {
   );
 };
 
+// Route guard for dashboard pages limited to certain roles
+const RequireRole = ({ roles }: { roles: Role[] }) => {
+  const session = getStoredSession();
+
+  if (!session || !roles.includes(session.role)) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  return <Outlet />;
+};
+
 export default function App() {
-  // Check if user is authenticated
-  const isAuthenticated = localStorage.getItem('isAuthenticated') === 'true';
+  // Check if a staff member is signed in (the session is re-validated inside ProtectedLayout)
+  const isAuthenticated = getStoredSession() !== null;
 
   return (
     <BrowserRouter>
@@ -42,16 +80,55 @@ export default function App() {
           element={isAuthenticated ? <Navigate to="/dashboard" /> : <Login />} 
         />
         
-        <Route path="/presentation" element={<PresentationView />} />
+        <Route path="/presentation" element={<DisplayGate />} />
         <Route path="/teacher-schedule" element={<TeacherSchedule />} />
+        <Route path="/teacher-schedule/print" element={<TimetablePrint />} />
+        <Route element={<RequireRole roles={ROUTE_ROLES.students} />}>
+          <Route path="/students/print" element={<RosterPrint />} />
+        </Route>
 
         {/* Protected routes with shared layout */}
         <Route path="/dashboard" element={<ProtectedLayout />}>
           <Route index element={<Dashboard />} />
-          <Route path="site-editor/*" element={<SiteEditor />} />
-          <Route path="teachers" element={<Teachers />} />
-          <Route path="presentation-editor" element={<PresentationEditor />} />
-          <Route path="teacher-schedule" element={<TeacherSchedule />} />
+          <Route element={<RequireRole roles={ROUTE_ROLES.siteEditor} />}>
+            <Route path="site-editor/*" element={<SiteEditor />} />
+          </Route>
+          <Route element={<RequireRole roles={ROUTE_ROLES.teachers} />}>
+            <Route path="teachers" element={<Teachers />} />
+          </Route>
+          <Route element={<RequireRole roles={ROUTE_ROLES.rooms} />}>
+            <Route path="rooms" element={<Rooms />} />
+          </Route>
+          <Route element={<RequireRole roles={ROUTE_ROLES.students} />}>
+            <Route path="students" element={<Students />} />
+          </Route>
+          <Route element={<RequireRole roles={ROUTE_ROLES.presentationEditor} />}>
+            <Route path="presentation-editor" element={<PresentationEditor />} />
+          </Route>
+          <Route element={<RequireRole roles={ROUTE_ROLES.teacherSchedule} />}>
+            <Route path="teacher-schedule" element={<TeacherSchedule />} />
+          </Route>
+          <Route element={<RequireRole roles={ROUTE_ROLES.accounts} />}>
+            <Route path="accounts" element={<Accounts />} />
+          </Route>
+          <Route element={<RequireRole roles={ROUTE_ROLES.teacherPortal} />}>
+            <Route path="my-classes" element={<TeacherPortal />} />
+          </Route>
+          <Route element={<RequireRole roles={ROUTE_ROLES.scheduleRequests} />}>
+            <Route path="schedule-requests" element={<ScheduleRequests />} />
+          </Route>
+          <Route element={<RequireRole roles={ROUTE_ROLES.displays} />}>
+            <Route path="displays" element={<DisplayDevices />} />
+          </Route>
+          <Route element={<RequireRole roles={ROUTE_ROLES.workload} />}>
+            <Route path="workload" element={<WorkloadReport />} />
+          </Route>
+          <Route element={<RequireRole roles={ROUTE_ROLES.closures} />}>
+            <Route path="closures" element={<Closures />} />
+          </Route>
+          <Route element={<RequireRole roles={ROUTE_ROLES.audit} />}>
+            <Route path="audit" element={<Audit />} />
+          </Route>
         </Route>
 
         {/* Redirect all other routes */}
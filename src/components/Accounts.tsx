@@ -0,0 +1,424 @@
+import { useState, useEffect } from 'react';
+import { Account, listAccounts, createAccount, updateAccountRole, resetAccountPassword, deleteAccount } from '../lib/repositories/accounts';
+import { Teacher, listTeachers, linkTeacherToUser } from '../lib/repositories/teachers';
+import { getStoredSession } from '../lib/session';
+import { Role, ROLES, ROLE_LABELS } from '../lib/roles';
+import {
+  PlusIcon,
+  XMarkIcon,
+  TrashIcon,
+  KeyIcon,
+  UserGroupIcon
+} from '@heroicons/react/24/outline';
+
+export default function Accounts() {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [teachers, setTeachers] = useState<Teacher[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+  const [passwordAccount, setPasswordAccount] = useState<Account | null>(null);
+  const [accountToDelete, setAccountToDelete] = useState<Account | null>(null);
+  const [newPassword, setNewPassword] = useState('');
+
+  const [formData, setFormData] = useState<{ username: string; password: string; role: Role }>({
+    username: '',
+    password: '',
+    role: 'teacher'
+  });
+
+  // Admins can't demote or delete themselves, so there is always someone left to manage accounts
+  const currentUserId = getStoredSession()?.userId;
+
+  useEffect(() => {
+    fetchAccounts();
+  }, []);
+
+  const fetchAccounts = async () => {
+    try {
+      setLoading(true);
+      setAccounts(await listAccounts());
+      setTeachers(await listTeachers());
+      setError(null);
+    } catch (error) {
+      console.error('Error fetching accounts:', error);
+      setError('Failed to load accounts. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddAccount = async () => {
+    try {
+      if (!formData.username.trim() || !formData.password) {
+        setError('Please fill in all fields');
+        return;
+      }
+
+      await createAccount(formData.username.trim(), formData.password, formData.role);
+
+      setIsAddModalOpen(false);
+      setFormData({ username: '', password: '', role: 'teacher' });
+      fetchAccounts();
+    } catch (error) {
+      console.error('Error creating account:', error);
+      setError('Failed to create account. The username may already be taken.');
+    }
+  };
+
+  const handleRoleChange = async (account: Account, role: Role) => {
+    try {
+      await updateAccountRole(account.id, role);
+
+      setAccounts(prev => prev.map(a => a.id === account.id ? { ...a, role } : a));
+      setError(null);
+    } catch (error) {
+      console.error('Error updating role:', error);
+      setError('Failed to update role. Please try again.');
+    }
+  };
+
+  // Link a teacher account to every teachers row (one per subject) with the chosen name
+  const handleLinkTeacher = async (account: Account, teacherName: string) => {
+    try {
+      await linkTeacherToUser(account.id, teacherName || null);
+
+      setTeachers(prev => prev.map(t => {
+        if (t.name === teacherName) return { ...t, user_id: account.id };
+        if (t.user_id === account.id) return { ...t, user_id: null };
+        return t;
+      }));
+      setError(null);
+    } catch (error) {
+      console.error('Error linking teacher:', error);
+      setError('Failed to link teacher. Please try again.');
+    }
+  };
+
+  const teacherNames = [...new Set(teachers.map(t => t.name))];
+
+  const handleResetPassword = async () => {
+    try {
+      if (!passwordAccount || !newPassword) {
+        setError('Please enter a new password');
+        return;
+      }
+
+      await resetAccountPassword(passwordAccount.id, newPassword);
+
+      setPasswordAccount(null);
+      setNewPassword('');
+      setError(null);
+    } catch (error) {
+      console.error('Error resetting password:', error);
+      setError('Failed to reset password. Please try again.');
+    }
+  };
+
+  const handleDeleteAccount = async () => {
+    try {
+      if (!accountToDelete) return;
+
+      await deleteAccount(accountToDelete.id);
+
+      setAccountToDelete(null);
+      fetchAccounts();
+    } catch (error) {
+      console.error('Error deleting account:', error);
+      setError('Failed to delete account. Please try again.');
+    }
+  };
+
+  return (
+    <div className="min-h-full bg-gradient-to-br from-[#0a0a0a] to-[#111827] text-gray-200">
+      <div className="container mx-auto px-4 py-6">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6">
+          <div className="mb-4 md:mb-0">
+            <h1 className="text-2xl font-bold text-white flex items-center">
+              <UserGroupIcon className="h-6 w-6 mr-2 text-blue-500" />
+              Staff Accounts
+            </h1>
+            <p className="text-gray-400 mt-1">
+              Create accounts and choose what each person can access
+            </p>
+          </div>
+
+          <button
+            onClick={() => {
+              setFormData({ username: '', password: '', role: 'teacher' });
+              setIsAddModalOpen(true);
+            }}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg flex items-center justify-center whitespace-nowrap"
+          >
+            <PlusIcon className="h-5 w-5 mr-1" />
+            Add Account
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-900/20 border border-red-800/30 rounded-lg text-red-200">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+          </div>
+        ) : (
+          <div className="bg-gray-800/40 border border-gray-700/50 rounded-xl overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-800/60 text-gray-400 text-left">
+                <tr>
+                  <th className="px-4 py-3 font-medium">Username</th>
+                  <th className="px-4 py-3 font-medium">Role</th>
+                  <th className="px-4 py-3 font-medium hidden md:table-cell">Linked Teacher</th>
+                  <th className="px-4 py-3 font-medium hidden sm:table-cell">Created</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {accounts.map(account => (
+                  <tr key={account.id} className="border-t border-gray-700/50">
+                    <td className="px-4 py-3 text-white">
+                      {account.username}
+                      {account.id === currentUserId && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                    </td>
+                    <td className="px-4 py-3">
+                      <select
+                        value={account.role}
+                        onChange={e => handleRoleChange(account, e.target.value as Role)}
+                        disabled={account.id === currentUserId}
+                        className="px-2 py-1 bg-gray-800/80 border border-gray-700 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                      >
+                        {ROLES.map(role => (
+                          <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-4 py-3 hidden md:table-cell">
+                      {account.role === 'teacher' ? (
+                        <select
+                          value={teachers.find(t => t.user_id === account.id)?.name || ''}
+                          onChange={e => handleLinkTeacher(account, e.target.value)}
+                          className="px-2 py-1 bg-gray-800/80 border border-gray-700 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value="">Not linked</option>
+                          {teacherNames.map(name => (
+                            <option key={name} value={name}>{name}</option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span className="text-gray-600">—</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-gray-400 hidden sm:table-cell">
+                      {new Date(account.created_at).toLocaleDateString()}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex justify-end space-x-1">
+                        <button
+                          onClick={() => {
+                            setNewPassword('');
+                            setPasswordAccount(account);
+                          }}
+                          className="p-1 text-gray-300 hover:text-blue-400 hover:bg-blue-400/10 rounded transition-colors"
+                          title="Reset Password"
+                        >
+                          <KeyIcon className="h-4 w-4" />
+                        </button>
+                        {account.id !== currentUserId && (
+                          <button
+                            onClick={() => setAccountToDelete(account)}
+                            className="p-1 text-gray-300 hover:text-red-400 hover:bg-red-400/10 rounded transition-colors"
+                            title="Delete Account"
+                          >
+                            <TrashIcon className="h-4 w-4" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Add Account Modal */}
+      {isAddModalOpen && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={() => setIsAddModalOpen(false)}>
+          <div
+            className="bg-gray-900 rounded-xl border border-gray-700/50 shadow-2xl w-full max-w-md overflow-hidden"
+            onClick={e => e.stopPropagation()}
+          >
+            <div className="relative">
+              <div className="absolute inset-0 bg-gradient-to-r from-blue-600 to-sky-400 opacity-90"></div>
+              <div className="relative p-5 flex justify-between items-center">
+                <h3 className="text-xl font-bold text-white">Add Account</h3>
+                <button
+                  onClick={() => setIsAddModalOpen(false)}
+                  className="text-white hover:bg-white/20 rounded-full p-1 transition-colors"
+                >
+                  <XMarkIcon className="h-6 w-6" />
+                </button>
+              </div>
+            </div>
+
+            <div className="p-5 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-1">Username</label>
+                <input
+                  type="text"
+                  value={formData.username}
+                  onChange={e => setFormData({ ...formData, username: e.target.value })}
+                  className="w-full px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                  placeholder="Enter username"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-1">Password</label>
+                <input
+                  type="password"
+                  value={formData.password}
+                  onChange={e => setFormData({ ...formData, password: e.target.value })}
+                  className="w-full px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                  placeholder="Enter password"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-1">Role</label>
+                <select
+                  value={formData.role}
+                  onChange={e => setFormData({ ...formData, role: e.target.value as Role })}
+                  className="w-full px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                >
+                  {ROLES.map(role => (
+                    <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="border-t border-gray-800 p-4 flex justify-end space-x-3">
+              <button
+                onClick={() => setIsAddModalOpen(false)}
+                className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleAddAccount}
+                className="px-4 py-2 bg-gradient-to-r from-blue-600 to-sky-500 hover:from-blue-500 hover:to-sky-400 text-white font-medium rounded-lg shadow-md hover:shadow-lg transition-all duration-300"
+              >
+                Add Account
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Reset Password Modal */}
+      {passwordAccount && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={() => setPasswordAccount(null)}>
+          <div
+            className="bg-gray-900 rounded-xl border border-gray-700/50 shadow-2xl w-full max-w-md overflow-hidden"
+            onClick={e => e.stopPropagation()}
+          >
+            <div className="relative">
+              <div className="absolute inset-0 bg-gradient-to-r from-blue-600 to-sky-400 opacity-90"></div>
+              <div className="relative p-5 flex justify-between items-center">
+                <h3 className="text-xl font-bold text-white">Reset Password</h3>
+                <button
+                  onClick={() => setPasswordAccount(null)}
+                  className="text-white hover:bg-white/20 rounded-full p-1 transition-colors"
+                >
+                  <XMarkIcon className="h-6 w-6" />
+                </button>
+              </div>
+            </div>
+
+            <div className="p-5 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-1">New password for {passwordAccount.username}</label>
+                <input
+                  type="password"
+                  value={newPassword}
+                  onChange={e => setNewPassword(e.target.value)}
+                  className="w-full px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                  placeholder="Enter new password"
+                />
+              </div>
+
+              <div className="p-3 bg-blue-900/20 border border-blue-800/30 rounded-lg text-sm text-blue-200">
+                <p>This account will be signed out on every device.</p>
+              </div>
+            </div>
+
+            <div className="border-t border-gray-800 p-4 flex justify-end space-x-3">
+              <button
+                onClick={() => setPasswordAccount(null)}
+                className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleResetPassword}
+                className="px-4 py-2 bg-gradient-to-r from-blue-600 to-sky-500 hover:from-blue-500 hover:to-sky-400 text-white font-medium rounded-lg shadow-md hover:shadow-lg transition-all duration-300"
+              >
+                Reset Password
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Delete Confirmation Modal */}
+      {accountToDelete && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={() => setAccountToDelete(null)}>
+          <div
+            className="bg-gray-900 rounded-xl border border-gray-700/50 shadow-2xl w-full max-w-md overflow-hidden"
+            onClick={e => e.stopPropagation()}
+          >
+            <div className="relative">
+              <div className="absolute inset-0 bg-gradient-to-r from-red-600 to-red-400 opacity-90"></div>
+              <div className="relative p-5 flex justify-between items-center">
+                <h3 className="text-xl font-bold text-white">Delete Account</h3>
+                <button
+                  onClick={() => setAccountToDelete(null)}
+                  className="text-white hover:bg-white/20 rounded-full p-1 transition-colors"
+                >
+                  <XMarkIcon className="h-6 w-6" />
+                </button>
+              </div>
+            </div>
+
+            <div className="p-5">
+              <p className="text-gray-300">
+                Are you sure you want to delete the account <span className="text-white font-medium">{accountToDelete.username}</span>? They will be signed out immediately.
+              </p>
+            </div>
+
+            <div className="border-t border-gray-800 p-4 flex justify-end space-x-3">
+              <button
+                onClick={() => setAccountToDelete(null)}
+                className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleDeleteAccount}
+                className="px-4 py-2 bg-gradient-to-r from-red-600 to-red-500 hover:from-red-500 hover:to-red-400 text-white font-medium rounded-lg shadow-md hover:shadow-lg transition-all duration-300"
+              >
+                Delete Account
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
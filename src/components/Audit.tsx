@@ -0,0 +1,311 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { AuditAction, AuditEntry, listAuditEntries } from '../lib/repositories/audit';
+import { ClipboardDocumentListIcon, ClockIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+const PAGE_SIZE = 50;
+
+// Keep in sync with the table list in src/db/audit_log.sql
+const AUDITED_TABLES: Record<string, string> = {
+  class_schedules: 'Class schedules',
+  teachers: 'Teachers',
+  teacher_users: 'Accounts',
+  schedule_change_requests: 'Schedule requests',
+  schedule_cancellations: 'Cancellations',
+  schedule_substitutions: 'Substitutions',
+  schedule_templates: 'Schedule templates',
+  rooms: 'Rooms',
+  teacher_availability: 'Teacher availability',
+  teacher_leave: 'Teacher leave',
+  students: 'Students',
+  enrollments: 'Enrollments',
+  store_orders: 'Orders',
+  store_order_items: 'Order items',
+  store_products: 'Products',
+  news: 'News',
+  calendar_events: 'Calendar events',
+  closures: 'Closures',
+  subjects_content: 'Subjects content',
+  teachers_content: 'Teacher profiles',
+  gallery_images: 'Gallery images',
+  presentation_settings: 'Presentation settings',
+  presentation_categories: 'Presentation categories',
+  presentation_images: 'Presentation images',
+  display_devices: 'Displays'
+};
+
+const ACTION_STYLES: Record<AuditAction, { label: string; className: string }> = {
+  INSERT: { label: 'Created', className: 'bg-green-900/50 text-green-200' },
+  UPDATE: { label: 'Updated', className: 'bg-blue-900/50 text-blue-200' },
+  DELETE: { label: 'Deleted', className: 'bg-red-900/50 text-red-200' }
+};
+
+// Fields that differ between the two row snapshots (all fields for inserts and deletes)
+const getChanges = (entry: AuditEntry): FieldChange[] => {
+  const before = entry.old_data || {};
+  const after = entry.new_data || {};
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+  return fields
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => ({ field, before: before[field], after: after[field] }));
+};
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+};
+
+// Short description of the record so entries are recognisable without opening them
+const describeRecord = (entry: AuditEntry) => {
+  const data = entry.new_data || entry.old_data || {};
+  const label = data.name || data.title || data.subject || data.username || data.customer_name;
+  return typeof label === 'string' ? label : null;
+};
+
+export default function Audit() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  // Filters live in the URL so a record's history can be linked to directly
+  const tableFilter = searchParams.get('table') || '';
+  const recordFilter = searchParams.get('record') || '';
+  const actionFilter = searchParams.get('action') || '';
+  const actorFilter = searchParams.get('actor') || '';
+  const fromFilter = searchParams.get('from') || '';
+  const toFilter = searchParams.get('to') || '';
+
+  const fetchEntries = useCallback(async (offset: number) => {
+    try {
+      setLoading(true);
+
+      const page = await listAuditEntries({
+        table: tableFilter,
+        record: recordFilter,
+        action: actionFilter,
+        actor: actorFilter,
+        from: fromFilter,
+        to: toFilter
+      }, offset, PAGE_SIZE);
+
+      setEntries(prev => (offset === 0 ? page : [...prev, ...page]));
+      setHasMore(page.length === PAGE_SIZE);
+      setError(null);
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+      setError('Failed to load the audit log. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [tableFilter, recordFilter, actionFilter, actorFilter, fromFilter, toFilter]);
+
+  useEffect(() => {
+    fetchEntries(0);
+  }, [fetchEntries]);
+
+  const updateFilter = (key: string, value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) {
+      next.set(key, value);
+    } else {
+      next.delete(key);
+    }
+    setSearchParams(next);
+  };
+
+  const showRecordHistory = (entry: AuditEntry) => {
+    if (!entry.row_id) return;
+    setSearchParams({ table: entry.table_name, record: entry.row_id });
+  };
+
+  const inputClassName = 'w-full px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-gray-200 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="min-h-full bg-gradient-to-br from-[#0a0a0a] to-[#111827] text-gray-200">
+      <div className="container mx-auto px-4 py-6">
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-white flex items-center">
+            <ClipboardDocumentListIcon className="h-6 w-6 mr-2 text-blue-500" />
+            Audit Log
+          </h1>
+          <p className="text-gray-400 mt-1">
+            Who created, changed or deleted what, and when
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-4">
+          <select
+            value={tableFilter}
+            onChange={e => updateFilter('table', e.target.value)}
+            className={inputClassName}
+          >
+            <option value="">All tables</option>
+            {Object.entries(AUDITED_TABLES).map(([table, label]) => (
+              <option key={table} value={table}>{label}</option>
+            ))}
+          </select>
+          <select
+            value={actionFilter}
+            onChange={e => updateFilter('action', e.target.value)}
+            className={inputClassName}
+          >
+            <option value="">All actions</option>
+            {(Object.keys(ACTION_STYLES) as AuditAction[]).map(action => (
+              <option key={action} value={action}>{ACTION_STYLES[action].label}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={actorFilter}
+            onChange={e => updateFilter('actor', e.target.value)}
+            placeholder="Username"
+            className={inputClassName}
+          />
+          <input
+            type="date"
+            value={fromFilter}
+            onChange={e => updateFilter('from', e.target.value)}
+            className={inputClassName}
+            aria-label="From date"
+          />
+          <input
+            type="date"
+            value={toFilter}
+            onChange={e => updateFilter('to', e.target.value)}
+            className={inputClassName}
+            aria-label="To date"
+          />
+        </div>
+
+        {recordFilter && (
+          <div className="mb-4 px-4 py-2 bg-blue-900/20 border border-blue-800/30 rounded-lg text-blue-200 text-sm flex items-center justify-between">
+            <span>
+              History of {AUDITED_TABLES[tableFilter] || tableFilter} record <span className="font-mono">{recordFilter}</span>
+            </span>
+            <button
+              onClick={() => updateFilter('record', '')}
+              className="p-1 hover:bg-white/10 rounded-full transition-colors"
+              aria-label="Show all records"
+            >
+              <XMarkIcon className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-900/20 border border-red-800/30 rounded-lg text-red-200">
+            {error}
+          </div>
+        )}
+
+        {loading && entries.length === 0 ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="flex flex-col items-center justify-center bg-gray-800/30 rounded-xl p-8 border border-gray-700/50">
+            <ClipboardDocumentListIcon className="h-12 w-12 text-gray-600 mb-3" />
+            <p className="text-gray-500">No changes match these filters.</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {entries.map(entry => {
+              const changes = getChanges(entry);
+              const label = describeRecord(entry);
+              const isExpanded = expandedId === entry.id;
+
+              return (
+                <div key={entry.id} className="bg-gray-800/40 border border-gray-700/50 rounded-lg">
+                  <button
+                    onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                    className="w-full px-4 py-3 flex flex-col sm:flex-row sm:items-center gap-2 text-left"
+                  >
+                    <span className="text-xs text-gray-400 sm:w-40 shrink-0">
+                      {format(new Date(entry.occurred_at), 'MMM d, yyyy h:mm a')}
+                    </span>
+                    <span className={`px-2 py-0.5 rounded text-xs w-fit ${ACTION_STYLES[entry.action].className}`}>
+                      {ACTION_STYLES[entry.action].label}
+                    </span>
+                    <span className="text-sm text-white flex-1">
+                      {AUDITED_TABLES[entry.table_name] || entry.table_name}
+                      {label && <span className="text-gray-300"> · {label}</span>}
+                      {entry.row_id && <span className="text-gray-500 font-mono text-xs"> #{entry.row_id}</span>}
+                    </span>
+                    <span className="text-sm text-gray-400">
+                      {entry.actor_username || 'No staff session'}
+                    </span>
+                  </button>
+
+                  {isExpanded && (
+                    <div className="border-t border-gray-700/50 px-4 py-3">
+                      {changes.length === 0 ? (
+                        <p className="text-sm text-gray-500">No field changes recorded.</p>
+                      ) : (
+                        <table className="w-full text-xs">
+                          <thead className="text-gray-400 text-left">
+                            <tr>
+                              <th className="py-1 pr-4 font-medium">Field</th>
+                              {entry.action !== 'INSERT' && <th className="py-1 pr-4 font-medium">Before</th>}
+                              {entry.action !== 'DELETE' && <th className="py-1 font-medium">After</th>}
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {changes.map(change => (
+                              <tr key={change.field} className="border-t border-gray-800 align-top">
+                                <td className="py-1 pr-4 font-mono text-gray-300">{change.field}</td>
+                                {entry.action !== 'INSERT' && (
+                                  <td className="py-1 pr-4 text-red-300 break-all">{formatValue(change.before)}</td>
+                                )}
+                                {entry.action !== 'DELETE' && (
+                                  <td className="py-1 text-green-300 break-all">{formatValue(change.after)}</td>
+                                )}
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+
+                      {entry.row_id && !recordFilter && (
+                        <button
+                          onClick={() => showRecordHistory(entry)}
+                          className="mt-3 flex items-center text-sm text-blue-400 hover:text-blue-300"
+                        >
+                          <ClockIcon className="h-4 w-4 mr-1" />
+                          Show record history
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+
+            {hasMore && (
+              <div className="flex justify-center pt-2">
+                <button
+                  onClick={() => fetchEntries(entries.length)}
+                  disabled={loading}
+                  className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 rounded-lg transition-colors disabled:opacity-70"
+                >
+                  {loading ? 'Loading...' : 'Load more'}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { useEffect, useRef, useState } from 'react';
+import { CalendarDaysIcon, ClipboardDocumentIcon, ClipboardDocumentCheckIcon } from '@heroicons/react/24/outline';
+import { CalendarFeed, getCalendarFeedUrl, toWebcalUrl } from '../lib/calendarFeeds';
+
+interface ClassGroup {
+  grade: string;
+  curriculum: string;
+}
+
+interface CalendarSubscribeProps {
+  // Teacher picked in the schedule's filter, offered as the default feed
+  teacherName: string | null;
+  // Grade and curriculum combinations that have classes
+  classes: ClassGroup[];
+}
+
+type FeedKind = CalendarFeed['kind'];
+
+const classKey = (group: ClassGroup) => `${group.grade}|${group.curriculum}`;
+
+export default function CalendarSubscribe({ teacherName, classes }: CalendarSubscribeProps) {
+  const [kind, setKind] = useState<FeedKind>(teacherName ? 'teacher' : 'all');
+  const [selectedClass, setSelectedClass] = useState('');
+  const [copied, setCopied] = useState(false);
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  // Follow the schedule's teacher filter
+  useEffect(() => {
+    setKind(teacherName ? 'teacher' : 'all');
+  }, [teacherName]);
+
+  useEffect(() => {
+    setCopied(false);
+  }, [kind, selectedClass]);
+
+  const groups = [...new Map(classes.map(group => [classKey(group), group])).values()]
+    .sort((a, b) => classKey(a).localeCompare(classKey(b)));
+  const group = groups.find(g => classKey(g) === selectedClass) || groups[0];
+
+  const feed: CalendarFeed | null =
+    kind === 'teacher' ? (teacherName ? { kind, teacher: teacherName } : null)
+    : kind === 'class' ? (group ? { kind, grade: group.grade, curriculum: group.curriculum } : null)
+    : { kind: 'all' };
+  const feedUrl = feed ? getCalendarFeedUrl(feed) : '';
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+    } catch (error) {
+      console.error('Error copying feed link:', error);
+    }
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1.5 px-3 py-2.5 rounded-lg bg-gray-800 border border-gray-700/50 text-gray-200 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+        aria-expanded={isOpen}
+      >
+        <CalendarDaysIcon className="h-5 w-5" />
+        <span>Subscribe</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-50 mt-2 w-80 max-w-[calc(100vw-2rem)] rounded-xl border border-gray-700/50 bg-gray-900 p-4 shadow-2xl space-y-3">
+          <p className="text-sm text-gray-300">
+            Add the timetable to your phone or computer calendar. It updates by itself when classes change.
+          </p>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">Timetable</label>
+            <select
+              value={kind}
+              onChange={e => setKind(e.target.value as FeedKind)}
+              className="w-full px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {teacherName && <option value="teacher">{teacherName}</option>}
+              <option value="class">A grade and curriculum</option>
+              <option value="all">All classes</option>
+            </select>
+          </div>
+
+          {kind === 'class' && (
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">Grade and curriculum</label>
+              <select
+                value={group ? classKey(group) : ''}
+                onChange={e => setSelectedClass(e.target.value)}
+                className="w-full px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {groups.map(g => (
+                  <option key={classKey(g)} value={classKey(g)}>
+                    {g.grade} • {g.curriculum}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {feed ? (
+            <>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  readOnly
+                  value={feedUrl}
+                  onFocus={e => e.target.select()}
+                  className="flex-1 min-w-0 px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-xs text-gray-300"
+                />
+                <button
+                  onClick={copyLink}
+                  className="p-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-200 transition-colors"
+                  title="Copy link"
+                >
+                  {copied
+                    ? <ClipboardDocumentCheckIcon className="h-5 w-5 text-green-400" />
+                    : <ClipboardDocumentIcon className="h-5 w-5" />}
+                </button>
+              </div>
+              <a
+                href={toWebcalUrl(feedUrl)}
+                className="block w-full text-center px-4 py-2 bg-gradient-to-r from-blue-600 to-sky-500 hover:from-blue-500 hover:to-sky-400 text-white text-sm font-medium rounded-lg transition-all duration-300"
+              >
+                Open in Calendar App
+              </a>
+              <p className="text-xs text-gray-500">
+                For Google Calendar, copy the link and add it under Other calendars → From URL.
+              </p>
+            </>
+          ) : (
+            <p className="text-xs text-gray-500">There are no classes to subscribe to yet.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
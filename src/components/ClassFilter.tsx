@@ -0,0 +1,51 @@
+import type { Schedule } from '../lib/repositories/schedules';
+
+export type ClassFilterKey = 'grade' | 'curriculum' | 'mode';
+
+interface ClassFilterProps {
+  // Loaded classes, for the grades, curricula and modes to offer
+  classes: Pick<Schedule, 'grade' | 'curriculum' | 'mode'>[];
+  grade: string;
+  curriculum: string;
+  mode: string;
+  // '' clears the filter
+  onChange: (key: ClassFilterKey, value: string) => void;
+}
+
+const selectClassName = "bg-gray-800 border border-gray-700/50 rounded-lg p-2.5 text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 w-full sm:w-auto sm:min-w-[140px] appearance-none bg-[url('data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMTYiIGhlaWdodD0iMTYiIHZpZXdCb3g9IjAgMCAyNCAyNCIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj48cGF0aCBkPSJNNy40MDYgOC4wMDAwMUwxMiAxMi41OTRMMTYuNTk0IDguMDAwMDFMMTggOS40MDYwMUwxMiAxNS40MDZMNiA5LjQwNjAxTDcuNDA2IDguMDAwMDFaIiBmaWxsPSJjdXJyZW50Q29sb3IiLz48L3N2Zz4=')] bg-[position:right_10px_center] bg-no-repeat pr-10";
+
+// The distinct values in use, plus the selected one so a shared link still shows it
+const getOptions = (values: string[], selected: string) =>
+  [...new Set([...values.filter(Boolean), ...(selected ? [selected] : [])])].sort();
+
+/**
+ * Narrows the timetable to one grade, curriculum and/or mode, e.g. "Grade 10 Edexcel"
+ */
+export default function ClassFilter({ classes, grade, curriculum, mode, onChange }: ClassFilterProps) {
+  const filters: { key: ClassFilterKey; value: string; allLabel: string; options: string[] }[] = [
+    { key: 'grade', value: grade, allLabel: 'All grades', options: getOptions(classes.map(c => c.grade), grade) },
+    { key: 'curriculum', value: curriculum, allLabel: 'All curricula', options: getOptions(classes.map(c => c.curriculum), curriculum) },
+    { key: 'mode', value: mode, allLabel: 'All modes', options: getOptions(classes.map(c => c.mode), mode) }
+  ];
+
+  return (
+    <>
+      {filters.map(({ key, value, allLabel, options }) => (
+        <select
+          key={key}
+          value={value}
+          onChange={e => onChange(key, e.target.value)}
+          className={selectClassName}
+          aria-label={key.charAt(0).toUpperCase() + key.slice(1)}
+        >
+          <option value="">{allLabel}</option>
+          {options.map(option => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,185 @@
+import { useState, useEffect } from 'react';
+import { PrinterIcon, TrashIcon, UserPlusIcon } from '@heroicons/react/24/outline';
+import type { Schedule } from '../lib/repositories/schedules';
+import {
+  Student,
+  RosterEntry,
+  CLASS_FULL_ERROR,
+  DUPLICATE_ENROLLMENT_ERROR,
+  listStudents,
+  listRosters,
+  createEnrollment,
+  deleteEnrollment
+} from '../lib/repositories/students';
+import { can } from '../lib/roles';
+
+interface ClassRosterProps {
+  schedule: Schedule;
+}
+
+/**
+ * The students enrolled in a class, against its capacity, for the class detail modal.
+ * Students can be enrolled in the class itself from here; group enrollments are managed
+ * on the Students page.
+ */
+export default function ClassRoster({ schedule }: ClassRosterProps) {
+  const [roster, setRoster] = useState<RosterEntry[]>([]);
+  const [students, setStudents] = useState<Student[]>([]);
+  const [studentId, setStudentId] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const canEnroll = can('students.edit');
+
+  useEffect(() => {
+    fetchRoster(schedule.id);
+  }, [schedule.id]);
+
+  const fetchRoster = async (scheduleId: number) => {
+    try {
+      setLoading(true);
+      const [rosterRows, studentRows] = await Promise.all([listRosters([scheduleId]), listStudents()]);
+      setRoster(rosterRows);
+      setStudents(studentRows);
+      setError(null);
+    } catch (error) {
+      console.error('Error fetching roster:', error);
+      setError('Failed to load the roster. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEnroll = async () => {
+    if (!studentId) return;
+
+    try {
+      await createEnrollment({ student_id: studentId, schedule_id: schedule.id });
+      setStudentId('');
+      fetchRoster(schedule.id);
+    } catch (error) {
+      console.error('Error enrolling student:', error);
+      if ((error as { code?: string }).code === CLASS_FULL_ERROR) {
+        setError('This class is full. Raise its capacity to enroll more students.');
+      } else if ((error as { code?: string }).code === DUPLICATE_ENROLLMENT_ERROR) {
+        setError('That student is already enrolled in this class.');
+      } else {
+        setError('Failed to enroll the student. Please try again.');
+      }
+    }
+  };
+
+  const handleRemove = async (entry: RosterEntry) => {
+    if (!window.confirm(`Remove ${entry.enrollment.students.name} from this class?`)) return;
+
+    try {
+      await deleteEnrollment(entry.enrollment.id);
+      fetchRoster(schedule.id);
+    } catch (error) {
+      console.error('Error removing enrollment:', error);
+      setError('Failed to remove the student. Please try again.');
+    }
+  };
+
+  const handlePrint = () => {
+    window.open(`/students/print?class=${schedule.id}`, '_blank');
+  };
+
+  const enrolledIds = new Set(roster.map(entry => entry.enrollment.student_id));
+  const available = students.filter(student => !enrolledIds.has(student.id));
+  const isFull = schedule.capacity !== null && roster.length >= schedule.capacity;
+
+  return (
+    <div className="pt-4 border-t border-gray-800">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-gray-300 font-medium">
+          Roster{' '}
+          <span className={`text-sm font-normal ${
+            schedule.capacity !== null && roster.length > schedule.capacity
+              ? 'text-red-300'
+              : isFull ? 'text-amber-300' : 'text-gray-500'
+          }`}>
+            {loading ? '' : `${roster.length}${schedule.capacity !== null ? ` / ${schedule.capacity}` : ''} students`}
+            {!loading && schedule.capacity !== null && roster.length > schedule.capacity && ' (over capacity)'}
+          </span>
+        </h4>
+        <button
+          onClick={handlePrint}
+          className="flex items-center gap-1 px-2 py-1 text-sm text-gray-300 hover:text-white hover:bg-gray-800 rounded transition-colors"
+        >
+          <PrinterIcon className="h-4 w-4" />
+          Print
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-2 p-3 bg-red-900/20 border border-red-800/30 rounded-lg text-sm text-red-200">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-16">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+        </div>
+      ) : roster.length === 0 ? (
+        <p className="text-sm text-gray-500">Nobody is enrolled in this class yet.</p>
+      ) : (
+        <ul className="max-h-48 overflow-y-auto divide-y divide-gray-800 rounded-lg border border-gray-800">
+          {roster.map(entry => (
+            <li key={entry.enrollment.id} className="flex items-center justify-between gap-2 px-3 py-1.5">
+              <span className="min-w-0">
+                <span className="block text-sm text-gray-200 truncate">{entry.enrollment.students.name}</span>
+                {entry.enrollment.schedule_id === null ? (
+                  <span className="block text-xs text-gray-500">
+                    Enrolled in {entry.enrollment.grade} {entry.enrollment.curriculum}
+                    {entry.enrollment.subject ? ` ${entry.enrollment.subject}` : ''}
+                  </span>
+                ) : entry.enrollment.schedule_id !== schedule.id && (
+                  <span className="block text-xs text-gray-500">Enrolled in the class this was moved from</span>
+                )}
+              </span>
+              {canEnroll && entry.enrollment.schedule_id === schedule.id && (
+                <button
+                  onClick={() => handleRemove(entry)}
+                  className="p-1 text-gray-400 hover:text-red-400 hover:bg-red-400/10 rounded transition-colors"
+                  title="Remove from Class"
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canEnroll && !loading && (
+        <div className="mt-2 flex flex-col sm:flex-row gap-2">
+          <select
+            value={studentId}
+            onChange={e => setStudentId(e.target.value)}
+            className="flex-1 px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">
+              {available.length === 0 ? 'No other students' : 'Choose a student to enroll'}
+            </option>
+            {available.map(student => (
+              <option key={student.id} value={student.id}>
+                {student.grade ? `${student.name} (${[student.grade, student.curriculum].filter(Boolean).join(' ')})` : student.name}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleEnroll}
+            disabled={!studentId || isFull}
+            title={isFull ? 'This class is full' : undefined}
+            className="flex items-center justify-center gap-1 px-4 py-2 bg-blue-600/20 hover:bg-blue-600/30 text-blue-300 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <UserPlusIcon className="h-4 w-4" />
+            Enroll
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,327 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { PlusIcon, XMarkIcon, TrashIcon, PencilIcon, SunIcon } from '@heroicons/react/24/outline';
+import { Closure, listClosures, createClosure, updateClosure, deleteClosure } from '../lib/repositories/closures';
+import { listSchedules } from '../lib/repositories/schedules';
+import { describeClosure } from '../lib/closures';
+import { parseDate } from '../lib/recurrence';
+import { can } from '../lib/roles';
+
+interface ClosureFormData {
+  title: string;
+  start_date: string;
+  end_date: string;
+  // Empty closes every grade
+  grades: string[];
+}
+
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+export default function Closures() {
+  const [closures, setClosures] = useState<Closure[]>([]);
+  const [grades, setGrades] = useState<string[]>([]);
+  const [showPast, setShowPast] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editedClosure, setEditedClosure] = useState<Closure | null>(null);
+  const [formData, setFormData] = useState<ClosureFormData>({ title: '', start_date: today(), end_date: today(), grades: [] });
+
+  useEffect(() => {
+    fetchClosures(showPast);
+  }, [showPast]);
+
+  const fetchClosures = async (past: boolean) => {
+    try {
+      setLoading(true);
+      const [closureRows, scheduleRows] = await Promise.all([
+        listClosures(past ? undefined : today()),
+        listSchedules()
+      ]);
+      setClosures(closureRows);
+      // The grades classes are given in, plus any an older closure names
+      setGrades([...new Set([
+        ...scheduleRows.map(schedule => schedule.grade),
+        ...closureRows.flatMap(closure => closure.grades || [])
+      ])].filter(Boolean).sort());
+      setError(null);
+    } catch (error) {
+      console.error('Error fetching closures:', error);
+      setError('Failed to load closures. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openForm = (closure: Closure | null) => {
+    setEditedClosure(closure);
+    setFormData(closure
+      ? { title: closure.title, start_date: closure.start_date, end_date: closure.end_date, grades: closure.grades || [] }
+      : { title: '', start_date: today(), end_date: today(), grades: [] });
+    setIsFormOpen(true);
+  };
+
+  const toggleGrade = (grade: string) => {
+    setFormData(prev => ({
+      ...prev,
+      grades: prev.grades.includes(grade) ? prev.grades.filter(g => g !== grade) : [...prev.grades, grade]
+    }));
+  };
+
+  const handleSave = async () => {
+    const title = formData.title.trim();
+
+    if (!title) {
+      setError('Please give the closure a title');
+      return;
+    }
+    if (!formData.start_date || !formData.end_date) {
+      setError('Please choose the first and last day of the closure');
+      return;
+    }
+    if (formData.end_date < formData.start_date) {
+      setError('The closure must end on or after the day it starts');
+      return;
+    }
+
+    const closure = {
+      title,
+      start_date: formData.start_date,
+      end_date: formData.end_date,
+      grades: formData.grades.length > 0 ? [...formData.grades].sort() : null
+    };
+
+    try {
+      if (editedClosure) {
+        await updateClosure(editedClosure.id, closure);
+      } else {
+        await createClosure(closure);
+      }
+
+      setIsFormOpen(false);
+      setError(null);
+      fetchClosures(showPast);
+    } catch (error) {
+      console.error('Error saving closure:', error);
+      setError('Failed to save closure. Please try again.');
+    }
+  };
+
+  const handleDelete = async (closure: Closure) => {
+    if (!window.confirm(`Delete "${describeClosure(closure)}"? Its classes will run again.`)) return;
+
+    try {
+      await deleteClosure(closure.id);
+      fetchClosures(showPast);
+    } catch (error) {
+      console.error('Error deleting closure:', error);
+      setError('Failed to delete closure. Please try again.');
+    }
+  };
+
+  return (
+    <div className="min-h-full bg-gradient-to-br from-[#0a0a0a] to-[#111827] text-gray-200">
+      <div className="container mx-auto px-4 py-6">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6">
+          <div className="mb-4 md:mb-0">
+            <h1 className="text-2xl font-bold text-white flex items-center">
+              <SunIcon className="h-6 w-6 mr-2 text-blue-500" />
+              Closures
+            </h1>
+            <p className="text-gray-400 mt-1">
+              Holidays and breaks when classes don't run, for every grade or only some
+            </p>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={showPast}
+                onChange={e => setShowPast(e.target.checked)}
+                className="rounded border-gray-600 bg-gray-800 text-blue-500 focus:ring-blue-500"
+              />
+              Show past
+            </label>
+            {can('schedule.edit') && (
+              <button
+                onClick={() => openForm(null)}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg flex items-center justify-center whitespace-nowrap"
+              >
+                <PlusIcon className="h-5 w-5 mr-1" />
+                Add Closure
+              </button>
+            )}
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-900/20 border border-red-800/30 rounded-lg text-red-200">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+          </div>
+        ) : closures.length === 0 ? (
+          <div className="flex flex-col items-center justify-center bg-gray-800/30 rounded-xl p-8 border border-gray-700/50">
+            <SunIcon className="h-12 w-12 text-gray-600 mb-3" />
+            <p className="text-gray-500">No {showPast ? '' : 'upcoming '}closures.</p>
+          </div>
+        ) : (
+          <div className="bg-gray-800/40 border border-gray-700/50 rounded-xl divide-y divide-gray-700/50">
+            {closures.map(closure => (
+              <div key={closure.id} className="flex items-center gap-4 px-4 py-3">
+                <div className="w-44 flex-shrink-0 text-sm text-gray-300">
+                  {format(parseDate(closure.start_date), 'EEE, MMM d, yyyy')}
+                  {closure.end_date !== closure.start_date && (
+                    <div className="text-gray-500">to {format(parseDate(closure.end_date), 'EEE, MMM d, yyyy')}</div>
+                  )}
+                </div>
+
+                <div className="min-w-0 flex-1">
+                  <div className="text-white font-medium truncate">{closure.title}</div>
+                  <div className="text-xs text-gray-400">
+                    {closure.grades ? closure.grades.join(', ') : 'All grades'}
+                    {closure.calendar_event_id && <span className="ml-2 text-gray-500">• From a holiday on the calendar</span>}
+                  </div>
+                </div>
+
+                {/* A holiday's closure is changed through its calendar event in the Site Editor */}
+                {can('schedule.edit') && !closure.calendar_event_id && (
+                  <div className="flex-shrink-0 flex space-x-1">
+                    <button
+                      onClick={() => openForm(closure)}
+                      className="p-1 text-gray-300 hover:text-blue-400 hover:bg-blue-400/10 rounded transition-colors"
+                      title="Edit Closure"
+                    >
+                      <PencilIcon className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(closure)}
+                      className="p-1 text-gray-300 hover:text-red-400 hover:bg-red-400/10 rounded transition-colors"
+                      title="Delete Closure"
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Add / Edit Closure Modal */}
+      {isFormOpen && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={() => setIsFormOpen(false)}>
+          <div
+            className="bg-gray-900 rounded-xl border border-gray-700/50 shadow-2xl w-full max-w-md overflow-hidden"
+            onClick={e => e.stopPropagation()}
+          >
+            <div className="relative">
+              <div className="absolute inset-0 bg-gradient-to-r from-blue-600 to-sky-400 opacity-90"></div>
+              <div className="relative p-5 flex justify-between items-center">
+                <h3 className="text-xl font-bold text-white">{editedClosure ? 'Edit Closure' : 'Add Closure'}</h3>
+                <button
+                  onClick={() => setIsFormOpen(false)}
+                  className="text-white hover:bg-white/20 rounded-full p-1 transition-colors"
+                >
+                  <XMarkIcon className="h-6 w-6" />
+                </button>
+              </div>
+            </div>
+
+            <div className="p-5 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-1">Title</label>
+                <input
+                  type="text"
+                  value={formData.title}
+                  onChange={e => setFormData({ ...formData, title: e.target.value })}
+                  className="w-full px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                  placeholder="e.g. Spring Break"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-1">First day</label>
+                  <input
+                    type="date"
+                    value={formData.start_date}
+                    onChange={e => setFormData({
+                      ...formData,
+                      start_date: e.target.value,
+                      // Keep the range valid when moving the start past the end
+                      end_date: formData.end_date < e.target.value ? e.target.value : formData.end_date
+                    })}
+                    className="w-full px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-1">Last day</label>
+                  <input
+                    type="date"
+                    value={formData.end_date}
+                    min={formData.start_date}
+                    onChange={e => setFormData({ ...formData, end_date: e.target.value })}
+                    className="w-full px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-1">Grades</label>
+                <label className="flex items-center gap-2 text-sm text-gray-300 mb-2">
+                  <input
+                    type="checkbox"
+                    checked={formData.grades.length === 0}
+                    onChange={() => setFormData({ ...formData, grades: formData.grades.length === 0 && grades.length > 0 ? [grades[0]] : [] })}
+                    className="rounded border-gray-600 bg-gray-800 text-blue-500 focus:ring-blue-500"
+                  />
+                  All grades
+                </label>
+                {formData.grades.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {grades.map(grade => (
+                      <button
+                        key={grade}
+                        type="button"
+                        onClick={() => toggleGrade(grade)}
+                        className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                          formData.grades.includes(grade)
+                            ? 'bg-blue-600/40 border-blue-500 text-blue-100'
+                            : 'bg-gray-800 border-gray-700 text-gray-400 hover:text-gray-200'
+                        }`}
+                      >
+                        {grade}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="border-t border-gray-800 p-4 flex justify-end space-x-3">
+              <button
+                onClick={() => setIsFormOpen(false)}
+                className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                className="px-4 py-2 bg-gradient-to-r from-blue-600 to-sky-500 hover:from-blue-500 hover:to-sky-400 text-white font-medium rounded-lg shadow-md hover:shadow-lg transition-all duration-300"
+              >
+                {editedClosure ? 'Save Closure' : 'Add Closure'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
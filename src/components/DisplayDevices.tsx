@@ -0,0 +1,261 @@
+import { useState, useEffect } from 'react';
+import {
+  DisplayDevice,
+  listDisplayDevices,
+  createDisplayPairingCode,
+  revokeDisplayDevice,
+  deleteDisplayDevice
+} from '../lib/repositories/displays';
+import { PlusIcon, XMarkIcon, TrashIcon, NoSymbolIcon, TvIcon } from '@heroicons/react/24/outline';
+
+interface PairingCode {
+  code: string;
+  expiresAt: string;
+  name: string;
+}
+
+const getDeviceStatus = (device: DisplayDevice) => {
+  if (device.revoked_at) return { label: 'Revoked', className: 'bg-red-900/50 text-red-200' };
+  if (device.paired_at) return { label: 'Paired', className: 'bg-green-900/50 text-green-200' };
+  if (device.pairing_expires_at && new Date(device.pairing_expires_at) > new Date()) {
+    return { label: 'Awaiting pairing', className: 'bg-yellow-900/50 text-yellow-200' };
+  }
+  return { label: 'Code expired', className: 'bg-gray-700 text-gray-300' };
+};
+
+export default function DisplayDevices() {
+  const [devices, setDevices] = useState<DisplayDevice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [pairingCode, setPairingCode] = useState<PairingCode | null>(null);
+
+  useEffect(() => {
+    fetchDevices();
+  }, []);
+
+  const fetchDevices = async () => {
+    try {
+      setLoading(true);
+      setDevices(await listDisplayDevices());
+      setError(null);
+    } catch (error) {
+      console.error('Error fetching displays:', error);
+      setError('Failed to load displays. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreateCode = async () => {
+    try {
+      if (!newName.trim()) {
+        setError('Please give the display a name');
+        return;
+      }
+
+      const row = await createDisplayPairingCode(newName.trim());
+
+      setPairingCode({ code: row.code, expiresAt: row.expires_at, name: newName.trim() });
+      setIsAddModalOpen(false);
+      setNewName('');
+      setError(null);
+      fetchDevices();
+    } catch (error) {
+      console.error('Error creating pairing code:', error);
+      setError('Failed to create a pairing code. Please try again.');
+    }
+  };
+
+  const handleRevoke = async (device: DisplayDevice) => {
+    if (!window.confirm(`Revoke "${device.name}"? The screen will need a new pairing code.`)) return;
+
+    try {
+      await revokeDisplayDevice(device.id);
+      fetchDevices();
+    } catch (error) {
+      console.error('Error revoking display:', error);
+      setError('Failed to revoke display. Please try again.');
+    }
+  };
+
+  const handleDelete = async (device: DisplayDevice) => {
+    if (!window.confirm(`Remove "${device.name}" from the list?`)) return;
+
+    try {
+      await deleteDisplayDevice(device.id);
+      setDevices(prev => prev.filter(d => d.id !== device.id));
+    } catch (error) {
+      console.error('Error deleting display:', error);
+      setError('Failed to remove display. Please try again.');
+    }
+  };
+
+  return (
+    <div className="min-h-full bg-gradient-to-br from-[#0a0a0a] to-[#111827] text-gray-200">
+      <div className="container mx-auto px-4 py-6">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6">
+          <div className="mb-4 md:mb-0">
+            <h1 className="text-2xl font-bold text-white flex items-center">
+              <TvIcon className="h-6 w-6 mr-2 text-blue-500" />
+              Displays
+            </h1>
+            <p className="text-gray-400 mt-1">
+              Pair presentation screens and revoke them when they are no longer needed
+            </p>
+          </div>
+
+          <button
+            onClick={() => {
+              setNewName('');
+              setIsAddModalOpen(true);
+            }}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg flex items-center justify-center whitespace-nowrap"
+          >
+            <PlusIcon className="h-5 w-5 mr-1" />
+            Pair Display
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-900/20 border border-red-800/30 rounded-lg text-red-200">
+            {error}
+          </div>
+        )}
+
+        {pairingCode && (
+          <div className="mb-6 p-5 bg-blue-900/20 border border-blue-800/30 rounded-xl flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div>
+              <p className="text-blue-200">
+                Open <span className="font-mono">/presentation</span> on <span className="font-medium">{pairingCode.name}</span> and enter this code:
+              </p>
+              <p className="text-xs text-blue-300/70 mt-1">
+                Valid until {new Date(pairingCode.expiresAt).toLocaleTimeString()} and can only be used once.
+              </p>
+            </div>
+            <div className="flex items-center gap-3">
+              <span className="font-mono text-3xl tracking-[0.3em] text-white">{pairingCode.code}</span>
+              <button
+                onClick={() => setPairingCode(null)}
+                className="p-1 text-gray-300 hover:bg-white/10 rounded-full transition-colors"
+                aria-label="Dismiss"
+              >
+                <XMarkIcon className="h-5 w-5" />
+              </button>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+          </div>
+        ) : devices.length === 0 ? (
+          <div className="flex flex-col items-center justify-center bg-gray-800/30 rounded-xl p-8 border border-gray-700/50">
+            <TvIcon className="h-12 w-12 text-gray-600 mb-3" />
+            <p className="text-gray-500">No displays have been paired yet.</p>
+          </div>
+        ) : (
+          <div className="bg-gray-800/40 border border-gray-700/50 rounded-xl overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-800/60 text-gray-400 text-left">
+                <tr>
+                  <th className="px-4 py-3 font-medium">Name</th>
+                  <th className="px-4 py-3 font-medium">Status</th>
+                  <th className="px-4 py-3 font-medium hidden sm:table-cell">Last seen</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {devices.map(device => {
+                  const status = getDeviceStatus(device);
+                  return (
+                    <tr key={device.id} className="border-t border-gray-700/50">
+                      <td className="px-4 py-3 text-white">{device.name}</td>
+                      <td className="px-4 py-3">
+                        <span className={`px-2 py-0.5 rounded text-xs ${status.className}`}>{status.label}</span>
+                      </td>
+                      <td className="px-4 py-3 text-gray-400 hidden sm:table-cell">
+                        {device.last_seen_at ? new Date(device.last_seen_at).toLocaleString() : 'Never'}
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex justify-end space-x-1">
+                          {!device.revoked_at && (
+                            <button
+                              onClick={() => handleRevoke(device)}
+                              className="p-1 text-gray-300 hover:text-amber-400 hover:bg-amber-400/10 rounded transition-colors"
+                              title="Revoke Display"
+                            >
+                              <NoSymbolIcon className="h-4 w-4" />
+                            </button>
+                          )}
+                          <button
+                            onClick={() => handleDelete(device)}
+                            className="p-1 text-gray-300 hover:text-red-400 hover:bg-red-400/10 rounded transition-colors"
+                            title="Remove Display"
+                          >
+                            <TrashIcon className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Pair Display Modal */}
+      {isAddModalOpen && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={() => setIsAddModalOpen(false)}>
+          <div
+            className="bg-gray-900 rounded-xl border border-gray-700/50 shadow-2xl w-full max-w-md overflow-hidden"
+            onClick={e => e.stopPropagation()}
+          >
+            <div className="relative">
+              <div className="absolute inset-0 bg-gradient-to-r from-blue-600 to-sky-400 opacity-90"></div>
+              <div className="relative p-5 flex justify-between items-center">
+                <h3 className="text-xl font-bold text-white">Pair Display</h3>
+                <button
+                  onClick={() => setIsAddModalOpen(false)}
+                  className="text-white hover:bg-white/20 rounded-full p-1 transition-colors"
+                >
+                  <XMarkIcon className="h-6 w-6" />
+                </button>
+              </div>
+            </div>
+
+            <div className="p-5">
+              <label className="block text-sm font-medium text-gray-400 mb-1">Display name</label>
+              <input
+                type="text"
+                value={newName}
+                onChange={e => setNewName(e.target.value)}
+                className="w-full px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                placeholder="e.g. Reception TV"
+              />
+            </div>
+
+            <div className="border-t border-gray-800 p-4 flex justify-end space-x-3">
+              <button
+                onClick={() => setIsAddModalOpen(false)}
+                className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleCreateCode}
+                className="px-4 py-2 bg-gradient-to-r from-blue-600 to-sky-500 hover:from-blue-500 hover:to-sky-400 text-white font-medium rounded-lg shadow-md hover:shadow-lg transition-all duration-300"
+              >
+                Create Code
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState, useEffect } from 'react';
+import PresentationView from './PresentationView';
+import { useSession } from '../hooks/useSession';
+import { ROUTE_ROLES } from '../lib/roles';
+import { PairedDisplay, redeemPairingCode, validateDisplayDevice } from '../lib/displayDevices';
+import { TvIcon } from '@heroicons/react/24/outline';
+
+// Shows the presentation to staff allowed to see it and to paired screens; everything
+// else gets the pairing form
+export default function DisplayGate() {
+  const { session, loading: sessionLoading } = useSession();
+  const [display, setDisplay] = useState<PairedDisplay | null>(null);
+  const [checkingDisplay, setCheckingDisplay] = useState(true);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [isPairing, setIsPairing] = useState(false);
+
+  const isAllowedStaff = session !== null && ROUTE_ROLES.presentation.includes(session.role);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    validateDisplayDevice()
+      .then(paired => {
+        if (!cancelled) setDisplay(paired);
+      })
+      .catch(err => {
+        console.error('Error validating display:', err);
+      })
+      .finally(() => {
+        if (!cancelled) setCheckingDisplay(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handlePair = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsPairing(true);
+    setError('');
+
+    try {
+      const paired = await redeemPairingCode(code);
+      if (paired) {
+        setDisplay(paired);
+      } else {
+        setError('That code is invalid or has expired');
+      }
+    } catch (err) {
+      console.error('Error pairing display:', err);
+      setError('Unable to pair right now. Please try again.');
+    } finally {
+      setIsPairing(false);
+    }
+  };
+
+  if (sessionLoading || checkingDisplay) {
+    return (
+      <div className="min-h-screen bg-[#0a0a0a] flex items-center justify-center">
+        <div className="w-10 h-10 border-4 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (isAllowedStaff || display) {
+    return <PresentationView />;
+  }
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0a] flex items-center justify-center p-4">
+      <form
+        onSubmit={handlePair}
+        className="w-full max-w-md bg-gray-900/80 border border-gray-800 rounded-2xl shadow-2xl p-8 space-y-6"
+      >
+        <div className="flex flex-col items-center text-center">
+          <TvIcon className="h-12 w-12 text-blue-500 mb-3" />
+          <h1 className="text-2xl font-bold text-white">Pair this display</h1>
+          <p className="text-gray-400 mt-2 text-sm">
+            Ask an admin to create a pairing code from Dashboard &gt; Displays and enter it below.
+          </p>
+        </div>
+
+        <input
+          type="text"
+          value={code}
+          onChange={e => setCode(e.target.value.toUpperCase())}
+          placeholder="Pairing code"
+          autoFocus
+          className="w-full px-4 py-3 bg-gray-800/80 border border-gray-700 rounded-lg text-center text-2xl tracking-[0.3em] font-mono text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+
+        {error && (
+          <p className="text-sm text-red-400 text-center">{error}</p>
+        )}
+
+        <button
+          type="submit"
+          disabled={isPairing || !code.trim()}
+          className="w-full px-4 py-3 bg-gradient-to-r from-blue-600 to-sky-500 hover:from-blue-500 hover:to-sky-400 text-white font-medium rounded-lg shadow-md transition-all duration-300 disabled:opacity-70"
+        >
+          {isPairing ? 'Pairing...' : 'Pair Display'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { cloudinaryConfig } from '../lib/cloudinaryConfig';
-import { supabase, ensureAuthenticated } from '../lib/supabaseClient';
+import { cloudinaryConfig, createSignedUploadForm } from '../lib/cloudinaryConfig';
+import { GalleryImage, listGalleryTags, createGalleryImage } from '../lib/repositories/gallery';
 
 interface GalleryImageUploaderProps {
   onImageUploaded: (imageData: ImageMetadata) => void;
@@ -8,14 +8,7 @@ interface GalleryImageUploaderProps {
   allowMultiple?: boolean;
 }
 
-// Define interface for image metadata
-export interface ImageMetadata {
-  id: string;
-  public_id: string;
-  image_url: string;
-  tags: string[];
-  upload_date: string;
-}
+export type ImageMetadata = GalleryImage;
 
 export default function GalleryImageUploader({ 
   onImageUploaded, 
@@ -68,24 +61,7 @@ export default function GalleryImageUploader({
 
   const fetchExistingTags = async () => {
     try {
-      const { data, error } = await supabase
-        .from('gallery_images')
-        .select('tags');
-      
-      if (error) {
-        console.error('Error fetching tags:', error);
-        return;
-      }
-      
-      // Extract all unique tags from the data
-      const allTags = data
-        .flatMap(item => item.tags || [])
-        .filter(Boolean);
-      
-      // Remove duplicates
-      const uniqueTags = [...new Set(allTags)];
-      
-      setExistingTags(uniqueTags);
+      setExistingTags(await listGalleryTags());
     } catch (err) {
       console.error('Error fetching existing tags:', err);
     }
@@ -165,23 +141,24 @@ export default function GalleryImageUploader({
   };
 
   const uploadSingleFile = async (file: File, index: number): Promise<any> => {
-    return new Promise((resolve, reject) => {
-      // Create form data for upload
-      const formData = new FormData();
-      formData.append('file', file);
-      formData.append('upload_preset', 'store_images');
-      formData.append('folder', 'galleryimages');
-      
-      // Generate a unique public_id to avoid conflicts
-      const uniqueId = `gallery_${Date.now()}_${index}`;
-      formData.append('public_id', uniqueId);
-      
-      // Add tags if provided
-      const tagArray = tags.trim() ? tags.split(',').map(tag => tag.trim()) : [];
-      if (tagArray.length > 0) {
-        formData.append('tags', tagArray.join(','));
-      }
+    // Generate a unique public_id to avoid conflicts
+    const uniqueId = `gallery_${Date.now()}_${index}`;
+    const params: Record<string, string> = {
+      upload_preset: 'store_images',
+      folder: 'galleryimages',
+      public_id: uniqueId
+    };
+
+    // Add tags if provided
+    const tagArray = tags.trim() ? tags.split(',').map(tag => tag.trim()) : [];
+    if (tagArray.length > 0) {
+      params.tags = tagArray.join(',');
+    }
+
+    // Create signed form data for upload
+    const formData = await createSignedUploadForm(file, params);
 
+    return new Promise((resolve, reject) => {
       // Use XMLHttpRequest to track upload progress
       const xhr = new XMLHttpRequest();
       xhr.open('POST', `https://api.cloudinary.com/v1_1/${cloudinaryConfig.cloudName}/image/upload`);
@@ -288,9 +265,6 @@ export default function GalleryImageUploader({
     setIsUploading(true);
     
     try {
-      // Ensure we're authenticated before saving to Supabase
-      await ensureAuthenticated();
-      
       // Parse tags from the input
       const tagArray = tags.trim() 
         ? tags.split(',').map(tag => tag.trim()).filter(tag => tag) 
@@ -300,24 +274,17 @@ export default function GalleryImageUploader({
       const savedImages: ImageMetadata[] = [];
       
       for (const imageData of uploadedImagesData) {
-        const { data, error } = await supabase
-          .from('gallery_images')
-          .insert([{
+        try {
+          savedImages.push(await createGalleryImage({
             image_url: imageData.secure_url,
             public_id: imageData.public_id,
             tags: tagArray,
             upload_date: new Date().toISOString()
-          }])
-          .select()
-          .single();
-        
-        if (error) {
+          }));
+        } catch (error) {
           console.error('Error saving to Supabase:', error);
-          setError(`Database error: ${error.message}`);
-          continue;
+          setError(`Database error: ${(error as Error).message}`);
         }
-        
-        savedImages.push(data);
       }
       
       // Reset the form
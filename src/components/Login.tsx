@@ -1,30 +1,36 @@
 import { useState } from 'react';
+import { signIn } from '../lib/auth';
 
 export default function Login() {
+  const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
+    setError('');
     
-    // Simulate a slight delay for better UX
-    setTimeout(() => {
-      if (password === 'continental') {
-        localStorage.setItem('isAuthenticated', 'true');
-        window.location.href = '/dashboard';
+    try {
+      const session = await signIn(username, password);
+      if (session) {
+        // Display devices go straight to the presentation screen
+        window.location.href = session.role === 'display' ? '/presentation' : '/dashboard';
       } else {
-        setError('Incorrect password');
+        setError('Incorrect username or password');
         setIsLoading(false);
       }
-    }, 800);
+    } catch (err) {
+      console.error('Error signing in:', err);
+      setError('Unable to sign in right now. Please try again.');
+      setIsLoading(false);
+    }
   };
 
   const handlePresentationView = () => {
     setIsLoading(true);
     setTimeout(() => {
-      localStorage.setItem('isAuthenticated', 'true');
       window.location.href = '/presentation';
     }, 500);
   };
@@ -32,7 +38,6 @@ export default function Login() {
   const handleTeacherSchedule = () => {
     setIsLoading(true);
     setTimeout(() => {
-      localStorage.setItem('isAuthenticated', 'false');
       window.location.href = '/teacher-schedule';
     }, 500);
   };
@@ -68,6 +73,23 @@ export default function Login() {
           </div>
           
           <form className="space-y-6" onSubmit={handleSubmit}>
+            <div className="space-y-2">
+              <label htmlFor="username" className="block text-sm font-medium text-gray-300">
+                Username
+              </label>
+              <input
+                id="username"
+                name="username"
+                type="text"
+                autoComplete="username"
+                required
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                className="w-full px-4 py-3 bg-gray-800/80 border border-gray-700 rounded-lg text-gray-200 shadow-inner focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                placeholder="Enter username"
+              />
+            </div>
+
             <div className="space-y-2">
               <label htmlFor="password" className="block text-sm font-medium text-gray-300">
                 Password
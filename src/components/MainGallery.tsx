@@ -1,17 +1,16 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import GalleryImageUploader from './GalleryImageUploader';
-import { supabase, ensureAuthenticated } from '../lib/supabaseClient';
-import { cloudinaryConfig } from '../lib/cloudinaryConfig';
+import {
+  GalleryImage,
+  listGalleryImages,
+  listGalleryTags,
+  updateGalleryImageTags,
+  deleteGalleryImage
+} from '../lib/repositories/gallery';
+import { deleteCloudinaryAssets } from '../lib/cloudinaryConfig';
+import { can } from '../lib/roles';
 import { PencilIcon, TrashIcon, XMarkIcon, MagnifyingGlassIcon, PlusIcon, TagIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
 
-interface GalleryImage {
-  id: string;
-  image_url: string;
-  public_id: string;
-  tags: string[];
-  upload_date: string;
-}
-
 export default function MainGallery() {
   const [showAddModal, setShowAddModal] = useState(false);
   const [showBulkTagModal, setShowBulkTagModal] = useState(false);
@@ -29,6 +28,7 @@ export default function MainGallery() {
   const [viewMode, setViewMode] = useState<'all' | 'byTag'>('all');
   const [bulkDeleteProgress, setBulkDeleteProgress] = useState(0);
   const [isBulkDeleting, setIsBulkDeleting] = useState(false);
+  const canDelete = can('gallery.delete');
 
   // Effect to fetch all unique tags
   useEffect(() => {
@@ -74,9 +74,6 @@ export default function MainGallery() {
     }
 
     try {
-      // Ensure we're authenticated
-      await ensureAuthenticated();
-      
       // Parse the tags from the comma-separated string
       const tagArray = bulkTags.split(',').map(tag => tag.trim()).filter(Boolean);
       
@@ -108,12 +105,9 @@ export default function MainGallery() {
           // Combine existing tags with new tags, removing duplicates
           const combinedTags = [...new Set([...image.tags, ...tagArray])];
           
-          const { error } = await supabase
-            .from('gallery_images')
-            .update({ tags: combinedTags })
-            .eq('id', id);
-          
-          if (error) {
+          try {
+            await updateGalleryImageTags(id, combinedTags);
+          } catch (error) {
             console.error('Error updating tags for image', id, error);
           }
           
@@ -159,9 +153,6 @@ export default function MainGallery() {
     setBulkDeleteProgress(0);
     
     try {
-      // Ensure we're authenticated
-      await ensureAuthenticated();
-      
       const totalImages = filteredImages.length;
       let processed = 0;
       
@@ -179,25 +170,10 @@ export default function MainGallery() {
         const deletePromises = batch.map(async (image) => {
           try {
             // 1. Delete from Cloudinary
-            const timestamp = Math.round(new Date().getTime() / 1000);
-            const signature = await generateSignature(`public_id=${image.public_id}&timestamp=${timestamp}`);
-            
-            const formData = new FormData();
-            formData.append('public_id', image.public_id);
-            formData.append('signature', signature);
-            formData.append('api_key', cloudinaryConfig.apiKey);
-            formData.append('timestamp', timestamp.toString());
-            
-            await fetch(`https://api.cloudinary.com/v1_1/${cloudinaryConfig.cloudName}/image/destroy`, {
-              method: 'POST',
-              body: formData
-            });
+            await deleteCloudinaryAssets([image.public_id]);
             
             // 2. Delete from Supabase
-            await supabase
-              .from('gallery_images')
-              .delete()
-              .eq('id', image.id);
+            await deleteGalleryImage(image.id);
             
             return image.id;
           } catch (err) {
@@ -247,27 +223,7 @@ export default function MainGallery() {
 
   const fetchAllTags = async () => {
     try {
-      // Ensure we're authenticated
-      await ensureAuthenticated();
-      
-      const { data, error } = await supabase
-        .from('gallery_images')
-        .select('tags');
-      
-      if (error) {
-        console.error('Error fetching tags:', error);
-        return;
-      }
-      
-      // Extract all unique tags
-      const allTagsArray = data
-        .flatMap(item => item.tags || [])
-        .filter(Boolean);
-      
-      // Remove duplicates and sort alphabetically
-      const uniqueTags = [...new Set(allTagsArray)].sort();
-      
-      setAllTags(uniqueTags);
+      setAllTags(await listGalleryTags());
     } catch (err) {
       console.error('Error fetching tags:', err);
     }
@@ -278,31 +234,11 @@ export default function MainGallery() {
     setError(null);
     
     try {
-      // Ensure we're authenticated before querying the database
-      await ensureAuthenticated();
-      
-      let query = supabase
-        .from('gallery_images')
-        .select('*')
-        .order('upload_date', { ascending: false });
-      
       // If a tag is provided, filter by that tag
-      if (tag && tag.trim()) {
-        query = query.contains('tags', [tag.trim()]);
-      }
-      
-      const { data, error } = await query;
-      
-      if (error) {
-        console.error('Error fetching images:', error);
-        setError('Failed to fetch images. Please check your database connection.');
-        return;
-      }
-      
-      setImages(data || []);
+      setImages(await listGalleryImages(tag?.trim() || undefined));
     } catch (err) {
-      console.error('Error in fetchImages:', err);
-      setError('An unexpected error occurred. Please try again.');
+      console.error('Error fetching images:', err);
+      setError('Failed to fetch images. Please check your database connection.');
     } finally {
       setLoading(false);
     }
@@ -316,39 +252,19 @@ export default function MainGallery() {
     setConfirmDelete(id);
     
     try {
-      // Ensure we're authenticated before deleting
-      await ensureAuthenticated();
-      
       // 1. Delete from Cloudinary
-      const timestamp = Math.round(new Date().getTime() / 1000);
-      const signature = await generateSignature(`public_id=${publicId}&timestamp=${timestamp}`);
-      
-      const formData = new FormData();
-      formData.append('public_id', publicId);
-      formData.append('signature', signature);
-      formData.append('api_key', cloudinaryConfig.apiKey);
-      formData.append('timestamp', timestamp.toString());
-      
-      const cloudinaryResponse = await fetch(`https://api.cloudinary.com/v1_1/${cloudinaryConfig.cloudName}/image/destroy`, {
-        method: 'POST',
-        body: formData
-      });
-      
-      if (!cloudinaryResponse.ok) {
-        const cloudinaryError = await cloudinaryResponse.json();
+      try {
+        const results = await deleteCloudinaryAssets([publicId]);
+        if (results[publicId] !== 'ok') {
+          console.error('Cloudinary deletion error:', results[publicId]);
+        }
+      } catch (cloudinaryError) {
         console.error('Cloudinary deletion error:', cloudinaryError);
         // Continue with database deletion even if Cloudinary fails
       }
       
       // 2. Delete from Supabase
-      const { error } = await supabase
-        .from('gallery_images')
-        .delete()
-        .eq('id', id);
-      
-      if (error) {
-        throw error;
-      }
+      await deleteGalleryImage(id);
       
       // 3. Update local state and refresh tags
       const deletedImage = images.find(img => img.id === id);
@@ -384,34 +300,6 @@ export default function MainGallery() {
     }
   };
 
-  const generateSignature = async (paramsToSign: string) => {
-    try {
-      // IMPORTANT SECURITY WARNING: This is NOT secure for production environments!
-      // In production, this function should call a secure backend API endpoint
-      // that keeps your API secret safe.
-      
-      // For development/testing purposes only:
-      const apiSecret = cloudinaryConfig.apiSecret;
-      if (!apiSecret) {
-        throw new Error('Missing Cloudinary API secret');
-      }
-      
-      // Generate the SHA-1 signature
-      const encoder = new TextEncoder();
-      const data = encoder.encode(paramsToSign + apiSecret);
-      const hashBuffer = await crypto.subtle.digest('SHA-1', data);
-      
-      // Convert the hash to a hex string
-      const hashArray = Array.from(new Uint8Array(hashBuffer));
-      const signature = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-      
-      return signature;
-    } catch (err) {
-      console.error('Error generating signature:', err);
-      throw err;
-    }
-  };
-
   const handleEditTags = (id: string, tagsString: string) => {
     setEditingTags(tagsString);
     setEditingTagsId(id);
@@ -421,21 +309,11 @@ export default function MainGallery() {
     if (!editingTags || !editingTagsId) return;
     
     try {
-      // Ensure we're authenticated
-      await ensureAuthenticated();
-      
       // Parse the tags from the comma-separated string
       const tagArray = editingTags.split(',').map(tag => tag.trim()).filter(Boolean);
       
       // Update the image in Supabase
-      const { error } = await supabase
-        .from('gallery_images')
-        .update({ tags: tagArray })
-        .eq('id', editingTagsId);
-      
-      if (error) {
-        throw error;
-      }
+      await updateGalleryImageTags(editingTagsId, tagArray);
       
       // Find the image being edited
       const editedImage = images.find(img => img.id === editingTagsId);
@@ -628,13 +506,15 @@ export default function MainGallery() {
               Rename All ({filteredImages.length} images)
             </button>
             
-            <button
-              onClick={() => setShowDeleteAllModal(true)}
-              className="px-4 py-2 bg-red-600/30 text-red-300 border border-red-500/30 rounded-lg hover:bg-red-600/40 transition-colors flex items-center text-sm"
-            >
-              <TrashIcon className="h-4 w-4 mr-2" />
-              Delete All ({filteredImages.length} images)
-            </button>
+            {canDelete && (
+              <button
+                onClick={() => setShowDeleteAllModal(true)}
+                className="px-4 py-2 bg-red-600/30 text-red-300 border border-red-500/30 rounded-lg hover:bg-red-600/40 transition-colors flex items-center text-sm"
+              >
+                <TrashIcon className="h-4 w-4 mr-2" />
+                Delete All ({filteredImages.length} images)
+              </button>
+            )}
           </div>
         )}
         
@@ -709,21 +589,23 @@ export default function MainGallery() {
                     >
                       <PencilIcon className="h-5 w-5 text-blue-400" />
                     </button>
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleRemoveImage(image.id, image.public_id);
-                      }}
-                      disabled={confirmDelete === image.id}
-                      className="p-1.5 rounded-full hover:bg-red-500/20 transition-all duration-200 disabled:opacity-50"
-                      aria-label="Delete image"
-                    >
-                      {confirmDelete === image.id ? (
-                        <div className="h-5 w-5 border-2 border-red-400 border-t-transparent rounded-full animate-spin"></div>
-                      ) : (
-                        <TrashIcon className="h-5 w-5 text-red-400" />
-                      )}
-                    </button>
+                    {canDelete && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleRemoveImage(image.id, image.public_id);
+                        }}
+                        disabled={confirmDelete === image.id}
+                        className="p-1.5 rounded-full hover:bg-red-500/20 transition-all duration-200 disabled:opacity-50"
+                        aria-label="Delete image"
+                      >
+                        {confirmDelete === image.id ? (
+                          <div className="h-5 w-5 border-2 border-red-400 border-t-transparent rounded-full animate-spin"></div>
+                        ) : (
+                          <TrashIcon className="h-5 w-5 text-red-400" />
+                        )}
+                      </button>
+                    )}
                   </div>
                   
                   <div className="text-xs text-gray-500 truncate max-w-[150px]">
@@ -1,19 +1,35 @@
 import { useState, useEffect } from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { Bars3Icon, XMarkIcon, ArrowRightOnRectangleIcon } from '@heroicons/react/24/outline';
+import { signOut } from '../lib/auth';
+import { StaffSession } from '../lib/session';
+import { ROUTE_ROLES } from '../lib/roles';
 
-export default function Navbar() {
+interface NavbarProps {
+  session: StaffSession;
+}
+
+export default function Navbar({ session }: NavbarProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [scrolled, setScrolled] = useState(false);
   const location = useLocation();
 
   const navigation = [
-    { name: 'Dashboard', href: '/dashboard' },
-    { name: 'Teacher Schedule', href: '/dashboard/teacher-schedule' },
-    { name: 'Site Editor', href: '/dashboard/site-editor' },
-    { name: 'Teachers', href: '/dashboard/teachers' },
-    { name: 'Presentation Editor', href: '/dashboard/presentation-editor' },
-  ];
+    { name: 'Dashboard', href: '/dashboard', roles: ROUTE_ROLES.dashboard },
+    { name: 'Teacher Schedule', href: '/dashboard/teacher-schedule', roles: ROUTE_ROLES.teacherSchedule },
+    { name: 'My Classes', href: '/dashboard/my-classes', roles: ROUTE_ROLES.teacherPortal },
+    { name: 'Site Editor', href: '/dashboard/site-editor', roles: ROUTE_ROLES.siteEditor },
+    { name: 'Teachers', href: '/dashboard/teachers', roles: ROUTE_ROLES.teachers },
+    { name: 'Rooms', href: '/dashboard/rooms', roles: ROUTE_ROLES.rooms },
+    { name: 'Students', href: '/dashboard/students', roles: ROUTE_ROLES.students },
+    { name: 'Closures', href: '/dashboard/closures', roles: ROUTE_ROLES.closures },
+    { name: 'Presentation Editor', href: '/dashboard/presentation-editor', roles: ROUTE_ROLES.presentationEditor },
+    { name: 'Schedule Requests', href: '/dashboard/schedule-requests', roles: ROUTE_ROLES.scheduleRequests },
+    { name: 'Displays', href: '/dashboard/displays', roles: ROUTE_ROLES.displays },
+    { name: 'Accounts', href: '/dashboard/accounts', roles: ROUTE_ROLES.accounts },
+    { name: 'Workload', href: '/dashboard/workload', roles: ROUTE_ROLES.workload },
+    { name: 'Audit Log', href: '/dashboard/audit', roles: ROUTE_ROLES.audit },
+  ].filter(item => item.roles.includes(session.role));
 
   // Add scroll effect
   useEffect(() => {
@@ -33,8 +49,8 @@ export default function Navbar() {
     return location.pathname === path || location.pathname.startsWith(`${path}/`);
   };
 
-  const handleLogout = () => {
-    localStorage.removeItem('isAuthenticated');
+  const handleLogout = async () => {
+    await signOut();
     window.location.href = '/login';
   };
 
@@ -75,7 +91,8 @@ export default function Navbar() {
                 </Link>
               ))}
             </div>
-            <div className="flex items-center">
+            <div className="flex items-center space-x-2">
+              <span className="text-sm text-gray-400">{session.username}</span>
               <button
                 onClick={handleLogout}
                 className="p-2 rounded-md text-gray-300 hover:text-red-400 hover:bg-red-500/10 transition-all duration-200"
@@ -1,16 +1,8 @@
 import { useState, useEffect } from 'react';
-import { supabase } from '../lib/supabase';
+import { NewsItem, listNews, createNews, updateNews, deleteNews } from '../lib/repositories/news';
 import { format } from 'date-fns';
 import { PencilIcon, TrashIcon } from '@heroicons/react/24/outline';
 
-interface NewsItem {
-  id: number;
-  title: string;
-  content: string;
-  created_at: string;
-  updated_at: string;
-}
-
 export default function News() {
   const [news, setNews] = useState<NewsItem[]>([]);
   const [loading, setLoading] = useState(true);
@@ -28,13 +20,7 @@ export default function News() {
 
   const fetchNews = async () => {
     try {
-      const { data, error } = await supabase
-        .from('news')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setNews(data || []);
+      setNews(await listNews());
     } catch (err) {
       console.error('Error fetching news:', err);
       setError('Failed to load news. Please try again later.');
@@ -50,16 +36,7 @@ export default function News() {
         return;
       }
 
-      const { data, error } = await supabase
-        .from('news')
-        .insert([{
-          title: newItem.title,
-          content: newItem.content
-        }])
-        .select()
-        .single();
-
-      if (error) throw error;
+      const data = await createNews(newItem.title, newItem.content);
 
       setNews([data, ...news]);
       setShowAddForm(false);
@@ -75,18 +52,7 @@ export default function News() {
     if (!editingNews) return;
 
     try {
-      const { data, error } = await supabase
-        .from('news')
-        .update({
-          title: editingNews.title,
-          content: editingNews.content,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', editingNews.id)
-        .select()
-        .single();
-
-      if (error) throw error;
+      const data = await updateNews(editingNews.id, editingNews.title, editingNews.content);
 
       setNews(news.map(item => item.id === data.id ? data : item));
       setEditingNews(null);
@@ -102,12 +68,7 @@ export default function News() {
     }
 
     try {
-      const { error } = await supabase
-        .from('news')
-        .delete()
-        .eq('id', id);
-
-      if (error) throw error;
+      await deleteNews(id);
 
       setNews(news.filter(item => item.id !== id));
     } catch (err) {
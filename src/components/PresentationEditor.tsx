@@ -1,36 +1,21 @@
 import React, { useState, useEffect } from 'react';
 import { PlusIcon, TrashIcon, ArrowPathIcon, CheckIcon, XMarkIcon } from '@heroicons/react/24/outline';
-import { supabase } from '../lib/supabase';
+import {
+  PresentationCategory as ImageCategory,
+  PresentationImage,
+  PresentationSettings,
+  getPresentationSettings,
+  savePresentationSettings,
+  updatePresentationSettings,
+  listPresentationCategories,
+  createPresentationCategory,
+  deletePresentationCategory,
+  listPresentationImages,
+  createPresentationImage,
+  deletePresentationImage
+} from '../lib/repositories/presentation';
 import { uploadImage, cloudinaryConfig } from '../lib/cloudinaryConfig';
 
-// Types definition
-interface ImageCategory {
-  id: string;
-  name: string;
-  created_at: string;
-  is_active: boolean;
-}
-
-interface PresentationImage {
-  id: string;
-  category_id: string;
-  image_url: string;
-  file_type: string;
-  created_at: string;
-}
-
-interface PresentationSettings {
-  id: string;
-  show_classes: boolean;
-  show_news: boolean;
-  fullscreen: boolean;
-  transition_speed: number;
-  display_duration?: number;
-  class_duration?: number;
-  active_category_id: string | null;
-  created_at: string;
-}
-
 const PresentationEditor: React.FC = () => {
   const [categories, setCategories] = useState<ImageCategory[]>([]);
   const [images, setImages] = useState<PresentationImage[]>([]);
@@ -55,24 +40,11 @@ const PresentationEditor: React.FC = () => {
 
     try {
       // Fetch categories
-      const { data: categoriesData, error: categoriesError } = await supabase
-        .from('presentation_categories')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (categoriesError) throw categoriesError;
-      setCategories(categoriesData || []);
+      const categoriesData = await listPresentationCategories();
+      setCategories(categoriesData);
 
       // Fetch settings
-      const { data: settingsData, error: settingsError } = await supabase
-        .from('presentation_settings')
-        .select('*')
-        .single();
-
-      if (settingsError && settingsError.code !== 'PGRST116') {
-        // PGRST116 is the error code for no rows returned
-        throw settingsError;
-      }
+      const settingsData = await getPresentationSettings();
 
       setSettings(settingsData || {
         id: '1',
@@ -83,11 +55,12 @@ const PresentationEditor: React.FC = () => {
         display_duration: 5,
         class_duration: 5,
         active_category_id: null,
-        created_at: new Date().toISOString()
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
       });
 
       // If we have categories and a selected active category, fetch its images
-      if (categoriesData?.length > 0) {
+      if (categoriesData.length > 0) {
         const activeCategory = settingsData?.active_category_id || categoriesData[0].id;
         setSelectedCategory(activeCategory);
         await fetchImagesForCategory(activeCategory);
@@ -103,15 +76,7 @@ const PresentationEditor: React.FC = () => {
   // Fetch images for a specific category
   const fetchImagesForCategory = async (categoryId: string) => {
     try {
-      const { data, error } = await supabase
-        .from('presentation_images')
-        .select('*')
-        .eq('category_id', categoryId)
-        .not('file_type', 'eq', 'ppt-original') // Exclude original PowerPoint files
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setImages(data || []);
+      setImages(await listPresentationImages(categoryId));
     } catch (err) {
       console.error('Error fetching images:', err);
       setError('Failed to load images. Please try again.');
@@ -131,14 +96,10 @@ const PresentationEditor: React.FC = () => {
     try {
       const newValue = !settings[setting];
       
-      const { error } = await supabase
-        .from('presentation_settings')
-        .upsert({
-          ...settings,
-          [setting]: newValue
-        });
-
-      if (error) throw error;
+      await savePresentationSettings({
+        ...settings,
+        [setting]: newValue
+      });
 
       setSettings({
         ...settings,
@@ -155,14 +116,10 @@ const PresentationEditor: React.FC = () => {
     if (!settings) return;
 
     try {
-      const { error } = await supabase
-        .from('presentation_settings')
-        .upsert({
-          ...settings,
-          active_category_id: categoryId
-        });
-
-      if (error) throw error;
+      await savePresentationSettings({
+        ...settings,
+        active_category_id: categoryId
+      });
 
       setSettings({
         ...settings,
@@ -179,26 +136,15 @@ const PresentationEditor: React.FC = () => {
     if (!newCategoryName.trim()) return;
 
     try {
-      const { data, error } = await supabase
-        .from('presentation_categories')
-        .insert([{
-          name: newCategoryName.trim(),
-          is_active: false
-        }])
-        .select()
-        .single();
-
-      if (error) throw error;
-
-      if (data) {
-        setCategories([data, ...categories]);
-        setNewCategoryName('');
-        setIsAddingCategory(false);
-        
-        // If this is the first category, select it
-        if (categories.length === 0) {
-          setSelectedCategory(data.id);
-        }
+      const data = await createPresentationCategory(newCategoryName.trim());
+
+      setCategories([data, ...categories]);
+      setNewCategoryName('');
+      setIsAddingCategory(false);
+      
+      // If this is the first category, select it
+      if (categories.length === 0) {
+        setSelectedCategory(data.id);
       }
     } catch (err) {
       console.error('Error creating category:', err);
@@ -213,21 +159,7 @@ const PresentationEditor: React.FC = () => {
     }
 
     try {
-      // First delete all images in this category
-      const { error: imagesError } = await supabase
-        .from('presentation_images')
-        .delete()
-        .eq('category_id', categoryId);
-
-      if (imagesError) throw imagesError;
-
-      // Then delete the category
-      const { error: categoryError } = await supabase
-        .from('presentation_categories')
-        .delete()
-        .eq('id', categoryId);
-
-      if (categoryError) throw categoryError;
+      await deletePresentationCategory(categoryId);
 
       // Update local state
       setCategories(categories.filter(cat => cat.id !== categoryId));
@@ -252,9 +184,7 @@ const PresentationEditor: React.FC = () => {
           active_category_id: nextCategory?.id || null
         };
         
-        await supabase
-          .from('presentation_settings')
-          .upsert(updatedSettings);
+        await savePresentationSettings(updatedSettings);
         
         setSettings(updatedSettings);
       }
@@ -302,18 +232,12 @@ const PresentationEditor: React.FC = () => {
           console.log('Cloudinary response:', cloudinaryResponse);
 
           // Save the image reference in Supabase
-          const { data, error } = await supabase
-            .from('presentation_images')
-            .insert([{
-              category_id: selectedCategory,
-              image_url: cloudinaryResponse.secure_url,
-              file_type: isPowerPoint ? 'ppt' : cloudinaryResponse.file_type
-            }])
-            .select()
-            .single();
-
-          if (error) throw error;
-          if (data) newImages.push(data);
+          const data = await createPresentationImage({
+            category_id: selectedCategory,
+            image_url: cloudinaryResponse.secure_url,
+            file_type: isPowerPoint ? 'ppt' : cloudinaryResponse.file_type
+          });
+          newImages.push(data);
           
           // For PowerPoint files, show a success message
           if (isPowerPoint) {
@@ -346,12 +270,7 @@ const PresentationEditor: React.FC = () => {
     }
 
     try {
-      const { error } = await supabase
-        .from('presentation_images')
-        .delete()
-        .eq('id', imageId);
-
-      if (error) throw error;
+      await deletePresentationImage(imageId);
 
       // Update local state
       setImages(images.filter(img => img.id !== imageId));
@@ -366,12 +285,7 @@ const PresentationEditor: React.FC = () => {
     if (!settings?.id) return;
     
     try {
-      const { error } = await supabase
-        .from('presentation_settings')
-        .update({ display_duration: value })
-        .eq('id', settings.id);
-      
-      if (error) throw error;
+      await updatePresentationSettings(settings.id, { display_duration: value });
       
       // Update local state
       setSettings({
@@ -389,12 +303,7 @@ const PresentationEditor: React.FC = () => {
     if (!settings?.id) return;
     
     try {
-      const { error } = await supabase
-        .from('presentation_settings')
-        .update({ class_duration: value })
-        .eq('id', settings.id);
-      
-      if (error) throw error;
+      await updatePresentationSettings(settings.id, { class_duration: value });
       
       // Update local state
       setSettings({
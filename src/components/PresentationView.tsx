@@ -1,65 +1,34 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { supabase } from '../lib/supabase';
-import { format } from 'date-fns';
-
-interface Teacher {
-  id: number;
-  name: string;
-  subject: string;
-}
-
-interface Schedule {
-  id: number;
-  teacher_id: number;
-  day: string;
-  start_time: string;
-  end_time: string;
-  room: string | null;
-  grade: string;
-  curriculum: string;
-  date_tag: string;
-  repeats: boolean;
-  subject: string;
-  teachers: Teacher;
-  canceled_dates?: string[];
-  description: string;
-  mode?: 'Mock' | 'Seminar' | 'Class';
-}
-
-interface PresentationSettings {
-  id: string;
-  show_classes: boolean;
-  show_news: boolean;
-  fullscreen: boolean;
-  transition_speed: number;
-  active_category_id: string | null;
-  display_duration?: number;
-  class_duration?: number;
-}
-
-interface PresentationImage {
-  id: string;
-  category_id: string;
-  image_url: string;
-  file_type: string;
-}
-
-interface CalendarEvent {
-  id: string;
-  title: string;
-  description: string;
-  event_date: string;
-}
-
-interface NewsItem {
-  id: string;
-  title: string;
-  content: string;
-  created_at: string;
-}
+import { Teacher } from '../lib/repositories/teachers';
+import { ScheduleWithTeacher as Schedule, listSchedules } from '../lib/repositories/schedules';
+import { occursOn, parseDate } from '../lib/recurrence';
+import {
+  ScheduleCancellationDetails,
+  MovedOccurrence,
+  listCancellations,
+  listMovedOccurrences
+} from '../lib/repositories/cancellations';
+import { ScheduleSubstitutionDetails, listSubstitutions } from '../lib/repositories/substitutions';
+import { Closure, listClosures } from '../lib/repositories/closures';
+import { getClosureFor, getClosureLabel } from '../lib/closures';
+import { CalendarEvent, listCalendarEvents } from '../lib/repositories/siteContent';
+import { NewsItem, listNews } from '../lib/repositories/news';
+import {
+  PresentationSettings,
+  PresentationImage,
+  getPresentationSettings,
+  listPresentationImages,
+  subscribeToPresentationSettings
+} from '../lib/repositories/presentation';
+import { format, isSameDay } from 'date-fns';
 
 const PresentationView: React.FC = () => {
   const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [cancellations, setCancellations] = useState<ScheduleCancellationDetails[]>([]);
+  const [movedOccurrences, setMovedOccurrences] = useState<MovedOccurrence[]>([]);
+  const [substitutions, setSubstitutions] = useState<ScheduleSubstitutionDetails[]>([]);
+  // Today's closures, shown as a banner in place of the classes they close
+  const [closures, setClosures] = useState<Closure[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [currentTime, setCurrentTime] = useState(new Date());
@@ -117,51 +86,25 @@ const PresentationView: React.FC = () => {
   const fetchPresentationData = useCallback(async () => {
     try {
       // Get settings
-      const { data: settingsData, error: settingsError } = await supabase
-        .from('presentation_settings')
-        .select('*')
-        .single();
-
-      if (settingsError) throw settingsError;
+      const settingsData = await getPresentationSettings();
       setSettings(settingsData);
 
       // Get active category images if available
       if (settingsData?.active_category_id) {
-        const { data: imagesData, error: imagesError } = await supabase
-          .from('presentation_images')
-          .select('*')
-          .eq('category_id', settingsData.active_category_id)
-          .not('file_type', 'eq', 'ppt-original') // Exclude original PPT files
-          .order('created_at', { ascending: false });
-
-        if (imagesError) throw imagesError;
+        const imagesData = await listPresentationImages(settingsData.active_category_id);
         console.log('Fetched presentation images:', imagesData);
-        setImages(imagesData || []);
+        setImages(imagesData);
       }
 
       // Get today's events if show_classes is true
       if (settingsData?.show_classes) {
         const today = new Date().toISOString().split('T')[0];
-        const { data: eventsData, error: eventsError } = await supabase
-          .from('calendar_events')
-          .select('*')
-          .eq('event_date', today)
-          .order('created_at', { ascending: true });
-
-        if (eventsError) throw eventsError;
-        setEvents(eventsData || []);
+        setEvents(await listCalendarEvents(today));
       }
 
       // Get recent news if show_news is true
       if (settingsData?.show_news) {
-        const { data: newsData, error: newsError } = await supabase
-          .from('news')
-          .select('*')
-          .order('created_at', { ascending: false })
-          .limit(5);
-
-        if (newsError) throw newsError;
-        setNews(newsData || []);
+        setNews(await listNews(5));
       }
     } catch (err) {
       console.error('Error fetching presentation data:', err);
@@ -176,20 +119,10 @@ const PresentationView: React.FC = () => {
     fetchPresentationData();
 
     // Set up real-time subscription for settings changes
-    const settingsSubscription = supabase
-      .channel('presentation_settings_changes')
-      .on('postgres_changes', 
-        { event: 'UPDATE', schema: 'public', table: 'presentation_settings' }, 
-        () => {
-          console.log('Presentation settings updated, refreshing data');
-          fetchPresentationData();
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(settingsSubscription);
-    };
+    return subscribeToPresentationSettings(() => {
+      console.log('Presentation settings updated, refreshing data');
+      fetchPresentationData();
+    });
   }, [fetchPresentationData]);
 
   // Image rotation effect
@@ -210,47 +143,28 @@ const PresentationView: React.FC = () => {
   useEffect(() => {
     async function fetchData() {
       try {
-        const { data: schedulesData, error: schedulesError } = await supabase
-          .from('class_schedules')
-          .select(`
-            *,
-            teachers (
-              id,
-              name,
-              subject
-            )
-          `)
-          .eq('day', format(currentTime, 'EEEE'))
-          .order('start_time');
-
-        if (schedulesError) throw schedulesError;
-        
-        // Filter schedules based on repeats and date
-        const today = new Date();
-        const todayFormatted = format(today, 'yyyy-MM-dd'); // Format today's date as yyyy-MM-dd to match date_tag format
-        
-        const filteredData = schedulesData?.filter(schedule => {
-          // If repeats is true, always show the class on its scheduled day
-          if (schedule.repeats) {
-            return true;
-          }
-          
-          // If repeats is false, only show if today's date matches the date_tag exactly
-          if (schedule.date_tag) {
-            return schedule.date_tag === todayFormatted;
-          }
-          
-          // Fallback to the old logic for backward compatibility
-          const hasRepeatTag = schedule.description?.includes('REPEAT');
-          const hasDateTag = schedule.description?.match(/DATE:([0-9/]+)/);
-          const todayMD = format(today, 'M/d'); // Format as M/d for legacy date tag comparison
-          
-          return hasRepeatTag || 
-            (hasDateTag ? hasDateTag[1] === todayMD : true);
-        });
+        // A class can run on several weekdays, so expand today's occurrences from every rule
+        const schedulesData = await listSchedules();
+
+        const today = format(currentTime, 'yyyy-MM-dd');
+        const [canceled, moved, covered, closed] = await Promise.all([
+          listCancellations(today, today),
+          listMovedOccurrences(today, today),
+          listSubstitutions(today, today),
+          listClosures(today, today)
+        ]);
+        setCancellations(canceled);
+        setMovedOccurrences(moved);
+        setSubstitutions(covered);
+        setClosures(closed);
+
+        // Classes of a grade the institute is closed for don't run at all today
+        const filteredData = schedulesData.filter(schedule =>
+          occursOn(schedule, currentTime) && !getClosureFor(closed, schedule.grade, currentTime)
+        );
         
         // Get currently active classes
-        const currentlyActive = filteredData?.filter(schedule => isScheduleActive(schedule)) || [];
+        const currentlyActive = filteredData.filter(schedule => isScheduleActive(schedule));
         setActiveClasses(currentlyActive);
         
         // Extract unique grades and teachers for filters
@@ -259,11 +173,13 @@ const PresentationView: React.FC = () => {
           const grades = [...new Set(filteredData.map(schedule => schedule.grade))].sort();
           setUniqueGrades(grades);
           
-          // Get unique teachers
+          // Get unique teachers, counting today's substitutes rather than the teachers they cover
           const teachersMap = new Map<number, Teacher>();
           filteredData.forEach(schedule => {
-            if (schedule.teachers && !teachersMap.has(schedule.teachers.id)) {
-              teachersMap.set(schedule.teachers.id, schedule.teachers);
+            const substitution = covered.find(s => s.schedule_id === schedule.id);
+            const teacher = substitution ? substitution.substitute : schedule.teachers;
+            if (teacher && !teachersMap.has(teacher.id)) {
+              teachersMap.set(teacher.id, teacher);
             }
           });
           setUniqueTeachers(Array.from(teachersMap.values()));
@@ -348,11 +264,34 @@ const PresentationView: React.FC = () => {
     return Math.round((elapsed / totalDuration) * 100);
   };
 
+  // "3:30 PM" from a time column
+  const formatClock = (time: string) => {
+    const [hour, minute] = time.split(':').map(Number);
+    const date = new Date();
+    date.setHours(hour, minute);
+    return format(date, 'h:mm a');
+  };
+
+  // "3:30 PM" for today, "Thu, May 14 3:30 PM" for another day
+  const formatSlot = (date: string, time: string) =>
+    isSameDay(parseDate(date), currentTime)
+      ? formatClock(time)
+      : `${format(parseDate(date), 'EEE, MMM d')} ${formatClock(time)}`;
+
+  // Today's substitute for a class, if its own teacher isn't teaching it
+  const getSubstitute = (schedule: Schedule) =>
+    substitutions.find(substitution => substitution.schedule_id === schedule.id)?.substitute;
+
   const ScheduleCard = ({ schedule }: { schedule: Schedule }) => {
     const isActive = isScheduleActive(schedule);
     const isUpcoming = isScheduleUpcoming(schedule);
     const isPast = isSchedulePast(schedule);
-    const isCanceledToday = schedule.canceled_dates?.includes(format(new Date(), 'M/d'));
+    const cancellation = cancellations.find(c => c.schedule_id === schedule.id);
+    const isCanceledToday = Boolean(cancellation);
+    // A moved occurrence is a cancellation with a make-up class; the make-up says where from
+    const movedTo = cancellation?.makeup;
+    const movedFrom = movedOccurrences.find(moved => moved.makeup_schedule_id === schedule.id);
+    const substitute = isCanceledToday ? undefined : getSubstitute(schedule);
     const progress = isActive ? getClassProgress(schedule) : 0;
 
     // Clean up description by removing special tags
@@ -417,7 +356,10 @@ const PresentationView: React.FC = () => {
           <div className="flex gap-2 items-center flex-wrap">
             {isCanceledToday ? (
               <span className={`px-1.5 py-0.5 rounded-md ${isCompact ? 'text-xs' : 'text-sm'} font-medium bg-red-900/30 text-red-400 border border-red-500/30`}>
-                Canceled
+                {movedTo
+                  ? `Moved to ${formatSlot(movedTo.date_tag, movedTo.start_time)}`
+                  : 'Canceled'}
+                {cancellation?.reason ? `: ${cancellation.reason}` : ''}
               </span>
             ) : isActive ? (
               <span className={`px-1.5 py-0.5 rounded-md ${isCompact ? 'text-xs' : 'text-sm'} font-medium ${colors.bgPill} ${colors.textPill} border ${colors.borderPill}`}>
@@ -432,6 +374,11 @@ const PresentationView: React.FC = () => {
                 Completed
               </span>
             )}
+            {movedFrom && (
+              <span className={`px-1.5 py-0.5 rounded-md ${isCompact ? 'text-xs' : 'text-sm'} font-medium bg-amber-900/30 text-amber-300 border border-amber-500/30`}>
+                Moved from {formatSlot(movedFrom.occurrence_date, movedFrom.schedule.start_time)}
+              </span>
+            )}
             {/* Show mode label for Mock and Seminar */}
             {schedule.mode && schedule.mode !== 'Class' && (
               <span className={`px-2 py-0.5 rounded-md text-lg font-bold ${colors.bgPill} ${colors.textPill} border ${colors.borderPill}`}>
@@ -485,7 +432,8 @@ const PresentationView: React.FC = () => {
           <div className={`${isCompact ? 'mb-1' : 'mb-2'}`}>
             <div className="flex flex-col">
               <h3 className={`${isCompact ? 'text-xs' : 'text-sm'} text-gray-300`}>
-                {schedule.teachers?.name}
+                <span className={substitute ? 'line-through text-gray-500' : ''}>{schedule.teachers?.name}</span>
+                {substitute && <span className="ml-2 font-semibold text-purple-300">Sub: {substitute.name}</span>}
               </h3>
               <h2 className={`${isCompact ? 'text-lg' : 'text-2xl'} font-bold bg-gradient-to-r ${colors.textGradient} bg-clip-text text-transparent`}>
                 {schedule.subject}
@@ -701,6 +649,20 @@ const PresentationView: React.FC = () => {
         {/* Side panel for news and classes if enabled */}
         {showSidebar && (
           <div className="w-[35%] border-l border-gray-800/50 overflow-y-auto">
+            {/* Closures today */}
+            {settings?.show_classes && closures.length > 0 && (
+              <div className="p-6 border-b border-gray-800/50">
+                <div className="rounded-xl p-5 bg-amber-500/10 border border-amber-400/40">
+                  <h2 className="text-xl font-semibold text-amber-300 mb-2">
+                    {closures.some(closure => !closure.grades) ? 'No classes today' : 'Some classes are off today'}
+                  </h2>
+                  {closures.map(closure => (
+                    <p key={closure.id} className="text-lg text-amber-100">{getClosureLabel(closure)}</p>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Current Classes Section */}
             {settings?.show_classes && activeClasses.length > 0 && (
               <div className="p-6 border-b border-gray-800/50">
@@ -817,7 +779,10 @@ const PresentationView: React.FC = () => {
                         <div className="mb-4">
                           <div className="flex flex-col">
                             <h3 className="text-lg text-gray-300 mb-1">
-                              {schedule.teachers?.name}
+                              <span className={getSubstitute(schedule) ? 'line-through text-gray-500' : ''}>{schedule.teachers?.name}</span>
+                              {getSubstitute(schedule) && (
+                                <span className="ml-2 font-semibold text-purple-300">Sub: {getSubstitute(schedule)?.name}</span>
+                              )}
                             </h3>
                             <h2 className={`text-3xl font-bold bg-gradient-to-r ${
                               schedule.mode === 'Mock'
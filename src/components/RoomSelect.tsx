@@ -0,0 +1,43 @@
+import type { Room } from '../lib/repositories/rooms';
+
+interface RoomSelectProps {
+  rooms: Room[];
+  // Room name as stored on the class; '' for no room
+  value: string;
+  onChange: (name: string) => void;
+  className?: string;
+}
+
+const describeRoom = (room: Room) => {
+  const details = [
+    room.is_online ? 'Online' : room.floor,
+    room.capacity ? `${room.capacity} seats` : null
+  ].filter(Boolean);
+  return details.length > 0 ? `${room.name} (${details.join(', ')})` : room.name;
+};
+
+/**
+ * Picks a room from the rooms table. A class saved before rooms existed may have a name
+ * that isn't in the list; it stays selectable so editing the class doesn't change it.
+ */
+export default function RoomSelect({ rooms, value, onChange, className }: RoomSelectProps) {
+  const isListed = value.trim() === '' ||
+    rooms.some(room => room.name.trim().toLowerCase() === value.trim().toLowerCase());
+  const selected = rooms.find(room => room.name.trim().toLowerCase() === value.trim().toLowerCase());
+
+  return (
+    <select
+      value={selected ? selected.name : value}
+      onChange={e => onChange(e.target.value)}
+      className={className}
+    >
+      <option value="">No room</option>
+      {!isListed && <option value={value}>{value} (not in the room list)</option>}
+      {rooms.map(room => (
+        <option key={room.id} value={room.name}>
+          {describeRoom(room)}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,489 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { PlusIcon, XMarkIcon, TrashIcon, PencilIcon, BuildingOfficeIcon, ClockIcon } from '@heroicons/react/24/outline';
+import {
+  Room,
+  DUPLICATE_ROOM_ERROR,
+  listRooms,
+  createRoom,
+  updateRoom,
+  deleteRoom
+} from '../lib/repositories/rooms';
+import { ScheduleWithTeacher as Schedule, listSchedules } from '../lib/repositories/schedules';
+import { ScheduleCancellation, listCancellations } from '../lib/repositories/cancellations';
+import { getOccurrences, parseDate } from '../lib/recurrence';
+import { can } from '../lib/roles';
+
+interface RoomFormData {
+  name: string;
+  floor: string;
+  capacity: string;
+  is_online: boolean;
+}
+
+// The part of the day shown on the timeline, like the schedule page (7 AM to midnight)
+const DAY_START = 7 * 60;
+const DAY_END = 24 * 60;
+const TIMELINE_HOURS = Array.from({ length: (DAY_END - DAY_START) / 60 }, (_, i) => i + DAY_START / 60);
+
+const EMPTY_FORM: RoomFormData = { name: '', floor: '', capacity: '', is_online: false };
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const toTime = (minutes: number) =>
+  `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+
+const formatTime = (time: string) => {
+  const [hours, minutes] = time.split(':');
+  const hour = parseInt(hours, 10);
+  const ampm = hour >= 12 ? 'PM' : 'AM';
+  const formattedHour = hour % 12 || 12;
+  return `${formattedHour}:${minutes} ${ampm}`;
+};
+
+// Minutes covered by at least one of the classes, within the timeline
+const getBookedMinutes = (classes: Schedule[]) => {
+  const intervals = classes
+    .map(c => [Math.max(toMinutes(c.start_time), DAY_START), Math.min(toMinutes(c.end_time), DAY_END)])
+    .filter(([start, end]) => end > start)
+    .sort((a, b) => a[0] - b[0]);
+
+  let total = 0;
+  let coveredUntil = DAY_START;
+  for (const [start, end] of intervals) {
+    if (end <= coveredUntil) continue;
+    total += end - Math.max(start, coveredUntil);
+    coveredUntil = end;
+  }
+  return total;
+};
+
+// The current time rounded down to 5 minutes, and an hour later
+const getCurrentSlot = () => {
+  const now = new Date();
+  const start = Math.floor((now.getHours() * 60 + now.getMinutes()) / 5) * 5;
+  return { start: toTime(start), end: toTime(Math.min(start + 60, DAY_END - 1)) };
+};
+
+export default function Rooms() {
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [cancellations, setCancellations] = useState<ScheduleCancellation[]>([]);
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [slot, setSlot] = useState(getCurrentSlot);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editedRoom, setEditedRoom] = useState<Room | null>(null);
+  const [formData, setFormData] = useState<RoomFormData>(EMPTY_FORM);
+
+  useEffect(() => {
+    fetchRooms();
+  }, []);
+
+  // Cancellations are per date, so they follow the chosen day
+  useEffect(() => {
+    fetchCancellations(date);
+  }, [date]);
+
+  const fetchRooms = async () => {
+    try {
+      setLoading(true);
+      const [roomRows, scheduleRows] = await Promise.all([listRooms(), listSchedules()]);
+      setRooms(roomRows);
+      setSchedules(scheduleRows);
+      setError(null);
+    } catch (error) {
+      console.error('Error fetching rooms:', error);
+      setError('Failed to load rooms. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchCancellations = async (day: string) => {
+    try {
+      setCancellations(await listCancellations(day, day));
+    } catch (error) {
+      console.error('Error fetching cancellations:', error);
+      setError('Failed to load cancellations. Please try again.');
+    }
+  };
+
+  const day = parseDate(date);
+  const running = getOccurrences(schedules, cancellations, day)
+    .filter(({ cancellation }) => !cancellation)
+    .map(({ schedule }) => schedule);
+  const classesIn = (room: Room) => running.filter(schedule => schedule.room_id === room.id);
+
+  // Rooms with no class overlapping the chosen time
+  const slotStart = toMinutes(slot.start);
+  const slotEnd = toMinutes(slot.end);
+  const isSlotValid = slotEnd > slotStart;
+  const isFree = (room: Room) => !classesIn(room).some(
+    schedule => toMinutes(schedule.start_time) < slotEnd && slotStart < toMinutes(schedule.end_time)
+  );
+  const freeRooms = isSlotValid ? rooms.filter(isFree) : [];
+
+  // Room names on classes that don't match a room, usually typos from before the room list
+  const unlistedRooms = [...new Set(
+    schedules.filter(s => s.room_id === null && s.room.trim() !== '').map(s => s.room.trim())
+  )].sort();
+
+  const openForm = (room: Room | null) => {
+    setEditedRoom(room);
+    setFormData(room
+      ? { name: room.name, floor: room.floor || '', capacity: room.capacity?.toString() || '', is_online: room.is_online }
+      : EMPTY_FORM);
+    setIsFormOpen(true);
+  };
+
+  const handleSave = async () => {
+    const name = formData.name.trim();
+    const capacity = formData.capacity.trim() ? Number(formData.capacity) : null;
+
+    if (!name) {
+      setError('Please give the room a name');
+      return;
+    }
+    if (capacity !== null && (!Number.isInteger(capacity) || capacity < 1)) {
+      setError('Capacity must be a whole number of seats');
+      return;
+    }
+
+    const room = { name, floor: formData.floor.trim() || null, capacity, is_online: formData.is_online };
+
+    try {
+      if (editedRoom) {
+        await updateRoom(editedRoom.id, room);
+      } else {
+        await createRoom(room);
+      }
+
+      setIsFormOpen(false);
+      setError(null);
+      fetchRooms();
+    } catch (error) {
+      console.error('Error saving room:', error);
+      if ((error as { code?: string }).code === DUPLICATE_ROOM_ERROR) {
+        setError(`There is already a room called "${name}".`);
+      } else {
+        setError('Failed to save room. Please try again.');
+      }
+    }
+  };
+
+  const handleDelete = async (room: Room) => {
+    const count = schedules.filter(s => s.room_id === room.id).length;
+    const message = count > 0
+      ? `Delete "${room.name}"? Its ${count} ${count === 1 ? 'class keeps' : 'classes keep'} the name but won't be linked to a room.`
+      : `Delete "${room.name}"?`;
+    if (!window.confirm(message)) return;
+
+    try {
+      await deleteRoom(room.id);
+      fetchRooms();
+    } catch (error) {
+      console.error('Error deleting room:', error);
+      setError('Failed to delete room. Please try again.');
+    }
+  };
+
+  const position = (start: number, end: number) => ({
+    left: `${((Math.max(start, DAY_START) - DAY_START) / (DAY_END - DAY_START)) * 100}%`,
+    width: `${((Math.min(end, DAY_END) - Math.max(start, DAY_START)) / (DAY_END - DAY_START)) * 100}%`
+  });
+
+  return (
+    <div className="min-h-full bg-gradient-to-br from-[#0a0a0a] to-[#111827] text-gray-200">
+      <div className="container mx-auto px-4 py-6">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6">
+          <div className="mb-4 md:mb-0">
+            <h1 className="text-2xl font-bold text-white flex items-center">
+              <BuildingOfficeIcon className="h-6 w-6 mr-2 text-blue-500" />
+              Rooms
+            </h1>
+            <p className="text-gray-400 mt-1">
+              See how rooms are used and find one that is free
+            </p>
+          </div>
+
+          {can('rooms.edit') && (
+            <button
+              onClick={() => openForm(null)}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg flex items-center justify-center whitespace-nowrap"
+            >
+              <PlusIcon className="h-5 w-5 mr-1" />
+              Add Room
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-900/20 border border-red-800/30 rounded-lg text-red-200">
+            {error}
+          </div>
+        )}
+
+        {/* Free room finder */}
+        <div className="mb-6 p-4 sm:p-5 bg-gray-800/40 border border-gray-700/50 rounded-xl">
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">Date</label>
+              <input
+                type="date"
+                value={date}
+                onChange={e => e.target.value && setDate(e.target.value)}
+                className="px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">From</label>
+              <input
+                type="time"
+                value={slot.start}
+                onChange={e => setSlot({ ...slot, start: e.target.value })}
+                className="px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">To</label>
+              <input
+                type="time"
+                value={slot.end}
+                onChange={e => setSlot({ ...slot, end: e.target.value })}
+                className="px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <button
+              onClick={() => {
+                setDate(format(new Date(), 'yyyy-MM-dd'));
+                setSlot(getCurrentSlot());
+              }}
+              className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 rounded-lg flex items-center transition-colors"
+            >
+              <ClockIcon className="h-5 w-5 mr-1" />
+              Right Now
+            </button>
+          </div>
+
+          <div className="mt-4">
+            {!isSlotValid ? (
+              <p className="text-sm text-amber-300">The end time must be after the start time.</p>
+            ) : freeRooms.length === 0 ? (
+              <p className="text-sm text-gray-400">
+                No room is free on {format(day, 'EEE, MMM d')} from {formatTime(slot.start)} to {formatTime(slot.end)}.
+              </p>
+            ) : (
+              <>
+                <p className="text-sm text-gray-300 mb-2">
+                  {freeRooms.length} of {rooms.length} rooms free on {format(day, 'EEE, MMM d')} from {formatTime(slot.start)} to {formatTime(slot.end)}:
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {freeRooms.map(room => (
+                    <span key={room.id} className="px-3 py-1 rounded-full bg-green-900/40 border border-green-800/50 text-sm text-green-100">
+                      {room.name}
+                      {room.capacity && <span className="ml-1 text-green-300/70">• {room.capacity} seats</span>}
+                      {room.is_online && <span className="ml-1 text-green-300/70">• Online</span>}
+                    </span>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+
+        {unlistedRooms.length > 0 && (
+          <div className="mb-6 p-4 bg-amber-900/20 border border-amber-800/30 rounded-lg text-sm text-amber-200">
+            Some classes use rooms that aren't in the list, so they don't show up here: {unlistedRooms.join(', ')}.
+            Add them as rooms (or pick a listed room on those classes) to include them.
+          </div>
+        )}
+
+        {/* Utilization timeline for the chosen day */}
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+          </div>
+        ) : rooms.length === 0 ? (
+          <div className="flex flex-col items-center justify-center bg-gray-800/30 rounded-xl p-8 border border-gray-700/50">
+            <BuildingOfficeIcon className="h-12 w-12 text-gray-600 mb-3" />
+            <p className="text-gray-500">No rooms have been added yet.</p>
+          </div>
+        ) : (
+          <div className="bg-gray-800/40 border border-gray-700/50 rounded-xl overflow-x-auto">
+            <div className="min-w-[720px]">
+              <div className="flex border-b border-gray-700/50 bg-gray-800/60 text-xs text-gray-400">
+                <div className="w-56 flex-shrink-0 px-4 py-3 font-medium">Room</div>
+                <div className="flex-1 relative">
+                  {TIMELINE_HOURS.map(hour => (
+                    <span
+                      key={hour}
+                      className="absolute top-3 -translate-x-1/2"
+                      style={{ left: `${((hour * 60 - DAY_START) / (DAY_END - DAY_START)) * 100}%` }}
+                    >
+                      {hour % 2 === 1 ? format(new Date().setHours(hour), 'ha') : ''}
+                    </span>
+                  ))}
+                </div>
+                <div className="w-20 flex-shrink-0 px-4 py-3 font-medium text-right">Used</div>
+                <div className="w-20 flex-shrink-0"></div>
+              </div>
+
+              {rooms.map(room => {
+                const classes = classesIn(room);
+                const used = Math.round((getBookedMinutes(classes) / (DAY_END - DAY_START)) * 100);
+
+                return (
+                  <div key={room.id} className="flex items-center border-t border-gray-700/50 first:border-t-0">
+                    <div className="w-56 flex-shrink-0 px-4 py-3">
+                      <div className="text-white font-medium truncate">{room.name}</div>
+                      <div className="text-xs text-gray-500 truncate">
+                        {[room.is_online ? 'Online' : room.floor, room.capacity ? `${room.capacity} seats` : null]
+                          .filter(Boolean).join(' • ') || ' '}
+                      </div>
+                    </div>
+
+                    <div className="flex-1 relative h-10 bg-gray-900/40 rounded">
+                      {/* The time the finder looks at */}
+                      {isSlotValid && (
+                        <div
+                          className="absolute inset-y-0 bg-sky-400/10 border-x border-sky-400/30"
+                          style={position(slotStart, slotEnd)}
+                        ></div>
+                      )}
+                      {classes.map(schedule => (
+                        <div
+                          key={schedule.id}
+                          className="absolute inset-y-1 rounded bg-gradient-to-br from-blue-600 to-indigo-500 border border-blue-400 px-1.5 text-[0.65rem] leading-8 text-white truncate"
+                          style={position(toMinutes(schedule.start_time), toMinutes(schedule.end_time))}
+                          title={`${schedule.subject} • ${schedule.teachers.name} • ${formatTime(schedule.start_time)} - ${formatTime(schedule.end_time)}`}
+                        >
+                          {schedule.subject}
+                        </div>
+                      ))}
+                    </div>
+
+                    <div className="w-20 flex-shrink-0 px-4 py-3 text-right text-sm text-gray-300">{used}%</div>
+
+                    <div className="w-20 flex-shrink-0 pr-4 flex justify-end space-x-1">
+                      {can('rooms.edit') && (
+                        <button
+                          onClick={() => openForm(room)}
+                          className="p-1 text-gray-300 hover:text-blue-400 hover:bg-blue-400/10 rounded transition-colors"
+                          title="Edit Room"
+                        >
+                          <PencilIcon className="h-4 w-4" />
+                        </button>
+                      )}
+                      {can('rooms.delete') && (
+                        <button
+                          onClick={() => handleDelete(room)}
+                          className="p-1 text-gray-300 hover:text-red-400 hover:bg-red-400/10 rounded transition-colors"
+                          title="Delete Room"
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Add / Edit Room Modal */}
+      {isFormOpen && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={() => setIsFormOpen(false)}>
+          <div
+            className="bg-gray-900 rounded-xl border border-gray-700/50 shadow-2xl w-full max-w-md overflow-hidden"
+            onClick={e => e.stopPropagation()}
+          >
+            <div className="relative">
+              <div className="absolute inset-0 bg-gradient-to-r from-blue-600 to-sky-400 opacity-90"></div>
+              <div className="relative p-5 flex justify-between items-center">
+                <h3 className="text-xl font-bold text-white">{editedRoom ? 'Edit Room' : 'Add Room'}</h3>
+                <button
+                  onClick={() => setIsFormOpen(false)}
+                  className="text-white hover:bg-white/20 rounded-full p-1 transition-colors"
+                >
+                  <XMarkIcon className="h-6 w-6" />
+                </button>
+              </div>
+            </div>
+
+            <div className="p-5 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={e => setFormData({ ...formData, name: e.target.value })}
+                  className="w-full px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                  placeholder="e.g. Lab 1"
+                />
+                {editedRoom && formData.name.trim() !== editedRoom.name && (
+                  <p className="text-xs text-gray-500 mt-1">The room's classes are renamed too.</p>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-1">Floor</label>
+                  <input
+                    type="text"
+                    value={formData.floor}
+                    onChange={e => setFormData({ ...formData, floor: e.target.value })}
+                    className="w-full px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                    placeholder="e.g. Ground"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-1">Capacity</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={formData.capacity}
+                    onChange={e => setFormData({ ...formData, capacity: e.target.value })}
+                    className="w-full px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                    placeholder="Seats"
+                  />
+                </div>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={formData.is_online}
+                  onChange={e => setFormData({ ...formData, is_online: e.target.checked })}
+                  className="rounded border-gray-600 bg-gray-800 text-blue-500 focus:ring-blue-500"
+                />
+                Online room (e.g. a video call link)
+              </label>
+            </div>
+
+            <div className="border-t border-gray-800 p-4 flex justify-end space-x-3">
+              <button
+                onClick={() => setIsFormOpen(false)}
+                className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                className="px-4 py-2 bg-gradient-to-r from-blue-600 to-sky-500 hover:from-blue-500 hover:to-sky-400 text-white font-medium rounded-lg shadow-md hover:shadow-lg transition-all duration-300"
+              >
+                {editedRoom ? 'Save Room' : 'Add Room'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
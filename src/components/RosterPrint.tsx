@@ -0,0 +1,165 @@
+import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { PrinterIcon } from '@heroicons/react/24/outline';
+import { ScheduleWithTeacher as Schedule, listSchedules } from '../lib/repositories/schedules';
+import { RosterEntry, listRosters } from '../lib/repositories/students';
+import { describeRecurrence } from '../lib/recurrence';
+
+// Blank boxes on each line for marking attendance by hand
+const ATTENDANCE_COLUMNS = 6;
+
+const formatTime = (time: string) => {
+  const [hours, minutes] = time.split(':');
+  const hour = parseInt(hours, 10);
+  const ampm = hour >= 12 ? 'PM' : 'AM';
+  const formattedHour = hour % 12 || 12;
+  return `${formattedHour}:${minutes} ${ampm}`;
+};
+
+/**
+ * Roster sheets for the classes in the URL (class=<id>, repeated), one page per class,
+ * with blank columns for taking attendance. The browser's print dialog prints them or
+ * saves them as a PDF.
+ */
+export default function RosterPrint() {
+  const [searchParams] = useSearchParams();
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [roster, setRoster] = useState<RosterEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Kept as a string so the effect only re-runs when the classes change
+  const classParam = searchParams.getAll('class').filter(id => /^\d+$/.test(id)).join(',');
+
+  useEffect(() => {
+    fetchRosters(classParam ? classParam.split(',').map(Number) : []);
+  }, [classParam]);
+
+  const fetchRosters = async (scheduleIds: number[]) => {
+    try {
+      setLoading(true);
+      const [scheduleRows, rosterRows] = await Promise.all([listSchedules(), listRosters(scheduleIds)]);
+      setSchedules(scheduleRows.filter(schedule => scheduleIds.includes(schedule.id)));
+      setRoster(rosterRows);
+      setError(null);
+    } catch (error) {
+      console.error('Error fetching rosters:', error);
+      setError('Failed to load the rosters. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const printedAt = format(new Date(), 'MMM d, yyyy h:mm a');
+
+  return (
+    <div
+      className="min-h-screen bg-gray-100 text-gray-900 print:bg-white"
+      style={{ WebkitPrintColorAdjust: 'exact', printColorAdjust: 'exact' }}
+    >
+      {/* Toolbar, not printed */}
+      <div className="print:hidden sticky top-0 z-10 bg-white border-b border-gray-200 shadow-sm">
+        <div className="max-w-4xl mx-auto px-4 py-3 flex flex-wrap items-center justify-between gap-3">
+          <p className="text-sm text-gray-600">
+            To download a PDF, print and choose "Save as PDF" as the printer.
+          </p>
+          <button
+            onClick={() => window.print()}
+            disabled={loading}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg flex items-center disabled:opacity-50"
+          >
+            <PrinterIcon className="h-5 w-5 mr-1" />
+            Print / Save as PDF
+          </button>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto p-4 sm:p-8 print:p-0 print:max-w-none space-y-6 print:space-y-0">
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded text-red-700 print:hidden">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center h-48">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-500"></div>
+          </div>
+        ) : schedules.length === 0 ? (
+          <p className="text-center text-gray-500 py-12">No classes to print.</p>
+        ) : (
+          schedules.map(schedule => {
+            const students = roster
+              .filter(entry => entry.scheduleId === schedule.id)
+              .map(entry => entry.enrollment.students);
+
+            return (
+              <div
+                key={schedule.id}
+                className="bg-white rounded-lg shadow print:shadow-none print:rounded-none p-6 print:p-0 break-after-page"
+              >
+                <div className="flex items-end justify-between border-b-2 border-gray-800 pb-2 mb-4">
+                  <div>
+                    <h1 className="text-2xl font-bold">{schedule.subject}</h1>
+                    <p className="text-sm text-gray-600">
+                      {schedule.grade} {schedule.curriculum} • {schedule.teachers.name}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {describeRecurrence(schedule)}, {formatTime(schedule.start_time)} – {formatTime(schedule.end_time)}
+                      {schedule.room && ` • ${schedule.room}`}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-sm font-semibold">
+                      {students.length}{schedule.capacity ? ` / ${schedule.capacity}` : ''} students
+                    </p>
+                    <p className="text-xs text-gray-500">Printed {printedAt}</p>
+                  </div>
+                </div>
+
+                {students.length === 0 ? (
+                  <p className="text-sm text-gray-500 py-4">Nobody is enrolled in this class.</p>
+                ) : (
+                  <table className="w-full border-collapse text-sm">
+                    <thead>
+                      <tr className="bg-gray-800 text-white">
+                        <th className="px-2 py-1 text-left font-semibold w-8">#</th>
+                        <th className="px-2 py-1 text-left font-semibold">Student</th>
+                        <th className="px-2 py-1 text-left font-semibold">Guardian</th>
+                        <th className="px-2 py-1 text-left font-semibold">Phone</th>
+                        {Array.from({ length: ATTENDANCE_COLUMNS }, (_, i) => (
+                          <th key={i} className="px-2 py-1 w-10 border-l border-gray-600"></th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {students.map((student, index) => (
+                        <tr key={student.id} className="break-inside-avoid even:bg-gray-50">
+                          <td className="px-2 py-1.5 border-b border-gray-200 text-gray-500">{index + 1}</td>
+                          <td className="px-2 py-1.5 border-b border-gray-200 font-medium">{student.name}</td>
+                          <td className="px-2 py-1.5 border-b border-gray-200">{student.guardian_name}</td>
+                          <td className="px-2 py-1.5 border-b border-gray-200">{student.phone}</td>
+                          {Array.from({ length: ATTENDANCE_COLUMNS }, (_, i) => (
+                            <td key={i} className="border border-gray-300"></td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <style>{`
+        @page {
+          size: A4 portrait;
+          margin: 12mm;
+        }
+      `}</style>
+    </div>
+  );
+}
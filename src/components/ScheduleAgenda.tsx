@@ -0,0 +1,139 @@
+import { format, addDays, isSameDay } from 'date-fns';
+import { ClockIcon, MapPinIcon } from '@heroicons/react/24/outline';
+import type { ScheduleWithTeacher as Schedule } from '../lib/repositories/schedules';
+import type { ScheduleCancellation } from '../lib/repositories/cancellations';
+import type { ScheduleSubstitutionDetails } from '../lib/repositories/substitutions';
+import type { Closure } from '../lib/repositories/closures';
+import { getOccurrences, isTaughtBy } from '../lib/recurrence';
+import { getClosuresOn, getClosureFor, getClosureLabel } from '../lib/closures';
+
+interface ScheduleAgendaProps {
+  from: Date;
+  days: number;
+  // Already narrowed by the schedule page's teacher and subject filters
+  schedules: Schedule[];
+  cancellations: ScheduleCancellation[];
+  substitutions: ScheduleSubstitutionDetails[];
+  // Classes of the grades a closure covers are left out
+  closures: Closure[];
+  // The teacher filtered on, whose covered-away occurrences are left out
+  teacherName: string | null;
+  onOccurrenceClick: (schedule: Schedule, day: Date) => void;
+  onShowMore: () => void;
+}
+
+const formatTime = (time: string) => {
+  const [hours, minutes] = time.split(':');
+  const hour = parseInt(hours, 10);
+  const ampm = hour >= 12 ? 'PM' : 'AM';
+  const formattedHour = hour % 12 || 12;
+  return `${formattedHour}:${minutes} ${ampm}`;
+};
+
+export default function ScheduleAgenda({
+  from,
+  days,
+  schedules,
+  cancellations,
+  substitutions,
+  closures,
+  teacherName,
+  onOccurrenceClick,
+  onShowMore
+}: ScheduleAgendaProps) {
+  const today = new Date();
+
+  // Days without classes or closures are left out
+  const agenda = Array.from({ length: days }, (_, i) => addDays(from, i))
+    .map(day => ({
+      day,
+      dayClosures: getClosuresOn(closures, day),
+      occurrences: getOccurrences(schedules, cancellations, day, substitutions)
+        .filter(({ schedule, substitution }) => !teacherName || isTaughtBy(teacherName, schedule, substitution))
+        .filter(({ schedule }) => !getClosureFor(closures, schedule.grade, day))
+    }))
+    .filter(({ occurrences, dayClosures }) => occurrences.length > 0 || dayClosures.length > 0);
+
+  return (
+    <div className="flex-1 overflow-auto custom-scrollbar p-3 sm:p-4 space-y-4">
+      {agenda.length === 0 && (
+        <p className="text-center text-gray-400 py-8">
+          No classes between {format(from, 'MMM d')} and {format(addDays(from, days - 1), 'MMM d, yyyy')}.
+        </p>
+      )}
+
+      {agenda.map(({ day, dayClosures, occurrences }) => (
+        <section key={day.toISOString()}>
+          <h3 className={`sticky top-0 z-10 -mx-3 sm:-mx-4 px-3 sm:px-4 py-2 text-sm font-bold backdrop-blur-md bg-gray-900/80 ${
+            isSameDay(day, today) ? 'text-blue-300' : 'text-gray-200'
+          }`}>
+            {format(day, 'EEEE, MMMM d')}
+            {isSameDay(day, today) && <span className="ml-2 text-xs font-medium text-blue-400">Today</span>}
+          </h3>
+
+          {dayClosures.map(closure => (
+            <div key={closure.id} className="mt-2 rounded-lg border border-amber-800/40 bg-amber-900/20 px-3 py-2 text-sm text-amber-200">
+              Closed: {getClosureLabel(closure)}
+            </div>
+          ))}
+
+          <ul className="mt-2 space-y-2">
+            {occurrences.map(({ schedule, cancellation, substitution }) => (
+              <li key={schedule.id}>
+                <button
+                  onClick={() => onOccurrenceClick(schedule, day)}
+                  disabled={Boolean(cancellation)}
+                  className={`w-full flex gap-3 sm:gap-4 items-start text-left rounded-lg border p-3 transition-colors ${
+                    cancellation
+                      ? 'border-gray-800 bg-gray-900/40 cursor-default'
+                      : 'border-gray-700/50 bg-gray-800/40 hover:bg-gray-700/40'
+                  }`}
+                >
+                  <div className={`flex items-center gap-1 text-xs sm:text-sm font-medium whitespace-nowrap w-36 flex-shrink-0 ${
+                    cancellation ? 'text-gray-600' : 'text-gray-300'
+                  }`}>
+                    <ClockIcon className="h-4 w-4 flex-shrink-0" />
+                    {formatTime(schedule.start_time)} - {formatTime(schedule.end_time)}
+                  </div>
+
+                  <div className="min-w-0 flex-1">
+                    <div className={`font-semibold ${cancellation ? 'text-gray-500 line-through' : 'text-gray-100'}`}>
+                      {schedule.subject}
+                      <span className="ml-2 text-xs font-normal text-gray-400">{schedule.mode}</span>
+                    </div>
+                    <div className="text-xs sm:text-sm text-gray-400">
+                      {schedule.teachers.name} • {schedule.grade} {schedule.curriculum}
+                    </div>
+                    {substitution && !cancellation && (
+                      <div className="text-xs font-semibold text-purple-300">Sub: {substitution.substitute.name}</div>
+                    )}
+                    {schedule.room && (
+                      <div className="flex items-center gap-1 text-xs text-gray-500 mt-0.5">
+                        <MapPinIcon className="h-3.5 w-3.5" />
+                        {schedule.room}
+                      </div>
+                    )}
+                    {cancellation && (
+                      <div className="mt-1 text-xs text-red-300">
+                        {cancellation.reason ? `Canceled: ${cancellation.reason}` : 'Canceled'}
+                      </div>
+                    )}
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </section>
+      ))}
+
+      <div className="flex justify-center pt-2">
+        <button
+          onClick={onShowMore}
+          className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 text-sm rounded-lg transition-colors"
+        >
+          Show More
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,372 @@
+import React, { useState } from 'react';
+import { XMarkIcon, ArrowUpTrayIcon } from '@heroicons/react/24/outline';
+import type { Teacher } from '../lib/repositories/teachers';
+import {
+  ScheduleConflict,
+  SCHEDULE_CONFLICT_ERROR,
+  findScheduleConflicts,
+  importSchedules
+} from '../lib/repositories/schedules';
+import {
+  ImportTable,
+  ImportRow,
+  ColumnMapping,
+  IMPORT_FIELDS,
+  parseCsv,
+  parseIcs,
+  autoMapColumns,
+  buildImportRows,
+  findBatchClashes
+} from '../lib/scheduleImport';
+import { describeRecurrence, parseDate } from '../lib/recurrence';
+import { can } from '../lib/roles';
+import { format } from 'date-fns';
+
+interface ScheduleImportProps {
+  teachers: Teacher[];
+  onClose: () => void;
+  // Called with the number of classes added
+  onImported: (count: number) => void;
+}
+
+type Step = 'upload' | 'map' | 'preview';
+
+// A checked row with what it would double-book
+interface PreviewRow extends ImportRow {
+  conflicts: ScheduleConflict[];
+  // Lines of other rows in the file it overlaps
+  batchClashes: number[];
+}
+
+const formatTime = (time: string) => {
+  const [hours, minutes] = time.split(':');
+  const hour = parseInt(hours, 10);
+  const ampm = hour >= 12 ? 'PM' : 'AM';
+  const formattedHour = hour % 12 || 12;
+  return `${formattedHour}:${minutes} ${ampm}`;
+};
+
+const isIcs = (fileName: string, text: string) =>
+  /\.ics$/i.test(fileName) || /^\s*BEGIN:VCALENDAR/.test(text);
+
+export default function ScheduleImport({ teachers, onClose, onImported }: ScheduleImportProps) {
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [rows, setRows] = useState<PreviewRow[]>([]);
+  const [importOverlapping, setImportOverlapping] = useState(false);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError(null);
+    try {
+      const text = await file.text();
+      const parsed = isIcs(file.name, text) ? parseIcs(text) : parseCsv(text);
+
+      if (parsed.records.length === 0) {
+        setError('No classes found in the file. A CSV needs a header row and one class per line.');
+        return;
+      }
+
+      setFileName(file.name);
+      setTable(parsed);
+      setMapping(autoMapColumns(parsed.columns));
+      setStep('map');
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      setError('Failed to read the file. Please try again.');
+    }
+  };
+
+  // Checks every row, then asks the database which valid rows clash with existing classes
+  const handlePreview = async () => {
+    if (!table) return;
+
+    setWorking(true);
+    setError(null);
+    try {
+      const built = buildImportRows(table, mapping, teachers);
+      const batchClashes = findBatchClashes(built);
+      const checked: PreviewRow[] = [];
+
+      // One at a time to keep the number of requests in flight small
+      for (const [index, row] of built.entries()) {
+        const conflicts = row.schedule ? await findScheduleConflicts(row.schedule) : [];
+        checked.push({ ...row, conflicts, batchClashes: batchClashes.get(index) || [] });
+      }
+
+      setRows(checked);
+      setImportOverlapping(false);
+      setStep('preview');
+    } catch (error) {
+      console.error('Error checking imported classes:', error);
+      setError('Failed to check the classes. Please try again.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const canOverride = can('schedule.override');
+  const hasOverlap = (row: PreviewRow) => row.conflicts.length > 0 || row.batchClashes.length > 0;
+  const toImport = rows.filter(row =>
+    row.schedule && (!hasOverlap(row) || (canOverride && importOverlapping))
+  );
+  const invalidCount = rows.filter(row => !row.schedule).length;
+  const overlapCount = rows.filter(row => row.schedule && hasOverlap(row)).length;
+
+  const handleImport = async () => {
+    if (toImport.length === 0) return;
+
+    setWorking(true);
+    setError(null);
+    try {
+      const count = await importSchedules(toImport.map(row => ({
+        ...row.schedule!,
+        allow_overlap: hasOverlap(row)
+      })));
+      onImported(count);
+    } catch (error) {
+      console.error('Error importing classes:', error);
+      if ((error as { code?: string }).code === SCHEDULE_CONFLICT_ERROR) {
+        setError('A class in the file now overlaps another class. Please check the preview again.');
+      } else {
+        setError('Failed to import classes. Please try again.');
+      }
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const missingRequired = IMPORT_FIELDS.filter(f => f.required && !mapping[f.field]);
+  const sample = table?.records[0];
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-start justify-center z-50 p-2 sm:p-4 overflow-y-auto" onClick={onClose}>
+      <div
+        className="bg-gray-900 rounded-xl border border-gray-700/50 shadow-2xl w-full max-w-4xl my-4 sm:my-8 overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Modal Header */}
+        <div className="relative">
+          <div className="absolute inset-0 bg-gradient-to-r from-blue-600 to-sky-400 opacity-90"></div>
+          <div className="relative p-3 sm:p-5 flex justify-between items-center">
+            <h3 className="text-lg sm:text-xl font-bold text-white">
+              Import Classes
+              {fileName && <span className="ml-2 text-sm font-normal text-white/80">{fileName}</span>}
+            </h3>
+            <button
+              onClick={onClose}
+              className="text-white hover:bg-white/20 rounded-full p-1 transition-colors"
+            >
+              <XMarkIcon className="h-5 w-5 sm:h-6 sm:w-6" />
+            </button>
+          </div>
+        </div>
+
+        {/* Modal Content */}
+        <div className="p-3 sm:p-6 space-y-4 max-h-[calc(100vh-12rem)] overflow-y-auto">
+          {error && (
+            <div className="bg-red-900/20 border border-red-800/50 text-red-300 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          {step === 'upload' && (
+            <>
+              <p className="text-sm text-gray-300">
+                Choose a CSV file with one class per line, or an iCalendar (.ics) file exported from a
+                calendar app or one of our timetable feeds. Nothing is saved until you confirm the preview.
+              </p>
+              <label className="flex flex-col items-center justify-center gap-2 p-8 border-2 border-dashed border-gray-700 rounded-xl text-gray-400 hover:border-blue-500 hover:text-blue-300 cursor-pointer transition-colors">
+                <ArrowUpTrayIcon className="h-8 w-8" />
+                <span className="text-sm">Select a .csv or .ics file</span>
+                <input
+                  type="file"
+                  accept=".csv,.ics,text/csv,text/calendar"
+                  onChange={handleFile}
+                  className="hidden"
+                />
+              </label>
+              <p className="text-xs text-gray-500">
+                CSV columns can be named like the form fields, e.g. Teacher, Subject, Grade, Curriculum, Room,
+                Days, Start Time, End Time, Date, Starts On, Ends On. Dates are yyyy-MM-dd.
+              </p>
+            </>
+          )}
+
+          {step === 'map' && table && (
+            <>
+              <p className="text-sm text-gray-300">
+                {table.records.length} {table.records.length === 1 ? 'class' : 'classes'} found. Check which column
+                fills each field; fields left empty use the form's defaults.
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <div key={field}>
+                    <label className="block text-xs sm:text-sm font-medium text-gray-400 mb-1">
+                      {label}{required && <span className="text-red-400"> *</span>}
+                    </label>
+                    <select
+                      value={mapping[field] || ''}
+                      onChange={e => setMapping({ ...mapping, [field]: e.target.value || undefined })}
+                      className="w-full px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">Not in file</option>
+                      {table.columns.map(column => (
+                        <option key={column} value={column}>{column}</option>
+                      ))}
+                    </select>
+                    {sample && mapping[field] && (
+                      <p className="mt-1 text-xs text-gray-500 truncate">
+                        e.g. {sample.values[mapping[field]!] || '(empty)'}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+              {missingRequired.length > 0 && (
+                <p className="text-xs text-amber-300">
+                  Still to map: {missingRequired.map(f => f.label).join(', ')}
+                </p>
+              )}
+            </>
+          )}
+
+          {step === 'preview' && (
+            <>
+              <p className="text-sm text-gray-300">
+                {toImport.length} of {rows.length} {rows.length === 1 ? 'class' : 'classes'} will be added.
+                {invalidCount > 0 && ` ${invalidCount} with errors will be skipped.`}
+                {overlapCount > 0 && !(canOverride && importOverlapping) && ` ${overlapCount} that overlap other classes will be skipped.`}
+              </p>
+
+              {overlapCount > 0 && canOverride && (
+                <label className="flex items-center gap-2 text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={importOverlapping}
+                    onChange={e => setImportOverlapping(e.target.checked)}
+                    className="rounded border-gray-600 bg-gray-800 text-red-500 focus:ring-red-500"
+                  />
+                  Import overlapping classes anyway
+                </label>
+              )}
+
+              <div className="overflow-x-auto rounded-lg border border-gray-800">
+                <table className="w-full text-xs sm:text-sm">
+                  <thead className="bg-gray-800/60 text-gray-400">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium">Line</th>
+                      <th className="px-3 py-2 text-left font-medium">Class</th>
+                      <th className="px-3 py-2 text-left font-medium">When</th>
+                      <th className="px-3 py-2 text-left font-medium">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-800">
+                    {rows.map(row => (
+                      <tr key={row.line} className={row.schedule ? '' : 'bg-red-900/10'}>
+                        <td className="px-3 py-2 text-gray-500 align-top">{row.line}</td>
+                        <td className="px-3 py-2 text-gray-200 align-top">
+                          {row.schedule ? (
+                            <>
+                              {row.schedule.subject} • {row.teacherName}
+                              <span className="block text-gray-500">
+                                {row.schedule.grade} {row.schedule.curriculum}
+                                {row.schedule.room && ` • ${row.schedule.room}`}
+                              </span>
+                            </>
+                          ) : (
+                            row.teacherName || <span className="text-gray-500">No teacher</span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-gray-300 align-top">
+                          {row.schedule && (
+                            <>
+                              {row.schedule.repeats
+                                ? describeRecurrence(row.schedule)
+                                : format(parseDate(row.schedule.date_tag), 'EEE, MMM d, yyyy')}
+                              <span className="block text-gray-500">
+                                {formatTime(row.schedule.start_time)} - {formatTime(row.schedule.end_time)}
+                              </span>
+                            </>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 align-top">
+                          {row.errors.length > 0 ? (
+                            <ul className="space-y-0.5 text-red-300">
+                              {row.errors.map(message => <li key={message}>{message}</li>)}
+                            </ul>
+                          ) : hasOverlap(row) ? (
+                            <ul className="space-y-0.5 text-amber-300">
+                              {row.conflicts.map(({ schedule, teacherClash, roomClash }) => (
+                                <li key={schedule.id}>
+                                  Overlaps {schedule.subject} • {schedule.teachers?.name} at {formatTime(schedule.start_time)}
+                                  {teacherClash && roomClash ? ' (same teacher and room)' : teacherClash ? ' (same teacher)' : ' (same room)'}
+                                </li>
+                              ))}
+                              {row.batchClashes.length > 0 && (
+                                <li>Overlaps line {row.batchClashes.join(', ')} of the file</li>
+                              )}
+                            </ul>
+                          ) : (
+                            <span className="text-green-400">Ready</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {overlapCount > 0 && !canOverride && (
+                <p className="text-xs text-gray-500">Only an admin can import classes that overlap other classes.</p>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Modal Footer */}
+        <div className="border-t border-gray-800 p-4 flex justify-end space-x-3">
+          {step !== 'upload' && (
+            <button
+              onClick={() => setStep(step === 'preview' ? 'map' : 'upload')}
+              disabled={working}
+              className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 rounded-lg transition-colors disabled:opacity-50"
+            >
+              Back
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          {step === 'map' && (
+            <button
+              onClick={handlePreview}
+              disabled={working || missingRequired.length > 0}
+              className="px-4 py-2 text-white font-medium rounded-lg shadow-md hover:shadow-lg transition-all duration-300 bg-gradient-to-r from-blue-600 to-sky-500 hover:from-blue-500 hover:to-sky-400 disabled:opacity-50"
+            >
+              {working ? 'Checking...' : 'Preview'}
+            </button>
+          )}
+          {step === 'preview' && (
+            <button
+              onClick={handleImport}
+              disabled={working || toImport.length === 0}
+              className="px-4 py-2 text-white font-medium rounded-lg shadow-md hover:shadow-lg transition-all duration-300 bg-gradient-to-r from-blue-600 to-sky-500 hover:from-blue-500 hover:to-sky-400 disabled:opacity-50"
+            >
+              {working ? 'Importing...' : `Import ${toImport.length} ${toImport.length === 1 ? 'Class' : 'Classes'}`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { format, addDays, differenceInCalendarDays, startOfMonth, endOfMonth, startOfWeek, endOfWeek, isSameDay, isSameMonth } from 'date-fns';
+import type { ScheduleWithTeacher as Schedule } from '../lib/repositories/schedules';
+import type { ScheduleCancellation } from '../lib/repositories/cancellations';
+import type { ScheduleSubstitutionDetails } from '../lib/repositories/substitutions';
+import type { Closure } from '../lib/repositories/closures';
+import { WEEKDAYS, getOccurrences, isTaughtBy } from '../lib/recurrence';
+import { getClosuresOn, getClosureFor, getClosureLabel } from '../lib/closures';
+
+interface ScheduleMonthViewProps {
+  month: Date;
+  // Already narrowed by the schedule page's teacher and subject filters
+  schedules: Schedule[];
+  cancellations: ScheduleCancellation[];
+  substitutions: ScheduleSubstitutionDetails[];
+  // Classes of the grades a closure covers are left out
+  closures: Closure[];
+  // The teacher filtered on, whose covered-away occurrences are left out
+  teacherName: string | null;
+  onDayClick: (day: Date) => void;
+}
+
+// Classes listed by name in a day before the rest are only counted
+const VISIBLE_CLASSES = 3;
+
+const formatTime = (time: string) => {
+  const [hours, minutes] = time.split(':');
+  const hour = parseInt(hours, 10);
+  const ampm = hour >= 12 ? 'PM' : 'AM';
+  const formattedHour = hour % 12 || 12;
+  return `${formattedHour}:${minutes} ${ampm}`;
+};
+
+export default function ScheduleMonthView({
+  month,
+  schedules,
+  cancellations,
+  substitutions,
+  closures,
+  teacherName,
+  onDayClick
+}: ScheduleMonthViewProps) {
+  // Whole weeks, Monday to Sunday, covering the month
+  const firstDay = startOfWeek(startOfMonth(month), { weekStartsOn: 1 });
+  const lastDay = endOfWeek(endOfMonth(month), { weekStartsOn: 1 });
+  const days = Array.from({ length: differenceInCalendarDays(lastDay, firstDay) + 1 }, (_, i) => addDays(firstDay, i));
+  const today = new Date();
+
+  return (
+    <div className="flex-1 overflow-auto custom-scrollbar">
+      <div className="grid grid-cols-7 sticky top-0 z-10 bg-gray-800 border-b border-gray-700">
+        {WEEKDAYS.map(day => (
+          <div key={day} className="p-2 text-center text-xs sm:text-sm font-bold text-gray-300">
+            {day.slice(0, 3)}
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-7">
+        {days.map(day => {
+          const occurrences = getOccurrences(schedules, cancellations, day, substitutions)
+            .filter(({ schedule, substitution }) => !teacherName || isTaughtBy(teacherName, schedule, substitution))
+            .filter(({ schedule }) => !getClosureFor(closures, schedule.grade, day));
+          const dayClosures = getClosuresOn(closures, day);
+          const running = occurrences.filter(o => !o.cancellation);
+          const canceledCount = occurrences.length - running.length;
+          const isToday = isSameDay(day, today);
+          const inMonth = isSameMonth(day, month);
+
+          return (
+            <button
+              key={day.toISOString()}
+              onClick={() => onDayClick(day)}
+              className={`min-h-[72px] sm:min-h-[120px] border-r border-b border-gray-700 p-1.5 sm:p-2 text-left align-top flex flex-col gap-1 transition-colors hover:bg-gray-700/30 ${
+                isToday ? 'bg-blue-900/20' : inMonth ? 'bg-gray-800/30' : 'bg-gray-900/40'
+              }`}
+              title="Show this week"
+            >
+              <span className={`text-sm font-semibold ${
+                isToday ? 'text-blue-300' : inMonth ? 'text-gray-200' : 'text-gray-600'
+              }`}>
+                {format(day, 'd')}
+              </span>
+
+              {dayClosures.map(closure => (
+                <span
+                  key={closure.id}
+                  className="truncate rounded bg-amber-500/20 px-1.5 py-0.5 text-[0.65rem] sm:text-xs font-medium text-amber-200"
+                  title={getClosureLabel(closure)}
+                >
+                  {getClosureLabel(closure)}
+                </span>
+              ))}
+
+              {running.length > 0 && (
+                <span className="inline-flex w-fit items-center rounded-full bg-blue-500/20 px-2 py-0.5 text-[0.65rem] sm:text-xs font-medium text-blue-100">
+                  {running.length} {running.length === 1 ? 'class' : 'classes'}
+                </span>
+              )}
+              {canceledCount > 0 && (
+                <span className="inline-flex w-fit items-center rounded-full bg-red-500/20 px-2 py-0.5 text-[0.65rem] sm:text-xs font-medium text-red-200">
+                  {canceledCount} canceled
+                </span>
+              )}
+
+              {/* The first few classes by name, on wider screens */}
+              <div className="hidden sm:flex flex-col gap-0.5 min-w-0">
+                {running.slice(0, VISIBLE_CLASSES).map(({ schedule }) => (
+                  <span key={schedule.id} className={`truncate text-xs ${inMonth ? 'text-gray-400' : 'text-gray-600'}`}>
+                    {formatTime(schedule.start_time)} {schedule.subject}
+                  </span>
+                ))}
+                {running.length > VISIBLE_CLASSES && (
+                  <span className="text-xs text-gray-500">+{running.length - VISIBLE_CLASSES} more</span>
+                )}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import {
+  ChangeRequestForReview as ChangeRequest,
+  listChangeRequestsForReview,
+  reviewChangeRequest
+} from '../lib/repositories/scheduleRequests';
+import { InboxIcon, CheckIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+// Parse a yyyy-MM-dd column as a local date
+const parseDate = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// Format time from 24h to 12h format
+const formatTime = (time: string) => {
+  const [hours, minutes] = time.split(':');
+  const hour = parseInt(hours, 10);
+  const ampm = hour >= 12 ? 'PM' : 'AM';
+  const formattedHour = hour % 12 || 12;
+  return `${formattedHour}:${minutes} ${ampm}`;
+};
+
+export default function ScheduleRequests() {
+  const [requests, setRequests] = useState<ChangeRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchRequests();
+  }, []);
+
+  const fetchRequests = async () => {
+    try {
+      setLoading(true);
+      setRequests(await listChangeRequestsForReview());
+      setError(null);
+    } catch (error) {
+      console.error('Error fetching schedule requests:', error);
+      setError('Failed to load schedule requests. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReview = async (request: ChangeRequest, approve: boolean) => {
+    try {
+      setReviewingId(request.id);
+      await reviewChangeRequest(request.id, approve, notes[request.id] || null);
+
+      setError(null);
+      fetchRequests();
+    } catch (error) {
+      console.error('Error reviewing schedule request:', error);
+      setError('Failed to update the request. Please try again.');
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  const pendingRequests = requests.filter(r => r.status === 'pending');
+  const reviewedRequests = requests.filter(r => r.status !== 'pending');
+
+  const renderSummary = (request: ChangeRequest) => {
+    const schedule = request.class_schedules;
+    return (
+      <>
+        <div className="text-white font-medium">
+          {request.request_type === 'cancel' ? 'Cancel' : 'Reschedule'} • {schedule ? schedule.subject : 'Removed class'}
+          {schedule && <span className="text-gray-400 font-normal"> ({schedule.grade} {schedule.curriculum})</span>}
+        </div>
+        <div className="text-gray-400 mt-1">
+          {schedule?.teachers?.name || request.requester?.username || 'Unknown teacher'}
+          {' • '}
+          {format(parseDate(request.occurrence_date), 'EEE, MMM d, yyyy')}
+          {schedule && ` ${formatTime(schedule.start_time)} - ${formatTime(schedule.end_time)}`}
+        </div>
+        {request.request_type === 'reschedule' && request.new_date && request.new_start_time && request.new_end_time && (
+          <div className="text-blue-300 mt-1">
+            Move to {format(parseDate(request.new_date), 'EEE, MMM d, yyyy')} {formatTime(request.new_start_time)} - {formatTime(request.new_end_time)}
+          </div>
+        )}
+        {request.reason && <div className="text-gray-500 mt-1">“{request.reason}”</div>}
+      </>
+    );
+  };
+
+  return (
+    <div className="min-h-full bg-gradient-to-br from-[#0a0a0a] to-[#111827] text-gray-200">
+      <div className="container mx-auto px-4 py-6">
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-white flex items-center">
+            <InboxIcon className="h-6 w-6 mr-2 text-blue-500" />
+            Schedule Requests
+          </h1>
+          <p className="text-gray-400 mt-1">
+            Cancellations and reschedules requested by teachers
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-900/20 border border-red-800/30 rounded-lg text-red-200">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            <div className="space-y-3">
+              <h2 className="text-lg font-semibold text-white">Pending ({pendingRequests.length})</h2>
+              {pendingRequests.length === 0 ? (
+                <p className="text-gray-500">No requests waiting for review.</p>
+              ) : (
+                pendingRequests.map(request => (
+                  <div key={request.id} className="bg-gray-800/40 border border-gray-700/50 rounded-xl p-4 text-sm flex flex-col md:flex-row md:items-center justify-between gap-4">
+                    <div>{renderSummary(request)}</div>
+                    <div className="flex flex-col sm:flex-row gap-2 md:w-auto">
+                      <input
+                        type="text"
+                        value={notes[request.id] || ''}
+                        onChange={e => setNotes({ ...notes, [request.id]: e.target.value })}
+                        placeholder="Note for the teacher (optional)"
+                        className="px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <button
+                        onClick={() => handleReview(request, true)}
+                        disabled={reviewingId === request.id}
+                        className="px-3 py-2 bg-green-600/20 hover:bg-green-600/30 text-green-400 rounded-lg transition-colors flex items-center justify-center disabled:opacity-50"
+                      >
+                        <CheckIcon className="h-4 w-4 mr-1" />
+                        Approve
+                      </button>
+                      <button
+                        onClick={() => handleReview(request, false)}
+                        disabled={reviewingId === request.id}
+                        className="px-3 py-2 bg-red-600/20 hover:bg-red-600/30 text-red-400 rounded-lg transition-colors flex items-center justify-center disabled:opacity-50"
+                      >
+                        <XMarkIcon className="h-4 w-4 mr-1" />
+                        Reject
+                      </button>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+
+            {reviewedRequests.length > 0 && (
+              <div className="space-y-3 pt-6 border-t border-gray-700">
+                <h2 className="text-lg font-semibold text-white">Reviewed</h2>
+                {reviewedRequests.map(request => (
+                  <div key={request.id} className="bg-gray-800/30 border border-gray-700/30 rounded-xl p-4 text-sm flex justify-between items-start gap-4">
+                    <div>
+                      {renderSummary(request)}
+                      {request.review_note && <div className="text-gray-400 mt-1 italic">Note: {request.review_note}</div>}
+                    </div>
+                    <span className={`px-2 py-0.5 rounded text-xs whitespace-nowrap ${
+                      request.status === 'approved' ? 'bg-green-900/50 text-green-200' : 'bg-red-900/50 text-red-200'
+                    }`}>
+                      {request.status === 'approved' ? 'Approved' : 'Rejected'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,552 @@
+import { useState, useEffect } from 'react';
+import { format, addDays, addWeeks, differenceInCalendarDays, startOfWeek } from 'date-fns';
+import { XMarkIcon, TrashIcon } from '@heroicons/react/24/outline';
+import type { Teacher } from '../lib/repositories/teachers';
+import {
+  ScheduleWithTeacher as Schedule,
+  ScheduleConflict,
+  SCHEDULE_CONFLICT_ERROR,
+  listSchedules,
+  findScheduleConflicts,
+  importSchedules
+} from '../lib/repositories/schedules';
+import {
+  ScheduleTemplate,
+  DUPLICATE_TEMPLATE_ERROR,
+  listTemplates,
+  createTemplate,
+  deleteTemplate
+} from '../lib/repositories/templates';
+import { TemplateClass, getClassesBetween, getWeekClasses, cloneClasses, isSameClass } from '../lib/scheduleTemplates';
+import { describeRecurrence, parseDate } from '../lib/recurrence';
+import { can } from '../lib/roles';
+
+interface ScheduleTemplatesProps {
+  // The week shown on the schedule page, which the dates start from
+  weekStart: Date;
+  teachers: Teacher[];
+  onClose: () => void;
+  // Called with the number of classes added
+  onCloned: (count: number) => void;
+}
+
+type Mode = 'week' | 'template' | 'save';
+
+type Step = 'choose' | 'preview';
+
+// A cloned class and how it compares with the timetable
+interface PreviewRow {
+  source: TemplateClass;
+  schedule: TemplateClass | null;
+  teacherName: string | null;
+  // An existing class that is the same as this one, which makes it unchanged
+  existing: Schedule | null;
+  conflicts: ScheduleConflict[];
+}
+
+// Weeks a saved term covers by default
+const TERM_WEEKS = 12;
+
+const formatTime = (time: string) => {
+  const [hours, minutes] = time.split(':');
+  const hour = parseInt(hours, 10);
+  const ampm = hour >= 12 ? 'PM' : 'AM';
+  const formattedHour = hour % 12 || 12;
+  return `${formattedHour}:${minutes} ${ampm}`;
+};
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const describeWhen = (schedule: TemplateClass) =>
+  schedule.repeats ? describeRecurrence(schedule) : format(parseDate(schedule.date_tag), 'EEE, MMM d, yyyy');
+
+export default function ScheduleTemplates({ weekStart, teachers, onClose, onCloned }: ScheduleTemplatesProps) {
+  const [mode, setMode] = useState<Mode>('week');
+  const [step, setStep] = useState<Step>('choose');
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [templates, setTemplates] = useState<ScheduleTemplate[]>([]);
+  const [templateId, setTemplateId] = useState('');
+  const [sourceWeek, setSourceWeek] = useState(toDateString(weekStart));
+  const [range, setRange] = useState({
+    from: toDateString(addWeeks(weekStart, 1)),
+    to: toDateString(addDays(addWeeks(weekStart, 1), 6))
+  });
+  const [saveForm, setSaveForm] = useState({
+    name: '',
+    from: toDateString(weekStart),
+    to: toDateString(addDays(addWeeks(weekStart, TERM_WEEKS), -1))
+  });
+  const [rows, setRows] = useState<PreviewRow[]>([]);
+  const [copyOverlapping, setCopyOverlapping] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSources();
+  }, []);
+
+  const fetchSources = async () => {
+    try {
+      setLoading(true);
+      const [scheduleRows, templateRows] = await Promise.all([listSchedules(), listTemplates()]);
+      setSchedules(scheduleRows);
+      setTemplates(templateRows);
+      setError(null);
+    } catch (error) {
+      console.error('Error fetching templates:', error);
+      setError('Failed to load templates. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectedTemplate = templates.find(template => template.id === templateId) || null;
+
+  // A template is cloned onto as many days as it was saved from, by default
+  const selectTemplate = (id: string) => {
+    setTemplateId(id);
+    const template = templates.find(t => t.id === id);
+    if (template) {
+      const length = differenceInCalendarDays(parseDate(template.ends_on), parseDate(template.starts_on));
+      setRange({ from: range.from, to: toDateString(addDays(parseDate(range.from), length)) });
+    }
+  };
+
+  const handleSaveTemplate = async () => {
+    const name = saveForm.name.trim();
+
+    if (!name) {
+      setError('Please give the template a name');
+      return;
+    }
+    if (!saveForm.from || !saveForm.to || saveForm.to < saveForm.from) {
+      setError('The last day must be on or after the first day');
+      return;
+    }
+
+    const classes = getClassesBetween(schedules, parseDate(saveForm.from), parseDate(saveForm.to));
+    if (classes.length === 0) {
+      setError('No classes run between those dates');
+      return;
+    }
+
+    try {
+      setWorking(true);
+      await createTemplate(name, saveForm.from, saveForm.to, classes);
+      setSaveForm({ ...saveForm, name: '' });
+      setError(null);
+      setMessage(`Saved "${name}" with ${classes.length} ${classes.length === 1 ? 'class' : 'classes'}.`);
+      setTemplates(await listTemplates());
+    } catch (error) {
+      console.error('Error saving template:', error);
+      if ((error as { code?: string }).code === DUPLICATE_TEMPLATE_ERROR) {
+        setError(`There is already a template called "${name}".`);
+      } else {
+        setError('Failed to save the template. Please try again.');
+      }
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDeleteTemplate = async (template: ScheduleTemplate) => {
+    if (!window.confirm(`Delete the template "${template.name}"? Classes cloned from it stay.`)) return;
+
+    try {
+      await deleteTemplate(template.id);
+      if (templateId === template.id) setTemplateId('');
+      setTemplates(templates.filter(t => t.id !== template.id));
+    } catch (error) {
+      console.error('Error deleting template:', error);
+      setError('Failed to delete the template. Please try again.');
+    }
+  };
+
+  // Clones the week or template onto the new dates and asks the database what each new
+  // class would double-book, which also finds the ones already in the timetable
+  const handlePreview = async () => {
+    if (!range.from || !range.to || range.to < range.from) {
+      setError('The last day must be on or after the first day');
+      return;
+    }
+    if (mode === 'template' && !selectedTemplate) {
+      setError('Please choose a template');
+      return;
+    }
+
+    const sourceStart = mode === 'week'
+      ? startOfWeek(parseDate(sourceWeek), { weekStartsOn: 1 })
+      : parseDate(selectedTemplate!.starts_on);
+    const classes = mode === 'week' ? getWeekClasses(schedules, sourceStart) : selectedTemplate!.classes;
+
+    setWorking(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const checked: PreviewRow[] = [];
+
+      // One at a time to keep the number of requests in flight small
+      for (const { source, schedule } of cloneClasses(classes, sourceStart, parseDate(range.from), parseDate(range.to))) {
+        const teacherName = teachers.find(teacher => teacher.id === source.teacher_id)?.name || null;
+        const conflicts = schedule && teacherName ? await findScheduleConflicts(schedule) : [];
+        const existing = conflicts.find(conflict => isSameClass(conflict.schedule, schedule!))?.schedule || null;
+        checked.push({ source, schedule, teacherName, existing, conflicts });
+      }
+
+      setRows(checked);
+      setCopyOverlapping(false);
+      setStep('preview');
+    } catch (error) {
+      console.error('Error checking cloned classes:', error);
+      setError('Failed to check the classes. Please try again.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const canOverride = can('schedule.override');
+  const isReady = (row: PreviewRow) => row.schedule !== null && row.teacherName !== null && row.existing === null;
+  const hasOverlap = (row: PreviewRow) => row.conflicts.length > 0;
+  const toCopy = rows.filter(row => isReady(row) && (!hasOverlap(row) || (canOverride && copyOverlapping)));
+  const unchangedCount = rows.filter(row => row.existing).length;
+  const skippedCount = rows.filter(row => !row.schedule || !row.teacherName).length;
+  const overlapCount = rows.filter(row => isReady(row) && hasOverlap(row)).length;
+
+  const handleCopy = async () => {
+    if (toCopy.length === 0) return;
+
+    setWorking(true);
+    setError(null);
+    try {
+      const count = await importSchedules(toCopy.map(row => ({
+        ...row.schedule!,
+        allow_overlap: hasOverlap(row)
+      })));
+      onCloned(count);
+    } catch (error) {
+      console.error('Error cloning classes:', error);
+      if ((error as { code?: string }).code === SCHEDULE_CONFLICT_ERROR) {
+        setError('A class now overlaps another class. Please check the preview again.');
+      } else {
+        setError('Failed to add the classes. Please try again.');
+      }
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-start justify-center z-50 p-2 sm:p-4 overflow-y-auto" onClick={onClose}>
+      <div
+        className="bg-gray-900 rounded-xl border border-gray-700/50 shadow-2xl w-full max-w-4xl my-4 sm:my-8 overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Modal Header */}
+        <div className="relative">
+          <div className="absolute inset-0 bg-gradient-to-r from-blue-600 to-sky-400 opacity-90"></div>
+          <div className="relative p-3 sm:p-5 flex justify-between items-center">
+            <h3 className="text-lg sm:text-xl font-bold text-white">Copy Classes</h3>
+            <button
+              onClick={onClose}
+              className="text-white hover:bg-white/20 rounded-full p-1 transition-colors"
+            >
+              <XMarkIcon className="h-5 w-5 sm:h-6 sm:w-6" />
+            </button>
+          </div>
+        </div>
+
+        {/* Modal Content */}
+        <div className="p-3 sm:p-6 space-y-4 max-h-[calc(100vh-12rem)] overflow-y-auto">
+          {error && (
+            <div className="bg-red-900/20 border border-red-800/50 text-red-300 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+          {message && (
+            <div className="bg-green-900/20 border border-green-800/50 text-green-300 px-4 py-3 rounded-lg">
+              {message}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-500"></div>
+            </div>
+          ) : step === 'choose' && (
+            <>
+              <div className="flex flex-wrap gap-2">
+                {([
+                  ['week', 'Copy a week'],
+                  ['template', 'Clone a template'],
+                  ['save', 'Save as template']
+                ] as [Mode, string][]).map(([value, label]) => (
+                  <button
+                    key={value}
+                    onClick={() => {
+                      setMode(value);
+                      setError(null);
+                      setMessage(null);
+                    }}
+                    className={`px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                      mode === value ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+
+              {mode === 'week' && (
+                <div>
+                  <label className="block text-xs sm:text-sm font-medium text-gray-400 mb-1">Week to copy</label>
+                  <input
+                    type="date"
+                    value={sourceWeek}
+                    onChange={e => e.target.value && setSourceWeek(e.target.value)}
+                    className={inputClass}
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    The week of {format(startOfWeek(parseDate(sourceWeek), { weekStartsOn: 1 }), 'MMM d, yyyy')}. Its
+                    classes repeat every week between the dates below, and its one-time classes are copied once.
+                  </p>
+                </div>
+              )}
+
+              {mode === 'template' && (
+                templates.length === 0 ? (
+                  <p className="text-sm text-gray-400">No templates yet. Save the classes of a term as a template first.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-800 rounded-lg border border-gray-800">
+                    {templates.map(template => (
+                      <li key={template.id} className="flex items-center gap-3 px-3 py-2">
+                        <label className="flex flex-1 min-w-0 items-center gap-3 cursor-pointer">
+                          <input
+                            type="radio"
+                            name="template"
+                            checked={templateId === template.id}
+                            onChange={() => selectTemplate(template.id)}
+                            className="border-gray-600 bg-gray-800 text-blue-500 focus:ring-blue-500"
+                          />
+                          <span className="min-w-0">
+                            <span className="block text-sm text-gray-200 truncate">{template.name}</span>
+                            <span className="block text-xs text-gray-500">
+                              {template.classes.length} {template.classes.length === 1 ? 'class' : 'classes'} from{' '}
+                              {format(parseDate(template.starts_on), 'MMM d')} – {format(parseDate(template.ends_on), 'MMM d, yyyy')}
+                            </span>
+                          </span>
+                        </label>
+                        {can('schedule.delete') && (
+                          <button
+                            onClick={() => handleDeleteTemplate(template)}
+                            className="p-1 text-gray-400 hover:text-red-400 hover:bg-red-400/10 rounded transition-colors"
+                            title="Delete Template"
+                          >
+                            <TrashIcon className="h-4 w-4" />
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )
+              )}
+
+              {mode !== 'save' && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-xs sm:text-sm font-medium text-gray-400 mb-1">New first day</label>
+                    <input
+                      type="date"
+                      value={range.from}
+                      onChange={e => setRange({ ...range, from: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs sm:text-sm font-medium text-gray-400 mb-1">New last day</label>
+                    <input
+                      type="date"
+                      value={range.to}
+                      min={range.from}
+                      onChange={e => setRange({ ...range, to: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <p className="sm:col-span-2 text-xs text-gray-500">
+                    Dates move by whole weeks, so every class keeps its weekday. Nothing is added until you confirm the preview.
+                  </p>
+                </div>
+              )}
+
+              {mode === 'save' && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <div className="sm:col-span-2">
+                    <label className="block text-xs sm:text-sm font-medium text-gray-400 mb-1">Template name</label>
+                    <input
+                      type="text"
+                      value={saveForm.name}
+                      onChange={e => setSaveForm({ ...saveForm, name: e.target.value })}
+                      className={inputClass}
+                      placeholder="e.g. Autumn term"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs sm:text-sm font-medium text-gray-400 mb-1">First day</label>
+                    <input
+                      type="date"
+                      value={saveForm.from}
+                      onChange={e => setSaveForm({ ...saveForm, from: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs sm:text-sm font-medium text-gray-400 mb-1">Last day</label>
+                    <input
+                      type="date"
+                      value={saveForm.to}
+                      min={saveForm.from}
+                      onChange={e => setSaveForm({ ...saveForm, to: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <p className="sm:col-span-2 text-xs text-gray-500">
+                    Every class that runs at least once between these dates is saved, whichever filters the schedule page shows.
+                  </p>
+                </div>
+              )}
+            </>
+          )}
+
+          {!loading && step === 'preview' && (
+            <>
+              <p className="text-sm text-gray-300">
+                {toCopy.length} of {rows.length} {rows.length === 1 ? 'class' : 'classes'} will be added
+                between {format(parseDate(range.from), 'MMM d')} and {format(parseDate(range.to), 'MMM d, yyyy')}.
+                {unchangedCount > 0 && ` ${unchangedCount} already in the timetable.`}
+                {skippedCount > 0 && ` ${skippedCount} that can't be copied will be skipped.`}
+                {overlapCount > 0 && !(canOverride && copyOverlapping) && ` ${overlapCount} that overlap other classes will be skipped.`}
+              </p>
+
+              {overlapCount > 0 && canOverride && (
+                <label className="flex items-center gap-2 text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={copyOverlapping}
+                    onChange={e => setCopyOverlapping(e.target.checked)}
+                    className="rounded border-gray-600 bg-gray-800 text-red-500 focus:ring-red-500"
+                  />
+                  Add overlapping classes anyway
+                </label>
+              )}
+
+              <div className="overflow-x-auto rounded-lg border border-gray-800">
+                <table className="w-full text-xs sm:text-sm">
+                  <thead className="bg-gray-800/60 text-gray-400">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium">Class</th>
+                      <th className="px-3 py-2 text-left font-medium">When</th>
+                      <th className="px-3 py-2 text-left font-medium">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-800">
+                    {rows.map((row, index) => (
+                      <tr key={index} className={isReady(row) ? '' : 'opacity-60'}>
+                        <td className="px-3 py-2 text-gray-200 align-top">
+                          {row.source.subject} • {row.teacherName || 'Unknown teacher'}
+                          <span className="block text-gray-500">
+                            {row.source.grade} {row.source.curriculum}
+                            {row.source.room && ` • ${row.source.room}`}
+                          </span>
+                        </td>
+                        <td className="px-3 py-2 text-gray-300 align-top">
+                          {row.schedule ? describeWhen(row.schedule) : <span className="text-gray-500">—</span>}
+                          <span className="block text-gray-500">
+                            {formatTime(row.source.start_time)} - {formatTime(row.source.end_time)}
+                          </span>
+                          <span className="block text-gray-600">Was: {describeWhen(row.source)}</span>
+                        </td>
+                        <td className="px-3 py-2 align-top">
+                          {!row.teacherName ? (
+                            <span className="text-red-300">The teacher no longer exists</span>
+                          ) : !row.schedule ? (
+                            <span className="text-gray-400">Doesn't run between the new dates</span>
+                          ) : row.existing ? (
+                            <span className="text-gray-400">Already in the timetable</span>
+                          ) : hasOverlap(row) ? (
+                            <ul className="space-y-0.5 text-amber-300">
+                              {row.conflicts.map(({ schedule, teacherClash, roomClash }) => (
+                                <li key={schedule.id}>
+                                  Overlaps {schedule.subject} • {schedule.teachers?.name} at {formatTime(schedule.start_time)}
+                                  {teacherClash && roomClash ? ' (same teacher and room)' : teacherClash ? ' (same teacher)' : ' (same room)'}
+                                </li>
+                              ))}
+                            </ul>
+                          ) : (
+                            <span className="text-green-400">New</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {overlapCount > 0 && !canOverride && (
+                <p className="text-xs text-gray-500">Only an admin can add classes that overlap other classes.</p>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Modal Footer */}
+        <div className="border-t border-gray-800 p-4 flex justify-end space-x-3">
+          {step === 'preview' && (
+            <button
+              onClick={() => setStep('choose')}
+              disabled={working}
+              className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 rounded-lg transition-colors disabled:opacity-50"
+            >
+              Back
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          {step === 'choose' && mode === 'save' && (
+            <button
+              onClick={handleSaveTemplate}
+              disabled={working || loading}
+              className="px-4 py-2 text-white font-medium rounded-lg shadow-md hover:shadow-lg transition-all duration-300 bg-gradient-to-r from-blue-600 to-sky-500 hover:from-blue-500 hover:to-sky-400 disabled:opacity-50"
+            >
+              {working ? 'Saving...' : 'Save Template'}
+            </button>
+          )}
+          {step === 'choose' && mode !== 'save' && (
+            <button
+              onClick={handlePreview}
+              disabled={working || loading || (mode === 'template' && !selectedTemplate)}
+              className="px-4 py-2 text-white font-medium rounded-lg shadow-md hover:shadow-lg transition-all duration-300 bg-gradient-to-r from-blue-600 to-sky-500 hover:from-blue-500 hover:to-sky-400 disabled:opacity-50"
+            >
+              {working ? 'Checking...' : 'Preview'}
+            </button>
+          )}
+          {step === 'preview' && (
+            <button
+              onClick={handleCopy}
+              disabled={working || toCopy.length === 0}
+              className="px-4 py-2 text-white font-medium rounded-lg shadow-md hover:shadow-lg transition-all duration-300 bg-gradient-to-r from-blue-600 to-sky-500 hover:from-blue-500 hover:to-sky-400 disabled:opacity-50"
+            >
+              {working ? 'Adding...' : `Add ${toCopy.length} ${toCopy.length === 1 ? 'Class' : 'Classes'}`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
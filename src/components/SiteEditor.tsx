@@ -1,31 +1,29 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { PlusIcon, PencilIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
 import { Routes, Route, Link, useLocation } from 'react-router-dom';
-import { supabase } from '../lib/supabaseClient';
+import {
+  SubjectContent as Subject,
+  CalendarEvent,
+  TeacherProfile as Teacher,
+  listSubjectContents,
+  createSubjectContent,
+  updateSubjectContent,
+  deleteSubjectContent,
+  listCalendarEvents,
+  createCalendarEvent,
+  updateCalendarEvent,
+  deleteCalendarEvent,
+  listTeacherProfiles,
+  createTeacherProfile,
+  updateTeacherProfile,
+  deleteTeacherProfile
+} from '../lib/repositories/siteContent';
 import { format } from 'date-fns';
 import News from './News';
 import Images from './Images';
 import Store from './Store/Store';
 import TeacherImageUploader from './TeacherImageUploader';
 
-// Define types
-interface Teacher {
-  id: string;
-  teacher_name: string;
-  subject_name: string;
-  qualifications: string | null;
-  description: string | null;
-  picture_id: string | null;
-  grade: string | null;  // "9,10,AS"
-  syllabus: string | null;  // "Cambridge,Edexcel"
-  // Remove individual grade and curriculum fields
-  grade_9?: boolean;
-  grade_10?: boolean;
-  grade_as?: boolean;
-  curriculum_edexcel?: boolean;
-  curriculum_cambridge?: boolean;
-}
-
 // Define navigation items
 const editorNavigation = [
   { name: 'Subjects', href: '/dashboard/site-editor', exact: true },
@@ -36,23 +34,6 @@ const editorNavigation = [
   { name: 'Teachers', href: '/dashboard/site-editor/teachers' }
 ];
 
-interface Subject {
-  id: string;
-  subject_name: string;
-  subject_description: string;
-  whatsapp_link: string;
-  grade?: string | null;  // "9,10,AS"
-  syllabus?: string | null;  // "Cambridge,Edexcel"
-}
-
-interface CalendarEvent {
-  id: string;
-  title: string;
-  description: string;
-  event_date: string;
-  created_at: string;
-}
-
 // Subject Card Component
 const SubjectCard = ({ subject, onEdit, onDelete }: { 
   subject: Subject; 
@@ -306,7 +287,12 @@ const CalendarEventCard = ({ event, onEdit, onDelete }: {
   <div className="bg-dark-card hover:bg-dark-cardHover border border-dark-border/30 rounded-xl shadow-md hover:shadow-lg transition-all duration-300 p-5 backdrop-blur-sm">
     <div className="flex justify-between items-start mb-3">
       <div>
-        <h3 className="text-lg font-semibold text-white">{event.title}</h3>
+        <h3 className="text-lg font-semibold text-white">
+          {event.title}
+          {event.is_holiday && (
+            <span className="ml-2 align-middle px-2 py-0.5 rounded-full text-xs font-medium bg-red-900/40 text-red-200">Holiday</span>
+          )}
+        </h3>
         <p className="text-sm bg-gradient-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent font-medium">
           {format(new Date(event.event_date), 'MMMM d, yyyy')}
         </p>
@@ -339,7 +325,8 @@ const CalendarEventEditor = ({ onClose, editingEvent, onSave }: {
   const [formData, setFormData] = useState({
     title: editingEvent?.title || '',
     description: editingEvent?.description || '',
-    event_date: editingEvent ? new Date(editingEvent.event_date).toISOString().split('T')[0] : new Date().toISOString().split('T')[0]
+    event_date: editingEvent ? new Date(editingEvent.event_date).toISOString().split('T')[0] : new Date().toISOString().split('T')[0],
+    is_holiday: editingEvent?.is_holiday || false
   });
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -426,6 +413,21 @@ const CalendarEventEditor = ({ onClose, editingEvent, onSave }: {
               placeholder="Enter event description"
             />
           </div>
+
+          <label className="flex items-start gap-3 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={formData.is_holiday}
+              onChange={e => setFormData(prev => ({ ...prev, is_holiday: e.target.checked }))}
+              className="mt-0.5 h-4 w-4 rounded border-gray-600 bg-gray-800 text-blue-500 focus:ring-blue-500"
+            />
+            <span>
+              Holiday: no classes on this day
+              <span className="block text-xs text-gray-500">
+                Classes of every grade are left off the timetable. To close only some grades or several days, add a closure on the Closures page.
+              </span>
+            </span>
+          </label>
           
           <div className="flex justify-end space-x-3 pt-4">
             <button
@@ -460,37 +462,7 @@ const TeacherContentCard: React.FC<{
   onEdit: () => void;
   onDelete: () => void;
 }> = ({ teacher, onEdit, onDelete }) => {
-  // Parse qualifications safely
-  const qualificationsList = React.useMemo(() => {
-    if (!teacher.qualifications) return [];
-    try {
-      // Handle array data type
-      if (Array.isArray(teacher.qualifications)) {
-        return teacher.qualifications;
-      }
-      
-      // Handle PostgreSQL array format: {"qual1","qual2"}
-      if (typeof teacher.qualifications === 'string' && 
-          teacher.qualifications.startsWith('{') && 
-          teacher.qualifications.endsWith('}')) {
-        // Remove the braces and parse as CSV
-        const arrayContent = teacher.qualifications.substring(1, teacher.qualifications.length - 1);
-        return arrayContent
-          .split(',')
-          .map(q => q.replace(/^"|"$/g, '').trim())
-          .filter(Boolean);
-      }
-      
-      // Legacy format: "qual1","qual2"
-      return teacher.qualifications
-        .split('","')
-        .map(q => q.replace(/^"|"$/g, '').trim())
-        .filter(Boolean);
-    } catch (error) {
-      console.error('Error parsing qualifications:', error);
-      return [];
-    }
-  }, [teacher.qualifications]);
+  const qualificationsList = teacher.qualifications || [];
 
   // Parse grade and syllabus
   const grades = React.useMemo(() => {
@@ -567,39 +539,7 @@ const TeacherContentEditor = ({ onClose, editingTeacher, onSave }: {
   editingTeacher?: Teacher;
   onSave: (data: Omit<Teacher, 'id'>) => Promise<void>;
 }) => {
-  // Initialize qualifications array from string or existing array
-  const initialQualifications = React.useMemo(() => {
-    if (!editingTeacher?.qualifications) return []; // Return empty array if no qualifications
-    try {
-      // Handle array data type
-      if (Array.isArray(editingTeacher.qualifications)) {
-        return editingTeacher.qualifications.length > 0 ? editingTeacher.qualifications : [];
-      }
-      
-      // Handle PostgreSQL array format: {"qual1","qual2"}
-      if (typeof editingTeacher.qualifications === 'string' && 
-          editingTeacher.qualifications.startsWith('{') && 
-          editingTeacher.qualifications.endsWith('}')) {
-        // Remove the braces and parse as CSV
-        const arrayContent = editingTeacher.qualifications.substring(1, editingTeacher.qualifications.length - 1);
-        const parsed = arrayContent
-          .split(',')
-          .map(q => q.replace(/^"|"$/g, '').trim())
-          .filter(Boolean);
-        return parsed.length > 0 ? parsed : [];
-      }
-      
-      // Legacy format: "qual1","qual2"
-      const parsed = editingTeacher.qualifications
-        .split('","')
-        .map(q => q.replace(/^"|"$/g, '').trim())
-        .filter(Boolean);
-      return parsed.length > 0 ? parsed : [];
-    } catch (error) {
-      console.error('Error parsing initial qualifications:', error);
-      return []; // Return empty array on error
-    }
-  }, [editingTeacher?.qualifications]);
+  const initialQualifications = editingTeacher?.qualifications || [];
 
   // Parse initial grade and syllabus
   const [formData, setFormData] = useState(() => {
@@ -651,11 +591,7 @@ const TeacherContentEditor = ({ onClose, editingTeacher, onSave }: {
         ? qualifications 
         : ['Pending qualification details'];
       
-      // Format qualifications as a PostgreSQL array literal: {"qual1","qual2"}
-      // Never allow null qualifications since the database has a NOT NULL constraint
-      const formattedQualifications = `{${qualificationsToUse.map(q => `"${q.trim()}"`).join(',')}}`;
-      
-      console.log('Formatted qualifications as array:', formattedQualifications);
+      const formattedQualifications = qualificationsToUse.map(q => q.trim());
 
       // Format grade and syllabus as comma-separated strings
       const grade = [
@@ -987,13 +923,7 @@ export default function SiteEditor() {
     setIsSubjectsLoading(true);
     setSubjectsError(null);
     try {
-      const { data, error } = await supabase
-        .from('subjects_content')
-        .select('*');
-      
-      if (error) throw error;
-      
-      setSubjects(data || []);
+      setSubjects(await listSubjectContents());
     } catch (err) {
       console.error('Error fetching subjects:', err);
       setSubjectsError('Failed to load subjects. Please try again.');
@@ -1005,14 +935,7 @@ export default function SiteEditor() {
   // Fetch calendar events from Supabase
   const fetchCalendarEvents = async () => {
     try {
-      const { data, error } = await supabase
-        .from('calendar_events')
-        .select('*')
-        .order('event_date', { ascending: true });
-      
-      if (error) throw error;
-      
-      setCalendarEvents(data || []);
+      setCalendarEvents(await listCalendarEvents());
     } catch (err) {
       console.error('Error fetching calendar events:', err);
     }
@@ -1022,11 +945,7 @@ export default function SiteEditor() {
     setIsTeacherContentLoading(true);
     setTeacherContentError(null);
     try {
-      const { data, error } = await supabase
-        .from('teachers_content')
-        .select('*');
-      
-      if (error) throw error;
+      const data = await listTeacherProfiles();
       
       console.log('Teacher contents from database:', data);
       if (data && data.length > 0) {
@@ -1034,7 +953,7 @@ export default function SiteEditor() {
         console.log('Available fields:', Object.keys(data[0]));
       }
       
-      setTeacherContents(data || []);
+      setTeacherContents(data);
     } catch (error) {
       console.error('Error fetching teacher contents:', error);
       setTeacherContentError('Failed to load teacher content. Please try again.');
@@ -1047,29 +966,15 @@ export default function SiteEditor() {
   const handleSaveSubject = async (data: Omit<Subject, 'id'>) => {
     try {
       if (editingSubject) {
-        const { error } = await supabase
-          .from('subjects_content')
-          .update(data)
-          .eq('id', editingSubject.id);
-        
-        if (error) throw error;
+        await updateSubjectContent(editingSubject.id, data);
         
         // Update local state
         setSubjects(subjects.map(subject => 
           subject.id === editingSubject.id ? { ...subject, ...data } : subject
         ));
       } else {
-        const { data: newItem, error } = await supabase
-          .from('subjects_content')
-          .insert([data])
-          .select('*')
-          .single();
-        
-        if (error) throw error;
-        
-        if (newItem) {
-          setSubjects([newItem, ...subjects]);
-        }
+        const newItem = await createSubjectContent(data);
+        setSubjects([newItem, ...subjects]);
       }
     } catch (err) {
       console.error('Error saving subject:', err);
@@ -1081,29 +986,15 @@ export default function SiteEditor() {
   const handleSaveCalendarEvent = async (data: Omit<CalendarEvent, 'id' | 'created_at'>) => {
     try {
       if (editingCalendarEvent) {
-        const { error } = await supabase
-          .from('calendar_events')
-          .update(data)
-          .eq('id', editingCalendarEvent.id);
-        
-        if (error) throw error;
+        await updateCalendarEvent(editingCalendarEvent.id, data);
         
         // Update local state
         setCalendarEvents(calendarEvents.map(event => 
           event.id === editingCalendarEvent.id ? { ...event, ...data } : event
         ));
       } else {
-        const { data: newEvent, error } = await supabase
-          .from('calendar_events')
-          .insert([{ ...data, created_at: new Date().toISOString() }])
-          .select('*')
-          .single();
-        
-        if (error) throw error;
-        
-        if (newEvent) {
-          setCalendarEvents([newEvent, ...calendarEvents]);
-        }
+        const newEvent = await createCalendarEvent(data);
+        setCalendarEvents([newEvent, ...calendarEvents]);
       }
     } catch (err) {
       console.error('Error saving calendar event:', err);
@@ -1121,7 +1012,7 @@ export default function SiteEditor() {
       const cleanData = {
         teacher_name: data.teacher_name,
         subject_name: data.subject_name,
-        qualifications: data.qualifications || '{}', // Ensure qualifications is never null
+        qualifications: data.qualifications || [], // Ensure qualifications is never null
         description: data.description,
         picture_id: data.picture_id, // This is the correct column name
         grade: data.grade || null,
@@ -1132,33 +1023,14 @@ export default function SiteEditor() {
       
       if (editingTeacherContent) {
         console.log('Updating existing teacher with ID:', editingTeacherContent.id);
-        const { data: updatedData, error } = await supabase
-          .from('teachers_content')
-          .update(cleanData)
-          .eq('id', editingTeacherContent.id)
-          .select();
-        
-        if (error) {
-          console.error('Supabase update error:', error);
-          console.error('Error details:', error);
-          throw error;
-        }
+        await updateTeacherProfile(editingTeacherContent.id, cleanData);
         
-        console.log('Update successful, returned data:', updatedData);
+        console.log('Update successful');
       } else {
         console.log('Creating new teacher');
-        const { data: insertedData, error } = await supabase
-          .from('teachers_content')
-          .insert([cleanData])
-          .select();
+        await createTeacherProfile(cleanData);
         
-        if (error) {
-          console.error('Supabase insert error:', error);
-          console.error('Error details:', error);
-          throw error;
-        }
-        
-        console.log('Insert successful, returned data:', insertedData);
+        console.log('Insert successful');
       }
 
       fetchTeacherContents();
@@ -1177,12 +1049,7 @@ export default function SiteEditor() {
     }
     
     try {
-      const { error } = await supabase
-        .from('subjects_content')
-        .delete()
-        .eq('id', id);
-      
-      if (error) throw error;
+      await deleteSubjectContent(id);
       
       // Update local state
       setSubjects(subjects.filter(subject => subject.id !== id));
@@ -1199,12 +1066,7 @@ export default function SiteEditor() {
     }
     
     try {
-      const { error } = await supabase
-        .from('calendar_events')
-        .delete()
-        .eq('id', id);
-      
-      if (error) throw error;
+      await deleteCalendarEvent(id);
       
       // Update local state
       setCalendarEvents(calendarEvents.filter(event => event.id !== id));
@@ -1218,12 +1080,7 @@ export default function SiteEditor() {
     if (!window.confirm('Are you sure you want to delete this teacher content?')) return;
 
     try {
-      const { error } = await supabase
-        .from('teachers_content')
-        .delete()
-        .eq('id', id);
-      
-      if (error) throw error;
+      await deleteTeacherProfile(id);
       fetchTeacherContents();
     } catch (error) {
       console.error('Error deleting teacher content:', error);
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { cloudinaryConfig } from '../../lib/cloudinaryConfig';
+import { cloudinaryConfig, createSignedUploadForm } from '../../lib/cloudinaryConfig';
 
 interface ImageUploaderProps {
   onImageUploaded: (url: string) => void;
@@ -26,10 +26,18 @@ export default function ImageUploader({ onImageUploaded, currentImageUrl }: Imag
     setIsUploading(true);
     setUploadProgress(0);
 
-    const formData = new FormData();
-    formData.append('file', file);
-    formData.append('upload_preset', 'store_images');
-    formData.append('folder', 'store-products');
+    let formData: FormData;
+    try {
+      formData = await createSignedUploadForm(file, {
+        upload_preset: 'store_images',
+        folder: 'store-products'
+      });
+    } catch (error) {
+      console.error('Error signing upload:', error);
+      alert('Failed to upload image. Please try again.');
+      setIsUploading(false);
+      return;
+    }
 
     // Use XMLHttpRequest for upload progress
     const xhr = new XMLHttpRequest();
@@ -1,36 +1,25 @@
 import { useEffect, useState } from 'react';
-import { supabase } from '../../lib/supabase';
-
-interface Order {
-  id: number;
-  customer_name: string;
-  customer_email: string;
-  customer_phone: string;
-  customer_address: string;
-  total_amount: number;
-  invoice_id: string;
-  created_at: string;
-  updated_at: string;
-  user_id: string | null;
-  payment_status: string;
-  status: string;
+import {
+  OrderWithItems,
+  listOrders,
+  createOrder,
+  updateOrderStatus as saveOrderStatus,
+  deleteOrder as removeOrder
+} from '../../lib/repositories/orders';
+import { can } from '../../lib/roles';
+
+// Viewed state is kept per browser in localStorage
+type Order = OrderWithItems & {
   viewed: boolean;
   isNew: boolean;
-  store_order_items?: Array<{
-    id: number;
-    quantity: number;
-    price_at_time: number;
-    store_products: {
-      name: string;
-    } | null;
-  }>;
-}
+};
 
 export default function OrdersManager() {
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
+  const canDelete = can('orders.delete');
 
   useEffect(() => {
     loadOrders();
@@ -40,41 +29,12 @@ export default function OrdersManager() {
     try {
       console.log('Attempting to fetch orders...');
 
-      // First test if we can access any table
-      const { data: testData, error: testError } = await supabase
-        .from('store_products')
-        .select('*')
-        .limit(1);
-
-      console.log('Test query result:', { testData, testError });
-
-      // Now try to get orders
-      const { data, error } = await supabase
-        .from('store_orders')
-        .select(`
-          *,
-          store_order_items (
-            id,
-            quantity,
-            price_at_time,
-            store_products (
-              name
-            )
-          )
-        `)
-        .order('created_at', { ascending: false });
-
-      console.log('Orders query result:', { data, error });
-
-      if (error) {
-        console.error('Detailed error:', error);
-        throw error;
-      }
+      const data = await listOrders();
 
       console.log('Orders data:', data);
 
       // Mark orders as new if they're less than 24 hours old and haven't been viewed
-      const ordersWithNewStatus = (data || []).map(order => ({
+      const ordersWithNewStatus = data.map(order => ({
         ...order,
         viewed: localStorage.getItem(`order_${order.id}_viewed`) === 'true',
         isNew: new Date(order.created_at).getTime() > Date.now() - 24 * 60 * 60 * 1000
@@ -91,22 +51,15 @@ export default function OrdersManager() {
 
   async function createTestOrder() {
     try {
-      const { data, error } = await supabase
-        .from('store_orders')
-        .insert([
-          {
-            customer_name: 'Test Customer',
-            customer_email: 'test@example.com',
-            customer_phone: '1234567890',
-            total_amount: 1000,
-            invoice_id: 'TEST-' + Date.now(),
-            payment_status: 'pending',
-            status: 'pending'
-          }
-        ])
-        .select();
-
-      if (error) throw error;
+      const data = await createOrder({
+        customer_name: 'Test Customer',
+        customer_email: 'test@example.com',
+        customer_phone: '1234567890',
+        total_amount: 1000,
+        invoice_id: 'TEST-' + Date.now(),
+        payment_status: 'pending',
+        status: 'pending'
+      });
       
       console.log('Created test order:', data);
       loadOrders();  // Reload the orders
@@ -118,15 +71,7 @@ export default function OrdersManager() {
 
   async function updateOrderStatus(orderId: number, newStatus: string, type: 'status' | 'payment') {
     try {
-      const { error } = await supabase
-        .from('store_orders')
-        .update({
-          [type === 'status' ? 'status' : 'payment_status']: newStatus,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', orderId);
-
-      if (error) throw error;
+      await saveOrderStatus(orderId, type === 'status' ? { status: newStatus } : { payment_status: newStatus });
       
       loadOrders();  // Reload the orders
     } catch (err) {
@@ -155,12 +100,7 @@ export default function OrdersManager() {
     if (!window.confirm('Are you sure you want to delete this order?')) return;
 
     try {
-      const { error } = await supabase
-        .from('store_orders')
-        .delete()
-        .eq('id', orderId);
-
-      if (error) throw error;
+      await removeOrder(orderId);
       
       setOrders(orders.filter(order => order.id !== orderId));
     } catch (err) {
@@ -268,15 +208,17 @@ export default function OrdersManager() {
                       >
                         View Details
                       </button>
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          deleteOrder(order.id);
-                        }}
-                        className="px-2 py-0.5 rounded text-xs bg-red-900/50 text-red-200 hover:bg-red-800/50 transition-colors"
-                      >
-                        Delete
-                      </button>
+                      {canDelete && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            deleteOrder(order.id);
+                          }}
+                          className="px-2 py-0.5 rounded text-xs bg-red-900/50 text-red-200 hover:bg-red-800/50 transition-colors"
+                        >
+                          Delete
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -363,15 +305,17 @@ export default function OrdersManager() {
                     >
                       View
                     </button>
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        deleteOrder(order.id);
-                      }}
-                      className="px-2 py-0.5 rounded text-xs bg-red-900/50 text-red-200 hover:bg-red-800/50 transition-colors"
-                    >
-                      Delete
-                    </button>
+                    {canDelete && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          deleteOrder(order.id);
+                        }}
+                        className="px-2 py-0.5 rounded text-xs bg-red-900/50 text-red-200 hover:bg-red-800/50 transition-colors"
+                      >
+                        Delete
+                      </button>
+                    )}
                   </div>
                 </div>
               </div>
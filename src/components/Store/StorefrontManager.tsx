@@ -1,21 +1,8 @@
 import { useEffect, useState } from 'react';
-import { supabase } from '../../lib/supabase';
+import { Product, listProducts, saveProduct, productHasOrders, deleteProduct } from '../../lib/repositories/products';
 import ImageUploader from './ImageUploader';
 import { TrashIcon, PencilIcon } from '@heroicons/react/24/outline';
 
-interface Product {
-  id: number;
-  name: string;
-  description: string;
-  price: number;
-  image_url: string;
-  created_at: string;
-  updated_at: string;
-  subject: string;
-  grade: string;
-  syllabus: 'Cambridge' | 'Edexcel';
-}
-
 const SYLLABUSES = ['Cambridge', 'Edexcel'];
 
 export default function StorefrontManager() {
@@ -30,16 +17,7 @@ export default function StorefrontManager() {
 
   const fetchProducts = async () => {
     try {
-      const { data, error } = await supabase
-        .from('store_products')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        console.error('Supabase error:', error);
-        throw error;
-      }
-      setProducts(data || []);
+      setProducts(await listProducts());
     } catch (error) {
       console.error('Error fetching products:', error);
       alert('Failed to load products. Please try again.');
@@ -86,16 +64,7 @@ export default function StorefrontManager() {
         updated_at: new Date().toISOString()
       };
 
-      const { error } = await supabase
-        .from('store_products')
-        .upsert(productData, {
-          onConflict: 'id'
-        });
-
-      if (error) {
-        console.error('Supabase error:', error);
-        throw error;
-      }
+      await saveProduct(productData);
       
       setEditingProduct(null);
       fetchProducts();
@@ -114,30 +83,14 @@ export default function StorefrontManager() {
 
     try {
       // First check if product has any orders
-      const { data: orderItems, error: checkError } = await supabase
-        .from('store_order_items')
-        .select('id')
-        .eq('product_id', deletingProduct.id)
-        .limit(1);
-
-      if (checkError) throw checkError;
-
-      if (orderItems && orderItems.length > 0) {
+      if (await productHasOrders(deletingProduct.id)) {
         alert('Cannot delete this product because it has existing orders. Consider marking it as unavailable instead.');
         setDeletingProduct(null);
         return;
       }
 
       // If no orders exist, proceed with deletion
-      const { error } = await supabase
-        .from('store_products')
-        .delete()
-        .eq('id', deletingProduct.id);
-
-      if (error) {
-        console.error('Supabase error:', error);
-        throw error;
-      }
+      await deleteProduct(deletingProduct.id);
       
       setDeletingProduct(null);
       fetchProducts();
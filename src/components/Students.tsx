@@ -0,0 +1,639 @@
+import { useState, useEffect } from 'react';
+import { PlusIcon, XMarkIcon, TrashIcon, PencilIcon, UserGroupIcon, UserPlusIcon, PrinterIcon } from '@heroicons/react/24/outline';
+import {
+  Student,
+  Enrollment,
+  CLASS_FULL_ERROR,
+  DUPLICATE_ENROLLMENT_ERROR,
+  listStudents,
+  createStudent,
+  updateStudent,
+  deleteStudent,
+  listEnrollments,
+  createEnrollment,
+  deleteEnrollment
+} from '../lib/repositories/students';
+import { ScheduleWithTeacher as Schedule, listSchedules } from '../lib/repositories/schedules';
+import { describeRecurrence } from '../lib/recurrence';
+import { can } from '../lib/roles';
+
+interface StudentFormData {
+  name: string;
+  grade: string;
+  curriculum: string;
+  guardian_name: string;
+  phone: string;
+  email: string;
+  notes: string;
+}
+
+// A group enrollment, or one class when scheduleId is set
+interface EnrollFormData {
+  kind: 'group' | 'class';
+  group: string;
+  subject: string;
+  scheduleId: string;
+}
+
+const EMPTY_FORM: StudentFormData = { name: '', grade: '', curriculum: '', guardian_name: '', phone: '', email: '', notes: '' };
+
+// Grade and curriculum joined into one select value
+const GROUP_SEPARATOR = '|';
+
+const formatTime = (time: string) => {
+  const [hours, minutes] = time.split(':');
+  const hour = parseInt(hours, 10);
+  const ampm = hour >= 12 ? 'PM' : 'AM';
+  const formattedHour = hour % 12 || 12;
+  return `${formattedHour}:${minutes} ${ampm}`;
+};
+
+const describeClass = (schedule: Schedule) =>
+  `${schedule.subject} • ${schedule.teachers.name} • ${describeRecurrence(schedule)}, ${formatTime(schedule.start_time)}`;
+
+export default function Students() {
+  const [students, setStudents] = useState<Student[]>([]);
+  const [enrollments, setEnrollments] = useState<Enrollment[]>([]);
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [search, setSearch] = useState('');
+  const [groupFilter, setGroupFilter] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editedStudent, setEditedStudent] = useState<Student | null>(null);
+  const [formData, setFormData] = useState<StudentFormData>(EMPTY_FORM);
+  const [enrollingStudent, setEnrollingStudent] = useState<Student | null>(null);
+  const [enrollForm, setEnrollForm] = useState<EnrollFormData>({ kind: 'group', group: '', subject: '', scheduleId: '' });
+
+  useEffect(() => {
+    fetchStudents();
+  }, []);
+
+  const fetchStudents = async () => {
+    try {
+      setLoading(true);
+      const [studentRows, enrollmentRows, scheduleRows] = await Promise.all([
+        listStudents(),
+        listEnrollments(),
+        listSchedules()
+      ]);
+      setStudents(studentRows);
+      setEnrollments(enrollmentRows);
+      setSchedules(scheduleRows);
+      setError(null);
+    } catch (error) {
+      console.error('Error fetching students:', error);
+      setError('Failed to load students. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The grade and curriculum groups classes are given in, e.g. "Grade 9|Edexcel"
+  const groups = [...new Set(schedules.map(s => `${s.grade}${GROUP_SEPARATOR}${s.curriculum}`))].sort();
+  const grades = [...new Set(schedules.map(s => s.grade))].sort();
+  const curricula = [...new Set(schedules.map(s => s.curriculum))].sort();
+  const splitGroup = (group: string) => group.split(GROUP_SEPARATOR) as [string, string];
+  const classesIn = (group: string) => {
+    const [grade, curriculum] = splitGroup(group);
+    return schedules.filter(s => s.grade === grade && s.curriculum === curriculum);
+  };
+
+  const describeEnrollment = (enrollment: Enrollment) => {
+    if (enrollment.schedule_id === null) {
+      return `All ${enrollment.grade} ${enrollment.curriculum} ${enrollment.subject || 'classes'}`;
+    }
+    const schedule = schedules.find(s => s.id === enrollment.schedule_id);
+    return schedule ? `${describeClass(schedule)} (${schedule.grade} ${schedule.curriculum})` : 'A deleted class';
+  };
+
+  // A student is in a group when they are enrolled in it or in one of its classes
+  const isInGroup = (student: Student, group: string) => {
+    const [grade, curriculum] = splitGroup(group);
+    return enrollments.some(enrollment =>
+      enrollment.student_id === student.id && (
+        enrollment.schedule_id === null
+          ? enrollment.grade === grade && enrollment.curriculum === curriculum
+          : classesIn(group).some(s => s.id === enrollment.schedule_id)
+      )
+    );
+  };
+
+  const shown = students.filter(student =>
+    student.name.toLowerCase().includes(search.trim().toLowerCase()) &&
+    (!groupFilter || isInGroup(student, groupFilter))
+  );
+
+  const openForm = (student: Student | null) => {
+    setEditedStudent(student);
+    setFormData(student
+      ? {
+          name: student.name,
+          grade: student.grade || '',
+          curriculum: student.curriculum || '',
+          guardian_name: student.guardian_name || '',
+          phone: student.phone || '',
+          email: student.email || '',
+          notes: student.notes || ''
+        }
+      : EMPTY_FORM);
+    setIsFormOpen(true);
+  };
+
+  const handleSave = async () => {
+    const name = formData.name.trim();
+
+    if (!name) {
+      setError('Please enter the student\'s name');
+      return;
+    }
+
+    const student = {
+      name,
+      grade: formData.grade || null,
+      curriculum: formData.curriculum || null,
+      guardian_name: formData.guardian_name.trim() || null,
+      phone: formData.phone.trim() || null,
+      email: formData.email.trim() || null,
+      notes: formData.notes.trim() || null
+    };
+
+    try {
+      if (editedStudent) {
+        await updateStudent(editedStudent.id, student);
+      } else {
+        await createStudent(student);
+      }
+
+      setIsFormOpen(false);
+      setError(null);
+      fetchStudents();
+    } catch (error) {
+      console.error('Error saving student:', error);
+      setError('Failed to save student. Please try again.');
+    }
+  };
+
+  const handleDelete = async (student: Student) => {
+    if (!window.confirm(`Delete ${student.name}? They are taken off every roster.`)) return;
+
+    try {
+      await deleteStudent(student.id);
+      fetchStudents();
+    } catch (error) {
+      console.error('Error deleting student:', error);
+      setError('Failed to delete student. Please try again.');
+    }
+  };
+
+  // Starts from the student's own grade and curriculum when classes are given in it
+  const openEnroll = (student: Student) => {
+    const group = `${student.grade}${GROUP_SEPARATOR}${student.curriculum}`;
+    setEnrollingStudent(student);
+    setError(null);
+    setEnrollForm({ kind: 'group', group: groups.includes(group) ? group : groups[0] || '', subject: '', scheduleId: '' });
+  };
+
+  const handleEnroll = async () => {
+    if (!enrollingStudent || !enrollForm.group) return;
+
+    const [grade, curriculum] = splitGroup(enrollForm.group);
+    if (enrollForm.kind === 'class' && !enrollForm.scheduleId) {
+      setError('Please choose a class');
+      return;
+    }
+
+    try {
+      await createEnrollment(enrollForm.kind === 'class'
+        ? { student_id: enrollingStudent.id, schedule_id: Number(enrollForm.scheduleId) }
+        : { student_id: enrollingStudent.id, grade, curriculum, subject: enrollForm.subject || null });
+
+      setEnrollingStudent(null);
+      setError(null);
+      fetchStudents();
+    } catch (error) {
+      console.error('Error enrolling student:', error);
+      if ((error as { code?: string }).code === CLASS_FULL_ERROR) {
+        setError(`${(error as { message?: string }).message}. Raise the class's capacity to enroll more students.`);
+      } else if ((error as { code?: string }).code === DUPLICATE_ENROLLMENT_ERROR) {
+        setError(`${enrollingStudent.name} is already enrolled there.`);
+      } else {
+        setError('Failed to enroll the student. Please try again.');
+      }
+    }
+  };
+
+  const handleUnenroll = async (student: Student, enrollment: Enrollment) => {
+    if (!window.confirm(`Remove ${student.name} from ${describeEnrollment(enrollment)}?`)) return;
+
+    try {
+      await deleteEnrollment(enrollment.id);
+      fetchStudents();
+    } catch (error) {
+      console.error('Error removing enrollment:', error);
+      setError('Failed to remove the enrollment. Please try again.');
+    }
+  };
+
+  // One sheet per class of the chosen group
+  const handlePrintRosters = () => {
+    const params = new URLSearchParams();
+    classesIn(groupFilter).forEach(schedule => params.append('class', String(schedule.id)));
+    window.open(`/students/print?${params.toString()}`, '_blank');
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200';
+
+  return (
+    <div className="min-h-full bg-gradient-to-br from-[#0a0a0a] to-[#111827] text-gray-200">
+      <div className="container mx-auto px-4 py-6">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6">
+          <div className="mb-4 md:mb-0">
+            <h1 className="text-2xl font-bold text-white flex items-center">
+              <UserGroupIcon className="h-6 w-6 mr-2 text-blue-500" />
+              Students
+            </h1>
+            <p className="text-gray-400 mt-1">
+              Enroll students in classes and print class rosters
+            </p>
+          </div>
+
+          {can('students.edit') && (
+            <button
+              onClick={() => openForm(null)}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg flex items-center justify-center whitespace-nowrap"
+            >
+              <PlusIcon className="h-5 w-5 mr-1" />
+              Add Student
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-900/20 border border-red-800/30 rounded-lg text-red-200">
+            {error}
+          </div>
+        )}
+
+        {/* Filters */}
+        <div className="mb-6 flex flex-wrap items-end gap-3">
+          <div className="flex-1 min-w-[12rem]">
+            <label className="block text-xs font-medium text-gray-400 mb-1">Name</label>
+            <input
+              type="search"
+              value={search}
+              onChange={e => setSearch(e.target.value)}
+              className={inputClass}
+              placeholder="Search students"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">Enrolled in</label>
+            <select
+              value={groupFilter}
+              onChange={e => setGroupFilter(e.target.value)}
+              className={inputClass}
+            >
+              <option value="">Any group</option>
+              {groups.map(group => (
+                <option key={group} value={group}>{splitGroup(group).join(' ')}</option>
+              ))}
+            </select>
+          </div>
+          <button
+            onClick={handlePrintRosters}
+            disabled={!groupFilter}
+            title={groupFilter ? undefined : 'Choose a group to print its rosters'}
+            className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 rounded-lg flex items-center transition-colors disabled:opacity-50"
+          >
+            <PrinterIcon className="h-5 w-5 mr-1" />
+            Print Rosters
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+          </div>
+        ) : shown.length === 0 ? (
+          <div className="flex flex-col items-center justify-center bg-gray-800/30 rounded-xl p-8 border border-gray-700/50">
+            <UserGroupIcon className="h-12 w-12 text-gray-600 mb-3" />
+            <p className="text-gray-500">
+              {students.length === 0 ? 'No students have been added yet.' : 'No students match these filters.'}
+            </p>
+          </div>
+        ) : (
+          <div className="bg-gray-800/40 border border-gray-700/50 rounded-xl divide-y divide-gray-700/50">
+            {shown.map(student => {
+              const studentEnrollments = enrollments.filter(enrollment => enrollment.student_id === student.id);
+
+              return (
+                <div key={student.id} className="p-4 flex flex-col sm:flex-row sm:items-start gap-3">
+                  <div className="sm:w-64 flex-shrink-0">
+                    <div className="text-white font-medium">{student.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {[[student.grade, student.curriculum].filter(Boolean).join(' '), student.guardian_name, student.phone]
+                        .filter(Boolean).join(' • ') || ' '}
+                    </div>
+                  </div>
+
+                  <div className="flex-1 flex flex-wrap gap-2">
+                    {studentEnrollments.length === 0 && (
+                      <span className="text-sm text-gray-500">Not enrolled</span>
+                    )}
+                    {studentEnrollments.map(enrollment => (
+                      <span
+                        key={enrollment.id}
+                        className={`flex items-center gap-1 px-3 py-1 rounded-full border text-xs ${
+                          enrollment.schedule_id === null
+                            ? 'bg-sky-900/40 border-sky-800/50 text-sky-100'
+                            : 'bg-gray-800 border-gray-700 text-gray-200'
+                        }`}
+                      >
+                        {describeEnrollment(enrollment)}
+                        {can('students.edit') && (
+                          <button
+                            onClick={() => handleUnenroll(student, enrollment)}
+                            className="text-gray-400 hover:text-red-400"
+                            title="Remove Enrollment"
+                          >
+                            <XMarkIcon className="h-3.5 w-3.5" />
+                          </button>
+                        )}
+                      </span>
+                    ))}
+                  </div>
+
+                  <div className="flex justify-end space-x-1">
+                    {can('students.edit') && (
+                      <>
+                        <button
+                          onClick={() => openEnroll(student)}
+                          disabled={groups.length === 0}
+                          className="p-1 text-gray-300 hover:text-green-400 hover:bg-green-400/10 rounded transition-colors disabled:opacity-50"
+                          title="Enroll"
+                        >
+                          <UserPlusIcon className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => openForm(student)}
+                          className="p-1 text-gray-300 hover:text-blue-400 hover:bg-blue-400/10 rounded transition-colors"
+                          title="Edit Student"
+                        >
+                          <PencilIcon className="h-4 w-4" />
+                        </button>
+                      </>
+                    )}
+                    {can('students.delete') && (
+                      <button
+                        onClick={() => handleDelete(student)}
+                        className="p-1 text-gray-300 hover:text-red-400 hover:bg-red-400/10 rounded transition-colors"
+                        title="Delete Student"
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Add / Edit Student Modal */}
+      {isFormOpen && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={() => setIsFormOpen(false)}>
+          <div
+            className="bg-gray-900 rounded-xl border border-gray-700/50 shadow-2xl w-full max-w-md overflow-hidden"
+            onClick={e => e.stopPropagation()}
+          >
+            <div className="relative">
+              <div className="absolute inset-0 bg-gradient-to-r from-blue-600 to-sky-400 opacity-90"></div>
+              <div className="relative p-5 flex justify-between items-center">
+                <h3 className="text-xl font-bold text-white">{editedStudent ? 'Edit Student' : 'Add Student'}</h3>
+                <button
+                  onClick={() => setIsFormOpen(false)}
+                  className="text-white hover:bg-white/20 rounded-full p-1 transition-colors"
+                >
+                  <XMarkIcon className="h-6 w-6" />
+                </button>
+              </div>
+            </div>
+
+            <div className="p-5 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={e => setFormData({ ...formData, name: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-1">Grade</label>
+                  <select
+                    value={formData.grade}
+                    onChange={e => setFormData({ ...formData, grade: e.target.value })}
+                    className={inputClass}
+                  >
+                    <option value="">Not set</option>
+                    {[...new Set([...grades, formData.grade].filter(Boolean))].map(grade => (
+                      <option key={grade} value={grade}>{grade}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-1">Curriculum</label>
+                  <select
+                    value={formData.curriculum}
+                    onChange={e => setFormData({ ...formData, curriculum: e.target.value })}
+                    className={inputClass}
+                  >
+                    <option value="">Not set</option>
+                    {[...new Set([...curricula, formData.curriculum].filter(Boolean))].map(curriculum => (
+                      <option key={curriculum} value={curriculum}>{curriculum}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-1">Guardian</label>
+                  <input
+                    type="text"
+                    value={formData.guardian_name}
+                    onChange={e => setFormData({ ...formData, guardian_name: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-1">Phone</label>
+                  <input
+                    type="tel"
+                    value={formData.phone}
+                    onChange={e => setFormData({ ...formData, phone: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-1">Email</label>
+                <input
+                  type="email"
+                  value={formData.email}
+                  onChange={e => setFormData({ ...formData, email: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-1">Notes</label>
+                <textarea
+                  value={formData.notes}
+                  onChange={e => setFormData({ ...formData, notes: e.target.value })}
+                  rows={2}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div className="border-t border-gray-800 p-4 flex justify-end space-x-3">
+              <button
+                onClick={() => setIsFormOpen(false)}
+                className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                className="px-4 py-2 bg-gradient-to-r from-blue-600 to-sky-500 hover:from-blue-500 hover:to-sky-400 text-white font-medium rounded-lg shadow-md hover:shadow-lg transition-all duration-300"
+              >
+                {editedStudent ? 'Save Student' : 'Add Student'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Enroll Modal */}
+      {enrollingStudent && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={() => setEnrollingStudent(null)}>
+          <div
+            className="bg-gray-900 rounded-xl border border-gray-700/50 shadow-2xl w-full max-w-md overflow-hidden"
+            onClick={e => e.stopPropagation()}
+          >
+            <div className="relative">
+              <div className="absolute inset-0 bg-gradient-to-r from-blue-600 to-sky-400 opacity-90"></div>
+              <div className="relative p-5 flex justify-between items-center">
+                <h3 className="text-xl font-bold text-white">Enroll {enrollingStudent.name}</h3>
+                <button
+                  onClick={() => setEnrollingStudent(null)}
+                  className="text-white hover:bg-white/20 rounded-full p-1 transition-colors"
+                >
+                  <XMarkIcon className="h-6 w-6" />
+                </button>
+              </div>
+            </div>
+
+            <div className="p-5 space-y-4">
+              {error && (
+                <div className="p-3 bg-red-900/20 border border-red-800/30 rounded-lg text-sm text-red-200">
+                  {error}
+                </div>
+              )}
+
+              <div className="flex gap-4 text-sm text-gray-300">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    checked={enrollForm.kind === 'group'}
+                    onChange={() => setEnrollForm({ ...enrollForm, kind: 'group' })}
+                    className="border-gray-600 bg-gray-800 text-blue-500 focus:ring-blue-500"
+                  />
+                  Every class of a group
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    checked={enrollForm.kind === 'class'}
+                    onChange={() => setEnrollForm({ ...enrollForm, kind: 'class' })}
+                    className="border-gray-600 bg-gray-800 text-blue-500 focus:ring-blue-500"
+                  />
+                  One class
+                </label>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-1">Group</label>
+                <select
+                  value={enrollForm.group}
+                  onChange={e => setEnrollForm({ ...enrollForm, group: e.target.value, subject: '', scheduleId: '' })}
+                  className={inputClass}
+                >
+                  {groups.map(group => (
+                    <option key={group} value={group}>{splitGroup(group).join(' ')}</option>
+                  ))}
+                </select>
+              </div>
+
+              {enrollForm.kind === 'group' ? (
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-1">Subject</label>
+                  <select
+                    value={enrollForm.subject}
+                    onChange={e => setEnrollForm({ ...enrollForm, subject: e.target.value })}
+                    className={inputClass}
+                  >
+                    <option value="">All subjects</option>
+                    {[...new Set(classesIn(enrollForm.group).map(s => s.subject))].sort().map(subject => (
+                      <option key={subject} value={subject}>{subject}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">Classes added to the group later include the student too.</p>
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-1">Class</label>
+                  <select
+                    value={enrollForm.scheduleId}
+                    onChange={e => setEnrollForm({ ...enrollForm, scheduleId: e.target.value })}
+                    className={inputClass}
+                  >
+                    <option value="">Choose a class</option>
+                    {classesIn(enrollForm.group).map(schedule => (
+                      <option key={schedule.id} value={schedule.id}>
+                        {schedule.capacity ? `${describeClass(schedule)} (${schedule.capacity} seats)` : describeClass(schedule)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+
+            <div className="border-t border-gray-800 p-4 flex justify-end space-x-3">
+              <button
+                onClick={() => setEnrollingStudent(null)}
+                className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleEnroll}
+                disabled={!enrollForm.group}
+                className="px-4 py-2 bg-gradient-to-r from-blue-600 to-sky-500 hover:from-blue-500 hover:to-sky-400 text-white font-medium rounded-lg shadow-md hover:shadow-lg transition-all duration-300 disabled:opacity-50"
+              >
+                Enroll
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,505 @@
+import { useState, useEffect } from 'react';
+import { format, addDays, differenceInCalendarDays } from 'date-fns';
+import { XMarkIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import type { Teacher } from '../lib/repositories/teachers';
+import {
+  TeacherLeave,
+  AvailabilityWindow,
+  listAvailability,
+  replaceAvailability,
+  listLeave,
+  createLeave,
+  deleteLeave
+} from '../lib/repositories/availability';
+import { ScheduleWithTeacher as Schedule, SCHEDULE_CONFLICT_ERROR, listSchedules } from '../lib/repositories/schedules';
+import { listCancellations, createCancellation } from '../lib/repositories/cancellations';
+import { listSubstitutions, assignSubstitute } from '../lib/repositories/substitutions';
+import { listClosures } from '../lib/repositories/closures';
+import { WEEKDAYS, getOccurrences, parseDate } from '../lib/recurrence';
+import { describeLeave } from '../lib/availability';
+import { getClosureFor } from '../lib/closures';
+
+interface TeacherAvailabilityProps {
+  teacherName: string;
+  // Every teacher row, to pick who covers classes during leave
+  teachers: Teacher[];
+  onClose: () => void;
+}
+
+type Tab = 'availability' | 'leave';
+
+// A class that falls in newly entered leave and what to do with it: 'keep', 'cancel' or
+// the id of the teacher row substituting
+interface AffectedClass {
+  schedule: Schedule;
+  date: string;
+  action: string;
+  error: string | null;
+}
+
+// Recorded on the cancellations and substitutions, which are public, so the leave reason
+// itself stays private
+const LEAVE_REASON = 'Teacher on leave';
+
+const formatTime = (time: string) => {
+  const [hours, minutes] = time.split(':');
+  const hour = parseInt(hours, 10);
+  const ampm = hour >= 12 ? 'PM' : 'AM';
+  const formattedHour = hour % 12 || 12;
+  return `${formattedHour}:${minutes} ${ampm}`;
+};
+
+export default function TeacherAvailability({ teacherName, teachers, onClose }: TeacherAvailabilityProps) {
+  const [tab, setTab] = useState<Tab>('availability');
+  const [windows, setWindows] = useState<AvailabilityWindow[]>([]);
+  const [leave, setLeave] = useState<TeacherLeave[]>([]);
+  const [leaveForm, setLeaveForm] = useState({ start_date: '', end_date: '', reason: '' });
+  const [affected, setAffected] = useState<AffectedClass[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchAvailability(teacherName);
+  }, [teacherName]);
+
+  const fetchAvailability = async (name: string) => {
+    try {
+      setLoading(true);
+      const [availabilityRows, leaveRows] = await Promise.all([listAvailability(), listLeave()]);
+      setWindows(availabilityRows
+        .filter(window => window.teacher_name === name)
+        .map(({ day, start_time, end_time }) => ({ day, start_time: start_time.slice(0, 5), end_time: end_time.slice(0, 5) })));
+      // Past leave is only kept for the record
+      const today = format(new Date(), 'yyyy-MM-dd');
+      setLeave(leaveRows.filter(l => l.teacher_name === name && l.end_date >= today));
+      setError(null);
+    } catch (error) {
+      console.error('Error fetching availability:', error);
+      setError('Failed to load availability. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateWindow = (index: number, changes: Partial<AvailabilityWindow>) => {
+    setWindows(windows.map((window, i) => i === index ? { ...window, ...changes } : window));
+  };
+
+  const handleSaveAvailability = async () => {
+    if (windows.some(window => !window.start_time || !window.end_time || window.end_time <= window.start_time)) {
+      setError('Each time window must end after it starts');
+      return;
+    }
+
+    try {
+      setWorking(true);
+      await replaceAvailability(teacherName, windows);
+      setError(null);
+      setMessage('Availability saved.');
+    } catch (error) {
+      console.error('Error saving availability:', error);
+      setError('Failed to save availability. Please try again.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  // The classes the teacher would have taught during the leave, not counting ones
+  // already cancelled, moved, given a substitute or closed
+  const findAffectedClasses = async (startDate: string, endDate: string) => {
+    const [schedules, cancellations, substitutions, closures] = await Promise.all([
+      listSchedules(),
+      listCancellations(startDate, endDate),
+      listSubstitutions(startDate, endDate),
+      listClosures(startDate, endDate)
+    ]);
+    const own = schedules.filter(schedule => schedule.teachers.name === teacherName);
+    const first = parseDate(startDate);
+
+    return Array.from({ length: differenceInCalendarDays(parseDate(endDate), first) + 1 }, (_, i) => addDays(first, i))
+      .flatMap(day => getOccurrences(own, cancellations, day, substitutions)
+        .filter(({ schedule, cancellation, substitution }) =>
+          !cancellation && !substitution && !getClosureFor(closures, schedule.grade, day))
+        .map(({ schedule }) => ({ schedule, date: format(day, 'yyyy-MM-dd'), action: 'cancel', error: null })));
+  };
+
+  const handleAddLeave = async () => {
+    const { start_date, end_date, reason } = leaveForm;
+
+    if (!start_date || !end_date) {
+      setError('Please choose the first and last day of the leave');
+      return;
+    }
+    if (end_date < start_date) {
+      setError('The leave must end on or after the day it starts');
+      return;
+    }
+
+    try {
+      setWorking(true);
+      await createLeave({ teacher_name: teacherName, start_date, end_date, reason: reason.trim() || null });
+      setLeaveForm({ start_date: '', end_date: '', reason: '' });
+      setError(null);
+
+      const classes = await findAffectedClasses(start_date, end_date);
+      setAffected(classes.length > 0 ? classes : null);
+      setMessage(classes.length > 0
+        ? `Leave added. ${classes.length} ${classes.length === 1 ? 'class falls' : 'classes fall'} in it; choose what happens to ${classes.length === 1 ? 'it' : 'them'} below.`
+        : 'Leave added. No classes fall in it.');
+      fetchAvailability(teacherName);
+    } catch (error) {
+      console.error('Error adding leave:', error);
+      setError('Failed to add leave. Please try again.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDeleteLeave = async (id: string) => {
+    if (!window.confirm('Delete this leave? Classes already cancelled or covered for it stay that way.')) return;
+
+    try {
+      await deleteLeave(id);
+      fetchAvailability(teacherName);
+    } catch (error) {
+      console.error('Error deleting leave:', error);
+      setError('Failed to delete leave. Please try again.');
+    }
+  };
+
+  // Cancels the chosen classes or assigns their substitutes; the ones that fail stay listed with the reason
+  const handleApplyAffected = async () => {
+    if (!affected) return;
+
+    setWorking(true);
+    const remaining: AffectedClass[] = [];
+    let done = 0;
+
+    for (const row of affected) {
+      if (row.action === 'keep') continue;
+
+      try {
+        if (row.action === 'cancel') {
+          await createCancellation({ schedule_id: row.schedule.id, occurrence_date: row.date, reason: LEAVE_REASON });
+        } else {
+          await assignSubstitute({
+            schedule_id: row.schedule.id,
+            occurrence_date: row.date,
+            teacher_id: Number(row.action),
+            reason: LEAVE_REASON
+          });
+        }
+        done++;
+      } catch (error) {
+        console.error('Error updating class for leave:', error);
+        remaining.push({
+          ...row,
+          error: (error as { code?: string }).code === SCHEDULE_CONFLICT_ERROR
+            ? 'That teacher teaches another class then'
+            : 'Failed to update this class'
+        });
+      }
+    }
+
+    setWorking(false);
+    setAffected(remaining.length > 0 ? remaining : null);
+    setMessage(`${done} ${done === 1 ? 'class' : 'classes'} updated.${remaining.length > 0 ? ' Some could not be changed; see below.' : ''}`);
+  };
+
+  // Teachers who could substitute in a class, those teaching its subject first
+  const getCoverOptions = (schedule: Schedule) => {
+    const others = teachers.filter(teacher => teacher.name !== teacherName);
+    return [
+      ...others.filter(teacher => teacher.subject === schedule.subject),
+      ...others.filter(teacher => teacher.subject !== schedule.subject)
+    ];
+  };
+
+  const inputClass = 'px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-start sm:items-center justify-center z-50 p-2 sm:p-4 overflow-y-auto" onClick={onClose}>
+      <div
+        className="bg-gray-900 rounded-xl border border-gray-700/50 shadow-2xl w-full max-w-3xl my-4 sm:my-8 overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Modal Header */}
+        <div className="relative">
+          <div className="absolute inset-0 bg-gradient-to-r from-blue-600 to-sky-400 opacity-90"></div>
+          <div className="relative p-3 sm:p-5 flex justify-between items-center">
+            <h3 className="text-lg sm:text-xl font-bold text-white">
+              {teacherName}
+              <span className="ml-2 text-sm font-normal text-white/80">Availability & Leave</span>
+            </h3>
+            <button
+              onClick={onClose}
+              className="text-white hover:bg-white/20 rounded-full p-1 transition-colors"
+            >
+              <XMarkIcon className="h-5 w-5 sm:h-6 sm:w-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex border-b border-gray-800 px-3 sm:px-6">
+          {(['availability', 'leave'] as Tab[]).map(option => (
+            <button
+              key={option}
+              onClick={() => {
+                setTab(option);
+                setError(null);
+                setMessage(null);
+              }}
+              className={`px-4 py-3 text-sm font-medium border-b-2 -mb-px transition-colors ${
+                tab === option ? 'border-blue-500 text-blue-300' : 'border-transparent text-gray-400 hover:text-gray-200'
+              }`}
+            >
+              {option === 'availability' ? 'Weekly Hours' : 'Leave'}
+            </button>
+          ))}
+        </div>
+
+        {/* Modal Content */}
+        <div className="p-3 sm:p-6 space-y-4 max-h-[calc(100vh-14rem)] overflow-y-auto">
+          {error && (
+            <div className="bg-red-900/20 border border-red-800/50 text-red-300 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+          {message && (
+            <div className="bg-blue-900/20 border border-blue-800/50 text-blue-200 px-4 py-3 rounded-lg text-sm">
+              {message}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-500"></div>
+            </div>
+          ) : tab === 'availability' ? (
+            <>
+              <p className="text-sm text-gray-300">
+                {windows.length === 0
+                  ? `${teacherName} can be scheduled any time. Add hours to limit when.`
+                  : `${teacherName} can only be scheduled inside these hours; days without hours are unavailable.`}
+              </p>
+
+              <div className="divide-y divide-gray-800 rounded-lg border border-gray-800">
+                {WEEKDAYS.map(day => {
+                  const dayWindows = windows.map((window, index) => ({ window, index })).filter(({ window }) => window.day === day);
+
+                  return (
+                    <div key={day} className="flex flex-col sm:flex-row sm:items-start gap-2 px-3 py-2">
+                      <div className="w-28 pt-2 text-sm font-medium text-gray-300">{day}</div>
+                      <div className="flex-1 space-y-2">
+                        {dayWindows.length === 0 && (
+                          <p className="pt-2 text-sm text-gray-500">{windows.length === 0 ? 'Any time' : 'Unavailable'}</p>
+                        )}
+                        {dayWindows.map(({ window, index }) => (
+                          <div key={index} className="flex items-center gap-2">
+                            <input
+                              type="time"
+                              value={window.start_time}
+                              onChange={e => updateWindow(index, { start_time: e.target.value })}
+                              className={inputClass}
+                            />
+                            <span className="text-gray-500">to</span>
+                            <input
+                              type="time"
+                              value={window.end_time}
+                              onChange={e => updateWindow(index, { end_time: e.target.value })}
+                              className={inputClass}
+                            />
+                            <button
+                              onClick={() => setWindows(windows.filter((_, i) => i !== index))}
+                              className="p-1 text-gray-400 hover:text-red-400 hover:bg-red-400/10 rounded transition-colors"
+                              title="Remove"
+                            >
+                              <TrashIcon className="h-4 w-4" />
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                      <button
+                        onClick={() => setWindows([...windows, { day, start_time: '09:00', end_time: '17:00' }])}
+                        className="self-start p-1.5 text-gray-300 hover:text-blue-400 hover:bg-blue-400/10 rounded-lg transition-colors flex items-center text-sm"
+                      >
+                        <PlusIcon className="h-4 w-4 mr-1" />
+                        Add Hours
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          ) : (
+            <>
+              {affected && (
+                <div className="space-y-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <h4 className="text-sm font-semibold text-gray-200">Classes during the leave</h4>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => setAffected(affected.map(row => ({ ...row, action: 'cancel' })))}
+                        className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-gray-200 rounded-lg text-xs transition-colors"
+                      >
+                        Cancel All
+                      </button>
+                      <button
+                        onClick={() => setAffected(affected.map(row => ({ ...row, action: 'keep' })))}
+                        className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-gray-200 rounded-lg text-xs transition-colors"
+                      >
+                        Keep All
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className="overflow-x-auto rounded-lg border border-gray-800">
+                    <table className="w-full text-xs sm:text-sm">
+                      <tbody className="divide-y divide-gray-800">
+                        {affected.map((row, index) => (
+                          <tr key={`${row.schedule.id}-${row.date}`}>
+                            <td className="px-3 py-2 text-gray-300 align-top whitespace-nowrap">
+                              {format(parseDate(row.date), 'EEE, MMM d')}
+                              <span className="block text-gray-500">
+                                {formatTime(row.schedule.start_time)} - {formatTime(row.schedule.end_time)}
+                              </span>
+                            </td>
+                            <td className="px-3 py-2 text-gray-200 align-top">
+                              {row.schedule.subject}
+                              <span className="block text-gray-500">
+                                {row.schedule.grade} {row.schedule.curriculum}
+                                {row.schedule.room && ` • ${row.schedule.room}`}
+                              </span>
+                              {row.error && <span className="block text-red-300">{row.error}</span>}
+                            </td>
+                            <td className="px-3 py-2 align-top">
+                              <select
+                                value={row.action}
+                                onChange={e => setAffected(affected.map((r, i) => i === index ? { ...r, action: e.target.value, error: null } : r))}
+                                className={`w-full ${inputClass}`}
+                              >
+                                <option value="cancel">Cancel</option>
+                                <option value="keep">Leave as is</option>
+                                {getCoverOptions(row.schedule).map(teacher => (
+                                  <option key={teacher.id} value={teacher.id}>
+                                    Substitute: {teacher.name} ({teacher.subject})
+                                  </option>
+                                ))}
+                              </select>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  <div className="flex justify-end">
+                    <button
+                      onClick={handleApplyAffected}
+                      disabled={working}
+                      className="px-4 py-2 text-white font-medium rounded-lg shadow-md hover:shadow-lg transition-all duration-300 bg-gradient-to-r from-blue-600 to-sky-500 hover:from-blue-500 hover:to-sky-400 disabled:opacity-50"
+                    >
+                      {working ? 'Updating...' : 'Apply to Classes'}
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-xs sm:text-sm font-medium text-gray-400 mb-1">First Day</label>
+                  <input
+                    type="date"
+                    value={leaveForm.start_date}
+                    onChange={e => setLeaveForm({
+                      ...leaveForm,
+                      start_date: e.target.value,
+                      end_date: leaveForm.end_date && leaveForm.end_date >= e.target.value ? leaveForm.end_date : e.target.value
+                    })}
+                    className={`w-full ${inputClass}`}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs sm:text-sm font-medium text-gray-400 mb-1">Last Day</label>
+                  <input
+                    type="date"
+                    value={leaveForm.end_date}
+                    min={leaveForm.start_date || undefined}
+                    onChange={e => setLeaveForm({ ...leaveForm, end_date: e.target.value })}
+                    className={`w-full ${inputClass}`}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs sm:text-sm font-medium text-gray-400 mb-1">Reason (staff only)</label>
+                  <input
+                    type="text"
+                    value={leaveForm.reason}
+                    onChange={e => setLeaveForm({ ...leaveForm, reason: e.target.value })}
+                    className={`w-full ${inputClass}`}
+                    placeholder="e.g. Holiday"
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end">
+                <button
+                  onClick={handleAddLeave}
+                  disabled={working}
+                  className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg flex items-center disabled:opacity-50"
+                >
+                  <PlusIcon className="h-5 w-5 mr-1" />
+                  Add Leave
+                </button>
+              </div>
+
+              <div>
+                <h4 className="text-sm font-semibold text-gray-200 mb-2">Current and upcoming leave</h4>
+                {leave.length === 0 ? (
+                  <p className="text-sm text-gray-500">None</p>
+                ) : (
+                  <ul className="divide-y divide-gray-800 rounded-lg border border-gray-800">
+                    {leave.map(l => (
+                      <li key={l.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                        <span className="text-gray-200">
+                          {describeLeave(l)}
+                          {l.reason && <span className="ml-2 text-gray-500">{l.reason}</span>}
+                        </span>
+                        <button
+                          onClick={() => handleDeleteLeave(l.id)}
+                          className="p-1 text-gray-400 hover:text-red-400 hover:bg-red-400/10 rounded transition-colors"
+                          title="Delete Leave"
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Modal Footer */}
+        <div className="border-t border-gray-800 p-4 flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 rounded-lg transition-colors"
+          >
+            Close
+          </button>
+          {tab === 'availability' && (
+            <button
+              onClick={handleSaveAvailability}
+              disabled={working || loading}
+              className="px-4 py-2 text-white font-medium rounded-lg shadow-md hover:shadow-lg transition-all duration-300 bg-gradient-to-r from-blue-600 to-sky-500 hover:from-blue-500 hover:to-sky-400 disabled:opacity-50"
+            >
+              {working ? 'Saving...' : 'Save Hours'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
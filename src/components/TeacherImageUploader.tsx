@@ -1,5 +1,5 @@
 import React, { useState, useRef } from 'react';
-import { cloudinaryConfig } from '../lib/cloudinaryConfig';
+import { cloudinaryConfig, createSignedUploadForm } from '../lib/cloudinaryConfig';
 
 interface TeacherImageUploaderProps {
   onImageUploaded: (imageUrl: string, publicId: string) => void;
@@ -44,17 +44,17 @@ export default function TeacherImageUploader({ onImageUploaded, initialImageUrl
     // Start upload process
     setIsUploading(true);
 
-    // Create form data for upload
-    const formData = new FormData();
-    formData.append('file', file);
-    formData.append('upload_preset', 'store_images'); // Using the same preset as gallery images
-    formData.append('folder', 'teacherimages'); // Specific folder for teacher images
-    
     // Generate a unique public_id to avoid conflicts
     const uniqueId = `teacher_${Date.now()}`;
-    formData.append('public_id', uniqueId);
 
     try {
+      // Create signed form data for upload
+      const formData = await createSignedUploadForm(file, {
+        upload_preset: 'store_images', // Using the same preset as gallery images
+        folder: 'teacherimages', // Specific folder for teacher images
+        public_id: uniqueId
+      });
+
       // Use XMLHttpRequest to track upload progress
       const xhr = new XMLHttpRequest();
       xhr.open('POST', `https://api.cloudinary.com/v1_1/${cloudinaryConfig.cloudName}/image/upload`);
@@ -0,0 +1,568 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { listTeachersForUser } from '../lib/repositories/teachers';
+import { Schedule, listSchedulesForTeachers } from '../lib/repositories/schedules';
+import { occursOn, describeRecurrence } from '../lib/recurrence';
+import {
+  ChangeRequest,
+  ChangeRequestType,
+  listOwnChangeRequests,
+  createChangeRequest,
+  withdrawChangeRequest
+} from '../lib/repositories/scheduleRequests';
+import { TeacherProfile, listTeacherProfiles, updateTeacherProfile } from '../lib/repositories/siteContent';
+import { getStoredSession } from '../lib/session';
+import TeacherImageUploader from './TeacherImageUploader';
+import {
+  XMarkIcon,
+  ClockIcon,
+  MapPinIcon,
+  CalendarDaysIcon,
+  PencilIcon,
+  UserCircleIcon
+} from '@heroicons/react/24/outline';
+
+interface RequestFormData {
+  request_type: ChangeRequestType;
+  occurrence_date: string;
+  new_date: string;
+  new_start_time: string;
+  new_end_time: string;
+  reason: string;
+}
+
+const DAY_ORDER = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+// Parse a yyyy-MM-dd column as a local date
+const parseDate = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// Format time from 24h to 12h format
+const formatTime = (time: string) => {
+  const [hours, minutes] = time.split(':');
+  const hour = parseInt(hours, 10);
+  const ampm = hour >= 12 ? 'PM' : 'AM';
+  const formattedHour = hour % 12 || 12;
+  return `${formattedHour}:${minutes} ${ampm}`;
+};
+
+// Check that a date is one the class actually runs on
+const isOccurrenceOf = (schedule: Schedule, dateString: string) => {
+  if (!dateString) return false;
+  return occursOn(schedule, parseDate(dateString));
+};
+
+export default function TeacherPortal() {
+  const [teacherName, setTeacherName] = useState<string | null>(null);
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [requests, setRequests] = useState<ChangeRequest[]>([]);
+  const [profiles, setProfiles] = useState<TeacherProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [requestSchedule, setRequestSchedule] = useState<Schedule | null>(null);
+  const [editingProfile, setEditingProfile] = useState<TeacherProfile | null>(null);
+  const [profileForm, setProfileForm] = useState({ description: '', qualifications: '', picture_id: '' });
+  const [requestForm, setRequestForm] = useState<RequestFormData>({
+    request_type: 'cancel',
+    occurrence_date: '',
+    new_date: '',
+    new_start_time: '',
+    new_end_time: '',
+    reason: ''
+  });
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    const session = getStoredSession();
+    if (!session) return;
+
+    try {
+      setLoading(true);
+
+      // Teachers have one row per subject; all of them are linked to the same account
+      const teacherRows = await listTeachersForUser(session.userId);
+
+      if (teacherRows.length === 0) {
+        setTeacherName(null);
+        setSchedules([]);
+        setProfiles([]);
+        setError(null);
+        return;
+      }
+
+      const name = teacherRows[0].name;
+      setTeacherName(name);
+
+      const [schedulesData, requestsData, profilesData] = await Promise.all([
+        listSchedulesForTeachers(teacherRows.map(t => t.id)),
+        listOwnChangeRequests(session.userId),
+        listTeacherProfiles(name)
+      ]);
+
+      setSchedules(schedulesData);
+      setRequests(requestsData);
+      setProfiles(profilesData);
+      setError(null);
+    } catch (error) {
+      console.error('Error loading teacher portal:', error);
+      setError('Failed to load your classes. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openRequestModal = (schedule: Schedule) => {
+    setRequestForm({
+      request_type: 'cancel',
+      occurrence_date: schedule.repeats ? '' : schedule.date_tag,
+      new_date: '',
+      new_start_time: schedule.start_time.slice(0, 5),
+      new_end_time: schedule.end_time.slice(0, 5),
+      reason: ''
+    });
+    setRequestSchedule(schedule);
+  };
+
+  const handleSubmitRequest = async () => {
+    const session = getStoredSession();
+    if (!requestSchedule || !session) return;
+
+    try {
+      if (!isOccurrenceOf(requestSchedule, requestForm.occurrence_date)) {
+        setError(requestSchedule.repeats
+          ? `Please pick a ${requestSchedule.day} for this class`
+          : 'Please pick the date of this class');
+        return;
+      }
+
+      const isReschedule = requestForm.request_type === 'reschedule';
+      if (isReschedule && (!requestForm.new_date || !requestForm.new_start_time || !requestForm.new_end_time)) {
+        setError('Please choose the new date and time');
+        return;
+      }
+
+      if (isReschedule && requestForm.new_end_time <= requestForm.new_start_time) {
+        setError('The new end time must be after the start time');
+        return;
+      }
+
+      await createChangeRequest({
+        schedule_id: requestSchedule.id,
+        request_type: requestForm.request_type,
+        occurrence_date: requestForm.occurrence_date,
+        new_date: isReschedule ? requestForm.new_date : null,
+        new_start_time: isReschedule ? requestForm.new_start_time : null,
+        new_end_time: isReschedule ? requestForm.new_end_time : null,
+        reason: requestForm.reason || null,
+        requested_by: session.userId
+      });
+
+      setRequestSchedule(null);
+      setError(null);
+      fetchData();
+    } catch (error) {
+      console.error('Error submitting request:', error);
+      setError('Failed to send your request. Please try again.');
+    }
+  };
+
+  const handleWithdrawRequest = async (request: ChangeRequest) => {
+    try {
+      await withdrawChangeRequest(request.id);
+
+      setRequests(prev => prev.filter(r => r.id !== request.id));
+    } catch (error) {
+      console.error('Error withdrawing request:', error);
+      setError('Failed to withdraw your request. Please try again.');
+    }
+  };
+
+  const openProfileEditor = (profile: TeacherProfile) => {
+    setProfileForm({
+      description: profile.description || '',
+      qualifications: (profile.qualifications || []).join('\n'),
+      picture_id: profile.picture_id || ''
+    });
+    setEditingProfile(profile);
+  };
+
+  const handleSaveProfile = async () => {
+    if (!editingProfile) return;
+
+    try {
+      const qualifications = profileForm.qualifications
+        .split('\n')
+        .map(q => q.trim())
+        .filter(Boolean);
+
+      // The column is NOT NULL, same placeholder as the site editor
+      await updateTeacherProfile(editingProfile.id, {
+        description: profileForm.description,
+        qualifications: qualifications.length > 0 ? qualifications : ['Pending qualification details'],
+        picture_id: profileForm.picture_id || null
+      });
+
+      setEditingProfile(null);
+      setError(null);
+      fetchData();
+    } catch (error) {
+      console.error('Error saving profile:', error);
+      setError('Failed to save your profile. Please try again.');
+    }
+  };
+
+  const scheduleLabel = (scheduleId: number) => {
+    const schedule = schedules.find(s => s.id === scheduleId);
+    return schedule ? `${schedule.subject} • ${schedule.grade} ${schedule.curriculum}` : 'Removed class';
+  };
+
+  const sortedSchedules = [...schedules].sort((a, b) => {
+    if (a.repeats !== b.repeats) return a.repeats ? -1 : 1;
+    const dayCompare = a.repeats
+      ? DAY_ORDER.indexOf(a.day) - DAY_ORDER.indexOf(b.day)
+      : a.date_tag.localeCompare(b.date_tag);
+    return dayCompare !== 0 ? dayCompare : a.start_time.localeCompare(b.start_time);
+  });
+
+  return (
+    <div className="min-h-full bg-gradient-to-br from-[#0a0a0a] to-[#111827] text-gray-200">
+      <div className="container mx-auto px-4 py-6">
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-white flex items-center">
+            <CalendarDaysIcon className="h-6 w-6 mr-2 text-blue-500" />
+            My Classes
+          </h1>
+          <p className="text-gray-400 mt-1">
+            {teacherName
+              ? `Classes and profile for ${teacherName}. Cancellations and reschedules are sent to an admin for approval.`
+              : 'Your classes, requests and public profile'}
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-900/20 border border-red-800/30 rounded-lg text-red-200">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+          </div>
+        ) : !teacherName ? (
+          <div className="flex flex-col items-center justify-center bg-gray-800/30 rounded-xl p-8 border border-gray-700/50">
+            <UserCircleIcon className="h-12 w-12 text-gray-600 mb-3" />
+            <h3 className="text-xl font-medium text-gray-400 mb-2">Account not linked</h3>
+            <p className="text-gray-500 text-center">
+              Your account isn't linked to a teacher yet. Ask an admin to link it from the Accounts page.
+            </p>
+          </div>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-3">
+            {/* Classes */}
+            <div className="lg:col-span-2 space-y-3">
+              <h2 className="text-lg font-semibold text-white">Timetable</h2>
+              {sortedSchedules.length === 0 ? (
+                <p className="text-gray-500">You have no classes scheduled.</p>
+              ) : (
+                sortedSchedules.map(schedule => (
+                  <div key={schedule.id} className="bg-gray-800/40 border border-gray-700/50 rounded-xl p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                    <div>
+                      <div className="font-medium text-white">{schedule.subject}</div>
+                      <div className="text-sm text-gray-400">
+                        {schedule.grade} • {schedule.curriculum} • {schedule.mode}
+                      </div>
+                      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-1 text-sm text-gray-300">
+                        <span className="flex items-center">
+                          <CalendarDaysIcon className="h-4 w-4 mr-1 text-blue-400" />
+                          {describeRecurrence(schedule)}
+                        </span>
+                        <span className="flex items-center">
+                          <ClockIcon className="h-4 w-4 mr-1 text-blue-400" />
+                          {formatTime(schedule.start_time)} - {formatTime(schedule.end_time)}
+                        </span>
+                        {schedule.room && (
+                          <span className="flex items-center">
+                            <MapPinIcon className="h-4 w-4 mr-1 text-blue-400" />
+                            {schedule.room}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => openRequestModal(schedule)}
+                      className="px-3 py-2 bg-amber-600/20 hover:bg-amber-600/30 text-amber-400 rounded-lg transition-colors text-sm whitespace-nowrap"
+                    >
+                      Request Change
+                    </button>
+                  </div>
+                ))
+              )}
+
+              <h2 className="text-lg font-semibold text-white pt-4">My Requests</h2>
+              {requests.length === 0 ? (
+                <p className="text-gray-500">You haven't made any requests.</p>
+              ) : (
+                requests.map(request => (
+                  <div key={request.id} className="bg-gray-800/40 border border-gray-700/50 rounded-xl p-4 text-sm">
+                    <div className="flex justify-between items-start gap-3">
+                      <div>
+                        <div className="text-white font-medium">
+                          {request.request_type === 'cancel' ? 'Cancel' : 'Reschedule'} • {scheduleLabel(request.schedule_id)}
+                        </div>
+                        <div className="text-gray-400 mt-1">
+                          {format(parseDate(request.occurrence_date), 'EEE, MMM d, yyyy')}
+                          {request.request_type === 'reschedule' && request.new_date && request.new_start_time && request.new_end_time && (
+                            <> → {format(parseDate(request.new_date), 'EEE, MMM d')} {formatTime(request.new_start_time)} - {formatTime(request.new_end_time)}</>
+                          )}
+                        </div>
+                        {request.reason && <div className="text-gray-500 mt-1">{request.reason}</div>}
+                        {request.review_note && <div className="text-gray-400 mt-1 italic">Admin: {request.review_note}</div>}
+                      </div>
+                      <div className="flex flex-col items-end gap-2">
+                        <span className={`px-2 py-0.5 rounded text-xs ${
+                          request.status === 'approved' ? 'bg-green-900/50 text-green-200' :
+                          request.status === 'rejected' ? 'bg-red-900/50 text-red-200' :
+                          'bg-yellow-900/50 text-yellow-200'
+                        }`}>
+                          {request.status.charAt(0).toUpperCase() + request.status.slice(1)}
+                        </span>
+                        {request.status === 'pending' && (
+                          <button
+                            onClick={() => handleWithdrawRequest(request)}
+                            className="text-xs text-gray-400 hover:text-red-400 transition-colors"
+                          >
+                            Withdraw
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+
+            {/* Public profile */}
+            <div className="space-y-3">
+              <h2 className="text-lg font-semibold text-white">Public Profile</h2>
+              {profiles.length === 0 ? (
+                <p className="text-gray-500">No profile has been published for you yet.</p>
+              ) : (
+                profiles.map(profile => (
+                  <div key={profile.id} className="bg-gray-800/40 border border-gray-700/50 rounded-xl overflow-hidden">
+                    <div className="bg-gradient-to-r from-blue-600/20 to-indigo-600/20 px-4 py-3 border-b border-gray-700/50 flex justify-between items-center">
+                      <h3 className="font-medium text-white truncate">{profile.subject_name}</h3>
+                      <button
+                        onClick={() => openProfileEditor(profile)}
+                        className="p-1 text-gray-300 hover:text-blue-400 hover:bg-blue-400/10 rounded transition-colors"
+                        title="Edit Profile"
+                      >
+                        <PencilIcon className="h-4 w-4" />
+                      </button>
+                    </div>
+                    <div className="p-4 space-y-3 text-sm">
+                      {profile.picture_id && (
+                        <img src={profile.picture_id} alt={profile.teacher_name} className="w-20 h-20 rounded-full object-cover" />
+                      )}
+                      {profile.description && <p className="text-gray-300">{profile.description}</p>}
+                      <ul className="list-disc list-inside text-gray-400">
+                        {(profile.qualifications || []).map(q => <li key={q}>{q}</li>)}
+                      </ul>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Change Request Modal */}
+      {requestSchedule && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={() => setRequestSchedule(null)}>
+          <div
+            className="bg-gray-900 rounded-xl border border-gray-700/50 shadow-2xl w-full max-w-md overflow-hidden"
+            onClick={e => e.stopPropagation()}
+          >
+            <div className="relative">
+              <div className="absolute inset-0 bg-gradient-to-r from-amber-600 to-yellow-400 opacity-90"></div>
+              <div className="relative p-5 flex justify-between items-center">
+                <h3 className="text-xl font-bold text-white">Request Change</h3>
+                <button
+                  onClick={() => setRequestSchedule(null)}
+                  className="text-white hover:bg-white/20 rounded-full p-1 transition-colors"
+                >
+                  <XMarkIcon className="h-6 w-6" />
+                </button>
+              </div>
+            </div>
+
+            <div className="p-5 space-y-4">
+              <p className="text-sm text-gray-400">
+                {requestSchedule.subject} • {describeRecurrence(requestSchedule)} at {formatTime(requestSchedule.start_time)}
+              </p>
+
+              <div className="flex gap-2">
+                {(['cancel', 'reschedule'] as const).map(type => (
+                  <button
+                    key={type}
+                    onClick={() => setRequestForm({ ...requestForm, request_type: type })}
+                    className={`flex-1 px-3 py-2 rounded-lg text-sm transition-colors ${
+                      requestForm.request_type === type
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                    }`}
+                  >
+                    {type === 'cancel' ? 'Cancel a class' : 'Reschedule a class'}
+                  </button>
+                ))}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-1">Class date</label>
+                <input
+                  type="date"
+                  value={requestForm.occurrence_date}
+                  onChange={e => setRequestForm({ ...requestForm, occurrence_date: e.target.value })}
+                  disabled={!requestSchedule.repeats}
+                  className="w-full px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 disabled:text-gray-400"
+                />
+              </div>
+
+              {requestForm.request_type === 'reschedule' && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="col-span-2">
+                    <label className="block text-sm font-medium text-gray-400 mb-1">New date</label>
+                    <input
+                      type="date"
+                      value={requestForm.new_date}
+                      onChange={e => setRequestForm({ ...requestForm, new_date: e.target.value })}
+                      className="w-full px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-400 mb-1">Start time</label>
+                    <input
+                      type="time"
+                      value={requestForm.new_start_time}
+                      onChange={e => setRequestForm({ ...requestForm, new_start_time: e.target.value })}
+                      className="w-full px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-400 mb-1">End time</label>
+                    <input
+                      type="time"
+                      value={requestForm.new_end_time}
+                      onChange={e => setRequestForm({ ...requestForm, new_end_time: e.target.value })}
+                      className="w-full px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-1">Reason (Optional)</label>
+                <textarea
+                  value={requestForm.reason}
+                  onChange={e => setRequestForm({ ...requestForm, reason: e.target.value })}
+                  className="w-full px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                  placeholder="Let the admin know why"
+                  rows={3}
+                ></textarea>
+              </div>
+            </div>
+
+            <div className="border-t border-gray-800 p-4 flex justify-end space-x-3">
+              <button
+                onClick={() => setRequestSchedule(null)}
+                className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 rounded-lg transition-colors"
+              >
+                Close
+              </button>
+              <button
+                onClick={handleSubmitRequest}
+                className="px-4 py-2 bg-gradient-to-r from-blue-600 to-sky-500 hover:from-blue-500 hover:to-sky-400 text-white font-medium rounded-lg shadow-md hover:shadow-lg transition-all duration-300"
+              >
+                Send Request
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Profile Editor Modal */}
+      {editingProfile && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4 overflow-y-auto" onClick={() => setEditingProfile(null)}>
+          <div
+            className="bg-gray-900 rounded-xl border border-gray-700/50 shadow-2xl w-full max-w-lg my-8 overflow-hidden"
+            onClick={e => e.stopPropagation()}
+          >
+            <div className="relative">
+              <div className="absolute inset-0 bg-gradient-to-r from-blue-600 to-sky-400 opacity-90"></div>
+              <div className="relative p-5 flex justify-between items-center">
+                <h3 className="text-xl font-bold text-white">Edit Profile • {editingProfile.subject_name}</h3>
+                <button
+                  onClick={() => setEditingProfile(null)}
+                  className="text-white hover:bg-white/20 rounded-full p-1 transition-colors"
+                >
+                  <XMarkIcon className="h-6 w-6" />
+                </button>
+              </div>
+            </div>
+
+            <div className="p-5 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-1">Profile Image</label>
+                <TeacherImageUploader
+                  onImageUploaded={(imageUrl) => setProfileForm(prev => ({ ...prev, picture_id: imageUrl }))}
+                  initialImageUrl={profileForm.picture_id || undefined}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-1">About</label>
+                <textarea
+                  value={profileForm.description}
+                  onChange={e => setProfileForm({ ...profileForm, description: e.target.value })}
+                  className="w-full px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                  rows={4}
+                ></textarea>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-1">Qualifications (one per line)</label>
+                <textarea
+                  value={profileForm.qualifications}
+                  onChange={e => setProfileForm({ ...profileForm, qualifications: e.target.value })}
+                  className="w-full px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                  rows={4}
+                ></textarea>
+              </div>
+            </div>
+
+            <div className="border-t border-gray-800 p-4 flex justify-end space-x-3">
+              <button
+                onClick={() => setEditingProfile(null)}
+                className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveProfile}
+                className="px-4 py-2 bg-gradient-to-r from-blue-600 to-sky-500 hover:from-blue-500 hover:to-sky-400 text-white font-medium rounded-lg shadow-md hover:shadow-lg transition-all duration-300"
+              >
+                Save Profile
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,52 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { supabase } from '../lib/supabase';
-import { format, startOfWeek, addDays, addWeeks, subWeeks, isSameDay } from 'date-fns';
-import { ChevronLeftIcon, ChevronRightIcon, XMarkIcon, MapPinIcon, AcademicCapIcon, ClockIcon, BookOpenIcon, HomeIcon, PlusIcon, PencilIcon, UserIcon } from '@heroicons/react/24/outline';
-
-interface Teacher {
-  id: number;
-  name: string;
-  subject: string;
-}
+import { useSearchParams } from 'react-router-dom';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { Teacher, listTeachers, subscribeToTeacherChanges } from '../lib/repositories/teachers';
+import {
+  ScheduleWithTeacher as Schedule,
+  Schedule as ScheduleRow,
+  ScheduleConflict,
+  SCHEDULE_CONFLICT_ERROR,
+  listSchedules,
+  getSchedule,
+  createSchedule,
+  updateSchedule,
+  deleteSchedule,
+  findScheduleConflicts,
+  subscribeToScheduleChanges
+} from '../lib/repositories/schedules';
+import {
+  ScheduleCancellation,
+  MovedOccurrence,
+  listCancellations,
+  listMovedOccurrences,
+  createCancellation,
+  moveOccurrence
+} from '../lib/repositories/cancellations';
+import {
+  ScheduleSubstitutionDetails,
+  listSubstitutions,
+  assignSubstitute,
+  deleteSubstitution
+} from '../lib/repositories/substitutions';
+import { Room, listRooms } from '../lib/repositories/rooms';
+import { Closure, listClosures } from '../lib/repositories/closures';
+import { TeacherAvailability, TeacherLeave, listAvailability, listLeave } from '../lib/repositories/availability';
+import { WEEKDAYS, RecurrenceRule, occursOn, getWeekdays, describeRecurrence, parseDate, isTaughtBy } from '../lib/recurrence';
+import { getUnavailableTimes, isAvailable, getLeaveOn, describeLeave } from '../lib/availability';
+import { getClosuresOn, getClosureFor, getClosureLabel } from '../lib/closures';
+import { getStoredSession } from '../lib/session';
+import CalendarSubscribe from './CalendarSubscribe';
+import ScheduleImport from './ScheduleImport';
+import ScheduleTemplates from './ScheduleTemplates';
+import ClassRoster from './ClassRoster';
+import ScheduleMonthView from './ScheduleMonthView';
+import ScheduleAgenda from './ScheduleAgenda';
+import RoomSelect from './RoomSelect';
+import ClassFilter, { ClassFilterKey } from './ClassFilter';
+import { can } from '../lib/roles';
+import { format, startOfWeek, endOfWeek, startOfMonth, endOfMonth, addDays, addWeeks, subWeeks, addMonths, subMonths, isSameDay, differenceInCalendarDays } from 'date-fns';
+import { ChevronLeftIcon, ChevronRightIcon, XMarkIcon, MapPinIcon, AcademicCapIcon, ClockIcon, BookOpenIcon, HomeIcon, PlusIcon, PencilIcon, UserIcon, ArrowUturnRightIcon, ArrowUpTrayIcon, DocumentDuplicateIcon, LinkIcon, PrinterIcon } from '@heroicons/react/24/outline';
 
 interface TeacherWithSubjects {
   id: number;
@@ -15,24 +54,6 @@ interface TeacherWithSubjects {
   subjects: string[];
 }
 
-interface Schedule {
-  id: number;
-  teacher_id: number;
-  day: string;
-  start_time: string;
-  end_time: string;
-  room: string;
-  mode: string;
-  grade: string;
-  curriculum: string;
-  date_tag: string;
-  repeats: boolean;
-  subject: string;
-  teachers: Teacher;
-  canceled_dates?: string[];
-  description: string;
-}
-
 // New interface for scheduling
 interface ScheduleFormData {
   subject: string;
@@ -47,15 +68,114 @@ interface ScheduleFormData {
   repeats: boolean;
   date_tag: string;
   description: string;
+  // Most students who can enroll, or '' for no limit
+  capacity: string;
+  // Recurrence of repeating classes; dates are yyyy-MM-dd or '' for no bound
+  weekdays: string[];
+  repeat_interval_weeks: number;
+  starts_on: string;
+  ends_on: string;
+}
+
+// Where a single occurrence is moved to; date is yyyy-MM-dd
+interface RescheduleFormData {
+  date: string;
+  start_time: string;
+  end_time: string;
+  room: string;
+  reason: string;
 }
 
 const HOURS = Array.from({ length: 18 }, (_, i) => i + 7); // 7 AM to 12 AM (midnight)
 
+// Days the agenda lists at first, and adds each time it is extended
+const AGENDA_DAYS = 14;
+
+type ScheduleView = 'week' | 'month' | 'agenda';
+
+const SCHEDULE_VIEWS: ScheduleView[] = ['week', 'month', 'agenda'];
+
+// The day a shared link opens on (its 'week' parameter, yyyy-MM-dd), or today
+const getLinkedDate = (value: string | null) => {
+  const date = value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? parseDate(value) : null;
+  return date && !isNaN(date.getTime()) ? date : new Date();
+};
+
+// Dragged classes snap to quarter hours
+const SNAP_MINUTES = 15;
+
+// Where a class dragged in the desktop grid would land; times are minutes since midnight
+interface DragPreview {
+  schedule: Schedule;
+  // The occurrence that was picked up
+  fromDay: Date;
+  day: Date;
+  startMinutes: number;
+  endMinutes: number;
+}
+
+// What a dropped class changes: just the dragged occurrence, or the class itself
+type MoveScope = 'occurrence' | 'series';
+
+// First and last day with cancellations loaded: the desktop week, the two mobile days
+// and the month or agenda, whichever reaches furthest
+const getLoadedRange = (currentDate: Date, mobileStartDate: Date, view: ScheduleView, agendaDays: number) => {
+  const weekStart = startOfWeek(currentDate, { weekStartsOn: 1 });
+  const dates = [weekStart, addDays(weekStart, 6), mobileStartDate, addDays(mobileStartDate, 1)];
+
+  if (view === 'month') {
+    dates.push(
+      startOfWeek(startOfMonth(currentDate), { weekStartsOn: 1 }),
+      endOfWeek(endOfMonth(currentDate), { weekStartsOn: 1 })
+    );
+  }
+  if (view === 'agenda') dates.push(currentDate, addDays(currentDate, agendaDays - 1));
+
+  return [
+    new Date(Math.min(...dates.map(date => date.getTime()))),
+    new Date(Math.max(...dates.map(date => date.getTime())))
+  ] as const;
+};
+
+// A class or teacher row just changed by someone else; their classes stay highlighted
+// for REMOTE_CHANGE_MS
+interface RemoteChange {
+  table: 'class_schedules' | 'teachers';
+  id: number;
+}
+
+const REMOTE_CHANGE_MS = 15000;
+
+// Hatching over the hours a selected teacher can't teach
+const UNAVAILABLE_STYLE = {
+  backgroundImage: 'repeating-linear-gradient(135deg, rgba(148, 163, 184, 0.12) 0 6px, transparent 6px 12px)'
+};
+
 export default function TeacherSchedule() {
-  const [currentDate, setCurrentDate] = useState(new Date());
+  // Filters live in the URL so a filtered timetable can be shared, e.g. with parents. The
+  // teacher, subject, week and view also decide what is loaded, so they are kept in state
+  // and copied to the URL; grade, curriculum, mode and room are read from it directly.
+  const [searchParams, setSearchParams] = useSearchParams();
+  const linkedTeacherRef = useRef(searchParams.get('teacher'));
+  const linkedSubjectRef = useRef(searchParams.get('subject'));
+  const gradeFilter = searchParams.get('grade') || '';
+  const curriculumFilter = searchParams.get('curriculum') || '';
+  const modeFilter = searchParams.get('mode') || '';
+  const selectedRoomId = searchParams.get('room') ? Number(searchParams.get('room')) : null;
+
+  const [currentDate, setCurrentDate] = useState(() => getLinkedDate(searchParams.get('week')));
   const [currentTime, setCurrentTime] = useState(new Date());
   const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [cancellations, setCancellations] = useState<ScheduleCancellation[]>([]);
+  // Cancellations whose make-up class is in view, for the "moved from" notes
+  const [movedOccurrences, setMovedOccurrences] = useState<MovedOccurrence[]>([]);
+  const [substitutions, setSubstitutions] = useState<ScheduleSubstitutionDetails[]>([]);
+  const [closures, setClosures] = useState<Closure[]>([]);
   const [teachers, setTeachers] = useState<Teacher[]>([]);
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [availability, setAvailability] = useState<TeacherAvailability[]>([]);
+  const [leave, setLeave] = useState<TeacherLeave[]>([]);
+  // Room timetable: only the classes held in this room
   const [selectedTeacher, setSelectedTeacher] = useState<Teacher | null>(null);
   const [selectedSubject, setSelectedSubject] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
@@ -64,8 +184,17 @@ export default function TeacherSchedule() {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const tableRef = useRef<HTMLDivElement>(null);
   const [isMobileView, setIsMobileView] = useState(false);
-  const [mobileStartDate, setMobileStartDate] = useState(new Date()); // For mobile view dates
-  const [showAllSchedules, setShowAllSchedules] = useState(true); // State for showing all schedules, default to true
+  const [mobileStartDate, setMobileStartDate] = useState(() => getLinkedDate(searchParams.get('week'))); // For mobile view dates
+  // Shows all schedules by default; off while a shared link's teacher is looked up, so
+  // turning it back on when they aren't found loads every class
+  const [showAllSchedules, setShowAllSchedules] = useState(() => !linkedTeacherRef.current);
+  const [view, setView] = useState<ScheduleView>(() => {
+    const linkedView = searchParams.get('view') as ScheduleView;
+    return SCHEDULE_VIEWS.includes(linkedView) ? linkedView : 'week';
+  });
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [remoteChanges, setRemoteChanges] = useState<RemoteChange[]>([]);
+  const [agendaDays, setAgendaDays] = useState(AGENDA_DAYS);
   
   // New states for context menu
   const [contextMenu, setContextMenu] = useState<{
@@ -91,7 +220,12 @@ export default function TeacherSchedule() {
     end_time: '',
     repeats: true,
     date_tag: '',
-    description: ''
+    description: '',
+    capacity: '',
+    weekdays: [],
+    repeat_interval_weeks: 1,
+    starts_on: '',
+    ends_on: ''
   });
   const [selectedScheduleDay, setSelectedScheduleDay] = useState<Date | null>(null);
   const [selectedScheduleHour, setSelectedScheduleHour] = useState<number | null>(null);
@@ -99,17 +233,48 @@ export default function TeacherSchedule() {
   // States for deletion options
   const [isConfirmDeleteOpen, setIsConfirmDeleteOpen] = useState(false);
   const [deleteMode, setDeleteMode] = useState<'cancel' | 'delete' | null>(null);
+  const [cancelReason, setCancelReason] = useState('');
+  const [makeupScheduleId, setMakeupScheduleId] = useState<number | null>(null);
+
+  // States for moving a single occurrence of a repeating class
+  const [isRescheduleOpen, setIsRescheduleOpen] = useState(false);
+  const [rescheduleFormData, setRescheduleFormData] = useState<RescheduleFormData>({
+    date: '',
+    start_time: '',
+    end_time: '',
+    room: '',
+    reason: ''
+  });
+  const [rescheduleConflicts, setRescheduleConflicts] = useState<ScheduleConflict[]>([]);
+
+  // Substitute picked for the selected occurrence ('' for none); busy means they teach then
+  const [substituteId, setSubstituteId] = useState('');
+  const [substituteBusy, setSubstituteBusy] = useState(false);
 
   // State for edit mode
   const [isEditMode, setIsEditMode] = useState(false);
 
+  // States for dragging classes in the desktop grid
+  const [dragPreview, setDragPreview] = useState<DragPreview | null>(null);
+  const [pendingMove, setPendingMove] = useState<DragPreview | null>(null);
+  const [moveScope, setMoveScope] = useState<MoveScope | null>(null);
+  const [moveConflicts, setMoveConflicts] = useState<ScheduleConflict[]>([]);
+  // A drag ends with a click on the card, which must not open it
+  const suppressClickRef = useRef(false);
+
+  // State for the CSV / .ics import wizard
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isTemplatesOpen, setIsTemplatesOpen] = useState(false);
+
+  // Classes the scheduling form would double-book; saving needs an explicit override
+  const [scheduleConflicts, setScheduleConflicts] = useState<ScheduleConflict[]>([]);
+
   // Get the current week's start date (Monday)
   const startDate = startOfWeek(currentDate, { weekStartsOn: 1 });
 
-  // Check if user came from homepage/dashboard (can schedule) or login page (cannot schedule)
+  // Only staff with scheduling rights can edit; everyone else can only look
   useEffect(() => {
-    const isAuthenticated = localStorage.getItem('isAuthenticated') === 'true';
-    setCanSchedule(isAuthenticated);
+    setCanSchedule(can('schedule.edit'));
   }, []);
 
   // Check if the screen is in mobile view
@@ -126,11 +291,6 @@ export default function TeacherSchedule() {
     };
   }, []);
 
-  // Initialize mobile start date to current day
-  useEffect(() => {
-    setMobileStartDate(new Date());
-  }, []);
-
   // Update current time every minute
   useEffect(() => {
     const timer = setInterval(() => {
@@ -185,60 +345,212 @@ export default function TeacherSchedule() {
     }
   }, [loading, currentTime]);
 
-  // Start timer to update current time and fetch data when filters change
+  // Teachers, rooms, availability and leave are loaded once; changes to teachers arrive live
   useEffect(() => {
-    fetchData();
-    
-    // Start timer to update current time line
-    const timer = setInterval(() => {
-      setCurrentTime(new Date());
-    }, 60000); // Update every minute
-    
-    return () => clearInterval(timer);
-  }, [currentDate, selectedTeacher, selectedSubject, showAllSchedules]);
-  
-  // Log schedules with canceled dates when they change
+    fetchTeachers();
+    return subscribeToTeacherChanges(applyTeacherChange);
+  }, []);
+
+  // The classes of the teacher filtered on, or all of them, kept up to date as anyone edits
+  // them. The subject filter only narrows what is shown, so it doesn't load anything.
+  const filteredTeacherId = selectedTeacher && !showAllSchedules ? selectedTeacher.id : null;
   useEffect(() => {
-    const schedulesWithCanceledDates = schedules.filter(
-      schedule => schedule.canceled_dates && schedule.canceled_dates.length > 0
-    );
-    
-    if (schedulesWithCanceledDates.length > 0) {
-      console.log('Schedules with canceled dates:', schedulesWithCanceledDates);
+    // A shared link's teacher is looked up first
+    if (linkedTeacherRef.current) return;
+
+    fetchSchedules(filteredTeacherId);
+    return subscribeToScheduleChanges(change => applyScheduleChange(change, filteredTeacherId));
+  }, [filteredTeacherId, showAllSchedules]);
+
+  // Cancellations follow the dates in view
+  useEffect(() => {
+    fetchCancellations(...getLoadedRange(currentDate, mobileStartDate, view, agendaDays));
+  }, [currentDate, mobileStartDate, view, agendaDays]);
+
+  // Copy the teacher, subject, week and view to the URL; the week is left out while it is
+  // the current one, so a shared link keeps showing this week
+  useEffect(() => {
+    // A linked teacher hasn't been looked up yet and would be dropped
+    if (linkedTeacherRef.current) return;
+
+    const next = new URLSearchParams(searchParams);
+    const setParam = (key: string, value: string) => {
+      if (value) {
+        next.set(key, value);
+      } else {
+        next.delete(key);
+      }
+    };
+    const week = format(startOfWeek(currentDate, { weekStartsOn: 1 }), 'yyyy-MM-dd');
+    const thisWeek = format(startOfWeek(new Date(), { weekStartsOn: 1 }), 'yyyy-MM-dd');
+    const teacher = selectedTeacher && !showAllSchedules ? selectedTeacher : null;
+
+    setParam('teacher', teacher ? teacher.name : '');
+    setParam('subject', teacher && selectedSubject ? selectedSubject : '');
+    setParam('week', week === thisWeek ? '' : week);
+    setParam('view', view === 'week' ? '' : view);
+
+    if (next.toString() !== searchParams.toString()) {
+      setSearchParams(next, { replace: true });
     }
-  }, [schedules]);
+  }, [selectedTeacher, selectedSubject, showAllSchedules, currentDate, view, searchParams, setSearchParams]);
 
-  async function fetchData() {
+  // Set or clear one of the filters read from the URL
+  const updateFilter = (key: ClassFilterKey | 'room', value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) {
+      next.set(key, value);
+    } else {
+      next.delete(key);
+    }
+    setSearchParams(next, { replace: true });
+  };
+
+  const copyPageLink = async () => {
     try {
-      setLoading(true);
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying page link:', error);
+    }
+  };
 
-      // Fetch teachers
-      const { data: teachersData, error: teachersError } = await supabase
-        .from('teachers')
-        .select('*');
+  // Open the week on screen (from the first day shown on mobile) laid out for printing
+  const openPrintView = () => {
+    const params = new URLSearchParams(searchParams);
+    const shownDate = view === 'week' && isMobileView ? mobileStartDate : currentDate;
+    params.delete('view');
+    params.set('week', format(startOfWeek(shownDate, { weekStartsOn: 1 }), 'yyyy-MM-dd'));
+    window.open(`/teacher-schedule/print?${params.toString()}`, '_blank');
+  };
 
-      if (teachersError) throw teachersError;
-      setTeachers(teachersData || []);
+  // Cancellations, substitutes and closures between two dates
+  const fetchCancellations = async (from: Date, to: Date) => {
+    try {
+      const [canceled, moved, covered, closed] = await Promise.all([
+        listCancellations(format(from, 'yyyy-MM-dd'), format(to, 'yyyy-MM-dd')),
+        listMovedOccurrences(format(from, 'yyyy-MM-dd'), format(to, 'yyyy-MM-dd')),
+        listSubstitutions(format(from, 'yyyy-MM-dd'), format(to, 'yyyy-MM-dd')),
+        listClosures(format(from, 'yyyy-MM-dd'), format(to, 'yyyy-MM-dd'))
+      ]);
+      setCancellations(canceled);
+      setMovedOccurrences(moved);
+      setSubstitutions(covered);
+      setClosures(closed);
+    } catch (error) {
+      console.error('Error fetching cancellations:', error);
+      setError('Failed to load cancellations. Please try again.');
+    }
+  };
 
-      // Fetch schedules for the selected teacher or all schedules
-      let query = supabase.from('class_schedules').select('*, teachers(*)');
-      
-      if (selectedTeacher && !showAllSchedules) {
-        query = query.eq('teacher_id', selectedTeacher.id);
+  const fetchTeachers = async () => {
+    try {
+      const teacherRows = await listTeachers();
+      setTeachers(teacherRows);
+      setRooms(await listRooms());
+
+      // Only staff can read these, so the public timetable gets none and shows no shading
+      setAvailability(await listAvailability());
+      setLeave(await listLeave());
+
+      // A shared link names its teacher (and subject); picking them loads their classes
+      const linkedTeacher = linkedTeacherRef.current;
+      if (linkedTeacher) {
+        linkedTeacherRef.current = null;
+        const linkedSubject = linkedSubjectRef.current;
+        const teacher = teacherRows.find(t => t.name === linkedTeacher && t.subject === linkedSubject)
+          || teacherRows.find(t => t.name === linkedTeacher);
+        if (teacher) {
+          setSelectedTeacher(teacher);
+          setSelectedSubject(teacher.subject === linkedSubject ? linkedSubject : null);
+        } else {
+          setShowAllSchedules(true);
+        }
       }
-      
-      const { data: schedulesData, error: schedulesError } = await query.order('start_time');
-      
-      if (schedulesError) throw schedulesError;
-      setSchedules(schedulesData || []);
-
+    } catch (error) {
+      console.error('Error fetching teachers:', error);
+      setError('Failed to load schedules. Please try again.');
       setLoading(false);
+    }
+  };
+
+  // The classes of one teacher row, or all of them for null
+  const fetchSchedules = async (teacherId: number | null) => {
+    try {
+      setLoading(true);
+      setSchedules(await listSchedules(teacherId !== null ? { teacherId } : {}));
     } catch (error) {
       console.error('Error fetching schedules:', error);
       setError('Failed to load schedules. Please try again.');
+    } finally {
       setLoading(false);
     }
-  }
+  };
+
+  // Loads the classes and cancellations again after an edit made on this page
+  const refreshSchedule = () => {
+    fetchSchedules(filteredTeacherId);
+    fetchCancellations(...getLoadedRange(currentDate, mobileStartDate, view, agendaDays));
+  };
+
+  // Patches one class added, edited or deleted by anyone into the loaded ones
+  const applyScheduleChange = async (change: RealtimePostgresChangesPayload<ScheduleRow>, teacherId: number | null) => {
+    if (change.eventType === 'DELETE') {
+      setSchedules(prev => prev.filter(schedule => schedule.id !== change.old.id));
+      return;
+    }
+
+    const row = change.new;
+    try {
+      // The change comes without its teacher, and may move the class to another teacher
+      const schedule = teacherId === null || row.teacher_id === teacherId ? await getSchedule(row.id) : null;
+      setSchedules(prev => {
+        const others = prev.filter(other => other.id !== row.id);
+        return schedule
+          ? [...others, schedule].sort((a, b) => a.start_time.localeCompare(b.start_time))
+          : others;
+      });
+      setSelectedSchedule(prev => prev && schedule && prev.id === schedule.id ? schedule : prev);
+
+      if (schedule && row.updated_by !== getStoredSession()?.userId) {
+        const remoteChange: RemoteChange = { table: 'class_schedules', id: row.id };
+        setRemoteChanges(prev => [...prev, remoteChange]);
+        setTimeout(() => setRemoteChanges(prev => prev.filter(c => c !== remoteChange)), REMOTE_CHANGE_MS);
+      }
+    } catch (error) {
+      console.error('Error applying a schedule change:', error);
+    }
+  };
+
+  // Patches one teacher row added, edited or deleted by anyone into the loaded teachers and
+  // classes, so a rename shows on every class straight away
+  const applyTeacherChange = (change: RealtimePostgresChangesPayload<Teacher>) => {
+    if (change.eventType === 'DELETE') {
+      setTeachers(prev => prev.filter(teacher => teacher.id !== change.old.id));
+      setSchedules(prev => prev.filter(schedule => schedule.teacher_id !== change.old.id));
+      return;
+    }
+
+    const teacher = change.new;
+    setTeachers(prev => [...prev.filter(other => other.id !== teacher.id), teacher]
+      .sort((a, b) => a.name.localeCompare(b.name)));
+    setSchedules(prev => prev.map(schedule =>
+      schedule.teacher_id === teacher.id ? { ...schedule, teachers: teacher } : schedule
+    ));
+    setSelectedTeacher(prev => prev?.id === teacher.id ? teacher : prev);
+
+    if (change.eventType === 'UPDATE' && teacher.updated_by !== getStoredSession()?.userId) {
+      const remoteChange: RemoteChange = { table: 'teachers', id: teacher.id };
+      setRemoteChanges(prev => [...prev, remoteChange]);
+      setTimeout(() => setRemoteChanges(prev => prev.filter(c => c !== remoteChange)), REMOTE_CHANGE_MS);
+    }
+  };
+
+  // Whether someone else just changed a class or its teacher
+  const isChangedRemotely = (schedule: Schedule) => remoteChanges.some(change =>
+    change.table === 'class_schedules' ? change.id === schedule.id : change.id === schedule.teacher_id
+  );
 
   // Format time from 24h to 12h format
   const formatTime = (time: string) => {
@@ -258,6 +570,22 @@ export default function TeacherSchedule() {
     setCurrentDate(addWeeks(currentDate, 1));
   };
 
+  // Handle month navigation
+  const goToPreviousMonth = () => {
+    setCurrentDate(subMonths(currentDate, 1));
+  };
+
+  const goToNextMonth = () => {
+    setCurrentDate(addMonths(currentDate, 1));
+  };
+
+  // Open the week (or, on phones, the days) of a day picked in the month view
+  const handleMonthDayClick = (day: Date) => {
+    setCurrentDate(day);
+    setMobileStartDate(day);
+    setView('week');
+  };
+
   // Handle mobile day navigation
   const goToPreviousDay = () => {
     setMobileStartDate(prevDate => addDays(prevDate, -1));
@@ -267,30 +595,103 @@ export default function TeacherSchedule() {
     setMobileStartDate(prevDate => addDays(prevDate, 1));
   };
 
+  // The teacher filtered on, whose hours and leave the week grid shades
+  const shadedTeacherName = selectedTeacher && !showAllSchedules ? selectedTeacher.name : null;
+
+  // Classes of other teachers that the teacher filtered on covers as a substitute
+  const coveredSchedules = substitutions
+    .filter(substitution => substitution.substitute.name === shadedTeacherName)
+    .map(substitution => substitution.schedule)
+    .filter((schedule, index, covered) =>
+      covered.findIndex(other => other.id === schedule.id) === index &&
+      !schedules.some(own => own.id === schedule.id)
+    );
+
+  // The classes shown in the grid, month and agenda: the loaded ones that match the filters
+  const visibleSchedules = [...schedules, ...coveredSchedules].filter(schedule =>
+    (selectedRoomId === null || schedule.room_id === selectedRoomId) &&
+    (!gradeFilter || schedule.grade === gradeFilter) &&
+    (!curriculumFilter || schedule.curriculum === curriculumFilter) &&
+    (!modeFilter || schedule.mode === modeFilter)
+  );
+
+  // The substitute teaching one occurrence of a class, if any
+  const getSubstitution = (schedule: Schedule, day: Date) => {
+    const dateString = format(day, 'yyyy-MM-dd');
+    return substitutions.find(
+      substitution => substitution.schedule_id === schedule.id && substitution.occurrence_date === dateString
+    ) || null;
+  };
+
   // Check if a schedule falls on a specific day and hour
   const getSchedulesForDayAndHour = (day: Date, hour: number) => {
-    const dayString = format(day, 'EEEE');
     const dateString = format(day, 'yyyy-MM-dd');
-    // Format for canceled_dates array (M/d format)
-    const cancelDateString = format(day, 'M/d');
     
-    return schedules.filter(schedule => {
-      // Check if this date is in the canceled_dates array
-      if (schedule.canceled_dates && schedule.canceled_dates.includes(cancelDateString)) {
+    return visibleSchedules.filter(schedule => {
+      const isCanceled = cancellations.some(
+        cancellation => cancellation.schedule_id === schedule.id && cancellation.occurrence_date === dateString
+      );
+      if (isCanceled) {
         return false; // Skip this schedule as it's canceled for this date
       }
       
-      const isDayMatch = 
-        (schedule.repeats && schedule.day === dayString) || 
-        (!schedule.repeats && schedule.date_tag === dateString);
-      
-      if (!isDayMatch) return false;
+      if (!occursOn(schedule, day)) return false;
+
+      // The institute is closed for the class's grade
+      if (getClosureFor(closures, schedule.grade, day)) return false;
+
+      // While filtering on a teacher, only the occurrences they teach themselves
+      if (shadedTeacherName && !isTaughtBy(shadedTeacherName, schedule, getSubstitution(schedule, day))) return false;
       
       const scheduleStartHour = parseInt(schedule.start_time.split(':')[0]);
       return scheduleStartHour === hour;
     });
   };
 
+  // The occurrence a one-off class was moved from, if it replaces one
+  const getMovedFrom = (schedule: Schedule) =>
+    movedOccurrences.find(moved => moved.makeup_schedule_id === schedule.id);
+
+  // Teachers on leave on a day; just the selected teacher while filtering on one
+  const getTeachersOnLeave = (day: Date) => {
+    const dateString = format(day, 'yyyy-MM-dd');
+    return [...new Set(leave
+      .filter(l => l.start_date <= dateString && dateString <= l.end_date)
+      .filter(l => shadedTeacherName === null || l.teacher_name === shadedTeacherName)
+      .map(l => l.teacher_name))];
+  };
+
+  // Warnings, not errors, for booking a teacher outside their hours or during their leave
+  const getAvailabilityWarnings = (teacherName: string, rule: RecurrenceRule, startTime: string, endTime: string) => {
+    const warnings: string[] = [];
+    if (!teacherName || !startTime || !endTime) return warnings;
+
+    const weekdays = rule.repeats
+      ? getWeekdays(rule)
+      : rule.date_tag ? [format(parseDate(rule.date_tag), 'EEEE')] : [];
+    const unavailableDays = weekdays.filter(day => !isAvailable(availability, teacherName, day, startTime, endTime));
+    if (unavailableDays.length > 0) {
+      warnings.push(`${teacherName} isn't available at this time on ${unavailableDays.join(', ')}.`);
+    }
+
+    // Leave from today on that the class would fall in
+    const today = format(new Date(), 'yyyy-MM-dd');
+    leave
+      .filter(l => l.teacher_name === teacherName && l.end_date >= today)
+      .forEach(l => {
+        const first = parseDate(l.start_date > today ? l.start_date : today);
+        const count = Array.from({ length: differenceInCalendarDays(parseDate(l.end_date), first) + 1 }, (_, i) => addDays(first, i))
+          .filter(day => occursOn(rule, day)).length;
+        if (count > 0) {
+          warnings.push(`${teacherName} is on leave ${describeLeave(l)}${
+            rule.repeats ? `, which ${count === 1 ? '1 class' : `${count} classes`} of this series fall in` : ''
+          }.`);
+        }
+      });
+
+    return warnings;
+  };
+
   // Calculate schedule height based on duration
   const calculateScheduleHeight = (startTime: string, endTime: string) => {
     const [startHour, startMinute] = startTime.split(':').map(Number);
@@ -320,6 +721,214 @@ export default function TeacherSchedule() {
     return endMinutes - startMinutes;
   };
 
+  const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  };
+
+  const toTime = (minutes: number) =>
+    `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+
+  // The day and time under the pointer in the desktop grid, from the cell's data-slot attributes
+  const getGridPosition = (x: number, y: number) => {
+    const cell = document.elementsFromPoint(x, y)
+      .find(element => element instanceof HTMLElement && element.dataset.slotDate) as HTMLElement | undefined;
+    if (!cell) return null;
+
+    const rect = cell.getBoundingClientRect();
+    const fraction = Math.min(Math.max((y - rect.top) / rect.height, 0), 1);
+    return {
+      day: parseDate(cell.dataset.slotDate!),
+      minutes: Number(cell.dataset.slotHour) * 60 + fraction * 60
+    };
+  };
+
+  // Start moving a class (or, from its bottom edge, changing when it ends). Listens on the
+  // window so the drag keeps going when the pointer leaves the card.
+  const handleDragStart = (e: React.PointerEvent, schedule: Schedule, day: Date, mode: 'move' | 'resize') => {
+    if (!canSchedule || isMobileView || e.button !== 0) return;
+    e.stopPropagation();
+
+    const origin = getGridPosition(e.clientX, e.clientY);
+    if (!origin) return;
+
+    const { clientX, clientY } = e;
+    const start = toMinutes(schedule.start_time);
+    const end = toMinutes(schedule.end_time);
+    const grabOffset = origin.minutes - start;
+    const firstMinute = HOURS[0] * 60;
+    const lastMinute = 24 * 60 - SNAP_MINUTES;
+    const snap = (minutes: number) => Math.round(minutes / SNAP_MINUTES) * SNAP_MINUTES;
+    let preview: DragPreview | null = null;
+
+    const handleMove = (event: PointerEvent) => {
+      // Small movements are still clicks
+      if (!preview && Math.hypot(event.clientX - clientX, event.clientY - clientY) < 5) return;
+
+      const position = getGridPosition(event.clientX, event.clientY);
+      if (!position) return;
+
+      if (mode === 'move') {
+        const duration = end - start;
+        const startMinutes = Math.min(Math.max(snap(position.minutes - grabOffset), firstMinute), lastMinute - duration);
+        preview = { schedule, fromDay: day, day: position.day, startMinutes, endMinutes: startMinutes + duration };
+      } else {
+        const endMinutes = Math.min(Math.max(snap(position.minutes), start + SNAP_MINUTES), lastMinute);
+        preview = { schedule, fromDay: day, day, startMinutes: start, endMinutes };
+      }
+      setDragPreview(preview);
+    };
+
+    const handleUp = () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      setDragPreview(null);
+      if (!preview) return;
+
+      suppressClickRef.current = true;
+      setTimeout(() => {
+        suppressClickRef.current = false;
+      });
+      handleDrop(preview);
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+  };
+
+  // Loaded classes the dragged class would overlap, to colour the preview while dragging;
+  // the database check on drop also sees classes hidden by the filters
+  const getDragClashes = (preview: DragPreview) => {
+    const { schedule } = preview;
+    const dateString = format(preview.day, 'yyyy-MM-dd');
+    const room = (schedule.room || '').trim().toLowerCase();
+
+    return schedules.filter(other =>
+      other.id !== schedule.id &&
+      (other.teachers?.name === schedule.teachers?.name || (room !== '' && (other.room || '').trim().toLowerCase() === room)) &&
+      occursOn(other, preview.day) &&
+      !cancellations.some(c => c.schedule_id === other.id && c.occurrence_date === dateString) &&
+      toMinutes(other.start_time) < preview.endMinutes &&
+      preview.startMinutes < toMinutes(other.end_time)
+    );
+  };
+
+  // One-off classes move straight away; repeating ones ask whether to move the whole series
+  const handleDrop = (preview: DragPreview) => {
+    const { schedule } = preview;
+    if (isSameDay(preview.day, preview.fromDay) &&
+        preview.startMinutes === toMinutes(schedule.start_time) &&
+        preview.endMinutes === toMinutes(schedule.end_time)) {
+      return;
+    }
+
+    if (schedule.repeats) {
+      setPendingMove(preview);
+      setMoveScope(null);
+      setMoveConflicts([]);
+    } else {
+      handleMoveSubmit(preview, 'series');
+    }
+  };
+
+  const closeMoveDialog = () => {
+    setPendingMove(null);
+    setMoveScope(null);
+    setMoveConflicts([]);
+  };
+
+  // Save a dropped class, after checking it for clashes like the scheduling form does
+  const handleMoveSubmit = async (preview: DragPreview, scope: MoveScope, allowOverlap = false) => {
+    const { schedule } = preview;
+    const start_time = toTime(preview.startMinutes);
+    const end_time = toTime(preview.endMinutes);
+    const date = format(preview.day, 'yyyy-MM-dd');
+    const occurrenceDate = format(preview.fromDay, 'yyyy-MM-dd');
+
+    try {
+      if (scope === 'occurrence') {
+        if (!allowOverlap) {
+          const conflicts = (await findScheduleConflicts({
+            teacher_id: schedule.teacher_id,
+            room: schedule.room,
+            start_time,
+            end_time,
+            repeats: false,
+            day: format(preview.day, 'EEEE'),
+            date_tag: date,
+            weekdays: null,
+            starts_on: null,
+            ends_on: null,
+            repeat_interval_weeks: 1
+          })).filter(
+            // The occurrence being moved is cancelled by the move, so it can't clash
+            conflict => !(conflict.schedule.id === schedule.id && date === occurrenceDate)
+          );
+
+          if (conflicts.length > 0) {
+            setPendingMove(preview);
+            setMoveScope(scope);
+            setMoveConflicts(conflicts);
+            return;
+          }
+        }
+
+        await moveOccurrence(schedule.id, occurrenceDate, {
+          date,
+          startTime: start_time,
+          endTime: end_time,
+          room: schedule.room || null,
+          reason: null
+        }, allowOverlap);
+      } else {
+        let changes: Pick<Schedule, 'day' | 'date_tag' | 'weekdays' | 'start_time' | 'end_time'>;
+
+        if (schedule.repeats) {
+          // The dragged weekday is swapped for the new one; the class's other days stay
+          const fromWeekday = format(preview.fromDay, 'EEEE');
+          const toWeekday = format(preview.day, 'EEEE');
+          const weekdays = getWeekdays(schedule);
+
+          if (toWeekday !== fromWeekday && weekdays.includes(toWeekday)) {
+            closeMoveDialog();
+            setError(`This class already runs on ${toWeekday}s. Edit the class to change its days.`);
+            return;
+          }
+
+          const newWeekdays = WEEKDAYS.filter(day => day === toWeekday || (day !== fromWeekday && weekdays.includes(day)));
+          changes = { day: newWeekdays[0], date_tag: schedule.date_tag, weekdays: newWeekdays, start_time, end_time };
+        } else {
+          changes = { day: format(preview.day, 'EEEE'), date_tag: date, weekdays: null, start_time, end_time };
+        }
+
+        if (!allowOverlap) {
+          const conflicts = await findScheduleConflicts({ ...schedule, ...changes }, schedule.id);
+
+          if (conflicts.length > 0) {
+            setPendingMove(preview);
+            setMoveScope(scope);
+            setMoveConflicts(conflicts);
+            return;
+          }
+        }
+
+        await updateSchedule(schedule.id, { ...changes, allow_overlap: allowOverlap });
+      }
+
+      closeMoveDialog();
+      setError(null);
+      refreshSchedule();
+    } catch (error) {
+      console.error('Error moving class:', error);
+      closeMoveDialog();
+      if ((error as { code?: string }).code === SCHEDULE_CONFLICT_ERROR) {
+        setError('The new time now overlaps another class of the same teacher or room. Please review it and try again.');
+      } else {
+        setError('Failed to move class. Please try again.');
+      }
+    }
+  };
+
   // Calculate the position of the current time line
   const getCurrentTimePosition = () => {
     const now = new Date();
@@ -356,8 +965,12 @@ export default function TeacherSchedule() {
 
   // Handle card click
   const handleCardClick = (schedule: Schedule, day: Date) => {
+    if (suppressClickRef.current) return;
+
     setSelectedSchedule(schedule);
     setSelectedScheduleDay(day);
+    setSubstituteId(String(getSubstitution(schedule, day)?.teacher_id ?? ''));
+    setSubstituteBusy(false);
     setIsModalOpen(true);
   };
 
@@ -378,6 +991,22 @@ export default function TeacherSchedule() {
   const closeConfirmDelete = () => {
     setIsConfirmDeleteOpen(false);
     setDeleteMode(null);
+    setCancelReason('');
+    setMakeupScheduleId(null);
+  };
+
+  // One-off classes of the same teacher on or after the cancelled date, offered as make-up
+  const getMakeupOptions = (schedule: Schedule, date: Date) => {
+    const dateString = format(date, 'yyyy-MM-dd');
+
+    return schedules
+      .filter(other =>
+        other.id !== schedule.id &&
+        !other.repeats &&
+        other.teachers?.name === schedule.teachers?.name &&
+        other.date_tag >= dateString
+      )
+      .sort((a, b) => `${a.date_tag} ${a.start_time}`.localeCompare(`${b.date_tag} ${b.start_time}`));
   };
 
   // Cancel a specific date for a recurring schedule
@@ -385,66 +1014,168 @@ export default function TeacherSchedule() {
     if (!schedule || !schedule.id) return;
     
     try {
-      // Log various date formats for debugging
-      console.log('Date formats for:', date);
-      console.log('- M/d:', format(date, 'M/d'));
-      console.log('- MM/dd:', format(date, 'MM/dd'));
-      console.log('- yyyy-MM-dd:', format(date, 'yyyy-MM-dd'));
-      
-      // Format the date to match the format in canceled_dates
-      // Use MM/dd format (e.g., "5/12" for May 12)
-      const dateString = format(date, 'M/d');
-      
-      console.log('Canceling date:', dateString);
-      console.log('Current canceled dates:', schedule.canceled_dates);
-      
-      // Get current canceled dates or initialize an empty array
-      const canceledDates = schedule.canceled_dates || [];
-      
-      // Add the new date if it's not already included
-      if (!canceledDates.includes(dateString)) {
-        canceledDates.push(dateString);
-      }
-      
-      console.log('New canceled dates:', canceledDates);
-      
-      // Update the schedule with the new canceled date
-      const { error } = await supabase
-        .from('class_schedules')
-        .update({ canceled_dates: canceledDates })
-        .eq('id', schedule.id);
-      
-      if (error) {
-        console.error('Supabase error:', error);
-        throw error;
-      }
+      await createCancellation({
+        schedule_id: schedule.id,
+        occurrence_date: format(date, 'yyyy-MM-dd'),
+        reason: cancelReason.trim() || null,
+        makeup_schedule_id: makeupScheduleId
+      });
       
       // Close modal and refresh data
       closeModal();
       closeConfirmDelete();
-      fetchData();
+      refreshSchedule();
     } catch (error) {
       console.error('Error canceling schedule:', error);
       setError('Failed to cancel class. Please try again.');
     }
   };
 
+  // Open the reschedule form for the selected occurrence, starting from its current slot
+  const handleRescheduleClick = () => {
+    if (!selectedSchedule || !selectedScheduleDay) return;
+
+    setRescheduleFormData({
+      date: format(selectedScheduleDay, 'yyyy-MM-dd'),
+      start_time: selectedSchedule.start_time.slice(0, 5),
+      end_time: selectedSchedule.end_time.slice(0, 5),
+      room: selectedSchedule.room || '',
+      reason: ''
+    });
+    setRescheduleConflicts([]);
+    setIsModalOpen(false);
+    setIsSchedulingModalOpen(false);
+    setIsRescheduleOpen(true);
+  };
+
+  const closeReschedule = () => {
+    setIsRescheduleOpen(false);
+    setRescheduleConflicts([]);
+    setSelectedSchedule(null);
+  };
+
+  // Move the selected occurrence, leaving the rest of the series as it is
+  const handleRescheduleSubmit = async (allowOverlap = false) => {
+    if (!selectedSchedule || !selectedScheduleDay) return;
+
+    const { date, start_time, end_time, room, reason } = rescheduleFormData;
+    const occurrenceDate = format(selectedScheduleDay, 'yyyy-MM-dd');
+
+    if (!date || !start_time || !end_time) {
+      setError('Please choose a date and time for the class');
+      return;
+    }
+    if (end_time <= start_time) {
+      setError('The class must end after it starts');
+      return;
+    }
+    if (date === occurrenceDate && start_time === selectedSchedule.start_time.slice(0, 5) &&
+        end_time === selectedSchedule.end_time.slice(0, 5) && room === (selectedSchedule.room || '')) {
+      setError('Please choose a different date, time or room');
+      return;
+    }
+
+    try {
+      if (!allowOverlap) {
+        const conflicts = await findScheduleConflicts({
+          teacher_id: selectedSchedule.teacher_id,
+          room,
+          start_time,
+          end_time,
+          repeats: false,
+          day: format(parseDate(date), 'EEEE'),
+          date_tag: date,
+          weekdays: null,
+          starts_on: null,
+          ends_on: null,
+          repeat_interval_weeks: 1
+        });
+
+        // The occurrence being moved is cancelled by the move, so it can't clash
+        const remaining = conflicts.filter(
+          conflict => !(conflict.schedule.id === selectedSchedule.id && date === occurrenceDate)
+        );
+
+        if (remaining.length > 0) {
+          setRescheduleConflicts(remaining);
+          return;
+        }
+      }
+
+      await moveOccurrence(selectedSchedule.id, occurrenceDate, {
+        date,
+        startTime: start_time,
+        endTime: end_time,
+        room: room.trim() || null,
+        reason: reason.trim() || null
+      }, allowOverlap);
+
+      closeReschedule();
+      setError(null);
+      refreshSchedule();
+    } catch (error) {
+      console.error('Error rescheduling class:', error);
+      if ((error as { code?: string }).code === SCHEDULE_CONFLICT_ERROR) {
+        setError('The new time now overlaps another class of the same teacher or room. Please review it and try again.');
+      } else {
+        setError('Failed to reschedule class. Please try again.');
+      }
+    }
+  };
+
+  // Teachers who could substitute in a class, one teacher row per name (the one for the
+  // class's subject where they teach it)
+  const getSubstituteOptions = (schedule: Schedule) =>
+    [...new Set(teachers.map(teacher => teacher.name))]
+      .filter(name => name !== schedule.teachers.name)
+      .sort()
+      .map(name =>
+        teachers.find(teacher => teacher.name === name && teacher.subject === schedule.subject) ||
+        teachers.find(teacher => teacher.name === name)!
+      );
+
+  // Assign, change or remove the substitute of the selected occurrence
+  const handleSubstituteSave = async (allowOverlap = false) => {
+    if (!selectedSchedule || !selectedScheduleDay) return;
+
+    const current = getSubstitution(selectedSchedule, selectedScheduleDay);
+
+    try {
+      if (substituteId) {
+        await assignSubstitute({
+          schedule_id: selectedSchedule.id,
+          occurrence_date: format(selectedScheduleDay, 'yyyy-MM-dd'),
+          teacher_id: Number(substituteId),
+          reason: current?.reason ?? null
+        }, allowOverlap);
+      } else if (current) {
+        await deleteSubstitution(current.id);
+      }
+
+      closeModal();
+      setError(null);
+      refreshSchedule();
+    } catch (error) {
+      console.error('Error saving substitute:', error);
+      if ((error as { code?: string }).code === SCHEDULE_CONFLICT_ERROR) {
+        setSubstituteBusy(true);
+      } else {
+        setError('Failed to save the substitute. Please try again.');
+      }
+    }
+  };
+
   // Delete a schedule completely
-  const deleteSchedule = async (schedule: Schedule) => {
+  const deleteWholeSchedule = async (schedule: Schedule) => {
     if (!schedule || !schedule.id) return;
     
     try {
-      const { error } = await supabase
-        .from('class_schedules')
-        .delete()
-        .eq('id', schedule.id);
-      
-      if (error) throw error;
+      await deleteSchedule(schedule.id);
       
       // Close modal and refresh data
       closeModal();
       closeConfirmDelete();
-      fetchData();
+      refreshSchedule();
     } catch (error) {
       console.error('Error deleting schedule:', error);
       setError('Failed to delete class. Please try again.');
@@ -473,7 +1204,7 @@ export default function TeacherSchedule() {
     } else if (deleteMode === 'delete') {
       // Delete entire schedule
       console.log('Deleting entire schedule with ID:', selectedSchedule.id);
-      deleteSchedule(selectedSchedule);
+      deleteWholeSchedule(selectedSchedule);
     } else {
       console.error('Invalid delete mode:', deleteMode);
     }
@@ -482,7 +1213,7 @@ export default function TeacherSchedule() {
   // Get day of schedule
   const getScheduleDay = (schedule: Schedule) => {
     if (schedule.repeats) {
-      return schedule.day;
+      return getWeekdays(schedule).join(', ');
     } else {
       // Format date_tag as Month day, year
       const date = new Date(schedule.date_tag);
@@ -540,7 +1271,12 @@ export default function TeacherSchedule() {
       end_time: schedule.end_time,
       repeats: schedule.repeats,
       date_tag: schedule.date_tag,
-      description: schedule.description || ''
+      description: schedule.description || '',
+      capacity: schedule.capacity?.toString() || '',
+      weekdays: getWeekdays(schedule),
+      repeat_interval_weeks: schedule.repeat_interval_weeks,
+      starts_on: schedule.starts_on || '',
+      ends_on: schedule.ends_on || ''
     });
     
     // Set the selected day and hour for the scheduling modal
@@ -589,7 +1325,12 @@ export default function TeacherSchedule() {
       end_time: endTime,
       repeats: true,
       date_tag: dateTag,
-      description: ''
+      description: '',
+      capacity: '',
+      weekdays: [dayString],
+      repeat_interval_weeks: 1,
+      starts_on: '',
+      ends_on: ''
     });
     
     // Reset edit mode
@@ -600,8 +1341,17 @@ export default function TeacherSchedule() {
     setIsSchedulingModalOpen(true);
   };
   
+  // Any change to the form invalidates the conflicts found for the previous values
+  useEffect(() => {
+    setScheduleConflicts([]);
+  }, [schedulingFormData]);
+
+  useEffect(() => {
+    setRescheduleConflicts([]);
+  }, [rescheduleFormData]);
+
   // Update handleScheduleSubmit to handle both create and edit
-  const handleScheduleSubmit = async () => {
+  const handleScheduleSubmit = async (allowOverlap = false) => {
     try {
       // Validate teacher selection
       if (!isEditMode && schedulingFormData.teacher_id === 0) {
@@ -609,58 +1359,88 @@ export default function TeacherSchedule() {
         return;
       }
 
-      if (isEditMode && selectedSchedule) {
+      const { repeats, weekdays, repeat_interval_weeks, starts_on, ends_on } = schedulingFormData;
+      const capacity = schedulingFormData.capacity.trim() ? Number(schedulingFormData.capacity) : null;
+
+      if (capacity !== null && (!Number.isInteger(capacity) || capacity < 1)) {
+        setError('Capacity must be a whole number of students');
+        return;
+      }
+
+      if (repeats) {
+        if (weekdays.length === 0) {
+          setError('Please choose at least one day for a repeating class');
+          return;
+        }
+        if (repeat_interval_weeks > 1 && !starts_on) {
+          setError('Please choose a start date for a class that repeats every few weeks');
+          return;
+        }
+        if (starts_on && ends_on && ends_on < starts_on) {
+          setError('The end date must be on or after the start date');
+          return;
+        }
+      }
+
+      const scheduleData = {
+        subject: schedulingFormData.subject,
+        grade: schedulingFormData.grade,
+        curriculum: schedulingFormData.curriculum,
+        room: schedulingFormData.room, // Changed to non-nullable
+        mode: schedulingFormData.mode, // Added mode field
+        teacher_id: schedulingFormData.teacher_id,
+        // day keeps the first weekday so filters by day still find repeating classes
+        day: repeats ? getWeekdays({ day: schedulingFormData.day, weekdays })[0] : schedulingFormData.day,
+        start_time: schedulingFormData.start_time,
+        end_time: schedulingFormData.end_time,
+        repeats,
+        date_tag: schedulingFormData.date_tag,
+        description: schedulingFormData.description,
+        capacity,
+        weekdays: repeats ? weekdays : null,
+        repeat_interval_weeks: repeats ? repeat_interval_weeks : 1,
+        starts_on: repeats && starts_on ? starts_on : null,
+        ends_on: repeats && ends_on ? ends_on : null
+      };
+
+      const editedSchedule = isEditMode ? selectedSchedule : null;
+
+      // Show clashes with the teacher's or room's other classes before saving
+      if (!allowOverlap) {
+        const conflicts = await findScheduleConflicts(
+          scheduleData,
+          editedSchedule?.id ?? null
+        );
+
+        if (conflicts.length > 0) {
+          setScheduleConflicts(conflicts);
+          return;
+        }
+      }
+
+      if (editedSchedule) {
         // Update existing schedule
-        const { error } = await supabase
-          .from('class_schedules')
-          .update({
-            subject: schedulingFormData.subject,
-            grade: schedulingFormData.grade,
-            curriculum: schedulingFormData.curriculum,
-            room: schedulingFormData.room, // Changed to non-nullable
-            mode: schedulingFormData.mode, // Added mode field
-            teacher_id: schedulingFormData.teacher_id,
-            day: schedulingFormData.day,
-            start_time: schedulingFormData.start_time,
-            end_time: schedulingFormData.end_time,
-            repeats: schedulingFormData.repeats,
-            date_tag: schedulingFormData.date_tag,
-            description: schedulingFormData.description
-          })
-          .eq('id', selectedSchedule.id);
-          
-        if (error) throw error;
+        await updateSchedule(editedSchedule.id, { ...scheduleData, allow_overlap: allowOverlap });
       } else {
         // Create new schedule
-        const { error } = await supabase
-          .from('class_schedules')
-          .insert([{
-            subject: schedulingFormData.subject,
-            grade: schedulingFormData.grade,
-            curriculum: schedulingFormData.curriculum,
-            room: schedulingFormData.room, // Changed to non-nullable
-            mode: schedulingFormData.mode, // Added mode field
-            teacher_id: schedulingFormData.teacher_id,
-            day: schedulingFormData.day,
-            start_time: schedulingFormData.start_time,
-            end_time: schedulingFormData.end_time,
-            repeats: schedulingFormData.repeats,
-            date_tag: schedulingFormData.date_tag,
-            description: schedulingFormData.description
-          }]);
-        
-        if (error) throw error;
+        await createSchedule({ ...scheduleData, allow_overlap: allowOverlap });
       }
       
       // Close modal and refresh data
       setIsSchedulingModalOpen(false);
       setIsEditMode(false);
       setSelectedSchedule(null);
+      setScheduleConflicts([]);
       setError(null); // Clear any previous errors
-      fetchData();
+      refreshSchedule();
     } catch (error) {
       console.error('Error scheduling class:', error);
-      setError('Failed to schedule class. Please try again.');
+      if ((error as { code?: string }).code === SCHEDULE_CONFLICT_ERROR) {
+        // Another class was saved into the slot since the check above
+        setError('This class now overlaps another class of the same teacher or room. Please review it and try again.');
+      } else {
+        setError('Failed to schedule class. Please try again.');
+      }
     }
   };
   
@@ -669,6 +1449,7 @@ export default function TeacherSchedule() {
     setIsSchedulingModalOpen(false);
     setIsEditMode(false);
     setSelectedSchedule(null);
+    setScheduleConflicts([]);
   };
 
   // Handle context menu
@@ -708,12 +1489,34 @@ export default function TeacherSchedule() {
   const renderScheduleCell = (day: Date, hour: number) => {
     const schedules = getSchedulesForDayAndHour(day, hour);
     const now = new Date();
+    const showDragPreview = dragPreview && isSameDay(dragPreview.day, day) &&
+      Math.floor(dragPreview.startMinutes / 60) === hour;
+    const dragClashes = showDragPreview ? getDragClashes(dragPreview) : [];
+    const isOnLeave = shadedTeacherName !== null && getLeaveOn(leave, shadedTeacherName, day) !== null;
+    // Parts of this hour outside the selected teacher's hours, in minutes since midnight
+    const unavailableTimes = shadedTeacherName && !isOnLeave
+      ? getUnavailableTimes(availability, shadedTeacherName, format(day, 'EEEE'))
+        .map(([from, to]) => [Math.max(from, hour * 60), Math.min(to, (hour + 1) * 60)])
+        .filter(([from, to]) => to > from)
+      : [];
     
     return (
       <div 
         className="relative min-h-[60px] bg-gray-800/30 group/cell"
         onContextMenu={(e) => handleContextMenu(e, day, hour)}
       >
+        {/* The selected teacher's leave and the hours they can't teach */}
+        {isOnLeave && (
+          <div className="absolute inset-0 bg-red-500/10 pointer-events-none" style={UNAVAILABLE_STYLE}></div>
+        )}
+        {unavailableTimes.map(([from, to]) => (
+          <div
+            key={from}
+            className="absolute inset-x-0 bg-black/30 pointer-events-none"
+            style={{ ...UNAVAILABLE_STYLE, top: `${((from - hour * 60) / 60) * 100}%`, height: `${((to - from) / 60) * 100}%` }}
+          ></div>
+        ))}
+
         {schedules.map(schedule => {
           // Check if the schedule has finished (either a past day or finished today)
           const isPastDay = day < now && !isSameDay(day, now);
@@ -725,11 +1528,16 @@ export default function TeacherSchedule() {
           const isFinished = isPastDay || isFinishedToday;
           const duration = calculateScheduleDuration(schedule.start_time, schedule.end_time);
           const isSmallCard = duration <= 30; // 30 minutes or less
+          const movedFrom = getMovedFrom(schedule);
+          const substitution = getSubstitution(schedule, day);
+          const isDragged = dragPreview?.schedule.id === schedule.id && isSameDay(dragPreview.fromDay, day);
+          const isDraggable = canSchedule && !isMobileView;
           
           return (
             <div
               key={schedule.id}
               onClick={() => handleCardClick(schedule, day)}
+              onPointerDown={isDraggable ? (e) => handleDragStart(e, schedule, day, 'move') : undefined}
               className={`absolute inset-x-1 ${
                 isFinished 
                   ? 'bg-gray-800 border-gray-700 hover:bg-gray-700' 
@@ -740,7 +1548,12 @@ export default function TeacherSchedule() {
                       : 'bg-gradient-to-br from-blue-600 to-indigo-500 hover:from-blue-700 hover:to-indigo-600 border-blue-400'
               } border rounded-md p-2 text-xs ${
                 isFinished ? 'text-gray-400' : 'text-gray-200'
-              } shadow-md transition-all duration-200 cursor-pointer transform hover:scale-[1.02] hover:z-20 group group/schedule overflow-hidden`}
+              } shadow-md transition-all duration-200 cursor-pointer transform hover:scale-[1.02] hover:z-20 group group/schedule overflow-hidden ${
+                isDraggable ? 'select-none' : ''
+              } ${isDragged ? 'opacity-40' : ''} ${
+                isChangedRemotely(schedule) ? 'ring-2 ring-amber-300 ring-offset-1 ring-offset-gray-900 animate-pulse' : ''
+              }`}
+              title={isChangedRemotely(schedule) ? 'Just changed by someone else' : undefined}
               style={{
                 height: calculateScheduleHeight(schedule.start_time, schedule.end_time),
                 top: calculateScheduleTop(schedule.start_time),
@@ -788,11 +1601,15 @@ export default function TeacherSchedule() {
                   {/* Only show additional content if not a small card */}
                   {!isSmallCard && (
                     <>
-                      {/* Teacher name */}
+                      {/* Teacher name, or the substitute teaching this occurrence */}
                       <div className={`text-[clamp(0.65rem,0.8vw,0.875rem)] font-medium ${
                         isFinished ? 'text-gray-500' : 'text-gray-300'
                       }`}>
-                        {schedule.teachers.name}
+                        {substitution ? (
+                          <span className={isFinished ? '' : 'text-purple-200'} title={`Covering for ${schedule.teachers.name}`}>
+                            Sub: {substitution.substitute.name}
+                          </span>
+                        ) : schedule.teachers.name}
                       </div>
 
                       {/* Combined Grade and Curriculum pill */}
@@ -845,13 +1662,57 @@ export default function TeacherSchedule() {
                           <span className="break-words">{schedule.room}</span>
                         </div>
                       )}
+
+                      {/* Moved from another slot */}
+                      {movedFrom && (
+                        <div className={`flex items-center mt-1 ${
+                          isFinished ? 'text-gray-600' : 'text-amber-200'
+                        } text-[clamp(0.65rem,0.8vw,0.875rem)] whitespace-nowrap`}>
+                          <ArrowUturnRightIcon className="h-3.5 w-3.5 mr-1 flex-shrink-0" />
+                          <span className="truncate">
+                            Moved from {format(parseDate(movedFrom.occurrence_date), 'EEE, MMM d')}
+                          </span>
+                        </div>
+                      )}
                     </>
                   )}
                 </div>
               </div>
+
+              {/* Bottom edge changes when the class ends */}
+              {isDraggable && (
+                <div
+                  onPointerDown={(e) => handleDragStart(e, schedule, day, 'resize')}
+                  className="absolute bottom-0 inset-x-0 h-2 cursor-ns-resize z-10"
+                  title="Drag to change the end time"
+                ></div>
+              )}
             </div>
           );
         })}
+
+        {/* Where the dragged class would land */}
+        {showDragPreview && (
+          <div
+            className={`absolute inset-x-1 z-30 pointer-events-none rounded-md border-2 border-dashed p-2 text-xs font-medium ${
+              dragClashes.length > 0
+                ? 'border-red-400 bg-red-500/20 text-red-100'
+                : 'border-sky-300 bg-sky-500/20 text-sky-100'
+            }`}
+            style={{
+              height: calculateScheduleHeight(toTime(dragPreview.startMinutes), toTime(dragPreview.endMinutes)),
+              top: calculateScheduleTop(toTime(dragPreview.startMinutes)),
+              margin: '1px'
+            }}
+          >
+            <div>{formatTime(toTime(dragPreview.startMinutes))} - {formatTime(toTime(dragPreview.endMinutes))}</div>
+            {dragClashes.length > 0 && (
+              <div className="mt-0.5 truncate">
+                Overlaps {dragClashes.map(clash => clash.subject).join(', ')}
+              </div>
+            )}
+          </div>
+        )}
         
         {/* Add scheduling option for empty cells if user has scheduling rights */}
         {canSchedule && schedules.length === 0 && (
@@ -870,6 +1731,32 @@ export default function TeacherSchedule() {
     );
   };
 
+  // Availability warnings for the open scheduling and reschedule forms
+  const schedulingWarnings = isSchedulingModalOpen
+    ? getAvailabilityWarnings(
+      teachers.find(t => t.id === schedulingFormData.teacher_id)?.name || '',
+      {
+        repeats: schedulingFormData.repeats,
+        day: schedulingFormData.day,
+        date_tag: schedulingFormData.date_tag,
+        weekdays: schedulingFormData.repeats ? schedulingFormData.weekdays : null,
+        starts_on: schedulingFormData.starts_on || null,
+        ends_on: schedulingFormData.ends_on || null,
+        repeat_interval_weeks: schedulingFormData.repeat_interval_weeks
+      },
+      schedulingFormData.start_time,
+      schedulingFormData.end_time
+    )
+    : [];
+  const rescheduleWarnings = isRescheduleOpen && selectedSchedule && rescheduleFormData.date
+    ? getAvailabilityWarnings(
+      selectedSchedule.teachers.name,
+      { repeats: false, day: '', date_tag: rescheduleFormData.date, weekdays: null, starts_on: null, ends_on: null, repeat_interval_weeks: 1 },
+      rescheduleFormData.start_time,
+      rescheduleFormData.end_time
+    )
+    : [];
+
   // Group teachers by name and collect their subjects
   const teachersWithSubjects = teachers.reduce((acc: TeacherWithSubjects[], teacher) => {
     const existingTeacher = acc.find(t => t.name === teacher.name);
@@ -925,8 +1812,8 @@ export default function TeacherSchedule() {
 
   // Handle home button click
   const handleHomeClick = () => {
-    // Check if user is authenticated, which means they came from the dashboard
-    const isAuthenticated = localStorage.getItem('isAuthenticated') === 'true';
+    // Signed-in staff came from the dashboard
+    const isAuthenticated = getStoredSession() !== null;
     
     // If authenticated, send to dashboard, otherwise to login
     if (isAuthenticated) {
@@ -1019,6 +1906,88 @@ export default function TeacherSchedule() {
                   ))}
                 </select>
               )}
+
+              <ClassFilter
+                classes={schedules}
+                grade={gradeFilter}
+                curriculum={curriculumFilter}
+                mode={modeFilter}
+                onChange={updateFilter}
+              />
+
+              {rooms.length > 0 && (
+                <select
+                  value={selectedRoomId ?? ''}
+                  onChange={(e) => updateFilter('room', e.target.value)}
+                  className="bg-gray-800 border border-gray-700/50 rounded-lg p-2.5 text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 w-full sm:w-auto sm:min-w-[180px] appearance-none bg-[url('data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMTYiIGhlaWdodD0iMTYiIHZpZXdCb3g9IjAgMCAyNCAyNCIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj48cGF0aCBkPSJNNy40MDYgOC4wMDAwMUwxMiAxMi41OTRMMTYuNTk0IDguMDAwMDFMMTggOS40MDYwMUwxMiAxNS40MDZMNiA5LjQwNjAxTDcuNDA2IDguMDAwMDFaIiBmaWxsPSJjdXJyZW50Q29sb3IiLz48L3N2Zz4=')] bg-[position:right_10px_center] bg-no-repeat pr-10"
+                  aria-label="Room"
+                >
+                  <option value="">All rooms</option>
+                  {rooms.map(room => (
+                    <option key={room.id} value={room.id}>
+                      {room.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+
+              <div className="flex rounded-lg border border-gray-700/50 bg-gray-800 p-1" role="group" aria-label="View">
+                {SCHEDULE_VIEWS.map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setView(option)}
+                    className={`px-3 py-1.5 rounded-md text-sm capitalize transition-colors ${
+                      view === option ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-700'
+                    }`}
+                    aria-pressed={view === option}
+                  >
+                    {option}
+                  </button>
+                ))}
+              </div>
+
+              <button
+                onClick={copyPageLink}
+                className="flex items-center gap-1.5 px-3 py-2.5 rounded-lg bg-gray-800 border border-gray-700/50 text-gray-200 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+                title="Copy a link to this timetable with its filters"
+              >
+                <LinkIcon className="h-5 w-5" />
+                <span>{linkCopied ? 'Copied' : 'Share'}</span>
+              </button>
+
+              <button
+                onClick={openPrintView}
+                className="flex items-center gap-1.5 px-3 py-2.5 rounded-lg bg-gray-800 border border-gray-700/50 text-gray-200 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+                title="Print this week or download it as a PDF"
+              >
+                <PrinterIcon className="h-5 w-5" />
+                <span>Print</span>
+              </button>
+
+              <CalendarSubscribe
+                teacherName={selectedTeacher && !showAllSchedules ? selectedTeacher.name : null}
+                classes={schedules.map(({ grade, curriculum }) => ({ grade, curriculum }))}
+              />
+
+              {canSchedule && (
+                <button
+                  onClick={() => setIsImportOpen(true)}
+                  className="flex items-center gap-1.5 px-3 py-2.5 rounded-lg bg-gray-800 border border-gray-700/50 text-gray-200 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+                >
+                  <ArrowUpTrayIcon className="h-5 w-5" />
+                  <span>Import</span>
+                </button>
+              )}
+
+              {canSchedule && (
+                <button
+                  onClick={() => setIsTemplatesOpen(true)}
+                  className="flex items-center gap-1.5 px-3 py-2.5 rounded-lg bg-gray-800 border border-gray-700/50 text-gray-200 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+                >
+                  <DocumentDuplicateIcon className="h-5 w-5" />
+                  <span>Copy</span>
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -1033,7 +2002,7 @@ export default function TeacherSchedule() {
           {/* Date Navigation Bar */}
           <div className="flex-none flex items-center justify-between px-4 py-3 border-b border-gray-700/50 bg-gray-800/60">
             <button
-              onClick={isMobileView ? goToPreviousDay : goToPreviousWeek}
+              onClick={view === 'month' ? goToPreviousMonth : view === 'week' && isMobileView ? goToPreviousDay : goToPreviousWeek}
               className="p-1.5 hover:bg-gray-700/50 rounded-full text-gray-300 hover:text-white transition-colors"
               aria-label="Previous"
             >
@@ -1041,14 +2010,18 @@ export default function TeacherSchedule() {
             </button>
             
             <div className="font-semibold text-gray-200">
-              {isMobileView 
-                ? `${format(mobileStartDate, 'MMM d')} - ${format(addDays(mobileStartDate, 1), 'MMM d, yyyy')}`
-                : `${format(startDate, 'MMM d')} - ${format(addDays(startDate, 6), 'MMM d, yyyy')}`
+              {view === 'month'
+                ? format(currentDate, 'MMMM yyyy')
+                : view === 'agenda'
+                  ? `${format(currentDate, 'MMM d')} - ${format(addDays(currentDate, agendaDays - 1), 'MMM d, yyyy')}`
+                  : isMobileView 
+                    ? `${format(mobileStartDate, 'MMM d')} - ${format(addDays(mobileStartDate, 1), 'MMM d, yyyy')}`
+                    : `${format(startDate, 'MMM d')} - ${format(addDays(startDate, 6), 'MMM d, yyyy')}`
               }
             </div>
             
             <button
-              onClick={isMobileView ? goToNextDay : goToNextWeek}
+              onClick={view === 'month' ? goToNextMonth : view === 'week' && isMobileView ? goToNextDay : goToNextWeek}
               className="p-1.5 hover:bg-gray-700/50 rounded-full text-gray-300 hover:text-white transition-colors"
               aria-label="Next"
             >
@@ -1056,142 +2029,192 @@ export default function TeacherSchedule() {
             </button>
           </div>
           
-          <div ref={tableRef} className="flex-1 overflow-auto custom-scrollbar">
-            <table className="w-full border-collapse">
-              <thead className="sticky top-0 z-20">
-                <tr>
-                  <th className="border-r border-b border-gray-700 p-3 text-gray-300 bg-gray-800 rounded-tl-xl sticky left-0 z-20">
-                    <div className="font-medium text-gray-400 text-xs">Time</div>
-                  </th>
-                  {isMobileView ? (
-                    // Mobile view: show current day and next day
-                    Array.from({ length: 2 }, (_, i) => {
-                      const date = addDays(mobileStartDate, i);
-                      const isToday = isSameDay(date, new Date());
-                      return (
-                        <th key={i} className={`border border-gray-700 p-3 ${isToday ? 'bg-blue-900' : 'bg-gray-800'}`}>
-                          <div className={`font-bold text-base ${isToday ? 'text-blue-300' : 'text-gray-200'}`}>{format(date, 'EEE')}</div>
-                          <div className="text-sm text-gray-400">{format(date, 'MMM d')}</div>
-                        </th>
-                      );
-                    })
-                  ) : (
-                    // Desktop view: show full week
-                    Array.from({ length: 7 }, (_, i) => {
-                      const date = addDays(startDate, i);
-                      const isToday = isSameDay(date, new Date());
-                      return (
-                        <th key={i} className={`border border-gray-700 p-3 ${isToday ? 'bg-blue-900' : 'bg-gray-800'}`}>
-                          <div className={`font-bold text-base ${isToday ? 'text-blue-300' : 'text-gray-200'}`}>{format(date, 'EEE')}</div>
-                          <div className="text-sm text-gray-400">{format(date, 'MMM d')}</div>
-                        </th>
-                      );
-                    })
-                  )}
-                </tr>
-              </thead>
-              <tbody>
-                {HOURS.map((hour, rowIndex) => {
-                  const currentTimePos = getCurrentTimePosition();
-                  const isCurrentHour = currentTimePos?.rowIndex === rowIndex;
-                  const isLastRow = rowIndex === HOURS.length - 1;
-                  
-                  return (
-                    <tr key={hour} className="relative group transition-colors hover:bg-gray-800/20" id={isCurrentHour ? 'current-hour-row' : undefined}>
-                      <td className={`border-r border-b border-gray-700 p-2 text-sm text-gray-300 bg-gray-800 sticky left-0 z-10 ${isLastRow ? 'rounded-bl-xl' : ''}`}>
-                        <div className="font-medium">
-                          {format(new Date().setHours(hour), 'h a')}
-                        </div>
-                        {/* Current time indicator indicator for this cell */}
-                        {isCurrentHour && currentTimePos && (
-                          <div className="absolute -right-1 top-0 bottom-0 w-2">
-                            <div 
-                              className="absolute right-0 w-2 h-2 bg-red-500 rounded-full transform -translate-y-1/2 z-30"
-                              style={{ top: `${currentTimePos.position}%` }}
-                            ></div>
+          {view === 'week' && (
+            <div ref={tableRef} className="flex-1 overflow-auto custom-scrollbar">
+              <table className="w-full border-collapse">
+                <thead className="sticky top-0 z-20">
+                  <tr>
+                    <th className="border-r border-b border-gray-700 p-3 text-gray-300 bg-gray-800 rounded-tl-xl sticky left-0 z-20">
+                      <div className="font-medium text-gray-400 text-xs">Time</div>
+                    </th>
+                    {isMobileView ? (
+                      // Mobile view: show current day and next day
+                      Array.from({ length: 2 }, (_, i) => {
+                        const date = addDays(mobileStartDate, i);
+                        const isToday = isSameDay(date, new Date());
+                        return (
+                          <th key={i} className={`border border-gray-700 p-3 ${isToday ? 'bg-blue-900' : 'bg-gray-800'}`}>
+                            <div className={`font-bold text-base ${isToday ? 'text-blue-300' : 'text-gray-200'}`}>{format(date, 'EEE')}</div>
+                            <div className="text-sm text-gray-400">{format(date, 'MMM d')}</div>
+                            {getTeachersOnLeave(date).length > 0 && (
+                              <div className="mt-1 text-xs font-normal text-red-300 truncate" title={getTeachersOnLeave(date).join(', ')}>
+                                On leave: {getTeachersOnLeave(date).join(', ')}
+                              </div>
+                            )}
+                            {getClosuresOn(closures, date).map(closure => (
+                              <div key={closure.id} className="mt-1 px-1 rounded text-xs font-medium bg-amber-500/20 text-amber-200 truncate" title={getClosureLabel(closure)}>
+                                Closed: {getClosureLabel(closure)}
+                              </div>
+                            ))}
+                          </th>
+                        );
+                      })
+                    ) : (
+                      // Desktop view: show full week
+                      Array.from({ length: 7 }, (_, i) => {
+                        const date = addDays(startDate, i);
+                        const isToday = isSameDay(date, new Date());
+                        return (
+                          <th key={i} className={`border border-gray-700 p-3 ${isToday ? 'bg-blue-900' : 'bg-gray-800'}`}>
+                            <div className={`font-bold text-base ${isToday ? 'text-blue-300' : 'text-gray-200'}`}>{format(date, 'EEE')}</div>
+                            <div className="text-sm text-gray-400">{format(date, 'MMM d')}</div>
+                            {getTeachersOnLeave(date).length > 0 && (
+                              <div className="mt-1 text-xs font-normal text-red-300 truncate" title={getTeachersOnLeave(date).join(', ')}>
+                                On leave: {getTeachersOnLeave(date).join(', ')}
+                              </div>
+                            )}
+                            {getClosuresOn(closures, date).map(closure => (
+                              <div key={closure.id} className="mt-1 px-1 rounded text-xs font-medium bg-amber-500/20 text-amber-200 truncate" title={getClosureLabel(closure)}>
+                                Closed: {getClosureLabel(closure)}
+                              </div>
+                            ))}
+                          </th>
+                        );
+                      })
+                    )}
+                  </tr>
+                </thead>
+                <tbody>
+                  {HOURS.map((hour, rowIndex) => {
+                    const currentTimePos = getCurrentTimePosition();
+                    const isCurrentHour = currentTimePos?.rowIndex === rowIndex;
+                    const isLastRow = rowIndex === HOURS.length - 1;
+                    
+                    return (
+                      <tr key={hour} className="relative group transition-colors hover:bg-gray-800/20" id={isCurrentHour ? 'current-hour-row' : undefined}>
+                        <td className={`border-r border-b border-gray-700 p-2 text-sm text-gray-300 bg-gray-800 sticky left-0 z-10 ${isLastRow ? 'rounded-bl-xl' : ''}`}>
+                          <div className="font-medium">
+                            {format(new Date().setHours(hour), 'h a')}
                           </div>
-                        )}
-                      </td>
-                      {isMobileView ? (
-                        // Mobile view: current day and next day cells
-                        Array.from({ length: 2 }, (_, i) => {
-                          const date = addDays(mobileStartDate, i);
-                          const isToday = isSameDay(date, new Date());
-                          
-                          return (
-                            <td 
-                              key={i} 
-                              className={`border border-gray-700 p-0 ${isToday ? 'bg-blue-900/10' : ''} relative`}
-                            >
-                              {/* Current time indicator for this cell */}
-                              {isCurrentHour && isToday && currentTimePos && (
-                                <div 
-                                  className="absolute left-0 right-0 h-0.5 bg-red-500 z-30"
-                                  style={{ 
-                                    top: `${currentTimePos.position}%`,
-                                    width: '100%' // Added full width
-                                  }}
-                                >
-                                  {/* Time indicator displayed only on today's column */}
+                          {/* Current time indicator indicator for this cell */}
+                          {isCurrentHour && currentTimePos && (
+                            <div className="absolute -right-1 top-0 bottom-0 w-2">
+                              <div 
+                                className="absolute right-0 w-2 h-2 bg-red-500 rounded-full transform -translate-y-1/2 z-30"
+                                style={{ top: `${currentTimePos.position}%` }}
+                              ></div>
+                            </div>
+                          )}
+                        </td>
+                        {isMobileView ? (
+                          // Mobile view: current day and next day cells
+                          Array.from({ length: 2 }, (_, i) => {
+                            const date = addDays(mobileStartDate, i);
+                            const isToday = isSameDay(date, new Date());
+                            
+                            return (
+                              <td 
+                                key={i} 
+                                className={`border border-gray-700 p-0 ${isToday ? 'bg-blue-900/10' : ''} relative`}
+                              >
+                                {/* Current time indicator for this cell */}
+                                {isCurrentHour && isToday && currentTimePos && (
                                   <div 
-                                    className="absolute bg-red-500 px-2 py-1 rounded text-white text-xs font-medium min-w-[72px] text-center whitespace-nowrap flex items-center justify-center"
-                                    style={{
-                                      top: '0',
-                                      right: '8px',
-                                      transform: 'translateY(-50%)'
+                                    className="absolute left-0 right-0 h-0.5 bg-red-500 z-30"
+                                    style={{ 
+                                      top: `${currentTimePos.position}%`,
+                                      width: '100%' // Added full width
                                     }}
                                   >
-                                    <div className="absolute left-[-4px] top-1/2 transform -translate-y-1/2 w-2 h-2 bg-red-500 rotate-45"></div>
-                                    {currentTimePos.formattedTime}
+                                    {/* Time indicator displayed only on today's column */}
+                                    <div 
+                                      className="absolute bg-red-500 px-2 py-1 rounded text-white text-xs font-medium min-w-[72px] text-center whitespace-nowrap flex items-center justify-center"
+                                      style={{
+                                        top: '0',
+                                        right: '8px',
+                                        transform: 'translateY(-50%)'
+                                      }}
+                                    >
+                                      <div className="absolute left-[-4px] top-1/2 transform -translate-y-1/2 w-2 h-2 bg-red-500 rotate-45"></div>
+                                      {currentTimePos.formattedTime}
+                                    </div>
                                   </div>
-                                </div>
-                              )}
-                              {renderScheduleCell(date, hour)}
-                            </td>
-                          );
-                        })
-                      ) : (
-                        // Desktop view: full week cells
-                        Array.from({ length: 7 }, (_, i) => {
-                          const date = addDays(startDate, i);
-                          const isToday = isSameDay(date, new Date());
-                          
-                          return (
-                            <td 
-                              key={i} 
-                              className={`border border-gray-700 p-0 ${isToday ? 'bg-blue-900/10' : ''} relative`}
-                            >
-                              {/* Current time indicator for this cell */}
-                              {isCurrentHour && isToday && currentTimePos && (
-                                <div 
-                                  className="absolute left-0 right-0 h-0.5 bg-red-500 z-30"
-                                  style={{ top: `${currentTimePos.position}%`, width: '100%' }}
-                                >
-                                  {/* Time indicator displayed only on today's column */}
+                                )}
+                                {renderScheduleCell(date, hour)}
+                              </td>
+                            );
+                          })
+                        ) : (
+                          // Desktop view: full week cells
+                          Array.from({ length: 7 }, (_, i) => {
+                            const date = addDays(startDate, i);
+                            const isToday = isSameDay(date, new Date());
+                            
+                            return (
+                              <td 
+                                key={i} 
+                                className={`border border-gray-700 p-0 ${isToday ? 'bg-blue-900/10' : ''} relative`}
+                                data-slot-date={format(date, 'yyyy-MM-dd')}
+                                data-slot-hour={hour}
+                              >
+                                {/* Current time indicator for this cell */}
+                                {isCurrentHour && isToday && currentTimePos && (
                                   <div 
-                                    className="absolute bg-red-500 px-2 py-1 rounded text-white text-xs font-medium min-w-[72px] text-center whitespace-nowrap flex items-center justify-center"
-                                    style={{
-                                      top: '0',
-                                      right: '8px',
-                                      transform: 'translateY(-50%)'
-                                    }}
+                                    className="absolute left-0 right-0 h-0.5 bg-red-500 z-30"
+                                    style={{ top: `${currentTimePos.position}%`, width: '100%' }}
                                   >
-                                    <div className="absolute left-[-4px] top-1/2 transform -translate-y-1/2 w-2 h-2 bg-red-500 rotate-45"></div>
-                                    {currentTimePos.formattedTime}
+                                    {/* Time indicator displayed only on today's column */}
+                                    <div 
+                                      className="absolute bg-red-500 px-2 py-1 rounded text-white text-xs font-medium min-w-[72px] text-center whitespace-nowrap flex items-center justify-center"
+                                      style={{
+                                        top: '0',
+                                        right: '8px',
+                                        transform: 'translateY(-50%)'
+                                      }}
+                                    >
+                                      <div className="absolute left-[-4px] top-1/2 transform -translate-y-1/2 w-2 h-2 bg-red-500 rotate-45"></div>
+                                      {currentTimePos.formattedTime}
+                                    </div>
                                   </div>
-                                </div>
-                              )}
-                              {renderScheduleCell(date, hour)}
-                            </td>
-                          );
-                        })
-                      )}
-                    </tr>
-                  );
-                })}
-              </tbody>
-            </table>
-          </div>
+                                )}
+                                {renderScheduleCell(date, hour)}
+                              </td>
+                            );
+                          })
+                        )}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {view === 'month' && (
+            <ScheduleMonthView
+              month={currentDate}
+              schedules={visibleSchedules}
+              cancellations={cancellations}
+              substitutions={substitutions}
+              closures={closures}
+              teacherName={shadedTeacherName}
+              onDayClick={handleMonthDayClick}
+            />
+          )}
+
+          {view === 'agenda' && (
+            <ScheduleAgenda
+              from={currentDate}
+              days={agendaDays}
+              schedules={visibleSchedules}
+              cancellations={cancellations}
+              substitutions={substitutions}
+              closures={closures}
+              teacherName={shadedTeacherName}
+              onOccurrenceClick={handleCardClick}
+              onShowMore={() => setAgendaDays(agendaDays + AGENDA_DAYS)}
+            />
+          )}
         </div>
 
         {loading && (
@@ -1203,6 +2226,31 @@ export default function TeacherSchedule() {
           </div>
         )}
 
+        {/* Bulk Import Wizard */}
+        {isImportOpen && (
+          <ScheduleImport
+            teachers={teachers}
+            onClose={() => setIsImportOpen(false)}
+            onImported={() => {
+              setIsImportOpen(false);
+              refreshSchedule();
+            }}
+          />
+        )}
+
+        {/* Week and Template Copying */}
+        {isTemplatesOpen && (
+          <ScheduleTemplates
+            weekStart={startDate}
+            teachers={teachers}
+            onClose={() => setIsTemplatesOpen(false)}
+            onCloned={() => {
+              setIsTemplatesOpen(false);
+              refreshSchedule();
+            }}
+          />
+        )}
+
         {/* Schedule Detail Modal */}
         {isModalOpen && selectedSchedule && (
           <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-start justify-center z-50 p-4 overflow-y-auto" onClick={closeModal}>
@@ -1242,7 +2290,7 @@ export default function TeacherSchedule() {
                         {formatTime(selectedSchedule.start_time)} - {formatTime(selectedSchedule.end_time)}
                       </p>
                       <p className="text-gray-500 text-xs mt-1">
-                        {selectedSchedule.repeats ? 'Weekly' : 'One-time'}
+                        {describeRecurrence(selectedSchedule)}
                       </p>
                     </div>
                   </div>
@@ -1277,6 +2325,11 @@ export default function TeacherSchedule() {
                     <div>
                       <p className="text-gray-400 text-sm font-medium">Teacher</p>
                       <p className="text-white text-base">{selectedSchedule.teachers.name}</p>
+                      {selectedScheduleDay && getSubstitution(selectedSchedule, selectedScheduleDay) && (
+                        <p className="text-purple-300 text-sm font-medium">
+                          Sub: {getSubstitution(selectedSchedule, selectedScheduleDay)?.substitute.name}
+                        </p>
+                      )}
                     </div>
                   </div>
                   
@@ -1288,7 +2341,88 @@ export default function TeacherSchedule() {
                     </div>
                   </div>
                 </div>
+
+                {/* Where a moved occurrence came from */}
+                {(() => {
+                  const movedFrom = getMovedFrom(selectedSchedule);
+                  if (!movedFrom) return null;
+
+                  return (
+                    <div className="flex items-start space-x-3 p-3 bg-amber-900/20 border border-amber-800/30 rounded-lg">
+                      <ArrowUturnRightIcon className="h-5 w-5 text-amber-400 mt-0.5" />
+                      <div>
+                        <p className="text-amber-200 text-sm font-medium">
+                          Moved from {format(parseDate(movedFrom.occurrence_date), 'EEEE, MMMM d')},{' '}
+                          {formatTime(movedFrom.schedule.start_time)} - {formatTime(movedFrom.schedule.end_time)}
+                          {movedFrom.schedule.room && ` in ${movedFrom.schedule.room}`}
+                        </p>
+                        {movedFrom.reason && <p className="text-gray-400 text-xs mt-1">{movedFrom.reason}</p>}
+                      </div>
+                    </div>
+                  );
+                })()}
                 
+                {/* Substitute for this occurrence only */}
+                {canSchedule && selectedScheduleDay && (
+                  <div className="pt-4 border-t border-gray-800">
+                    <h4 className="text-gray-300 font-medium mb-2">
+                      Substitute on {format(selectedScheduleDay, 'EEEE, MMMM d')}
+                    </h4>
+                    <div className="flex flex-col sm:flex-row gap-2">
+                      <select
+                        value={substituteId}
+                        onChange={e => {
+                          setSubstituteId(e.target.value);
+                          setSubstituteBusy(false);
+                        }}
+                        className="flex-1 px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="">No substitute ({selectedSchedule.teachers.name} teaches)</option>
+                        {getSubstituteOptions(selectedSchedule).map(teacher => (
+                          <option key={teacher.id} value={teacher.id}>
+                            {teacher.name}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => handleSubstituteSave()}
+                        disabled={substituteId === String(getSubstitution(selectedSchedule, selectedScheduleDay)?.teacher_id ?? '')}
+                        className="px-4 py-2 bg-purple-600/20 hover:bg-purple-600/30 text-purple-300 rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        Save Substitute
+                      </button>
+                    </div>
+                    {substituteId && (() => {
+                      const substitute = teachers.find(teacher => teacher.id === Number(substituteId));
+                      const warnings = substitute ? getAvailabilityWarnings(substitute.name, {
+                        ...selectedSchedule,
+                        repeats: false,
+                        date_tag: format(selectedScheduleDay, 'yyyy-MM-dd')
+                      }, selectedSchedule.start_time.slice(0, 5), selectedSchedule.end_time.slice(0, 5)) : [];
+
+                      return warnings.map(warning => (
+                        <p key={warning} className="mt-2 text-xs text-amber-300">{warning}</p>
+                      ));
+                    })()}
+                    {substituteBusy && (
+                      <div className="mt-2 p-3 bg-red-900/20 border border-red-800/30 rounded-lg text-sm text-red-200">
+                        This teacher teaches or covers another class at that time.
+                        {can('schedule.override') && (
+                          <button
+                            onClick={() => handleSubstituteSave(true)}
+                            className="block mt-2 text-red-300 underline hover:text-red-200"
+                          >
+                            Assign anyway
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {/* Enrolled students, for staff */}
+                {canSchedule && <ClassRoster key={selectedSchedule.id} schedule={selectedSchedule} />}
+
                 {/* Description section if available */}
                 {selectedSchedule.description && (
                   <div className="pt-4 border-t border-gray-800">
@@ -1300,6 +2434,15 @@ export default function TeacherSchedule() {
               
               {/* Modal Footer */}
               <div className="border-t border-gray-800 p-4 flex justify-end">
+                {canSchedule && selectedSchedule.repeats && selectedScheduleDay && (
+                  <button 
+                    onClick={handleRescheduleClick}
+                    className="px-4 py-2 mr-2 bg-amber-600/20 hover:bg-amber-600/30 text-amber-300 rounded-lg transition-colors flex items-center"
+                  >
+                    <ArrowUturnRightIcon className="h-4 w-4 mr-1" />
+                    Reschedule
+                  </button>
+                )}
                 {canSchedule && (
                   <button 
                     onClick={(e) => {
@@ -1362,6 +2505,36 @@ export default function TeacherSchedule() {
                     : 'This action cannot be undone and will remove all instances of this class from the schedule.'
                   }
                 </p>
+
+                {deleteMode === 'cancel' && selectedScheduleDay && (
+                  <div className="space-y-4">
+                    <div>
+                      <label className="block text-xs sm:text-sm font-medium text-gray-400 mb-1">Reason</label>
+                      <textarea
+                        value={cancelReason}
+                        onChange={e => setCancelReason(e.target.value)}
+                        className="w-full px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all duration-200"
+                        placeholder="Shown on the presentation screen, e.g. Teacher unwell"
+                        rows={2}
+                      ></textarea>
+                    </div>
+                    <div>
+                      <label className="block text-xs sm:text-sm font-medium text-gray-400 mb-1">Make-up Class</label>
+                      <select
+                        value={makeupScheduleId ?? ''}
+                        onChange={e => setMakeupScheduleId(e.target.value ? Number(e.target.value) : null)}
+                        className="w-full px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all duration-200"
+                      >
+                        <option value="">None</option>
+                        {getMakeupOptions(selectedSchedule, selectedScheduleDay).map(option => (
+                          <option key={option.id} value={option.id}>
+                            {option.subject} - {format(new Date(option.date_tag), 'MMM d, yyyy')} {formatTime(option.start_time)}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                )}
               </div>
               
               {/* Modal Footer */}
@@ -1387,6 +2560,247 @@ export default function TeacherSchedule() {
           </div>
         )}
         
+        {/* Reschedule Modal for a single occurrence */}
+        {isRescheduleOpen && selectedSchedule && selectedScheduleDay && (
+          <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-start justify-center z-50 p-4 overflow-y-auto" onClick={closeReschedule}>
+            <div 
+              className="bg-gray-900 rounded-xl border border-gray-700/50 shadow-2xl w-full max-w-md my-8 overflow-hidden"
+              onClick={e => e.stopPropagation()}
+            >
+              {/* Modal Header */}
+              <div className="relative">
+                <div className="absolute inset-0 bg-gradient-to-r from-amber-600 to-amber-400 opacity-90"></div>
+                <div className="relative p-5 flex justify-between items-center">
+                  <h3 className="text-xl font-bold text-white">Reschedule Class</h3>
+                  <button 
+                    onClick={closeReschedule}
+                    className="text-white hover:bg-white/20 rounded-full p-1 transition-colors"
+                  >
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+              </div>
+              
+              {/* Modal Content */}
+              <div className="p-5 space-y-4">
+                <p className="text-gray-300">
+                  Move {selectedSchedule.subject} on {format(selectedScheduleDay, 'MMMM d, yyyy')} at {formatTime(selectedSchedule.start_time)}.
+                  The other occurrences stay where they are.
+                </p>
+
+                <div>
+                  <label className="block text-xs sm:text-sm font-medium text-gray-400 mb-1">New Date</label>
+                  <input
+                    type="date"
+                    value={rescheduleFormData.date}
+                    onChange={e => setRescheduleFormData({...rescheduleFormData, date: e.target.value})}
+                    className="w-full px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all duration-200"
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-xs sm:text-sm font-medium text-gray-400 mb-1">Start Time</label>
+                    <input
+                      type="time"
+                      value={rescheduleFormData.start_time}
+                      onChange={e => setRescheduleFormData({...rescheduleFormData, start_time: e.target.value})}
+                      className="w-full px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all duration-200"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs sm:text-sm font-medium text-gray-400 mb-1">End Time</label>
+                    <input
+                      type="time"
+                      value={rescheduleFormData.end_time}
+                      onChange={e => setRescheduleFormData({...rescheduleFormData, end_time: e.target.value})}
+                      className="w-full px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all duration-200"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-xs sm:text-sm font-medium text-gray-400 mb-1">Room</label>
+                  <RoomSelect
+                    rooms={rooms}
+                    value={rescheduleFormData.room}
+                    onChange={room => setRescheduleFormData({...rescheduleFormData, room})}
+                    className="w-full px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all duration-200"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-xs sm:text-sm font-medium text-gray-400 mb-1">Reason</label>
+                  <textarea
+                    value={rescheduleFormData.reason}
+                    onChange={e => setRescheduleFormData({...rescheduleFormData, reason: e.target.value})}
+                    className="w-full px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent transition-all duration-200"
+                    placeholder="Shown with the moved class, e.g. Room booked for exams"
+                    rows={2}
+                  ></textarea>
+                </div>
+
+                {/* The teacher's hours and leave; moving is still allowed */}
+                {rescheduleWarnings.length > 0 && (
+                  <div className="p-3 bg-amber-900/20 border border-amber-800/30 rounded-lg text-sm text-amber-200 space-y-1">
+                    {rescheduleWarnings.map(warning => <p key={warning}>{warning}</p>)}
+                  </div>
+                )}
+
+                {/* Conflicts at the new time */}
+                {rescheduleConflicts.length > 0 && (
+                  <div className="p-3 bg-red-900/20 border border-red-800/30 rounded-lg">
+                    <p className="text-sm font-medium text-red-200 mb-2">
+                      The new time overlaps {rescheduleConflicts.length === 1 ? 'another class' : `${rescheduleConflicts.length} other classes`}:
+                    </p>
+                    <ul className="space-y-2">
+                      {rescheduleConflicts.map(({ schedule, teacherClash, roomClash }) => (
+                        <li key={schedule.id} className="flex flex-col gap-1 text-xs sm:text-sm">
+                          <span className="text-gray-200">
+                            {schedule.subject} • {schedule.teachers?.name} • {formatTime(schedule.start_time)} - {formatTime(schedule.end_time)}
+                            {schedule.room && ` • ${schedule.room}`}
+                          </span>
+                          <span className="flex gap-1">
+                            {teacherClash && <span className="px-2 py-0.5 rounded bg-red-900/50 text-red-200 text-xs">Same teacher</span>}
+                            {roomClash && <span className="px-2 py-0.5 rounded bg-red-900/50 text-red-200 text-xs">Same room</span>}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                    <p className="text-xs text-red-300/80 mt-3">
+                      {can('schedule.override')
+                        ? 'Pick another time or room, or move it anyway to keep both classes.'
+                        : 'Pick another time or room. Only an admin can save overlapping classes.'}
+                    </p>
+                  </div>
+                )}
+              </div>
+              
+              {/* Modal Footer */}
+              <div className="border-t border-gray-800 p-4 flex justify-end space-x-3">
+                <button 
+                  onClick={closeReschedule}
+                  className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+                {rescheduleConflicts.length > 0 && can('schedule.override') && (
+                  <button 
+                    onClick={() => handleRescheduleSubmit(true)}
+                    className="px-4 py-2 bg-red-600/20 hover:bg-red-600/30 text-red-300 rounded-lg transition-colors"
+                  >
+                    Move Anyway
+                  </button>
+                )}
+                <button 
+                  onClick={() => handleRescheduleSubmit()}
+                  className="px-4 py-2 text-white font-medium rounded-lg shadow-md hover:shadow-lg transition-all duration-300 bg-gradient-to-r from-amber-600 to-amber-500 hover:from-amber-500 hover:to-amber-400"
+                >
+                  Move Class
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+        
+        {/* Move dialog for a dragged class */}
+        {pendingMove && (
+          <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-start justify-center z-50 p-4 overflow-y-auto" onClick={closeMoveDialog}>
+            <div 
+              className="bg-gray-900 rounded-xl border border-gray-700/50 shadow-2xl w-full max-w-md my-8 overflow-hidden"
+              onClick={e => e.stopPropagation()}
+            >
+              {/* Modal Header */}
+              <div className="relative">
+                <div className="absolute inset-0 bg-gradient-to-r from-blue-600 to-sky-400 opacity-90"></div>
+                <div className="relative p-5 flex justify-between items-center">
+                  <h3 className="text-xl font-bold text-white">Move Class</h3>
+                  <button 
+                    onClick={closeMoveDialog}
+                    className="text-white hover:bg-white/20 rounded-full p-1 transition-colors"
+                  >
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+              </div>
+              
+              {/* Modal Content */}
+              <div className="p-5 space-y-4">
+                <p className="text-gray-300">
+                  Move {pendingMove.schedule.subject} from {format(pendingMove.fromDay, 'EEE, MMM d')} at {formatTime(pendingMove.schedule.start_time)}
+                  {' '}to {format(pendingMove.day, 'EEE, MMM d')}, {formatTime(toTime(pendingMove.startMinutes))} - {formatTime(toTime(pendingMove.endMinutes))}.
+                </p>
+
+                {/* Repeating classes: this occurrence or every one */}
+                {!moveScope && (
+                  <div className="space-y-2">
+                    <button
+                      onClick={() => handleMoveSubmit(pendingMove, 'occurrence')}
+                      className="w-full text-left px-4 py-3 bg-gray-800 hover:bg-gray-700 rounded-lg transition-colors"
+                    >
+                      <span className="block text-gray-200 font-medium">Only This Occurrence</span>
+                      <span className="block text-xs text-gray-400">The other weeks stay where they are</span>
+                    </button>
+                    <button
+                      onClick={() => handleMoveSubmit(pendingMove, 'series')}
+                      className="w-full text-left px-4 py-3 bg-gray-800 hover:bg-gray-700 rounded-lg transition-colors"
+                    >
+                      <span className="block text-gray-200 font-medium">Whole Series</span>
+                      <span className="block text-xs text-gray-400">Every occurrence of the class moves</span>
+                    </button>
+                  </div>
+                )}
+
+                {/* Conflicts at the new time */}
+                {moveConflicts.length > 0 && (
+                  <div className="p-3 bg-red-900/20 border border-red-800/30 rounded-lg">
+                    <p className="text-sm font-medium text-red-200 mb-2">
+                      The new time overlaps {moveConflicts.length === 1 ? 'another class' : `${moveConflicts.length} other classes`}:
+                    </p>
+                    <ul className="space-y-2">
+                      {moveConflicts.map(({ schedule, teacherClash, roomClash }) => (
+                        <li key={schedule.id} className="flex flex-col gap-1 text-xs sm:text-sm">
+                          <span className="text-gray-200">
+                            {schedule.subject} • {schedule.teachers?.name} • {formatTime(schedule.start_time)} - {formatTime(schedule.end_time)}
+                            {schedule.room && ` • ${schedule.room}`}
+                          </span>
+                          <span className="flex gap-1">
+                            {teacherClash && <span className="px-2 py-0.5 rounded bg-red-900/50 text-red-200 text-xs">Same teacher</span>}
+                            {roomClash && <span className="px-2 py-0.5 rounded bg-red-900/50 text-red-200 text-xs">Same room</span>}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                    <p className="text-xs text-red-300/80 mt-3">
+                      {can('schedule.override')
+                        ? 'Drag it somewhere else, or move it anyway to keep both classes.'
+                        : 'Drag it somewhere else. Only an admin can save overlapping classes.'}
+                    </p>
+                  </div>
+                )}
+              </div>
+              
+              {/* Modal Footer */}
+              <div className="border-t border-gray-800 p-4 flex justify-end space-x-3">
+                <button 
+                  onClick={closeMoveDialog}
+                  className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+                {moveScope && moveConflicts.length > 0 && can('schedule.override') && (
+                  <button 
+                    onClick={() => handleMoveSubmit(pendingMove, moveScope, true)}
+                    className="px-4 py-2 bg-red-600/20 hover:bg-red-600/30 text-red-300 rounded-lg transition-colors"
+                  >
+                    Move Anyway
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Class Scheduling Modal */}
         {isSchedulingModalOpen && selectedScheduleDay && (
           <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-start justify-center z-50 p-2 sm:p-4 overflow-y-auto" onClick={closeSchedulingModal}>
@@ -1495,12 +2909,11 @@ export default function TeacherSchedule() {
                   {/* Room */}
                   <div>
                     <label className="block text-xs sm:text-sm font-medium text-gray-400 mb-1">Room</label>
-                    <input
-                      type="text"
+                    <RoomSelect
+                      rooms={rooms}
                       value={schedulingFormData.room}
-                      onChange={e => setSchedulingFormData({...schedulingFormData, room: e.target.value})}
+                      onChange={room => setSchedulingFormData({...schedulingFormData, room})}
                       className="w-full px-2 sm:px-3 py-1.5 sm:py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-sm sm:text-base text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
-                      placeholder="Enter room number/name"
                     />
                   </div>
 
@@ -1542,6 +2955,19 @@ export default function TeacherSchedule() {
                     />
                   </div>
                   
+                  {/* Capacity */}
+                  <div>
+                    <label className="block text-xs sm:text-sm font-medium text-gray-400 mb-1">Capacity</label>
+                    <input
+                      type="number"
+                      min={1}
+                      value={schedulingFormData.capacity}
+                      onChange={e => setSchedulingFormData({...schedulingFormData, capacity: e.target.value})}
+                      className="w-full px-2 sm:px-3 py-1.5 sm:py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-sm sm:text-base text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                      placeholder="No limit"
+                    />
+                  </div>
+                  
                   {/* Repeat Option */}
                   <div>
                     <div className="flex items-center space-x-3">
@@ -1553,10 +2979,78 @@ export default function TeacherSchedule() {
                         className="h-4 w-4 rounded border-gray-700 bg-gray-800 text-blue-500 focus:ring-blue-600"
                       />
                       <label htmlFor="repeats" className="text-xs sm:text-sm font-medium text-gray-300">
-                        Repeats Weekly
+                        Repeats
                       </label>
                     </div>
                   </div>
+
+                  {/* Recurrence rule for repeating classes */}
+                  {schedulingFormData.repeats && (
+                    <>
+                      <div className="col-span-2">
+                        <label className="block text-xs sm:text-sm font-medium text-gray-400 mb-1">Days</label>
+                        <div className="flex flex-wrap gap-2">
+                          {WEEKDAYS.map(weekday => {
+                            const isSelected = schedulingFormData.weekdays.includes(weekday);
+                            return (
+                              <button
+                                key={weekday}
+                                type="button"
+                                onClick={() => setSchedulingFormData({
+                                  ...schedulingFormData,
+                                  weekdays: isSelected
+                                    ? schedulingFormData.weekdays.filter(d => d !== weekday)
+                                    : [...schedulingFormData.weekdays, weekday]
+                                })}
+                                className={`px-3 py-1 rounded-lg text-xs sm:text-sm border transition-colors ${
+                                  isSelected
+                                    ? 'bg-blue-600 border-blue-500 text-white'
+                                    : 'bg-gray-800/80 border-gray-700 text-gray-300 hover:bg-gray-700'
+                                }`}
+                              >
+                                {weekday.slice(0, 3)}
+                              </button>
+                            );
+                          })}
+                        </div>
+                      </div>
+
+                      <div>
+                        <label className="block text-xs sm:text-sm font-medium text-gray-400 mb-1">Repeat Every</label>
+                        <select
+                          value={schedulingFormData.repeat_interval_weeks}
+                          onChange={e => setSchedulingFormData({...schedulingFormData, repeat_interval_weeks: parseInt(e.target.value, 10)})}
+                          className="w-full px-2 sm:px-3 py-1.5 sm:py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-sm sm:text-base text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                        >
+                          {[1, 2, 3, 4].map(weeks => (
+                            <option key={weeks} value={weeks}>{weeks === 1 ? 'Week' : `${weeks} weeks`}</option>
+                          ))}
+                        </select>
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-3">
+                        <div>
+                          <label className="block text-xs sm:text-sm font-medium text-gray-400 mb-1">Starts On</label>
+                          <input
+                            type="date"
+                            value={schedulingFormData.starts_on}
+                            onChange={e => setSchedulingFormData({...schedulingFormData, starts_on: e.target.value})}
+                            className="w-full px-2 sm:px-3 py-1.5 sm:py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-sm sm:text-base text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs sm:text-sm font-medium text-gray-400 mb-1">Ends On</label>
+                          <input
+                            type="date"
+                            value={schedulingFormData.ends_on}
+                            min={schedulingFormData.starts_on || undefined}
+                            onChange={e => setSchedulingFormData({...schedulingFormData, ends_on: e.target.value})}
+                            className="w-full px-2 sm:px-3 py-1.5 sm:py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-sm sm:text-base text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                          />
+                        </div>
+                      </div>
+                    </>
+                  )}
                   
                   {/* Description */}
                   <div className="col-span-2">
@@ -1570,6 +3064,41 @@ export default function TeacherSchedule() {
                     ></textarea>
                   </div>
                 </div>
+
+                {/* The teacher's hours and leave; saving is still allowed */}
+                {schedulingWarnings.length > 0 && (
+                  <div className="p-3 sm:p-4 bg-amber-900/20 border border-amber-800/30 rounded-lg text-sm text-amber-200 space-y-1">
+                    {schedulingWarnings.map(warning => <p key={warning}>{warning}</p>)}
+                  </div>
+                )}
+
+                {/* Conflicts found when saving */}
+                {scheduleConflicts.length > 0 && (
+                  <div className="p-3 sm:p-4 bg-red-900/20 border border-red-800/30 rounded-lg">
+                    <p className="text-sm font-medium text-red-200 mb-2">
+                      This class overlaps {scheduleConflicts.length === 1 ? 'another class' : `${scheduleConflicts.length} other classes`}:
+                    </p>
+                    <ul className="space-y-2">
+                      {scheduleConflicts.map(({ schedule, teacherClash, roomClash }) => (
+                        <li key={schedule.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-1 text-xs sm:text-sm">
+                          <span className="text-gray-200">
+                            {schedule.subject} • {schedule.teachers?.name} • {getScheduleDay(schedule)}, {formatTime(schedule.start_time)} - {formatTime(schedule.end_time)}
+                            {schedule.room && ` • ${schedule.room}`}
+                          </span>
+                          <span className="flex gap-1">
+                            {teacherClash && <span className="px-2 py-0.5 rounded bg-red-900/50 text-red-200 text-xs">Same teacher</span>}
+                            {roomClash && <span className="px-2 py-0.5 rounded bg-red-900/50 text-red-200 text-xs">Same room</span>}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                    <p className="text-xs text-red-300/80 mt-3">
+                      {can('schedule.override')
+                        ? 'Change the time, teacher or room, or save anyway to keep both classes.'
+                        : 'Change the time, teacher or room. Only an admin can save overlapping classes.'}
+                    </p>
+                  </div>
+                )}
               </div>
               
               {/* Modal Footer - Stacked layout on mobile */}
@@ -1584,13 +3113,24 @@ export default function TeacherSchedule() {
                       <XMarkIcon className="h-4 w-4" />
                       <span>Cancel This Occurrence</span>
                     </button>
-                    <button 
-                      onClick={() => handleDeleteClick('delete')}
-                      className="px-3 sm:px-4 py-2 bg-red-600/20 hover:bg-red-600/30 text-red-400 rounded-lg transition-colors flex items-center justify-center sm:justify-start space-x-1 text-sm"
-                    >
-                      <XMarkIcon className="h-4 w-4" />
-                      <span>Delete All Occurrences</span>
-                    </button>
+                    {selectedSchedule?.repeats && (
+                      <button 
+                        onClick={handleRescheduleClick}
+                        className="px-3 sm:px-4 py-2 bg-amber-600/20 hover:bg-amber-600/30 text-amber-400 rounded-lg transition-colors flex items-center justify-center sm:justify-start space-x-1 text-sm"
+                      >
+                        <ArrowUturnRightIcon className="h-4 w-4" />
+                        <span>Reschedule This Occurrence</span>
+                      </button>
+                    )}
+                    {can('schedule.delete') && (
+                      <button 
+                        onClick={() => handleDeleteClick('delete')}
+                        className="px-3 sm:px-4 py-2 bg-red-600/20 hover:bg-red-600/30 text-red-400 rounded-lg transition-colors flex items-center justify-center sm:justify-start space-x-1 text-sm"
+                      >
+                        <XMarkIcon className="h-4 w-4" />
+                        <span>Delete All Occurrences</span>
+                      </button>
+                    )}
                   </div>
                 )}
                 
@@ -1602,8 +3142,16 @@ export default function TeacherSchedule() {
                   >
                     Cancel
                   </button>
+                  {scheduleConflicts.length > 0 && can('schedule.override') && (
+                    <button 
+                      onClick={() => handleScheduleSubmit(true)}
+                      className="flex-1 sm:flex-none px-3 sm:px-4 py-2 bg-red-600/20 hover:bg-red-600/30 text-red-300 rounded-lg transition-colors text-sm"
+                    >
+                      Save Anyway
+                    </button>
+                  )}
                   <button 
-                    onClick={handleScheduleSubmit}
+                    onClick={() => handleScheduleSubmit()}
                     className="flex-1 sm:flex-none px-3 sm:px-4 py-2 bg-gradient-to-r from-blue-600 to-sky-500 hover:from-blue-500 hover:to-sky-400 text-white font-medium rounded-lg shadow-md hover:shadow-lg transition-all duration-300 text-sm"
                   >
                     {isEditMode ? 'Update Class' : 'Schedule Class'}
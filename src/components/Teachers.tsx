@@ -1,5 +1,7 @@
 import { useState, useEffect } from 'react';
-import { supabase } from '../lib/supabase';
+import { Teacher, listTeachers, createTeacher, updateTeacherSubject, renameTeacher, deleteTeacher } from '../lib/repositories/teachers';
+import { can } from '../lib/roles';
+import TeacherAvailability from './TeacherAvailability';
 import { 
   PlusIcon, 
   PencilIcon, 
@@ -7,15 +9,10 @@ import {
   TrashIcon,
   BookOpenIcon,
   UserCircleIcon,
-  AcademicCapIcon
+  AcademicCapIcon,
+  CalendarDaysIcon
 } from '@heroicons/react/24/outline';
 
-interface Teacher {
-  id: number;
-  name: string;
-  subject: string;
-}
-
 interface TeacherWithSubjects {
   id: number;
   name: string;
@@ -38,6 +35,9 @@ export default function Teachers() {
   const [selectedTeacherName, setSelectedTeacherName] = useState<string>('');
   const [editMode, setEditMode] = useState<'subject' | 'teacherName'>('subject');
   const [searchQuery, setSearchQuery] = useState('');
+  // Teacher whose availability and leave are being edited
+  const [availabilityTeacherName, setAvailabilityTeacherName] = useState<string | null>(null);
+  const canDelete = can('teachers.delete');
   
   const [formData, setFormData] = useState({
     name: '',
@@ -51,14 +51,7 @@ export default function Teachers() {
   const fetchTeachers = async () => {
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from('teachers')
-        .select('*')
-        .order('name');
-
-      if (error) throw error;
-      
-      setTeachers(data || []);
+      setTeachers(await listTeachers());
       setError(null);
     } catch (error) {
       console.error('Error fetching teachers:', error);
@@ -75,14 +68,7 @@ export default function Teachers() {
         return;
       }
 
-      const { error } = await supabase
-        .from('teachers')
-        .insert([{ 
-          name: formData.name, 
-          subject: formData.subject 
-        }]);
-
-      if (error) throw error;
+      await createTeacher(formData.name, formData.subject);
 
       setIsAddModalOpen(false);
       setFormData({ name: '', subject: '' });
@@ -101,24 +87,14 @@ export default function Teachers() {
           return;
         }
 
-        const { error } = await supabase
-          .from('teachers')
-          .update({ subject: formData.subject })
-          .eq('id', selectedTeacher.id);
-
-        if (error) throw error;
+        await updateTeacherSubject(selectedTeacher.id, formData.subject);
       } else {
         if (!formData.name || !selectedTeacherName) {
           setError('Please fill in the teacher name');
           return;
         }
 
-        const { error } = await supabase
-          .from('teachers')
-          .update({ name: formData.name })
-          .eq('name', selectedTeacherName);
-
-        if (error) throw error;
+        await renameTeacher(selectedTeacherName, formData.name);
       }
 
       setIsEditModalOpen(false);
@@ -137,12 +113,7 @@ export default function Teachers() {
     try {
       if (!selectedTeacher) return;
 
-      const { error } = await supabase
-        .from('teachers')
-        .delete()
-        .eq('id', selectedTeacher.id);
-
-      if (error) throw error;
+      await deleteTeacher(selectedTeacher.id);
 
       setIsDeleteModalOpen(false);
       setSelectedTeacher(null);
@@ -185,14 +156,7 @@ export default function Teachers() {
         return;
       }
 
-      const { error } = await supabase
-        .from('teachers')
-        .insert([{ 
-          name: selectedTeacherName, 
-          subject: formData.subject 
-        }]);
-
-      if (error) throw error;
+      await createTeacher(selectedTeacherName, formData.subject);
 
       setIsAddSubjectModalOpen(false);
       setSelectedTeacherName('');
@@ -323,13 +287,22 @@ export default function Teachers() {
                 >
                   <div className="bg-gradient-to-r from-blue-600/20 to-indigo-600/20 px-4 py-3 border-b border-gray-700/50 flex justify-between items-center">
                     <h3 className="font-medium text-white truncate">{teacher.name}</h3>
-                    <button
-                      onClick={() => openEditTeacherNameModal(teacher.name)}
-                      className="p-1 text-gray-300 hover:text-blue-400 hover:bg-blue-400/10 rounded transition-colors"
-                      title="Edit Teacher Name"
-                    >
-                      <PencilIcon className="h-4 w-4" />
-                    </button>
+                    <div className="flex space-x-1">
+                      <button
+                        onClick={() => setAvailabilityTeacherName(teacher.name)}
+                        className="p-1 text-gray-300 hover:text-blue-400 hover:bg-blue-400/10 rounded transition-colors"
+                        title="Availability & Leave"
+                      >
+                        <CalendarDaysIcon className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => openEditTeacherNameModal(teacher.name)}
+                        className="p-1 text-gray-300 hover:text-blue-400 hover:bg-blue-400/10 rounded transition-colors"
+                        title="Edit Teacher Name"
+                      >
+                        <PencilIcon className="h-4 w-4" />
+                      </button>
+                    </div>
                   </div>
                   <div className="p-4">
                     <div className="flex justify-between items-center mb-2">
@@ -361,16 +334,18 @@ export default function Teachers() {
                             >
                               <PencilIcon className="h-4 w-4" />
                             </button>
-                            <button
-                              onClick={() => {
-                                const teacherToDelete = teachers.find(t => t.id === subject.id);
-                                if (teacherToDelete) openDeleteModal(teacherToDelete);
-                              }}
-                              className="p-1 text-gray-300 hover:text-red-400 hover:bg-red-400/10 rounded transition-colors"
-                              title="Delete Subject"
-                            >
-                              <TrashIcon className="h-4 w-4" />
-                            </button>
+                            {canDelete && (
+                              <button
+                                onClick={() => {
+                                  const teacherToDelete = teachers.find(t => t.id === subject.id);
+                                  if (teacherToDelete) openDeleteModal(teacherToDelete);
+                                }}
+                                className="p-1 text-gray-300 hover:text-red-400 hover:bg-red-400/10 rounded transition-colors"
+                                title="Delete Subject"
+                              >
+                                <TrashIcon className="h-4 w-4" />
+                              </button>
+                            )}
                           </div>
                         </div>
                       ))}
@@ -683,6 +658,15 @@ export default function Teachers() {
           </div>
         </div>
       )}
+
+      {/* Availability & Leave Modal */}
+      {availabilityTeacherName && (
+        <TeacherAvailability
+          teacherName={availabilityTeacherName}
+          teachers={teachers}
+          onClose={() => setAvailabilityTeacherName(null)}
+        />
+      )}
     </div>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,471 @@
+import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { format, startOfWeek, addDays } from 'date-fns';
+import { jsPDF } from 'jspdf';
+import { ArrowDownTrayIcon, PrinterIcon } from '@heroicons/react/24/outline';
+import { ScheduleWithTeacher as Schedule, listSchedules } from '../lib/repositories/schedules';
+import {
+  ScheduleCancellation,
+  MovedOccurrence,
+  listCancellations,
+  listMovedOccurrences
+} from '../lib/repositories/cancellations';
+import { ScheduleSubstitutionDetails, listSubstitutions } from '../lib/repositories/substitutions';
+import { Room, listRooms } from '../lib/repositories/rooms';
+import { Closure, listClosures } from '../lib/repositories/closures';
+import { getOccurrences, isTaughtBy, parseDate } from '../lib/recurrence';
+import { getClosuresOn, getClosureFor, getClosureLabel } from '../lib/closures';
+
+// Card edge colors by mode, as on the schedule page
+const MODE_COLORS: Record<string, string> = {
+  Mock: '#10b981',
+  Seminar: '#f59e0b',
+  Class: '#3b82f6'
+};
+
+// The layout of the PDF's A4 landscape pages, in points
+const MARGIN = 28;
+const COLUMN_GAP = 6;
+const DAY_HEADER_HEIGHT = 24;
+const CARD_GAP = 3;
+const CARD_PADDING = 3;
+const FONT_SIZE = 6.5;
+const LINE_HEIGHT = 8.5;
+
+// Tailwind's colors used on the page, for the PDF
+const WHITE = '#ffffff';
+const GRAY_800 = '#1f2937';
+const GRAY_700 = '#374151';
+const GRAY_500 = '#6b7280';
+const GRAY_300 = '#d1d5db';
+const GRAY_200 = '#e5e7eb';
+const RED_50 = '#fef2f2';
+const RED_700 = '#b91c1c';
+const PURPLE_700 = '#7e22ce';
+const AMBER_100 = '#fef3c7';
+const AMBER_900 = '#78350f';
+const CANCELED_COLOR = '#ef4444';
+
+// Characters of Windows-1252 outside Latin-1
+const WIN_ANSI_EXTRAS = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ';
+
+// A line of a card in the PDF, before wrapping
+interface PdfLine {
+  text: string;
+  color: string;
+  bold?: boolean;
+  struck?: boolean;
+}
+
+// A closure notice or class card placed in a day's column of the PDF
+interface PdfCard {
+  lines: PdfLine[];
+  fill: string;
+  edge?: string;
+  page: number;
+  y: number;
+  height: number;
+}
+
+// The PDF's built-in Helvetica only has the Windows-1252 characters, and jsPDF garbles a
+// whole line that has any other, so those are written as "?"
+const toPdfText = (text: string) =>
+  Array.from(text, char => {
+    const code = char.codePointAt(0)!;
+    return (code >= 32 && code <= 126) || (code >= 160 && code <= 255) || WIN_ANSI_EXTRAS.includes(char) ? char : '?';
+  }).join('');
+
+const formatTime = (time: string) => {
+  const [hours, minutes] = time.split(':');
+  const hour = parseInt(hours, 10);
+  const ampm = hour >= 12 ? 'PM' : 'AM';
+  const formattedHour = hour % 12 || 12;
+  return `${formattedHour}:${minutes} ${ampm}`;
+};
+
+/**
+ * One week of the timetable laid out for paper, for the same filters as the schedule page
+ * (teacher, subject, grade, curriculum, mode, room and week in the URL). It can be printed,
+ * or downloaded as a PDF drawn from the same week; a column that doesn't fit on one page
+ * continues on the next.
+ */
+export default function TimetablePrint() {
+  const [searchParams] = useSearchParams();
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [cancellations, setCancellations] = useState<ScheduleCancellation[]>([]);
+  const [movedOccurrences, setMovedOccurrences] = useState<MovedOccurrence[]>([]);
+  const [substitutions, setSubstitutions] = useState<ScheduleSubstitutionDetails[]>([]);
+  const [closures, setClosures] = useState<Closure[]>([]);
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const weekParam = searchParams.get('week');
+  const weekStart = startOfWeek(
+    weekParam && /^\d{4}-\d{2}-\d{2}$/.test(weekParam) ? parseDate(weekParam) : new Date(),
+    { weekStartsOn: 1 }
+  );
+  const from = format(weekStart, 'yyyy-MM-dd');
+  const to = format(addDays(weekStart, 6), 'yyyy-MM-dd');
+
+  const teacherFilter = searchParams.get('teacher') || '';
+  const subjectFilter = searchParams.get('subject') || '';
+  const gradeFilter = searchParams.get('grade') || '';
+  const curriculumFilter = searchParams.get('curriculum') || '';
+  const modeFilter = searchParams.get('mode') || '';
+  const roomFilter = searchParams.get('room') ? Number(searchParams.get('room')) : null;
+
+  useEffect(() => {
+    fetchWeek(from, to);
+  }, [from, to]);
+
+  const fetchWeek = async (first: string, last: string) => {
+    try {
+      setLoading(true);
+      const [scheduleRows, canceled, moved, covered, closed, roomRows] = await Promise.all([
+        listSchedules(),
+        listCancellations(first, last),
+        listMovedOccurrences(first, last),
+        listSubstitutions(first, last),
+        listClosures(first, last),
+        listRooms()
+      ]);
+      setSchedules(scheduleRows);
+      setCancellations(canceled);
+      setMovedOccurrences(moved);
+      setSubstitutions(covered);
+      setClosures(closed);
+      setRooms(roomRows);
+      setError(null);
+    } catch (error) {
+      console.error('Error fetching timetable:', error);
+      setError('Failed to load the timetable. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The teacher is matched per occurrence, since a substitute may teach it
+  const printed = schedules.filter(schedule =>
+    (!subjectFilter || schedule.subject === subjectFilter) &&
+    (!gradeFilter || schedule.grade === gradeFilter) &&
+    (!curriculumFilter || schedule.curriculum === curriculumFilter) &&
+    (!modeFilter || schedule.mode === modeFilter) &&
+    (roomFilter === null || schedule.room_id === roomFilter)
+  );
+
+  // Weekends are left off when nothing happens on them
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i))
+    .map(day => ({
+      day,
+      dayClosures: getClosuresOn(closures, day),
+      occurrences: getOccurrences(printed, cancellations, day, substitutions)
+        .filter(({ schedule, substitution }) => !teacherFilter || isTaughtBy(teacherFilter, schedule, substitution))
+        .filter(({ schedule }) => !getClosureFor(closures, schedule.grade, day))
+    }))
+    .filter(({ day, occurrences }) => day.getDay() % 6 !== 0 || occurrences.length > 0);
+
+  const title = [
+    teacherFilter && (subjectFilter ? `${teacherFilter} (${subjectFilter})` : teacherFilter),
+    [gradeFilter, curriculumFilter].filter(Boolean).join(' '),
+    roomFilter !== null && (rooms.find(room => room.id === roomFilter)?.name || 'Room'),
+    modeFilter
+  ].filter(Boolean).join(' • ') || 'All Classes';
+
+  const getMovedFrom = (schedule: Schedule) =>
+    movedOccurrences.find(moved => moved.makeup_schedule_id === schedule.id);
+
+  const handleDownload = () => {
+    const pdf = new jsPDF({ orientation: 'landscape', unit: 'pt', format: 'a4' });
+    const pageWidth = pdf.internal.pageSize.getWidth();
+    const pageHeight = pdf.internal.pageSize.getHeight();
+    const columnWidth = (pageWidth - MARGIN * 2 - COLUMN_GAP * (days.length - 1)) / days.length;
+    const textWidth = columnWidth - CARD_PADDING * 2 - 3;
+    const columnTop = MARGIN + 46 + DAY_HEADER_HEIGHT + CARD_GAP;
+    const columnBottom = pageHeight - MARGIN - 18;
+
+    const setText = (size: number, color: string, bold = false) => {
+      pdf.setFont('helvetica', bold ? 'bold' : 'normal');
+      pdf.setFontSize(size);
+      pdf.setTextColor(color);
+    };
+
+    // Cards are placed down each column first, so the number of pages is known before drawing
+    const columns = days.map(({ dayClosures, occurrences }) => {
+      const cards: PdfLine[][] = [
+        ...dayClosures.map(closure => [{ text: `Closed: ${getClosureLabel(closure)}`, color: AMBER_900, bold: true }]),
+        ...occurrences.map(({ schedule, cancellation, substitution }) => {
+          const movedFrom = getMovedFrom(schedule);
+          return [
+            { text: `${formatTime(schedule.start_time)} – ${formatTime(schedule.end_time)}`, color: GRAY_800, bold: true },
+            cancellation
+              ? { text: schedule.subject, color: GRAY_500, bold: true, struck: true }
+              : { text: schedule.subject, color: GRAY_800, bold: true },
+            { text: `${schedule.grade} ${schedule.curriculum}`, color: GRAY_700 },
+            ...(!teacherFilter ? [{ text: schedule.teachers.name, color: GRAY_700 }] : []),
+            ...(substitution && !cancellation ? [{
+              text: teacherFilter ? `Covering for ${schedule.teachers.name}` : `Sub: ${substitution.substitute.name}`,
+              color: PURPLE_700,
+              bold: true
+            }] : []),
+            { text: [schedule.room, schedule.mode].filter(Boolean).join(' • '), color: GRAY_500 },
+            ...(cancellation ? [{
+              text: `Canceled${cancellation.reason ? `: ${cancellation.reason}` : ''}`,
+              color: RED_700,
+              bold: true
+            }] : []),
+            ...(movedFrom ? [{
+              text: `Moved from ${format(parseDate(movedFrom.occurrence_date), 'EEE, MMM d')}`,
+              color: GRAY_500
+            }] : [])
+          ];
+        })
+      ];
+      const fills = [
+        ...dayClosures.map(() => ({ fill: AMBER_100 })),
+        ...occurrences.map(({ schedule, cancellation }) => cancellation
+          ? { fill: RED_50, edge: CANCELED_COLOR }
+          : { fill: WHITE, edge: MODE_COLORS[schedule.mode] || MODE_COLORS.Class })
+      ];
+
+      let page = 0;
+      let y = columnTop;
+      return cards.map((lines, i): PdfCard => {
+        const wrapped = lines
+          .filter(line => line.text.trim())
+          .flatMap(line => {
+            setText(FONT_SIZE, line.color, line.bold);
+            return (pdf.splitTextToSize(toPdfText(line.text), textWidth) as string[]).map(text => ({ ...line, text }));
+          });
+        const height = wrapped.length * LINE_HEIGHT + CARD_PADDING * 2;
+        if (y > columnTop && y + height > columnBottom) {
+          page++;
+          y = columnTop;
+        }
+        const card = { lines: wrapped, ...fills[i], page, y, height };
+        y += height + CARD_GAP;
+        return card;
+      });
+    });
+
+    const pageCount = Math.max(1, ...columns.map(cards => cards.length > 0 ? cards[cards.length - 1].page + 1 : 1));
+
+    for (let page = 0; page < pageCount; page++) {
+      if (page > 0) pdf.addPage();
+
+      setText(16, GRAY_800, true);
+      pdf.text(toPdfText(title), MARGIN, MARGIN + 14);
+      setText(9, GRAY_500);
+      pdf.text(`Timetable for ${format(weekStart, 'MMM d')} – ${format(addDays(weekStart, 6), 'MMM d, yyyy')}`, MARGIN, MARGIN + 28);
+      setText(7, GRAY_500);
+      pdf.text(
+        `Printed ${format(new Date(), 'MMM d, yyyy h:mm a')}${pageCount > 1 ? ` • Page ${page + 1} of ${pageCount}` : ''}`,
+        pageWidth - MARGIN,
+        MARGIN + 28,
+        { align: 'right' }
+      );
+      pdf.setDrawColor(GRAY_800);
+      pdf.setLineWidth(1.5);
+      pdf.line(MARGIN, MARGIN + 36, pageWidth - MARGIN, MARGIN + 36);
+      pdf.setLineWidth(0.5);
+
+      days.forEach(({ day, dayClosures, occurrences }, i) => {
+        const x = MARGIN + i * (columnWidth + COLUMN_GAP);
+        const top = MARGIN + 46;
+
+        pdf.setFillColor(GRAY_800);
+        pdf.rect(x, top, columnWidth, DAY_HEADER_HEIGHT, 'F');
+        setText(8, WHITE, true);
+        pdf.text(format(day, 'EEEE'), x + columnWidth / 2, top + 10, { align: 'center' });
+        setText(7, WHITE);
+        pdf.text(format(day, 'MMM d'), x + columnWidth / 2, top + 19, { align: 'center' });
+        pdf.setDrawColor(GRAY_300);
+        pdf.rect(x, top + DAY_HEADER_HEIGHT, columnWidth, columnBottom - top - DAY_HEADER_HEIGHT, 'S');
+
+        if (page === 0 && occurrences.length === 0 && dayClosures.length === 0) {
+          setText(7, GRAY_500);
+          pdf.text('No classes', x + columnWidth / 2, columnTop + 10, { align: 'center' });
+        }
+
+        columns[i].filter(card => card.page === page).forEach(card => {
+          const cardX = x + 2;
+          pdf.setFillColor(card.fill);
+          pdf.setDrawColor(GRAY_200);
+          pdf.rect(cardX, card.y, columnWidth - 4, card.height, card.edge ? 'FD' : 'F');
+          if (card.edge) {
+            pdf.setFillColor(card.edge);
+            pdf.rect(cardX, card.y, 3, card.height, 'F');
+          }
+
+          card.lines.forEach((line, lineIndex) => {
+            const textX = cardX + CARD_PADDING + 3;
+            const baseline = card.y + CARD_PADDING + (lineIndex + 1) * LINE_HEIGHT - 2;
+            setText(FONT_SIZE, line.color, line.bold);
+            pdf.text(line.text, textX, baseline);
+            if (line.struck) {
+              const middle = baseline - FONT_SIZE * 0.3;
+              pdf.setDrawColor(line.color);
+              pdf.line(textX, middle, textX + pdf.getTextWidth(line.text), middle);
+            }
+          });
+        });
+      });
+
+      // Legend
+      let legendX = MARGIN;
+      setText(7, GRAY_500);
+      [...Object.entries(MODE_COLORS), ['Canceled', CANCELED_COLOR]].forEach(([label, color]) => {
+        pdf.setFillColor(color);
+        pdf.rect(legendX, pageHeight - MARGIN - 7, 7, 7, 'F');
+        pdf.text(label, legendX + 10, pageHeight - MARGIN - 1);
+        legendX += 10 + pdf.getTextWidth(label) + 14;
+      });
+    }
+
+    const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    pdf.save(`timetable-${slug || 'week'}-${from}.pdf`);
+  };
+
+  return (
+    <div
+      className="min-h-screen bg-gray-100 text-gray-900 print:bg-white"
+      style={{ WebkitPrintColorAdjust: 'exact', printColorAdjust: 'exact' }}
+    >
+      {/* Toolbar, not printed */}
+      <div className="print:hidden sticky top-0 z-10 bg-white border-b border-gray-200 shadow-sm">
+        <div className="max-w-6xl mx-auto px-4 py-3 flex flex-wrap items-center justify-between gap-3">
+          <p className="text-sm text-gray-600">
+            Print this week, or download it as a PDF to share.
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={handleDownload}
+              disabled={loading || !!error}
+              className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-800 font-medium rounded-lg flex items-center disabled:opacity-50"
+            >
+              <ArrowDownTrayIcon className="h-5 w-5 mr-1" />
+              Download PDF
+            </button>
+            <button
+              onClick={() => window.print()}
+              disabled={loading}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg flex items-center disabled:opacity-50"
+            >
+              <PrinterIcon className="h-5 w-5 mr-1" />
+              Print
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-6xl mx-auto p-4 sm:p-8 print:p-0 print:max-w-none">
+        <div className="bg-white rounded-lg shadow print:shadow-none print:rounded-none p-6 print:p-0">
+          <div className="flex items-end justify-between border-b-2 border-gray-800 pb-2 mb-4">
+            <div>
+              <h1 className="text-2xl font-bold">{title}</h1>
+              <p className="text-sm text-gray-600">
+                Timetable for {format(weekStart, 'MMM d')} – {format(addDays(weekStart, 6), 'MMM d, yyyy')}
+              </p>
+            </div>
+            <p className="text-xs text-gray-500">Printed {format(new Date(), 'MMM d, yyyy h:mm a')}</p>
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded text-red-700 print:hidden">
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center h-48">
+              <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-500"></div>
+            </div>
+          ) : (
+            <div
+              className="grid gap-2"
+              style={{ gridTemplateColumns: `repeat(${days.length}, minmax(0, 1fr))` }}
+            >
+              {days.map(({ day, dayClosures, occurrences }) => (
+                <div key={day.toISOString()} className="min-w-0">
+                  <div className="bg-gray-800 text-white text-center rounded-t px-2 py-1">
+                    <div className="text-sm font-bold">{format(day, 'EEEE')}</div>
+                    <div className="text-xs">{format(day, 'MMM d')}</div>
+                  </div>
+                  <div className="border border-t-0 border-gray-300 rounded-b p-1 space-y-1 min-h-[4rem]">
+                    {dayClosures.map(closure => (
+                      <div key={closure.id} className="rounded bg-amber-100 px-1.5 py-1 text-[0.7rem] font-semibold text-amber-900 text-center">
+                        Closed: {getClosureLabel(closure)}
+                      </div>
+                    ))}
+                    {occurrences.length === 0 && dayClosures.length === 0 && (
+                      <p className="text-xs text-gray-400 text-center py-2">No classes</p>
+                    )}
+                    {occurrences.map(({ schedule, cancellation, substitution }) => {
+                      const movedFrom = getMovedFrom(schedule);
+
+                      return (
+                        <div
+                          key={schedule.id}
+                          className={`break-inside-avoid border border-gray-200 rounded px-1.5 py-1 text-[0.7rem] leading-tight ${
+                            cancellation ? 'bg-red-50' : 'bg-white'
+                          }`}
+                          style={{ borderLeft: `4px solid ${cancellation ? CANCELED_COLOR : MODE_COLORS[schedule.mode] || MODE_COLORS.Class}` }}
+                        >
+                          <div className="font-semibold">
+                            {formatTime(schedule.start_time)} – {formatTime(schedule.end_time)}
+                          </div>
+                          <div className={`font-bold ${cancellation ? 'line-through text-gray-500' : ''}`}>{schedule.subject}</div>
+                          <div className="text-gray-700">{schedule.grade} {schedule.curriculum}</div>
+                          {!teacherFilter && <div className="text-gray-700">{schedule.teachers.name}</div>}
+                          {substitution && !cancellation && (
+                            <div className="font-semibold text-purple-700">
+                              {teacherFilter ? `Covering for ${schedule.teachers.name}` : `Sub: ${substitution.substitute.name}`}
+                            </div>
+                          )}
+                          <div className="text-gray-500">
+                            {[schedule.room, schedule.mode].filter(Boolean).join(' • ')}
+                          </div>
+                          {cancellation && (
+                            <div className="font-semibold text-red-700">
+                              Canceled{cancellation.reason ? `: ${cancellation.reason}` : ''}
+                            </div>
+                          )}
+                          {movedFrom && (
+                            <div className="text-gray-500 italic">
+                              Moved from {format(parseDate(movedFrom.occurrence_date), 'EEE, MMM d')}
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Legend */}
+          <div className="mt-4 flex flex-wrap gap-4 text-xs text-gray-600">
+            {Object.entries(MODE_COLORS).map(([mode, color]) => (
+              <span key={mode} className="flex items-center gap-1">
+                <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: color }}></span>
+                {mode}
+              </span>
+            ))}
+            <span className="flex items-center gap-1">
+              <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: CANCELED_COLOR }}></span>
+              Canceled
+            </span>
+          </div>
+        </div>
+      </div>
+
+      <style>{`
+        @page {
+          size: A4 landscape;
+          margin: 10mm;
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { format, startOfMonth, endOfMonth, subMonths } from 'date-fns';
+import { ChartBarIcon, ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import { ScheduleWithTeacher as Schedule, listSchedules } from '../lib/repositories/schedules';
+import { ScheduleCancellation, listCancellations } from '../lib/repositories/cancellations';
+import { ScheduleSubstitutionDetails, listSubstitutions } from '../lib/repositories/substitutions';
+import { Closure, listClosures } from '../lib/repositories/closures';
+import { parseDate } from '../lib/recurrence';
+import { TaughtOccurrence, getTaughtOccurrences, totalWorkload } from '../lib/workload';
+import { Cell, toCsv, toXlsx, downloadFile } from '../lib/spreadsheet';
+
+type Grouping = 'teacher' | 'subject' | 'mode' | 'grade';
+
+const GROUPINGS: Record<Grouping, { label: string; getKey: (occurrence: TaughtOccurrence) => string }> = {
+  teacher: { label: 'Teacher', getKey: ({ teacherName }) => teacherName },
+  subject: { label: 'Subject', getKey: ({ schedule }) => schedule.subject },
+  mode: { label: 'Mode', getKey: ({ schedule }) => schedule.mode || 'Class' },
+  grade: { label: 'Grade', getKey: ({ schedule }) => schedule.grade || 'No grade' }
+};
+
+const isDate = (value: string | null): value is string => !!value && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const formatHours = (hours: number) => Number(hours.toFixed(2));
+
+const formatTime = (time: string) => time.slice(0, 5);
+
+const getMonthRange = (month: Date) => ({
+  from: format(startOfMonth(month), 'yyyy-MM-dd'),
+  to: format(endOfMonth(month), 'yyyy-MM-dd')
+});
+
+/**
+ * Hours taught over a date range, totalled per teacher, subject, mode or grade. Cancelled
+ * classes and classes during a closure are not counted; moved ones count on the day they were taught and covered ones
+ * for the substitute.
+ */
+export default function WorkloadReport() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [cancellations, setCancellations] = useState<ScheduleCancellation[]>([]);
+  const [substitutions, setSubstitutions] = useState<ScheduleSubstitutionDetails[]>([]);
+  const [closures, setClosures] = useState<Closure[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // The range and grouping live in the URL so a report can be linked to; last month by default
+  const lastMonth = getMonthRange(subMonths(new Date(), 1));
+  const from = isDate(searchParams.get('from')) ? searchParams.get('from') as string : lastMonth.from;
+  const to = isDate(searchParams.get('to')) ? searchParams.get('to') as string : lastMonth.to;
+  const groupParam = searchParams.get('group') as Grouping;
+  const grouping: Grouping = Object.keys(GROUPINGS).includes(groupParam) ? groupParam : 'teacher';
+  const validRange = from <= to;
+
+  useEffect(() => {
+    if (from <= to) fetchReport(from, to);
+  }, [from, to]);
+
+  const fetchReport = async (first: string, last: string) => {
+    try {
+      setLoading(true);
+      const [scheduleRows, canceled, covered, closed] = await Promise.all([
+        listSchedules(),
+        listCancellations(first, last),
+        listSubstitutions(first, last),
+        listClosures(first, last)
+      ]);
+      setSchedules(scheduleRows);
+      setCancellations(canceled);
+      setSubstitutions(covered);
+      setClosures(closed);
+      setError(null);
+    } catch (error) {
+      console.error('Error fetching workload:', error);
+      setError('Failed to load the workload report. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateFilter = (values: Record<string, string>) => {
+    const next = new URLSearchParams(searchParams);
+    Object.entries(values).forEach(([key, value]) => {
+      if (value) {
+        next.set(key, value);
+      } else {
+        next.delete(key);
+      }
+    });
+    setSearchParams(next, { replace: true });
+  };
+
+  const occurrences = validRange ? getTaughtOccurrences(schedules, cancellations, substitutions, closures, parseDate(from), parseDate(to)) : [];
+  const totals = totalWorkload(occurrences, GROUPINGS[grouping].getKey);
+  const totalHours = occurrences.reduce((sum, occurrence) => sum + occurrence.hours, 0);
+
+  const getTotalRows = (group: Grouping): Cell[][] => [
+    [GROUPINGS[group].label, 'Classes', 'Hours'],
+    ...totalWorkload(occurrences, GROUPINGS[group].getKey).map(total => [total.key, total.classes, formatHours(total.hours)]),
+    ['Total', occurrences.length, formatHours(totalHours)]
+  ];
+
+  const fileName = `workload-${from}-to-${to}`;
+
+  const exportCsv = () => {
+    downloadFile(toCsv(getTotalRows(grouping)), `${fileName}-by-${grouping}.csv`);
+  };
+
+  // One sheet per grouping, plus every class counted so the totals can be checked
+  const exportXlsx = async () => {
+    try {
+      downloadFile(await toXlsx([
+        ...(Object.keys(GROUPINGS) as Grouping[]).map(group => ({
+          name: `By ${GROUPINGS[group].label.toLowerCase()}`,
+          rows: getTotalRows(group)
+        })),
+        {
+          name: 'Classes',
+          rows: [
+            ['Date', 'Start', 'End', 'Teacher', 'Covering for', 'Subject', 'Grade', 'Curriculum', 'Mode', 'Room', 'Hours'],
+            ...occurrences.map(({ schedule, date, hours, teacherName, coveredFor }) => [
+              date,
+              formatTime(schedule.start_time),
+              formatTime(schedule.end_time),
+              teacherName,
+              coveredFor || '',
+              schedule.subject,
+              schedule.grade,
+              schedule.curriculum,
+              schedule.mode || 'Class',
+              schedule.room || '',
+              formatHours(hours)
+            ])
+          ]
+        }
+      ]), `${fileName}.xlsx`);
+    } catch (error) {
+      console.error('Error exporting workload:', error);
+      setError('Failed to export the workload report. Please try again.');
+    }
+  };
+
+  const inputClassName = 'w-full px-3 py-2 bg-gray-800/80 border border-gray-700 rounded-lg text-gray-200 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+  const thisMonth = getMonthRange(new Date());
+
+  return (
+    <div className="min-h-full bg-gradient-to-br from-[#0a0a0a] to-[#111827] text-gray-200">
+      <div className="container mx-auto px-4 py-6">
+        <div className="mb-6 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-3">
+          <div>
+            <h1 className="text-2xl font-bold text-white flex items-center">
+              <ChartBarIcon className="h-6 w-6 mr-2 text-blue-500" />
+              Workload
+            </h1>
+            <p className="text-gray-400 mt-1">
+              Hours taught between two dates, not counting cancelled classes
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={exportCsv}
+              disabled={loading || occurrences.length === 0}
+              className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 rounded-lg transition-colors flex items-center disabled:opacity-50"
+            >
+              <ArrowDownTrayIcon className="h-5 w-5 mr-1" />
+              CSV
+            </button>
+            <button
+              onClick={exportXlsx}
+              disabled={loading || occurrences.length === 0}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors flex items-center disabled:opacity-50"
+            >
+              <ArrowDownTrayIcon className="h-5 w-5 mr-1" />
+              Excel
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-4">
+          <input
+            type="date"
+            value={from}
+            onChange={e => updateFilter({ from: e.target.value })}
+            className={inputClassName}
+            aria-label="From date"
+          />
+          <input
+            type="date"
+            value={to}
+            onChange={e => updateFilter({ to: e.target.value })}
+            className={inputClassName}
+            aria-label="To date"
+          />
+          <select
+            value={grouping}
+            onChange={e => updateFilter({ group: e.target.value })}
+            className={inputClassName}
+            aria-label="Group by"
+          >
+            {(Object.keys(GROUPINGS) as Grouping[]).map(group => (
+              <option key={group} value={group}>By {GROUPINGS[group].label.toLowerCase()}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => updateFilter(thisMonth)}
+            className="px-3 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 text-sm rounded-lg transition-colors"
+          >
+            This month
+          </button>
+          <button
+            onClick={() => updateFilter(lastMonth)}
+            className="px-3 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 text-sm rounded-lg transition-colors"
+          >
+            Last month
+          </button>
+        </div>
+
+        {!validRange && (
+          <div className="mb-6 p-4 bg-amber-900/20 border border-amber-800/30 rounded-lg text-amber-200">
+            The start date is after the end date.
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-900/20 border border-red-800/30 rounded-lg text-red-200">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+          </div>
+        ) : occurrences.length === 0 ? (
+          <div className="flex flex-col items-center justify-center bg-gray-800/30 rounded-xl p-8 border border-gray-700/50">
+            <ChartBarIcon className="h-12 w-12 text-gray-600 mb-3" />
+            <p className="text-gray-500">No classes were taught in this range.</p>
+          </div>
+        ) : (
+          <div className="bg-gray-800/40 border border-gray-700/50 rounded-lg overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-gray-400 text-left">
+                <tr>
+                  <th className="px-4 py-3 font-medium">{GROUPINGS[grouping].label}</th>
+                  <th className="px-4 py-3 font-medium text-right">Classes</th>
+                  <th className="px-4 py-3 font-medium text-right">Hours</th>
+                  <th className="px-4 py-3 font-medium w-1/3 hidden sm:table-cell">Share</th>
+                </tr>
+              </thead>
+              <tbody>
+                {totals.map(total => (
+                  <tr key={total.key} className="border-t border-gray-700/50">
+                    <td className="px-4 py-2 text-white">{total.key}</td>
+                    <td className="px-4 py-2 text-right text-gray-300">{total.classes}</td>
+                    <td className="px-4 py-2 text-right text-gray-300">{formatHours(total.hours)}</td>
+                    <td className="px-4 py-2 hidden sm:table-cell">
+                      <div className="h-2 bg-gray-700/50 rounded-full">
+                        <div
+                          className="h-2 bg-blue-500 rounded-full"
+                          style={{ width: `${totalHours ? (total.hours / totalHours) * 100 : 0}%` }}
+                        ></div>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="border-t-2 border-gray-600 font-semibold text-white">
+                  <td className="px-4 py-3">Total</td>
+                  <td className="px-4 py-3 text-right">{occurrences.length}</td>
+                  <td className="px-4 py-3 text-right">{formatHours(totalHours)}</td>
+                  <td className="hidden sm:table-cell"></td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
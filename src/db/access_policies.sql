@@ -0,0 +1,197 @@
+-- Role-based Row Level Security policies
+-- Roles come from teacher_users.role and are resolved per request by has_role()
+-- (see auth_sessions.sql). Keep these in sync with ROLE_PERMISSIONS in src/lib/roles.ts.
+--
+-- Run after auth_schema.sql, auth_sessions.sql and display_devices.sql. The script is safe to re-run.
+
+-- teacher_users: admins manage accounts, everyone else can only see their own row
+ALTER TABLE teacher_users ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS teacher_users_select_policy ON teacher_users;
+DROP POLICY IF EXISTS teacher_users_insert_policy ON teacher_users;
+DROP POLICY IF EXISTS teacher_users_update_policy ON teacher_users;
+DROP POLICY IF EXISTS teacher_users_delete_policy ON teacher_users;
+
+CREATE POLICY teacher_users_select_policy ON teacher_users
+  FOR SELECT USING (id = current_teacher_user_id() OR has_role('admin'));
+
+CREATE POLICY teacher_users_insert_policy ON teacher_users
+  FOR INSERT WITH CHECK (has_role('admin'));
+
+CREATE POLICY teacher_users_update_policy ON teacher_users
+  FOR UPDATE USING (has_role('admin'));
+
+CREATE POLICY teacher_users_delete_policy ON teacher_users
+  FOR DELETE USING (has_role('admin'));
+
+-- Password hashes never leave the database, even for admins
+REVOKE SELECT ON teacher_users FROM anon, authenticated;
+GRANT SELECT (id, username, role, created_at, updated_at) ON teacher_users TO anon, authenticated;
+
+-- teachers: public timetable reads them, admins and front desk edit, admins delete
+ALTER TABLE teachers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS teachers_select_policy ON teachers;
+DROP POLICY IF EXISTS teachers_insert_policy ON teachers;
+DROP POLICY IF EXISTS teachers_update_policy ON teachers;
+DROP POLICY IF EXISTS teachers_delete_policy ON teachers;
+
+CREATE POLICY teachers_select_policy ON teachers
+  FOR SELECT USING (true);
+
+CREATE POLICY teachers_insert_policy ON teachers
+  FOR INSERT WITH CHECK (has_role('admin', 'front_desk'));
+
+CREATE POLICY teachers_update_policy ON teachers
+  FOR UPDATE USING (has_role('admin', 'front_desk'));
+
+CREATE POLICY teachers_delete_policy ON teachers
+  FOR DELETE USING (has_role('admin'));
+
+-- class_schedules: public timetable reads them, admins and front desk schedule and
+-- cancel classes, only admins delete a whole series
+ALTER TABLE class_schedules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS class_schedules_select_policy ON class_schedules;
+DROP POLICY IF EXISTS class_schedules_insert_policy ON class_schedules;
+DROP POLICY IF EXISTS class_schedules_update_policy ON class_schedules;
+DROP POLICY IF EXISTS class_schedules_delete_policy ON class_schedules;
+
+CREATE POLICY class_schedules_select_policy ON class_schedules
+  FOR SELECT USING (true);
+
+CREATE POLICY class_schedules_insert_policy ON class_schedules
+  FOR INSERT WITH CHECK (has_role('admin', 'front_desk'));
+
+CREATE POLICY class_schedules_update_policy ON class_schedules
+  FOR UPDATE USING (has_role('admin', 'front_desk'));
+
+CREATE POLICY class_schedules_delete_policy ON class_schedules
+  FOR DELETE USING (has_role('admin'));
+
+-- store_orders / store_order_items: customers place orders from the public website,
+-- staff read and update them, only admins delete
+ALTER TABLE store_orders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS store_orders_select_policy ON store_orders;
+DROP POLICY IF EXISTS store_orders_insert_policy ON store_orders;
+DROP POLICY IF EXISTS store_orders_update_policy ON store_orders;
+DROP POLICY IF EXISTS store_orders_delete_policy ON store_orders;
+
+CREATE POLICY store_orders_select_policy ON store_orders
+  FOR SELECT USING (has_role('admin', 'front_desk'));
+
+CREATE POLICY store_orders_insert_policy ON store_orders
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY store_orders_update_policy ON store_orders
+  FOR UPDATE USING (has_role('admin', 'front_desk'));
+
+CREATE POLICY store_orders_delete_policy ON store_orders
+  FOR DELETE USING (has_role('admin'));
+
+ALTER TABLE store_order_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS store_order_items_select_policy ON store_order_items;
+DROP POLICY IF EXISTS store_order_items_insert_policy ON store_order_items;
+DROP POLICY IF EXISTS store_order_items_delete_policy ON store_order_items;
+
+CREATE POLICY store_order_items_select_policy ON store_order_items
+  FOR SELECT USING (has_role('admin', 'front_desk'));
+
+CREATE POLICY store_order_items_insert_policy ON store_order_items
+  FOR INSERT WITH CHECK (true);
+
+CREATE POLICY store_order_items_delete_policy ON store_order_items
+  FOR DELETE USING (has_role('admin'));
+
+-- store_products: public storefront reads them, admins and front desk manage them
+ALTER TABLE store_products ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS store_products_select_policy ON store_products;
+DROP POLICY IF EXISTS store_products_write_policy ON store_products;
+
+CREATE POLICY store_products_select_policy ON store_products
+  FOR SELECT USING (true);
+
+CREATE POLICY store_products_write_policy ON store_products
+  FOR ALL USING (has_role('admin', 'front_desk')) WITH CHECK (has_role('admin', 'front_desk'));
+
+-- Website content: public reads, admins and front desk edit
+ALTER TABLE news ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS news_select_policy ON news;
+DROP POLICY IF EXISTS news_write_policy ON news;
+
+CREATE POLICY news_select_policy ON news
+  FOR SELECT USING (true);
+
+CREATE POLICY news_write_policy ON news
+  FOR ALL USING (has_role('admin', 'front_desk')) WITH CHECK (has_role('admin', 'front_desk'));
+
+ALTER TABLE calendar_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS calendar_events_select_policy ON calendar_events;
+DROP POLICY IF EXISTS calendar_events_write_policy ON calendar_events;
+
+CREATE POLICY calendar_events_select_policy ON calendar_events
+  FOR SELECT USING (true);
+
+CREATE POLICY calendar_events_write_policy ON calendar_events
+  FOR ALL USING (has_role('admin', 'front_desk')) WITH CHECK (has_role('admin', 'front_desk'));
+
+ALTER TABLE subjects_content ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS subjects_content_select_policy ON subjects_content;
+DROP POLICY IF EXISTS subjects_content_write_policy ON subjects_content;
+
+CREATE POLICY subjects_content_select_policy ON subjects_content
+  FOR SELECT USING (true);
+
+CREATE POLICY subjects_content_write_policy ON subjects_content
+  FOR ALL USING (has_role('admin', 'front_desk')) WITH CHECK (has_role('admin', 'front_desk'));
+
+ALTER TABLE teachers_content ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS teachers_content_select_policy ON teachers_content;
+DROP POLICY IF EXISTS teachers_content_write_policy ON teachers_content;
+
+CREATE POLICY teachers_content_select_policy ON teachers_content
+  FOR SELECT USING (true);
+
+CREATE POLICY teachers_content_write_policy ON teachers_content
+  FOR ALL USING (has_role('admin', 'front_desk')) WITH CHECK (has_role('admin', 'front_desk'));
+
+-- Presentation screens: staff and paired displays can read, admins and front desk configure them
+ALTER TABLE presentation_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS presentation_settings_select_policy ON presentation_settings;
+DROP POLICY IF EXISTS presentation_settings_write_policy ON presentation_settings;
+
+CREATE POLICY presentation_settings_select_policy ON presentation_settings
+  FOR SELECT USING (has_role('admin', 'front_desk', 'display') OR is_display_device());
+
+CREATE POLICY presentation_settings_write_policy ON presentation_settings
+  FOR ALL USING (has_role('admin', 'front_desk')) WITH CHECK (has_role('admin', 'front_desk'));
+
+ALTER TABLE presentation_categories ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS presentation_categories_select_policy ON presentation_categories;
+DROP POLICY IF EXISTS presentation_categories_write_policy ON presentation_categories;
+
+CREATE POLICY presentation_categories_select_policy ON presentation_categories
+  FOR SELECT USING (has_role('admin', 'front_desk', 'display') OR is_display_device());
+
+CREATE POLICY presentation_categories_write_policy ON presentation_categories
+  FOR ALL USING (has_role('admin', 'front_desk')) WITH CHECK (has_role('admin', 'front_desk'));
+
+ALTER TABLE presentation_images ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS presentation_images_select_policy ON presentation_images;
+DROP POLICY IF EXISTS presentation_images_write_policy ON presentation_images;
+
+CREATE POLICY presentation_images_select_policy ON presentation_images
+  FOR SELECT USING (has_role('admin', 'front_desk', 'display') OR is_display_device());
+
+CREATE POLICY presentation_images_write_policy ON presentation_images
+  FOR ALL USING (has_role('admin', 'front_desk')) WITH CHECK (has_role('admin', 'front_desk'));
@@ -0,0 +1,129 @@
+-- Audit log
+-- Every insert, update and delete on the tables below is recorded by a trigger with the
+-- signed-in account, the row id and the row before and after the change, so it does not
+-- matter which screen (or the SQL editor) made the change. Entries can only be read by
+-- admins and cannot be edited or removed through the API.
+--
+-- Run after all other scripts (it attaches triggers to their tables). Safe to re-run.
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id BIGSERIAL PRIMARY KEY,
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  -- No foreign key: the history has to outlive deleted accounts
+  actor_id UUID,
+  actor_username TEXT,
+  actor_role TEXT,
+  table_name TEXT NOT NULL,
+  row_id TEXT,
+  action TEXT NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  old_data JSONB,
+  new_data JSONB
+);
+
+CREATE INDEX IF NOT EXISTS audit_log_occurred_at_idx ON audit_log(occurred_at DESC);
+CREATE INDEX IF NOT EXISTS audit_log_record_idx ON audit_log(table_name, row_id);
+CREATE INDEX IF NOT EXISTS audit_log_actor_idx ON audit_log(actor_id);
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS audit_log_select_policy ON audit_log;
+
+CREATE POLICY audit_log_select_policy ON audit_log
+  FOR SELECT USING (has_role('admin'));
+
+REVOKE INSERT, UPDATE, DELETE ON audit_log FROM anon, authenticated;
+
+-- Row as JSON without secrets, without columns that change on every request and without
+-- updated_by, which repeats the actor
+CREATE OR REPLACE FUNCTION audit_row_data(p_row JSONB)
+RETURNS JSONB AS $$
+  SELECT p_row - 'password_hash' - 'token_hash' - 'pairing_code_hash' - 'last_seen_at' - 'updated_by';
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION audit_log_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_row JSONB;
+  new_row JSONB;
+  actor teacher_users%ROWTYPE;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    old_row := audit_row_data(to_jsonb(OLD));
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    new_row := audit_row_data(to_jsonb(NEW));
+  END IF;
+
+  -- Nothing worth recording changed (e.g. a display checking in)
+  IF TG_OP = 'UPDATE' AND old_row = new_row THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO actor FROM teacher_users WHERE id = current_teacher_user_id();
+
+  INSERT INTO audit_log (actor_id, actor_username, actor_role, table_name, row_id, action, old_data, new_data)
+  VALUES (
+    actor.id,
+    actor.username,
+    actor.role,
+    TG_TABLE_NAME,
+    COALESCE(new_row, old_row)->>'id',
+    TG_OP,
+    old_row,
+    new_row
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Attach the trigger to every table the dashboard writes to
+DO $$
+DECLARE
+  audited_table TEXT;
+BEGIN
+  FOREACH audited_table IN ARRAY ARRAY[
+    'class_schedules',
+    'teachers',
+    'teacher_users',
+    'schedule_change_requests',
+    'schedule_cancellations',
+    'schedule_substitutions',
+    'schedule_templates',
+    'rooms',
+    'teacher_availability',
+    'teacher_leave',
+    'students',
+    'enrollments',
+    'store_orders',
+    'store_order_items',
+    'store_products',
+    'news',
+    'calendar_events',
+    'closures',
+    'subjects_content',
+    'teachers_content',
+    'gallery_images',
+    'presentation_settings',
+    'presentation_categories',
+    'presentation_images',
+    'display_devices'
+  ] LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS audit_log_trigger ON %I', audited_table);
+    EXECUTE format(
+      'CREATE TRIGGER audit_log_trigger AFTER INSERT OR UPDATE OR DELETE ON %I
+       FOR EACH ROW EXECUTE FUNCTION audit_log_changes()',
+      audited_table
+    );
+  END LOOP;
+END;
+$$;
+
+-- NOTES:
+-- 1. Changes made without a staff session (orders placed on the public website, or the
+--    SQL editor) are logged with an empty actor.
+--
+-- 2. New tables are not audited automatically; add them to the list above and re-run.
+--
+-- 3. The log grows forever. To trim it, run as the database owner, for example:
+--    DELETE FROM audit_log WHERE occurred_at < NOW() - INTERVAL '2 years';
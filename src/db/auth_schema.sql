@@ -3,10 +3,15 @@ CREATE TABLE IF NOT EXISTS teacher_users (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   username TEXT UNIQUE NOT NULL,
   password_hash TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'teacher' CHECK (role IN ('admin', 'front_desk', 'teacher', 'display')),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Add the role column to existing installs
+ALTER TABLE teacher_users ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'teacher'
+  CHECK (role IN ('admin', 'front_desk', 'teacher', 'display'));
+
 -- Add a user_id column to the teachers table if it doesn't already exist
 ALTER TABLE teachers ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES teacher_users(id);
 
@@ -16,22 +21,15 @@ CREATE INDEX IF NOT EXISTS teacher_users_username_idx ON teacher_users(username)
 -- Create an index on the user_id in teachers table for faster lookups
 CREATE INDEX IF NOT EXISTS teachers_user_id_idx ON teachers(user_id);
 
--- Add RLS policies for teacher_users table
+-- Enable RLS for teacher_users table
+-- The role-based policies live in access_policies.sql because they need the session
+-- functions from auth_sessions.sql. Until that script runs the table is locked down.
 ALTER TABLE teacher_users ENABLE ROW LEVEL SECURITY;
 
--- Allow anyone to select from teacher_users (we'll handle authentication in our code)
-CREATE POLICY teacher_users_select_policy ON teacher_users
-  FOR SELECT USING (true);
-
--- Only allow authenticated users to insert/update/delete
-CREATE POLICY teacher_users_insert_policy ON teacher_users
-  FOR INSERT WITH CHECK (true);
-
-CREATE POLICY teacher_users_update_policy ON teacher_users
-  FOR UPDATE USING (true);
-
-CREATE POLICY teacher_users_delete_policy ON teacher_users
-  FOR DELETE USING (true);
+DROP POLICY IF EXISTS teacher_users_select_policy ON teacher_users;
+DROP POLICY IF EXISTS teacher_users_insert_policy ON teacher_users;
+DROP POLICY IF EXISTS teacher_users_update_policy ON teacher_users;
+DROP POLICY IF EXISTS teacher_users_delete_policy ON teacher_users;
 
 -- Function to hash passwords
 CREATE OR REPLACE FUNCTION hash_password(password TEXT)
@@ -47,8 +45,8 @@ RETURNS BOOLEAN AS $$
 DECLARE
   stored_hash TEXT;
 BEGIN
-  SELECT password_hash INTO stored_hash FROM teacher_users WHERE username = $1;
-  RETURN stored_hash = crypt(password, stored_hash);
+  SELECT teacher_users.password_hash INTO stored_hash FROM teacher_users WHERE teacher_users.username = $1;
+  RETURN COALESCE(stored_hash = crypt($2, stored_hash), FALSE);
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
@@ -0,0 +1,129 @@
+-- Sessions for staff accounts stored in teacher_users (see auth_schema.sql)
+-- Only a SHA-256 digest of each token is stored; the raw token lives in the browser
+-- and is sent with every request in the x-session-token header.
+CREATE TABLE IF NOT EXISTS teacher_sessions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES teacher_users(id) ON DELETE CASCADE,
+  token_hash TEXT UNIQUE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW() + INTERVAL '12 hours'
+);
+
+CREATE INDEX IF NOT EXISTS teacher_sessions_user_id_idx ON teacher_sessions(user_id);
+
+-- RLS with no policies: the table is only reachable through the functions below
+ALTER TABLE teacher_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Token sent by the client for the current request (empty string when missing)
+CREATE OR REPLACE FUNCTION request_session_token()
+RETURNS TEXT AS $$
+  SELECT COALESCE(current_setting('request.headers', true)::json->>'x-session-token', '');
+$$ LANGUAGE sql STABLE;
+
+-- Id of the teacher_users row behind the current request, or NULL
+CREATE OR REPLACE FUNCTION current_teacher_user_id()
+RETURNS UUID AS $$
+  SELECT s.user_id
+  FROM teacher_sessions s
+  WHERE s.token_hash = encode(digest(request_session_token(), 'sha256'), 'hex')
+    AND s.expires_at > NOW();
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Role of the account behind the current request, or NULL for anonymous requests
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS TEXT AS $$
+  SELECT u.role FROM teacher_users u WHERE u.id = current_teacher_user_id();
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- True when the current request comes from an account with one of the given roles
+CREATE OR REPLACE FUNCTION has_role(VARIADIC roles TEXT[])
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(current_user_role() = ANY(roles), FALSE);
+$$ LANGUAGE sql STABLE;
+
+-- login and validate_session gained a role column; drop the old signatures first
+DROP FUNCTION IF EXISTS login(TEXT, TEXT);
+DROP FUNCTION IF EXISTS validate_session();
+
+-- Exchange a username and password for a new session token
+CREATE OR REPLACE FUNCTION login(p_username TEXT, p_password TEXT)
+RETURNS TABLE (token TEXT, user_id UUID, username TEXT, role TEXT, expires_at TIMESTAMP WITH TIME ZONE) AS $$
+DECLARE
+  account teacher_users%ROWTYPE;
+  new_token TEXT;
+BEGIN
+  IF NOT verify_password(p_username, p_password) THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO account FROM teacher_users u WHERE u.username = p_username;
+  new_token := encode(gen_random_bytes(32), 'hex');
+
+  -- Clear out this account's expired sessions while we're here
+  DELETE FROM teacher_sessions s WHERE s.user_id = account.id AND s.expires_at <= NOW();
+
+  RETURN QUERY
+  INSERT INTO teacher_sessions (user_id, token_hash)
+  VALUES (account.id, encode(digest(new_token, 'sha256'), 'hex'))
+  RETURNING new_token, account.id, account.username, account.role, teacher_sessions.expires_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Session details for the token in the request headers (no rows when invalid or expired)
+CREATE OR REPLACE FUNCTION validate_session()
+RETURNS TABLE (user_id UUID, username TEXT, role TEXT, expires_at TIMESTAMP WITH TIME ZONE) AS $$
+  SELECT u.id, u.username, u.role, s.expires_at
+  FROM teacher_sessions s
+  JOIN teacher_users u ON u.id = s.user_id
+  WHERE s.token_hash = encode(digest(request_session_token(), 'sha256'), 'hex')
+    AND s.expires_at > NOW();
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- End the session for the token in the request headers
+CREATE OR REPLACE FUNCTION logout()
+RETURNS VOID AS $$
+  DELETE FROM teacher_sessions
+  WHERE token_hash = encode(digest(request_session_token(), 'sha256'), 'hex');
+$$ LANGUAGE sql SECURITY DEFINER;
+
+-- Create a staff account (admins only)
+CREATE OR REPLACE FUNCTION create_teacher_user(p_username TEXT, p_password TEXT, p_role TEXT)
+RETURNS UUID AS $$
+DECLARE
+  new_id UUID;
+BEGIN
+  IF NOT has_role('admin') THEN
+    RAISE EXCEPTION 'Only admins can create accounts' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO teacher_users (username, password_hash, role)
+  VALUES (p_username, hash_password(p_password), p_role)
+  RETURNING id INTO new_id;
+
+  RETURN new_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Reset an account's password and sign it out everywhere (admins only)
+CREATE OR REPLACE FUNCTION set_teacher_user_password(p_user_id UUID, p_password TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT has_role('admin') THEN
+    RAISE EXCEPTION 'Only admins can reset passwords' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE teacher_users SET password_hash = hash_password(p_password), updated_at = NOW()
+  WHERE id = p_user_id;
+
+  DELETE FROM teacher_sessions WHERE teacher_sessions.user_id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- NOTES:
+-- 1. Run auth_schema.sql first; this script relies on teacher_users, verify_password and pgcrypto.
+--
+-- 2. Accounts are created from the SQL editor, for example:
+--    INSERT INTO teacher_users (username, password_hash, role) VALUES ('jane', hash_password('a-strong-password'), 'admin');
+--    Further accounts can then be managed from Dashboard > Accounts.
+--
+-- 3. Run display_devices.sql and then access_policies.sql afterwards to apply the role-based RLS policies.
@@ -0,0 +1,71 @@
+-- Institute closures
+-- Public holidays, term breaks and other days without classes. A closure covers one or
+-- more whole days and either every grade (grades is NULL) or only the grades listed. The
+-- schedule page, the printable timetable and the presentation screen leave out the
+-- classes that fall in a closure and show a banner instead, and the workload report
+-- doesn't count them, so nobody has to cancel each class by hand.
+--
+-- A calendar event marked as a holiday closes the institute on its date: a trigger keeps
+-- one closure per such event, which is changed or removed through the event.
+--
+-- Run after access_policies.sql. Safe to re-run.
+
+ALTER TABLE calendar_events ADD COLUMN IF NOT EXISTS is_holiday BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE TABLE IF NOT EXISTS closures (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  title TEXT NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  -- NULL closes every grade
+  grades TEXT[],
+  calendar_event_id UUID UNIQUE REFERENCES calendar_events(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (end_date >= start_date),
+  CHECK (grades IS NULL OR cardinality(grades) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS closures_dates_idx ON closures(start_date, end_date);
+
+ALTER TABLE closures ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS closures_select_policy ON closures;
+DROP POLICY IF EXISTS closures_write_policy ON closures;
+
+-- Public, like the timetable itself
+CREATE POLICY closures_select_policy ON closures
+  FOR SELECT USING (true);
+
+-- Same staff as may edit class_schedules and calendar_events
+CREATE POLICY closures_write_policy ON closures
+  FOR ALL USING (has_role('admin', 'front_desk')) WITH CHECK (has_role('admin', 'front_desk'));
+
+-- Keep the closure of a holiday event in step with the event. Runs with the caller's
+-- rights; the staff who may edit events may also edit closures.
+CREATE OR REPLACE FUNCTION sync_holiday_closure()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_holiday THEN
+    INSERT INTO closures (title, start_date, end_date, calendar_event_id)
+    VALUES (NEW.title, NEW.event_date::DATE, NEW.event_date::DATE, NEW.id)
+    ON CONFLICT (calendar_event_id) DO UPDATE
+    SET title = EXCLUDED.title, start_date = EXCLUDED.start_date, end_date = EXCLUDED.end_date;
+  ELSE
+    DELETE FROM closures WHERE calendar_event_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS calendar_events_holiday_trigger ON calendar_events;
+
+CREATE TRIGGER calendar_events_holiday_trigger
+  AFTER INSERT OR UPDATE OF title, event_date, is_holiday ON calendar_events
+  FOR EACH ROW EXECUTE FUNCTION sync_holiday_closure();
+
+-- NOTES:
+-- 1. Closures don't create cancellations, so deleting a closure brings its classes back.
+--    A class cancelled by hand during a closure stays cancelled afterwards.
+--
+-- 2. Grades are matched on class_schedules.grade exactly, e.g. 'Grade 9'.
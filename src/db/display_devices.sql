@@ -0,0 +1,124 @@
+-- Paired display devices (presentation screens)
+-- An admin creates a one-time pairing code from Dashboard > Displays. The screen redeems
+-- it for a display token, which it sends in the x-display-token header. A display token
+-- can only read presentation data; it is not a staff session and never opens the dashboard.
+-- Only SHA-256 digests of codes and tokens are stored.
+CREATE TABLE IF NOT EXISTS display_devices (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  pairing_code_hash TEXT UNIQUE,
+  pairing_expires_at TIMESTAMP WITH TIME ZONE,
+  token_hash TEXT UNIQUE,
+  created_by UUID REFERENCES teacher_users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  paired_at TIMESTAMP WITH TIME ZONE,
+  last_seen_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Admins can list and remove devices; everything else goes through the functions below
+ALTER TABLE display_devices ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS display_devices_select_policy ON display_devices;
+DROP POLICY IF EXISTS display_devices_delete_policy ON display_devices;
+
+CREATE POLICY display_devices_select_policy ON display_devices
+  FOR SELECT USING (has_role('admin'));
+
+CREATE POLICY display_devices_delete_policy ON display_devices
+  FOR DELETE USING (has_role('admin'));
+
+REVOKE SELECT ON display_devices FROM anon, authenticated;
+GRANT SELECT (id, name, pairing_expires_at, created_at, paired_at, last_seen_at, revoked_at)
+  ON display_devices TO anon, authenticated;
+
+-- Display token sent by the client for the current request (empty string when missing)
+CREATE OR REPLACE FUNCTION request_display_token()
+RETURNS TEXT AS $$
+  SELECT COALESCE(current_setting('request.headers', true)::json->>'x-display-token', '');
+$$ LANGUAGE sql STABLE;
+
+-- Id of the paired, unrevoked display behind the current request, or NULL
+CREATE OR REPLACE FUNCTION current_display_device_id()
+RETURNS UUID AS $$
+  SELECT d.id
+  FROM display_devices d
+  WHERE d.token_hash = encode(digest(request_display_token(), 'sha256'), 'hex')
+    AND d.revoked_at IS NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION is_display_device()
+RETURNS BOOLEAN AS $$
+  SELECT current_display_device_id() IS NOT NULL;
+$$ LANGUAGE sql STABLE;
+
+-- Register a display and get a one-time pairing code valid for 15 minutes (admins only)
+CREATE OR REPLACE FUNCTION create_display_pairing_code(p_name TEXT)
+RETURNS TABLE (device_id UUID, code TEXT, expires_at TIMESTAMP WITH TIME ZONE) AS $$
+DECLARE
+  new_code TEXT;
+BEGIN
+  IF NOT has_role('admin') THEN
+    RAISE EXCEPTION 'Only admins can pair displays' USING ERRCODE = '42501';
+  END IF;
+
+  new_code := upper(encode(gen_random_bytes(4), 'hex'));
+
+  RETURN QUERY
+  INSERT INTO display_devices (name, pairing_code_hash, pairing_expires_at, created_by)
+  VALUES (p_name, encode(digest(new_code, 'sha256'), 'hex'), NOW() + INTERVAL '15 minutes', current_teacher_user_id())
+  RETURNING display_devices.id, new_code, display_devices.pairing_expires_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Exchange a pairing code for a display token (no rows when the code is wrong or expired)
+CREATE OR REPLACE FUNCTION redeem_display_pairing_code(p_code TEXT)
+RETURNS TABLE (device_id UUID, name TEXT, token TEXT) AS $$
+DECLARE
+  new_token TEXT;
+BEGIN
+  new_token := encode(gen_random_bytes(32), 'hex');
+
+  RETURN QUERY
+  UPDATE display_devices d
+  SET token_hash = encode(digest(new_token, 'sha256'), 'hex'),
+      pairing_code_hash = NULL,
+      pairing_expires_at = NULL,
+      paired_at = NOW(),
+      last_seen_at = NOW()
+  WHERE d.pairing_code_hash = encode(digest(upper(trim(p_code)), 'sha256'), 'hex')
+    AND d.pairing_expires_at > NOW()
+    AND d.revoked_at IS NULL
+  RETURNING d.id, d.name, new_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Details of the display behind the x-display-token header (no rows when unknown or revoked)
+CREATE OR REPLACE FUNCTION validate_display_device()
+RETURNS TABLE (device_id UUID, name TEXT) AS $$
+  UPDATE display_devices d
+  SET last_seen_at = NOW()
+  WHERE d.id = current_display_device_id()
+  RETURNING d.id, d.name;
+$$ LANGUAGE sql SECURITY DEFINER;
+
+-- Revoke a display; it falls back to the pairing screen on its next refresh (admins only)
+CREATE OR REPLACE FUNCTION revoke_display_device(p_device_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT has_role('admin') THEN
+    RAISE EXCEPTION 'Only admins can revoke displays' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE display_devices
+  SET revoked_at = NOW(), token_hash = NULL, pairing_code_hash = NULL, pairing_expires_at = NULL
+  WHERE id = p_device_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- NOTES:
+-- 1. Run after auth_sessions.sql and before access_policies.sql, which uses
+--    is_display_device() to let paired screens read the presentation tables.
+--
+-- 2. Realtime change events are not delivered to paired displays because they carry no
+--    staff session; the presentation page reloads every minute and picks changes up then.
@@ -22,46 +22,38 @@ CREATE INDEX IF NOT EXISTS gallery_images_tags_idx ON gallery_images USING GIN(t
 -- Set up Row Level Security (RLS)
 ALTER TABLE gallery_images ENABLE ROW LEVEL SECURITY;
 
--- Create a policy that allows authenticated users to select all records
+-- Remove the older wide-open policies if this script has been run before
+DROP POLICY IF EXISTS gallery_images_select_policy ON gallery_images;
+DROP POLICY IF EXISTS gallery_images_insert_policy ON gallery_images;
+DROP POLICY IF EXISTS gallery_images_update_policy ON gallery_images;
+DROP POLICY IF EXISTS gallery_images_delete_policy ON gallery_images;
+DROP POLICY IF EXISTS gallery_images_anon_select_policy ON gallery_images;
+DROP POLICY IF EXISTS gallery_images_anon_insert_policy ON gallery_images;
+DROP POLICY IF EXISTS gallery_images_anon_update_policy ON gallery_images;
+DROP POLICY IF EXISTS gallery_images_anon_delete_policy ON gallery_images;
+
+-- The public website shows the gallery, so anyone can read it
 CREATE POLICY gallery_images_select_policy ON gallery_images
-  FOR SELECT USING (auth.role() = 'authenticated');
+  FOR SELECT USING (true);
 
--- Create a policy that allows authenticated users to insert records
+-- Admins and front desk staff can upload images
 CREATE POLICY gallery_images_insert_policy ON gallery_images
-  FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+  FOR INSERT WITH CHECK (has_role('admin', 'front_desk'));
 
--- Create a policy that allows authenticated users to update their own records
+-- Admins and front desk staff can edit tags
 CREATE POLICY gallery_images_update_policy ON gallery_images
-  FOR UPDATE USING (auth.role() = 'authenticated');
+  FOR UPDATE USING (has_role('admin', 'front_desk'));
 
--- Create a policy that allows authenticated users to delete records
+-- Only admins can delete images
 CREATE POLICY gallery_images_delete_policy ON gallery_images
-  FOR DELETE USING (auth.role() = 'authenticated');
-
--- IMPORTANT: If you want to allow anonymous access, you can use the following policies instead:
-
--- Enable anonymous access for select
-CREATE POLICY gallery_images_anon_select_policy ON gallery_images
-  FOR SELECT USING (true);
-
--- Enable anonymous access for insert (if needed)
-CREATE POLICY gallery_images_anon_insert_policy ON gallery_images
-  FOR INSERT WITH CHECK (true);
-
--- Enable anonymous access for update (if needed)
-CREATE POLICY gallery_images_anon_update_policy ON gallery_images
-  FOR UPDATE USING (true);
-
--- Enable anonymous access for delete (if needed)
-CREATE POLICY gallery_images_anon_delete_policy ON gallery_images
-  FOR DELETE USING (true);
+  FOR DELETE USING (has_role('admin'));
 
 -- NOTES:
 -- 1. You need to have the uuid-ossp extension enabled for uuid_generate_v4() to work
 --    You can enable it with: CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 -- 
--- 2. If you're using Supabase, make sure you have set up authentication properly
---    and have the correct environment variables in your application.
+-- 2. The policies use has_role() from auth_sessions.sql, so run auth_schema.sql and
+--    auth_sessions.sql before this script.
 --
--- 3. If you encounter permission issues, you may need to adjust the RLS policies
---    or ensure your application is properly authenticated. 
\ No newline at end of file
+-- 3. If you encounter permission issues, check that you are signed in with an account
+--    whose role allows the operation (see src/lib/roles.ts). 
\ No newline at end of file
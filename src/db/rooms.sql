@@ -0,0 +1,114 @@
+-- Rooms
+-- class_schedules.room used to be free text only, so "Lab 1", "lab 1" and "Lab 1 " were
+-- three different rooms and nobody could tell which rooms were free. Rooms now have their
+-- own table with a capacity, a floor and an online flag, and the scheduling form picks
+-- from it. class_schedules.room keeps the room's name, because the conflict check,
+-- calendar feeds and teacher requests read it, and room_id links it to the rooms row. A
+-- trigger fills room_id in from the name, so every way of saving a class is linked.
+--
+-- Run after access_policies.sql and before schedule_conflicts.sql. Safe to re-run; the
+-- rooms already used by classes are added on the first run.
+
+CREATE TABLE IF NOT EXISTS rooms (
+  id BIGSERIAL PRIMARY KEY,
+  name TEXT NOT NULL CHECK (trim(name) <> ''),
+  capacity INTEGER CHECK (capacity > 0),
+  floor TEXT,
+  is_online BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Unique ignoring case and surrounding spaces, the way the conflict check compares rooms
+CREATE UNIQUE INDEX IF NOT EXISTS rooms_name_key ON rooms (lower(trim(name)));
+
+-- Public timetable reads them, admins and front desk manage them, admins delete
+ALTER TABLE rooms ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS rooms_select_policy ON rooms;
+DROP POLICY IF EXISTS rooms_insert_policy ON rooms;
+DROP POLICY IF EXISTS rooms_update_policy ON rooms;
+DROP POLICY IF EXISTS rooms_delete_policy ON rooms;
+
+CREATE POLICY rooms_select_policy ON rooms
+  FOR SELECT USING (true);
+
+CREATE POLICY rooms_insert_policy ON rooms
+  FOR INSERT WITH CHECK (has_role('admin', 'front_desk'));
+
+CREATE POLICY rooms_update_policy ON rooms
+  FOR UPDATE USING (has_role('admin', 'front_desk'));
+
+CREATE POLICY rooms_delete_policy ON rooms
+  FOR DELETE USING (has_role('admin'));
+
+ALTER TABLE class_schedules ADD COLUMN IF NOT EXISTS room_id BIGINT REFERENCES rooms(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS class_schedules_room_id_idx ON class_schedules(room_id);
+
+-- Links a class to the room with its name and writes the name the way the room spells
+-- it. Other names (e.g. an off-site venue) are kept as typed, without a room_id.
+CREATE OR REPLACE FUNCTION assign_schedule_room()
+RETURNS TRIGGER AS $$
+DECLARE
+  matched rooms%ROWTYPE;
+BEGIN
+  SELECT * INTO matched FROM rooms WHERE lower(trim(name)) = lower(trim(COALESCE(NEW.room, '')));
+
+  IF FOUND THEN
+    NEW.room_id := matched.id;
+    NEW.room := matched.name;
+  ELSE
+    NEW.room_id := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Named so it runs before class_schedules_conflict_trigger (triggers fire in name order)
+DROP TRIGGER IF EXISTS class_schedules_assign_room_trigger ON class_schedules;
+
+CREATE TRIGGER class_schedules_assign_room_trigger
+  BEFORE INSERT OR UPDATE OF room, room_id ON class_schedules
+  FOR EACH ROW EXECUTE FUNCTION assign_schedule_room();
+
+-- Renaming a room renames it on its classes
+CREATE OR REPLACE FUNCTION rename_room_on_schedules()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE class_schedules SET room = NEW.name WHERE room_id = NEW.id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS rooms_rename_trigger ON rooms;
+
+CREATE TRIGGER rooms_rename_trigger
+  AFTER UPDATE OF name ON rooms
+  FOR EACH ROW
+  WHEN (OLD.name IS DISTINCT FROM NEW.name)
+  EXECUTE FUNCTION rename_room_on_schedules();
+
+-- First run: one room per name already used by classes, in its most common spelling
+INSERT INTO rooms (name)
+SELECT DISTINCT ON (lower(trim(room))) trim(room)
+FROM class_schedules
+WHERE trim(COALESCE(room, '')) <> ''
+  AND NOT EXISTS (SELECT 1 FROM rooms)
+GROUP BY lower(trim(room)), trim(room)
+ORDER BY lower(trim(room)), count(*) DESC;
+
+-- Only room_id is set here so the conflict trigger doesn't re-check existing classes;
+-- the room trigger above still tidies up the spelling
+UPDATE class_schedules cs
+SET room_id = r.id
+FROM rooms r
+WHERE cs.room_id IS NULL
+  AND lower(trim(cs.room)) = lower(trim(r.name));
+
+-- NOTES:
+-- 1. Deleting a room leaves its name on its classes, without a room_id, so the timetable
+--    doesn't change; pick another room for them from the schedule page.
+--
+-- 2. Classes are still compared by room name in find_schedule_conflicts(). Renaming a
+--    room moves all of its classes together and is not re-checked there.
@@ -0,0 +1,165 @@
+-- Cancelled class occurrences
+-- Replaces class_schedules.canceled_dates, which stored 'M/d' strings and so cancelled the
+-- same day in every following year. Each cancellation is now a full date with a reason,
+-- the account that cancelled it and optionally the one-off class that makes up for it.
+--
+-- Run after schedule_recurrence.sql and before schedule_conflicts.sql. Safe to re-run;
+-- the canceled_dates column is converted and dropped on the first run.
+
+CREATE TABLE IF NOT EXISTS schedule_cancellations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  schedule_id BIGINT NOT NULL REFERENCES class_schedules(id) ON DELETE CASCADE,
+  occurrence_date DATE NOT NULL,
+  reason TEXT,
+  canceled_by UUID REFERENCES teacher_users(id) ON DELETE SET NULL DEFAULT current_teacher_user_id(),
+  makeup_schedule_id BIGINT REFERENCES class_schedules(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (schedule_id, occurrence_date),
+  CHECK (makeup_schedule_id IS DISTINCT FROM schedule_id)
+);
+
+CREATE INDEX IF NOT EXISTS schedule_cancellations_date_idx ON schedule_cancellations(occurrence_date);
+
+ALTER TABLE schedule_cancellations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS schedule_cancellations_select_policy ON schedule_cancellations;
+DROP POLICY IF EXISTS schedule_cancellations_insert_policy ON schedule_cancellations;
+DROP POLICY IF EXISTS schedule_cancellations_update_policy ON schedule_cancellations;
+DROP POLICY IF EXISTS schedule_cancellations_delete_policy ON schedule_cancellations;
+
+-- Public, like the timetable itself: the presentation screen shows the reasons
+CREATE POLICY schedule_cancellations_select_policy ON schedule_cancellations
+  FOR SELECT USING (true);
+
+-- Same staff as may edit class_schedules; canceled_by is always the signed-in account
+CREATE POLICY schedule_cancellations_insert_policy ON schedule_cancellations
+  FOR INSERT WITH CHECK (
+    has_role('admin', 'front_desk')
+    AND canceled_by IS NOT DISTINCT FROM current_teacher_user_id()
+  );
+
+CREATE POLICY schedule_cancellations_update_policy ON schedule_cancellations
+  FOR UPDATE USING (has_role('admin', 'front_desk')) WITH CHECK (has_role('admin', 'front_desk'));
+
+CREATE POLICY schedule_cancellations_delete_policy ON schedule_cancellations
+  FOR DELETE USING (has_role('admin', 'front_desk'));
+
+-- Convert canceled_dates. An 'M/d' tag has no year, so it becomes every date with that
+-- month and day on which the class actually ran, from the year it was created up to six
+-- months ahead. A given month and day only falls on the class's weekday every few years,
+-- so this is almost always a single date.
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'class_schedules' AND column_name = 'canceled_dates'
+  ) THEN
+    INSERT INTO schedule_cancellations (schedule_id, occurrence_date, reason, canceled_by)
+    SELECT DISTINCT cs.id, candidate.on_date, 'Cancelled before cancellation reasons were recorded', NULL::UUID
+    FROM class_schedules cs
+    CROSS JOIN LATERAL unnest(cs.canceled_dates) AS tag(value)
+    CROSS JOIN LATERAL generate_series(
+      EXTRACT(YEAR FROM COALESCE(cs.created_at, NOW()))::INTEGER,
+      EXTRACT(YEAR FROM CURRENT_DATE)::INTEGER + 1
+    ) AS year(value)
+    CROSS JOIN LATERAL (
+      SELECT split_part(tag.value, '/', 1)::INTEGER AS month, split_part(tag.value, '/', 2)::INTEGER AS day
+      WHERE tag.value ~ '^[0-9]{1,2}/[0-9]{1,2}$'
+    ) parts
+    CROSS JOIN LATERAL (
+      -- Built by adding months and days to Jan 1 because make_date() raises on dates that
+      -- don't exist, such as Feb 29 in most years; those roll over and are filtered below
+      SELECT (make_date(year.value, 1, 1) + (parts.month - 1) * INTERVAL '1 month' + (parts.day - 1) * INTERVAL '1 day')::DATE AS on_date
+    ) candidate
+    WHERE EXTRACT(MONTH FROM candidate.on_date) = parts.month
+      AND EXTRACT(DAY FROM candidate.on_date) = parts.day
+      AND candidate.on_date <= CURRENT_DATE + 183
+      AND schedule_occurs_on(cs, candidate.on_date)
+    ON CONFLICT (schedule_id, occurrence_date) DO NOTHING;
+
+    ALTER TABLE class_schedules DROP COLUMN canceled_dates;
+  END IF;
+END;
+$$;
+
+-- Only used by the old canceled_dates format
+DROP FUNCTION IF EXISTS schedule_cancel_tag(DATE);
+
+-- Move one occurrence of a class to another date, time and/or room, leaving the rest of
+-- the series alone. The occurrence is cancelled and a one-off copy of the class is added
+-- as its make-up class, which is what the schedule page shows as "moved from" and which
+-- keeps the class's capacity. Runs with the caller's rights, so the usual policies and
+-- the conflict check apply; p_allow_overlap is passed on to the conflict trigger (admins
+-- only). Returns the id of the new class.
+CREATE OR REPLACE FUNCTION move_schedule_occurrence(
+  p_schedule_id BIGINT,
+  p_occurrence_date DATE,
+  p_new_date DATE,
+  p_new_start_time TIME,
+  p_new_end_time TIME,
+  p_new_room TEXT DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL,
+  p_allow_overlap BOOLEAN DEFAULT FALSE
+)
+RETURNS BIGINT AS $$
+DECLARE
+  original class_schedules%ROWTYPE;
+  moved_id BIGINT;
+BEGIN
+  SELECT * INTO original FROM class_schedules WHERE id = p_schedule_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Class % not found', p_schedule_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT schedule_occurs_on(original, p_occurrence_date) THEN
+    RAISE EXCEPTION 'Class % does not run on %', p_schedule_id, p_occurrence_date USING ERRCODE = '22023';
+  END IF;
+
+  IF p_new_end_time <= p_new_start_time THEN
+    RAISE EXCEPTION 'The class must end after it starts' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM schedule_cancellations
+    WHERE schedule_id = p_schedule_id AND occurrence_date = p_occurrence_date
+  ) THEN
+    RAISE EXCEPTION 'Class % is already cancelled or moved on %', p_schedule_id, p_occurrence_date;
+  END IF;
+
+  -- Cancel first so the moved class doesn't clash with the occurrence it replaces
+  INSERT INTO schedule_cancellations (schedule_id, occurrence_date, reason)
+  VALUES (p_schedule_id, p_occurrence_date, p_reason);
+
+  INSERT INTO class_schedules (
+    teacher_id, subject, grade, curriculum, room, room_id, mode, description,
+    day, start_time, end_time, repeats, date_tag, capacity, allow_overlap
+  )
+  VALUES (
+    original.teacher_id, original.subject, original.grade, original.curriculum,
+    COALESCE(p_new_room, original.room), CASE WHEN p_new_room IS NULL THEN original.room_id END,
+    original.mode, original.description, schedule_weekday(p_new_date), p_new_start_time,
+    p_new_end_time, FALSE, to_char(p_new_date, 'YYYY-MM-DD'), original.capacity, p_allow_overlap
+  )
+  RETURNING id INTO moved_id;
+
+  UPDATE schedule_cancellations
+  SET makeup_schedule_id = moved_id
+  WHERE schedule_id = p_schedule_id AND occurrence_date = p_occurrence_date;
+
+  RETURN moved_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- NOTES:
+-- 1. Tags that are not 'M/d', or name a day that never falls on the class, are dropped
+--    with the column. The original rows stay in audit_log.
+--
+-- 2. Re-run teacher_portal.sql and schedule_conflicts.sql afterwards: approving a request
+--    and the conflict check both read this table instead of canceled_dates.
+--
+-- 3. Deleting a cancellation restores the occurrence. Deleting the make-up class keeps
+--    the cancellation and clears the link, so undoing a move means deleting both.
+--
+-- 4. move_schedule_occurrence() needs schedule_conflicts.sql for the allow_overlap column,
+--    rooms.sql for room_id and students.sql for capacity.
@@ -0,0 +1,160 @@
+-- Schedule conflict detection
+-- A class may not overlap another class of the same teacher or another class in the same
+-- room. find_schedule_conflicts() lists the clashes for a proposed class so the schedule
+-- page can show them before saving, and a trigger runs the same check on every insert or
+-- update so nothing (including approved teacher requests) can double-book behind its back.
+-- Admins can still save a deliberate overlap by setting allow_overlap on that save.
+--
+-- Run after schedule_cancellations.sql, rooms.sql and schedule_substitutions.sql, and before
+-- audit_log.sql. Safe to re-run.
+
+-- Set by the client for a save that should go through despite a clash
+ALTER TABLE class_schedules ADD COLUMN IF NOT EXISTS allow_overlap BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Signatures before recurrence rules were added and before cancellations moved to their
+-- own table
+DROP FUNCTION IF EXISTS find_schedule_conflicts(BIGINT, BIGINT, TEXT, TEXT, TEXT, BOOLEAN, TIME, TIME, TEXT[]);
+DROP FUNCTION IF EXISTS find_schedule_conflicts(
+  BIGINT, BIGINT, TEXT, TEXT, TEXT, BOOLEAN, TIME, TIME, TEXT[], DATE, DATE, INTEGER, TEXT[]
+);
+
+-- Classes that clash with the proposed class, and whether the teacher, the room or both
+-- are double-booked. Teachers are matched by name because a teacher has one teachers row
+-- per subject. p_schedule_id is the class being edited (NULL for a new one).
+--
+-- Two classes clash when they share a date on which neither is cancelled. A repeating
+-- class is compared over its upcoming year (or until its term ends), which covers every
+-- combination of "every N weeks" rules. An occurrence with a substitute (see
+-- schedule_substitutions.sql) is taught by the substitute on that date, not by the class's
+-- own teacher.
+CREATE OR REPLACE FUNCTION find_schedule_conflicts(
+  p_schedule_id BIGINT,
+  p_teacher_id BIGINT,
+  p_room TEXT,
+  p_day TEXT,
+  p_date_tag TEXT,
+  p_repeats BOOLEAN,
+  p_start_time TIME,
+  p_end_time TIME,
+  p_weekdays TEXT[] DEFAULT NULL,
+  p_starts_on DATE DEFAULT NULL,
+  p_ends_on DATE DEFAULT NULL,
+  p_repeat_interval_weeks INTEGER DEFAULT 1
+)
+RETURNS TABLE (schedule_id BIGINT, teacher_clash BOOLEAN, room_clash BOOLEAN) AS $$
+  WITH proposed AS (
+    SELECT
+      (SELECT t.name FROM teachers t WHERE t.id = p_teacher_id) AS teacher_name,
+      lower(trim(COALESCE(p_room, ''))) AS room,
+      window_start,
+      CASE WHEN p_repeats THEN LEAST(p_ends_on, window_start + 364) ELSE window_start END AS window_end
+    FROM (
+      SELECT CASE
+        WHEN p_repeats THEN GREATEST(p_starts_on, CURRENT_DATE)
+        ELSE NULLIF(p_date_tag, '')::DATE
+      END AS window_start
+    ) w
+  ),
+  candidates AS (
+    SELECT
+      cs.*,
+      t.name AS teacher_name,
+      lower(trim(COALESCE(cs.room, ''))) AS room_key
+    FROM class_schedules cs
+    JOIN teachers t ON t.id = cs.teacher_id
+    WHERE cs.id IS DISTINCT FROM p_schedule_id
+      AND cs.start_time::TIME < p_end_time
+      AND p_start_time < cs.end_time::TIME
+  ),
+  substitutes AS (
+    SELECT ss.schedule_id, ss.occurrence_date, t.name AS teacher_name
+    FROM schedule_substitutions ss
+    JOIN teachers t ON t.id = ss.teacher_id
+  ),
+  -- Each shared date on which neither class is cancelled, with who teaches either class then
+  shared_dates AS (
+    SELECT
+      c.id,
+      COALESCE(c_sub.teacher_name, c.teacher_name) = COALESCE(p_sub.teacher_name, p.teacher_name) AS teacher_clash,
+      p.room <> '' AND c.room_key = p.room AS room_clash
+    FROM candidates c
+    CROSS JOIN proposed p
+    CROSS JOIN generate_series(p.window_start, p.window_end, INTERVAL '1 day') AS d(on_date)
+    LEFT JOIN substitutes c_sub ON c_sub.schedule_id = c.id AND c_sub.occurrence_date = d.on_date::DATE
+    LEFT JOIN substitutes p_sub ON p_sub.schedule_id = p_schedule_id AND p_sub.occurrence_date = d.on_date::DATE
+    WHERE schedule_rule_occurs_on(
+        d.on_date::DATE, p_repeats, p_day, p_date_tag, p_weekdays, p_starts_on, p_ends_on, p_repeat_interval_weeks
+      )
+      AND schedule_rule_occurs_on(
+        d.on_date::DATE, c.repeats, c.day, c.date_tag, c.weekdays, c.starts_on, c.ends_on, c.repeat_interval_weeks
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM schedule_cancellations sc
+        WHERE sc.schedule_id IN (c.id, p_schedule_id) AND sc.occurrence_date = d.on_date::DATE
+      )
+  )
+  SELECT id, bool_or(teacher_clash), bool_or(room_clash)
+  FROM shared_dates
+  WHERE teacher_clash OR room_clash
+  GROUP BY id;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION check_schedule_conflicts()
+RETURNS TRIGGER AS $$
+DECLARE
+  clash_count INTEGER;
+BEGIN
+  IF NEW.allow_overlap THEN
+    IF NOT has_role('admin') THEN
+      RAISE EXCEPTION 'Only admins can save overlapping classes' USING ERRCODE = '42501';
+    END IF;
+
+    -- The override applies to this save only
+    NEW.allow_overlap := FALSE;
+    RETURN NEW;
+  END IF;
+
+  -- A renamed room (see rooms.sql) renames all of its classes at once, which can't add a clash
+  IF TG_OP = 'UPDATE' AND NEW.room_id IS NOT NULL AND NEW.room_id = OLD.room_id
+    AND (NEW.teacher_id, NEW.day, NEW.date_tag, NEW.repeats, NEW.start_time, NEW.end_time,
+         NEW.weekdays, NEW.starts_on, NEW.ends_on, NEW.repeat_interval_weeks)
+      IS NOT DISTINCT FROM
+        (OLD.teacher_id, OLD.day, OLD.date_tag, OLD.repeats, OLD.start_time, OLD.end_time,
+         OLD.weekdays, OLD.starts_on, OLD.ends_on, OLD.repeat_interval_weeks) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT count(*) INTO clash_count
+  FROM find_schedule_conflicts(
+    NEW.id, NEW.teacher_id, NEW.room, NEW.day, NEW.date_tag, NEW.repeats,
+    NEW.start_time::TIME, NEW.end_time::TIME,
+    NEW.weekdays, NEW.starts_on, NEW.ends_on, NEW.repeat_interval_weeks
+  );
+
+  IF clash_count > 0 THEN
+    RAISE EXCEPTION 'Class overlaps % other class(es) of the same teacher or room', clash_count
+      USING ERRCODE = '23P01', HINT = 'Call find_schedule_conflicts() to list them';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only re-check when something that decides a clash changes, so editing the description of an existing overlap still works
+DROP TRIGGER IF EXISTS class_schedules_conflict_trigger ON class_schedules;
+
+CREATE TRIGGER class_schedules_conflict_trigger
+  BEFORE INSERT OR UPDATE OF
+    teacher_id, room, day, date_tag, repeats, start_time, end_time,
+    weekdays, starts_on, ends_on, repeat_interval_weeks, allow_overlap
+  ON class_schedules
+  FOR EACH ROW EXECUTE FUNCTION check_schedule_conflicts();
+
+-- NOTES:
+-- 1. Existing overlaps are left alone; they only have to be resolved (or overridden)
+--    the next time one of the classes is moved.
+--
+-- 2. Classes without a room never clash on room, only on teacher.
+--
+-- 3. Approving a reschedule request into a slot that is already taken fails with the
+--    same error; move or override the other class first.
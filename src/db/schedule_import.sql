@@ -0,0 +1,56 @@
+-- Bulk schedule import
+-- The import wizard on the schedule page sends every class of a file in one call, so a
+-- term is either imported completely or not at all. Each row is inserted on its own so
+-- the conflict trigger also sees the rows imported before it and catches clashes inside
+-- the file, not only with classes that already exist.
+--
+-- Run after schedule_conflicts.sql. Safe to re-run.
+
+-- p_rows is a JSON array of class_schedules rows without id. Runs with the caller's
+-- rights, so only staff who may add classes can import, and allow_overlap on a row still
+-- needs an admin. Returns the number of classes added.
+CREATE OR REPLACE FUNCTION import_class_schedules(p_rows JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+  row_data class_schedules%ROWTYPE;
+  row_number INTEGER := 0;
+BEGIN
+  IF jsonb_typeof(p_rows) <> 'array' THEN
+    RAISE EXCEPTION 'p_rows must be a JSON array' USING ERRCODE = '22023';
+  END IF;
+
+  FOR row_data IN SELECT * FROM jsonb_populate_recordset(NULL::class_schedules, p_rows) LOOP
+    row_number := row_number + 1;
+
+    BEGIN
+      INSERT INTO class_schedules (
+        teacher_id, subject, grade, curriculum, room, room_id, mode, description,
+        day, start_time, end_time, repeats, date_tag,
+        weekdays, starts_on, ends_on, repeat_interval_weeks, capacity, allow_overlap
+      )
+      VALUES (
+        row_data.teacher_id, row_data.subject, row_data.grade, row_data.curriculum,
+        COALESCE(row_data.room, ''), row_data.room_id, COALESCE(row_data.mode, 'Class'),
+        COALESCE(row_data.description, ''), row_data.day, row_data.start_time, row_data.end_time,
+        COALESCE(row_data.repeats, FALSE), COALESCE(row_data.date_tag, ''), row_data.weekdays,
+        row_data.starts_on, row_data.ends_on, COALESCE(row_data.repeat_interval_weeks, 1),
+        row_data.capacity, COALESCE(row_data.allow_overlap, FALSE)
+      );
+    EXCEPTION WHEN OTHERS THEN
+      -- Keep the original error code (e.g. 23P01 for a clash) and say which row failed
+      RAISE EXCEPTION 'Row %: %', row_number, SQLERRM USING ERRCODE = SQLSTATE;
+    END;
+  END LOOP;
+
+  RETURN row_number;
+END;
+$$ LANGUAGE plpgsql;
+
+-- NOTES:
+-- 1. Row numbers in errors count the classes sent, not the lines of the original file;
+--    the wizard only sends rows that passed its own checks.
+--
+-- 2. Every imported class shows up in audit_log as a separate insert.
+--
+-- 3. import_class_schedules() needs rooms.sql and students.sql for the room_id and
+--    capacity columns.
@@ -0,0 +1,60 @@
+-- Live schedule updates
+-- The schedule page subscribes to changes of class_schedules and teachers through
+-- Supabase Realtime, so two people editing the timetable at once see each other's
+-- changes without reloading. updated_by records the account behind the latest insert or
+-- update of a row, which lets the page highlight changes made by someone else.
+--
+-- Run after access_policies.sql. Safe to re-run.
+
+ALTER TABLE class_schedules
+  ADD COLUMN IF NOT EXISTS updated_by UUID REFERENCES teacher_users(id) ON DELETE SET NULL;
+
+ALTER TABLE teachers
+  ADD COLUMN IF NOT EXISTS updated_by UUID REFERENCES teacher_users(id) ON DELETE SET NULL;
+
+-- Set on every write, so a client can't claim someone else's change
+CREATE OR REPLACE FUNCTION set_updated_by()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_by := current_teacher_user_id();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS class_schedules_updated_by_trigger ON class_schedules;
+
+CREATE TRIGGER class_schedules_updated_by_trigger
+  BEFORE INSERT OR UPDATE ON class_schedules
+  FOR EACH ROW EXECUTE FUNCTION set_updated_by();
+
+DROP TRIGGER IF EXISTS teachers_updated_by_trigger ON teachers;
+
+CREATE TRIGGER teachers_updated_by_trigger
+  BEFORE INSERT OR UPDATE ON teachers
+  FOR EACH ROW EXECUTE FUNCTION set_updated_by();
+
+-- Publish both tables to Realtime; ALTER PUBLICATION fails for a table already in it
+DO $$
+DECLARE
+  table_name TEXT;
+BEGIN
+  FOREACH table_name IN ARRAY ARRAY['class_schedules', 'teachers'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = table_name
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', table_name);
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- NOTES:
+-- 1. Realtime sends only the id of a deleted row, so deletions can't be told apart by
+--    who made them; the page removes the class without highlighting anything.
+--
+-- 2. Rows written from the SQL editor or by a scheduled job have no signed-in account,
+--    so updated_by is NULL and every open schedule page highlights them.
+--
+-- 3. Cancellations, substitutes and closures aren't published; the page loads them
+--    again when its dates change or after its own edits.
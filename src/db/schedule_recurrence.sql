@@ -0,0 +1,80 @@
+-- Schedule recurrence rules
+-- A repeating class used to run on its weekday forever. It can now be bounded by a term
+-- (starts_on / ends_on), run every N weeks and on several weekdays. One-off classes keep
+-- using date_tag. schedule_rule_occurs_on() is the database copy of occursOn() in
+-- src/lib/recurrence.ts; keep the two in sync.
+--
+-- Run after teacher_portal.sql and before schedule_cancellations.sql. Safe to re-run.
+
+ALTER TABLE class_schedules ADD COLUMN IF NOT EXISTS starts_on DATE;
+ALTER TABLE class_schedules ADD COLUMN IF NOT EXISTS ends_on DATE;
+ALTER TABLE class_schedules ADD COLUMN IF NOT EXISTS repeat_interval_weeks INTEGER NOT NULL DEFAULT 1;
+-- Weekday names ("Monday"); NULL means just the day column
+ALTER TABLE class_schedules ADD COLUMN IF NOT EXISTS weekdays TEXT[];
+
+ALTER TABLE class_schedules DROP CONSTRAINT IF EXISTS class_schedules_recurrence_check;
+
+ALTER TABLE class_schedules ADD CONSTRAINT class_schedules_recurrence_check CHECK (
+  repeat_interval_weeks BETWEEN 1 AND 52
+  AND (ends_on IS NULL OR starts_on IS NULL OR ends_on >= starts_on)
+  -- Every N weeks needs a first week to count from
+  AND (repeat_interval_weeks = 1 OR starts_on IS NOT NULL)
+  AND (weekdays IS NULL OR weekdays <@ ARRAY['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'])
+);
+
+-- Weekday name in the format of class_schedules.day ("Monday")
+CREATE OR REPLACE FUNCTION schedule_weekday(p_date DATE)
+RETURNS TEXT AS $$
+  SELECT trim(to_char(p_date, 'Day'));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Whether a class with the given rule runs on a date, ignoring cancellations
+CREATE OR REPLACE FUNCTION schedule_rule_occurs_on(
+  p_date DATE,
+  p_repeats BOOLEAN,
+  p_day TEXT,
+  p_date_tag TEXT,
+  p_weekdays TEXT[],
+  p_starts_on DATE,
+  p_ends_on DATE,
+  p_repeat_interval_weeks INTEGER
+)
+RETURNS BOOLEAN AS $$
+  SELECT CASE
+    WHEN NOT p_repeats THEN
+      COALESCE(NULLIF(p_date_tag, '')::DATE = p_date, FALSE)
+    ELSE
+      (p_starts_on IS NULL OR p_date >= p_starts_on)
+      AND (p_ends_on IS NULL OR p_date <= p_ends_on)
+      AND schedule_weekday(p_date) = ANY(COALESCE(NULLIF(p_weekdays, '{}'), ARRAY[p_day]))
+      -- Weeks start on Monday, as on the schedule page
+      AND (
+        COALESCE(p_repeat_interval_weeks, 1) = 1
+        OR p_starts_on IS NULL
+        OR ((date_trunc('week', p_date)::DATE - date_trunc('week', p_starts_on)::DATE) / 7) % p_repeat_interval_weeks = 0
+      )
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION schedule_occurs_on(p_schedule class_schedules, p_date DATE)
+RETURNS BOOLEAN AS $$
+  SELECT schedule_rule_occurs_on(
+    p_date,
+    p_schedule.repeats,
+    p_schedule.day,
+    p_schedule.date_tag,
+    p_schedule.weekdays,
+    p_schedule.starts_on,
+    p_schedule.ends_on,
+    p_schedule.repeat_interval_weeks
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- NOTES:
+-- 1. Existing classes keep their behaviour: no term bounds, every week, on their day.
+--
+-- 2. The day column still holds the first weekday of a repeating class so older clients
+--    and filters by day keep working.
+--
+-- 3. After running this on a database that already has schedule_conflicts.sql, re-run
+--    schedule_conflicts.sql so the conflict check follows the new rules.
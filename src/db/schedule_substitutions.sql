@@ -0,0 +1,137 @@
+-- Substitute teachers
+-- A substitute takes one occurrence of a class, e.g. while its teacher is sick, without
+-- cancelling it or changing the teacher of the whole series. The schedule page and the
+-- presentation screen show the occurrence as "Sub: <name>", it counts towards the
+-- substitute's hours, and it appears under the substitute (not the class's own teacher)
+-- when the timetable is filtered by teacher. The conflict check counts it against the
+-- substitute's time rather than the class's own teacher's.
+--
+-- Run after schedule_cancellations.sql and before schedule_conflicts.sql. Safe to re-run.
+
+CREATE TABLE IF NOT EXISTS schedule_substitutions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  schedule_id BIGINT NOT NULL REFERENCES class_schedules(id) ON DELETE CASCADE,
+  occurrence_date DATE NOT NULL,
+  teacher_id BIGINT NOT NULL REFERENCES teachers(id) ON DELETE CASCADE,
+  reason TEXT,
+  assigned_by UUID REFERENCES teacher_users(id) ON DELETE SET NULL DEFAULT current_teacher_user_id(),
+  -- Set by the client for a save that should go through although the substitute is busy
+  allow_overlap BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (schedule_id, occurrence_date)
+);
+
+CREATE INDEX IF NOT EXISTS schedule_substitutions_date_idx ON schedule_substitutions(occurrence_date);
+CREATE INDEX IF NOT EXISTS schedule_substitutions_teacher_id_idx ON schedule_substitutions(teacher_id);
+
+ALTER TABLE schedule_substitutions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS schedule_substitutions_select_policy ON schedule_substitutions;
+DROP POLICY IF EXISTS schedule_substitutions_insert_policy ON schedule_substitutions;
+DROP POLICY IF EXISTS schedule_substitutions_update_policy ON schedule_substitutions;
+DROP POLICY IF EXISTS schedule_substitutions_delete_policy ON schedule_substitutions;
+
+-- Public, like cancellations: the timetable and the presentation screen show substitutes
+CREATE POLICY schedule_substitutions_select_policy ON schedule_substitutions
+  FOR SELECT USING (true);
+
+-- Same staff as may cancel a class; assigned_by is always the signed-in account
+CREATE POLICY schedule_substitutions_insert_policy ON schedule_substitutions
+  FOR INSERT WITH CHECK (
+    has_role('admin', 'front_desk')
+    AND assigned_by IS NOT DISTINCT FROM current_teacher_user_id()
+  );
+
+CREATE POLICY schedule_substitutions_update_policy ON schedule_substitutions
+  FOR UPDATE USING (has_role('admin', 'front_desk')) WITH CHECK (has_role('admin', 'front_desk'));
+
+CREATE POLICY schedule_substitutions_delete_policy ON schedule_substitutions
+  FOR DELETE USING (has_role('admin', 'front_desk'));
+
+-- The occurrence has to exist and still run, the substitute has to be someone other than
+-- the class's own teacher, and the substitute may not be teaching or covering another
+-- class at the same time that day. Admins can override the last check with allow_overlap.
+-- Teachers are matched by name, as in find_schedule_conflicts().
+CREATE OR REPLACE FUNCTION check_schedule_substitution()
+RETURNS TRIGGER AS $$
+DECLARE
+  original class_schedules%ROWTYPE;
+  substitute_name TEXT;
+BEGIN
+  SELECT * INTO original FROM class_schedules WHERE id = NEW.schedule_id;
+
+  IF NOT schedule_occurs_on(original, NEW.occurrence_date) THEN
+    RAISE EXCEPTION 'Class % does not run on %', NEW.schedule_id, NEW.occurrence_date USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM schedule_cancellations
+    WHERE schedule_id = NEW.schedule_id AND occurrence_date = NEW.occurrence_date
+  ) THEN
+    RAISE EXCEPTION 'Class % is cancelled or moved on %', NEW.schedule_id, NEW.occurrence_date USING ERRCODE = '22023';
+  END IF;
+
+  SELECT name INTO substitute_name FROM teachers WHERE id = NEW.teacher_id;
+
+  IF substitute_name = (SELECT name FROM teachers WHERE id = original.teacher_id) THEN
+    RAISE EXCEPTION 'The substitute must be another teacher' USING ERRCODE = '22023';
+  END IF;
+
+  IF NEW.allow_overlap THEN
+    IF NOT has_role('admin') THEN
+      RAISE EXCEPTION 'Only admins can assign a substitute who is busy' USING ERRCODE = '42501';
+    END IF;
+
+    -- The override applies to this save only
+    NEW.allow_overlap := FALSE;
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    -- Their own classes that day, unless cancelled or handed to a substitute
+    SELECT 1
+    FROM class_schedules cs
+    JOIN teachers t ON t.id = cs.teacher_id
+    WHERE t.name = substitute_name
+      AND cs.id <> NEW.schedule_id
+      AND cs.start_time::TIME < original.end_time::TIME
+      AND original.start_time::TIME < cs.end_time::TIME
+      AND schedule_occurs_on(cs, NEW.occurrence_date)
+      AND NOT EXISTS (
+        SELECT 1 FROM schedule_cancellations sc
+        WHERE sc.schedule_id = cs.id AND sc.occurrence_date = NEW.occurrence_date
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM schedule_substitutions ss
+        WHERE ss.schedule_id = cs.id AND ss.occurrence_date = NEW.occurrence_date
+      )
+  ) OR EXISTS (
+    -- Other classes they cover that day
+    SELECT 1
+    FROM schedule_substitutions ss
+    JOIN teachers t ON t.id = ss.teacher_id
+    JOIN class_schedules cs ON cs.id = ss.schedule_id
+    WHERE t.name = substitute_name
+      AND ss.occurrence_date = NEW.occurrence_date
+      AND ss.schedule_id <> NEW.schedule_id
+      AND cs.start_time::TIME < original.end_time::TIME
+      AND original.start_time::TIME < cs.end_time::TIME
+  ) THEN
+    RAISE EXCEPTION 'The substitute teaches another class at that time' USING ERRCODE = '23P01';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS schedule_substitutions_check_trigger ON schedule_substitutions;
+
+CREATE TRIGGER schedule_substitutions_check_trigger
+  BEFORE INSERT OR UPDATE OF schedule_id, occurrence_date, teacher_id, allow_overlap
+  ON schedule_substitutions
+  FOR EACH ROW EXECUTE FUNCTION check_schedule_substitution();
+
+-- NOTES:
+-- 1. Cancelling an occurrence that has a substitute keeps the substitution, which shows
+--    again if the cancellation is deleted. A moved occurrence's make-up class starts
+--    without a substitute.
@@ -0,0 +1,57 @@
+-- Schedule templates
+-- Each term looks mostly like the last, so the classes of a term can be saved under a
+-- name and cloned into the dates of a later term (or one week copied over several weeks)
+-- from the schedule page. A template is a snapshot: it keeps the class rules as they were
+-- when it was saved, in the same shape import_class_schedules() takes, and cloning adds
+-- new classes through that function after a preview.
+--
+-- Run after schedule_import.sql. Safe to re-run.
+
+CREATE TABLE IF NOT EXISTS schedule_templates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL UNIQUE,
+  -- The dates the classes were taken from; cloning shifts one-off dates and class start
+  -- and end dates by the whole weeks between starts_on and the new first day
+  starts_on DATE NOT NULL,
+  ends_on DATE NOT NULL,
+  -- JSON array of class_schedules rows without id, with their room_id and capacity
+  classes JSONB NOT NULL,
+  created_by UUID REFERENCES teacher_users(id) ON DELETE SET NULL DEFAULT current_teacher_user_id(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (ends_on >= starts_on),
+  CHECK (jsonb_typeof(classes) = 'array')
+);
+
+ALTER TABLE schedule_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS schedule_templates_select_policy ON schedule_templates;
+DROP POLICY IF EXISTS schedule_templates_insert_policy ON schedule_templates;
+DROP POLICY IF EXISTS schedule_templates_update_policy ON schedule_templates;
+DROP POLICY IF EXISTS schedule_templates_delete_policy ON schedule_templates;
+
+-- Only the staff who can add classes use templates
+CREATE POLICY schedule_templates_select_policy ON schedule_templates
+  FOR SELECT USING (has_role('admin', 'front_desk'));
+
+CREATE POLICY schedule_templates_insert_policy ON schedule_templates
+  FOR INSERT WITH CHECK (
+    has_role('admin', 'front_desk')
+    AND created_by IS NOT DISTINCT FROM current_teacher_user_id()
+  );
+
+CREATE POLICY schedule_templates_update_policy ON schedule_templates
+  FOR UPDATE USING (has_role('admin', 'front_desk')) WITH CHECK (has_role('admin', 'front_desk'));
+
+-- Like classes, only admins delete
+CREATE POLICY schedule_templates_delete_policy ON schedule_templates
+  FOR DELETE USING (has_role('admin'));
+
+-- NOTES:
+-- 1. Template classes refer to teachers by id. A class whose teacher row has since been
+--    deleted is left out when the template is cloned.
+--
+-- 2. A class that repeats every few weeks keeps its cycle. When the new dates cut it
+--    short, it starts in the first week of its cycle on or after the new first day.
+--
+-- 3. Classes keep their capacity when cloned. Templates saved before capacity was kept
+--    clone their classes without one.
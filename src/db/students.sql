@@ -0,0 +1,160 @@
+-- Students and enrollments
+-- The timetable knew about classes but not who sits in them. Students have their own
+-- table, and an enrollment puts a student either in one class (schedule_id) or in every
+-- class of a group: a grade and curriculum, optionally only one subject, so a student
+-- enrolled in "Grade 9 Edexcel" is on the roster of each Grade 9 Edexcel class, including
+-- ones added later. A class can have a capacity; an enrollment that would put more
+-- students in a class than its capacity is refused by a trigger.
+--
+-- Run after rooms.sql. Safe to re-run.
+
+CREATE TABLE IF NOT EXISTS students (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL CHECK (trim(name) <> ''),
+  grade TEXT,
+  curriculum TEXT,
+  guardian_name TEXT,
+  phone TEXT,
+  email TEXT,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS enrollments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  schedule_id BIGINT REFERENCES class_schedules(id) ON DELETE CASCADE,
+  -- A group, when schedule_id is NULL; a NULL subject covers every subject
+  grade TEXT,
+  curriculum TEXT,
+  subject TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (
+    (schedule_id IS NOT NULL AND grade IS NULL AND curriculum IS NULL AND subject IS NULL)
+    OR (schedule_id IS NULL AND grade IS NOT NULL AND curriculum IS NOT NULL)
+  )
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS enrollments_class_key
+  ON enrollments (student_id, schedule_id) WHERE schedule_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS enrollments_group_key
+  ON enrollments (student_id, grade, curriculum, COALESCE(subject, '')) WHERE schedule_id IS NULL;
+CREATE INDEX IF NOT EXISTS enrollments_schedule_id_idx ON enrollments(schedule_id);
+
+-- NULL means no limit
+ALTER TABLE class_schedules ADD COLUMN IF NOT EXISTS capacity INTEGER CHECK (capacity > 0);
+
+-- Students' contact details are for staff only: admins and front desk manage students
+-- and enrollments, only admins delete students
+ALTER TABLE students ENABLE ROW LEVEL SECURITY;
+ALTER TABLE enrollments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS students_select_policy ON students;
+DROP POLICY IF EXISTS students_insert_policy ON students;
+DROP POLICY IF EXISTS students_update_policy ON students;
+DROP POLICY IF EXISTS students_delete_policy ON students;
+DROP POLICY IF EXISTS enrollments_write_policy ON enrollments;
+
+CREATE POLICY students_select_policy ON students
+  FOR SELECT USING (has_role('admin', 'front_desk'));
+
+CREATE POLICY students_insert_policy ON students
+  FOR INSERT WITH CHECK (has_role('admin', 'front_desk'));
+
+CREATE POLICY students_update_policy ON students
+  FOR UPDATE USING (has_role('admin', 'front_desk'));
+
+CREATE POLICY students_delete_policy ON students
+  FOR DELETE USING (has_role('admin'));
+
+CREATE POLICY enrollments_write_policy ON enrollments
+  FOR ALL USING (has_role('admin', 'front_desk')) WITH CHECK (has_role('admin', 'front_desk'));
+
+-- Whether an enrollment (one class, or a group when p_schedule_id is NULL) includes a class
+CREATE OR REPLACE FUNCTION enrollment_includes(
+  p_schedule_id BIGINT,
+  p_grade TEXT,
+  p_curriculum TEXT,
+  p_subject TEXT,
+  p_class class_schedules
+)
+RETURNS BOOLEAN AS $$
+  SELECT CASE
+    WHEN p_schedule_id IS NOT NULL THEN p_class.id = p_schedule_id
+    ELSE p_class.grade = p_grade
+      AND p_class.curriculum = p_curriculum
+      AND (p_subject IS NULL OR p_class.subject = p_subject)
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- The students on the rosters of the given classes, once per class each. The make-up
+-- class of a moved occurrence also has the students enrolled in the class it was moved
+-- from. A student enrolled both in the class and in its group is listed with the class
+-- enrollment.
+CREATE OR REPLACE FUNCTION class_rosters(p_schedule_ids BIGINT[])
+RETURNS TABLE (schedule_id BIGINT, enrollment_id UUID, student_id UUID) AS $$
+  SELECT DISTINCT ON (cs.id, e.student_id) cs.id, e.id, e.student_id
+  FROM class_schedules cs
+  LEFT JOIN schedule_cancellations moved ON moved.makeup_schedule_id = cs.id
+  JOIN enrollments e
+    ON enrollment_includes(e.schedule_id, e.grade, e.curriculum, e.subject, cs)
+    OR e.schedule_id = moved.schedule_id
+  WHERE cs.id = ANY(p_schedule_ids)
+  ORDER BY cs.id, e.student_id, e.schedule_id IS NULL;
+$$ LANGUAGE sql STABLE;
+
+-- Refuses an enrollment that puts a student in a class that is already full, including
+-- the make-up classes of a class's moved occurrences, with its own error code (P0C01) so
+-- the dashboard can tell it from other errors. The classes are locked so two enrollments
+-- saved at once can't both take the last seat.
+CREATE OR REPLACE FUNCTION check_class_capacity()
+RETURNS TRIGGER AS $$
+DECLARE
+  full_class class_schedules%ROWTYPE;
+  enrolled INTEGER;
+BEGIN
+  FOR full_class IN
+    SELECT * FROM class_schedules cs
+    WHERE cs.capacity IS NOT NULL
+      AND (
+        enrollment_includes(NEW.schedule_id, NEW.grade, NEW.curriculum, NEW.subject, cs)
+        OR EXISTS (
+          SELECT 1 FROM schedule_cancellations moved
+          WHERE moved.makeup_schedule_id = cs.id AND moved.schedule_id = NEW.schedule_id
+        )
+      )
+    ORDER BY cs.id
+    FOR UPDATE
+  LOOP
+    SELECT count(*) INTO enrolled
+    FROM class_rosters(ARRAY[full_class.id]) r
+    WHERE r.student_id <> NEW.student_id;
+
+    IF enrolled >= full_class.capacity THEN
+      RAISE EXCEPTION '% (% %) on % is full with % students',
+        full_class.subject, full_class.grade, full_class.curriculum, full_class.day, enrolled
+        USING ERRCODE = 'P0C01';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enrollments_capacity_trigger ON enrollments;
+
+CREATE TRIGGER enrollments_capacity_trigger
+  BEFORE INSERT OR UPDATE ON enrollments
+  FOR EACH ROW EXECUTE FUNCTION check_class_capacity();
+
+-- NOTES:
+-- 1. Capacity is only checked when students are enrolled. Lowering a class's capacity,
+--    or changing its grade, curriculum or subject so that a group's students join it,
+--    can leave it over capacity; the roster shows when it is.
+--
+-- 2. A class's capacity is its own, not its room's. Classes cloned from a template or
+--    another week and make-up classes of moved occurrences keep it; classes imported
+--    from a file start without one.
+--
+-- 3. Rosters list who is enrolled, not who attended: one-off cancellations and closures
+--    don't change them, and a moved occurrence takes its roster to its make-up class.
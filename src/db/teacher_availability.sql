@@ -0,0 +1,82 @@
+-- Teacher availability and leave
+-- teacher_availability holds the weekly hours a teacher can teach: a teacher with no rows
+-- can teach any time, otherwise only inside the windows listed for that weekday (no rows
+-- for Saturday means not on Saturdays). teacher_leave holds whole days off, such as a
+-- week of holiday or sick leave. Both are keyed by teacher name, like teachers_content,
+-- because a teacher has one teachers row per subject. The schedule page shades both and
+-- warns when a class is put into them; nothing here blocks saving a class.
+--
+-- Run after teacher_portal.sql. Safe to re-run.
+
+CREATE TABLE IF NOT EXISTS teacher_availability (
+  id BIGSERIAL PRIMARY KEY,
+  teacher_name TEXT NOT NULL,
+  day TEXT NOT NULL CHECK (day IN ('Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday')),
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (end_time > start_time)
+);
+
+CREATE INDEX IF NOT EXISTS teacher_availability_teacher_name_idx ON teacher_availability(teacher_name);
+
+CREATE TABLE IF NOT EXISTS teacher_leave (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  teacher_name TEXT NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  reason TEXT,
+  created_by UUID REFERENCES teacher_users(id) ON DELETE SET NULL DEFAULT current_teacher_user_id(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS teacher_leave_dates_idx ON teacher_leave(start_date, end_date);
+
+-- Staff manage both; a teacher can see their own. Leave reasons can be personal, so
+-- unlike the timetable these are not public.
+ALTER TABLE teacher_availability ENABLE ROW LEVEL SECURITY;
+ALTER TABLE teacher_leave ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS teacher_availability_select_policy ON teacher_availability;
+DROP POLICY IF EXISTS teacher_availability_write_policy ON teacher_availability;
+DROP POLICY IF EXISTS teacher_leave_select_policy ON teacher_leave;
+DROP POLICY IF EXISTS teacher_leave_write_policy ON teacher_leave;
+
+CREATE POLICY teacher_availability_select_policy ON teacher_availability
+  FOR SELECT USING (has_role('admin', 'front_desk') OR teacher_name = current_teacher_name());
+
+CREATE POLICY teacher_availability_write_policy ON teacher_availability
+  FOR ALL USING (has_role('admin', 'front_desk')) WITH CHECK (has_role('admin', 'front_desk'));
+
+CREATE POLICY teacher_leave_select_policy ON teacher_leave
+  FOR SELECT USING (has_role('admin', 'front_desk') OR teacher_name = current_teacher_name());
+
+CREATE POLICY teacher_leave_write_policy ON teacher_leave
+  FOR ALL USING (has_role('admin', 'front_desk')) WITH CHECK (has_role('admin', 'front_desk'));
+
+-- Renaming a teacher (every subject row at once) carries their availability and leave
+CREATE OR REPLACE FUNCTION rename_teacher_availability()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE teacher_availability SET teacher_name = NEW.name WHERE teacher_name = OLD.name;
+  UPDATE teacher_leave SET teacher_name = NEW.name WHERE teacher_name = OLD.name;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS teachers_rename_availability_trigger ON teachers;
+
+CREATE TRIGGER teachers_rename_availability_trigger
+  AFTER UPDATE OF name ON teachers
+  FOR EACH ROW
+  WHEN (OLD.name IS DISTINCT FROM NEW.name)
+  EXECUTE FUNCTION rename_teacher_availability();
+
+-- NOTES:
+-- 1. Deleting a teacher's last subject row leaves their availability and leave behind;
+--    they apply again if a teacher with the same name is added.
+--
+-- 2. Entering leave doesn't touch the timetable by itself. The Teachers page lists the
+--    classes that fall in it and cancels the ones picked there or assigns them a substitute
+--    (see schedule_substitutions.sql).
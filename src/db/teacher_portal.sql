@@ -0,0 +1,128 @@
+-- Teacher self-service portal
+-- A teacher_users account is linked to a teacher through teachers.user_id (set from
+-- Dashboard > Accounts). Teachers can ask for a one-off cancellation or reschedule of
+-- their own classes; the requests wait in schedule_change_requests until an admin
+-- approves or rejects them.
+--
+-- Run after access_policies.sql.
+
+CREATE TABLE IF NOT EXISTS schedule_change_requests (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  schedule_id BIGINT NOT NULL REFERENCES class_schedules(id) ON DELETE CASCADE,
+  request_type TEXT NOT NULL CHECK (request_type IN ('cancel', 'reschedule')),
+  occurrence_date DATE NOT NULL,
+  new_date DATE,
+  new_start_time TIME,
+  new_end_time TIME,
+  reason TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  requested_by UUID REFERENCES teacher_users(id) ON DELETE SET NULL,
+  reviewed_by UUID REFERENCES teacher_users(id) ON DELETE SET NULL,
+  review_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  -- A reschedule must say where the class moves to
+  CHECK (
+    request_type = 'cancel'
+    OR (new_date IS NOT NULL AND new_start_time IS NOT NULL AND new_end_time IS NOT NULL AND new_end_time > new_start_time)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS schedule_change_requests_status_idx ON schedule_change_requests(status);
+CREATE INDEX IF NOT EXISTS schedule_change_requests_requested_by_idx ON schedule_change_requests(requested_by);
+
+-- Name of the teacher linked to the signed-in account, or NULL
+CREATE OR REPLACE FUNCTION current_teacher_name()
+RETURNS TEXT AS $$
+  SELECT t.name FROM teachers t WHERE t.user_id = current_teacher_user_id() LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- True when the class belongs to the teacher linked to the signed-in account
+CREATE OR REPLACE FUNCTION is_own_schedule(p_schedule_id BIGINT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM class_schedules cs
+    JOIN teachers t ON t.id = cs.teacher_id
+    WHERE cs.id = p_schedule_id
+      AND t.user_id = current_teacher_user_id()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+ALTER TABLE schedule_change_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS schedule_change_requests_select_policy ON schedule_change_requests;
+DROP POLICY IF EXISTS schedule_change_requests_insert_policy ON schedule_change_requests;
+DROP POLICY IF EXISTS schedule_change_requests_delete_policy ON schedule_change_requests;
+
+CREATE POLICY schedule_change_requests_select_policy ON schedule_change_requests
+  FOR SELECT USING (requested_by = current_teacher_user_id() OR has_role('admin', 'front_desk'));
+
+CREATE POLICY schedule_change_requests_insert_policy ON schedule_change_requests
+  FOR INSERT WITH CHECK (
+    has_role('teacher')
+    AND requested_by = current_teacher_user_id()
+    AND status = 'pending'
+    AND is_own_schedule(schedule_id)
+  );
+
+-- Teachers can withdraw requests that haven't been reviewed yet
+CREATE POLICY schedule_change_requests_delete_policy ON schedule_change_requests
+  FOR DELETE USING (requested_by = current_teacher_user_id() AND status = 'pending');
+
+-- Teachers can edit the public profile rows that carry their own name
+DROP POLICY IF EXISTS teachers_content_own_update_policy ON teachers_content;
+
+CREATE POLICY teachers_content_own_update_policy ON teachers_content
+  FOR UPDATE
+  USING (has_role('teacher') AND teacher_name = current_teacher_name())
+  WITH CHECK (has_role('teacher') AND teacher_name = current_teacher_name());
+
+-- Approve or reject a pending request (admins only). Approving a cancellation records it
+-- in schedule_cancellations (schedule_cancellations.sql) with the teacher's reason;
+-- approving a reschedule moves the occurrence with move_schedule_occurrence().
+CREATE OR REPLACE FUNCTION review_schedule_change_request(p_request_id UUID, p_approve BOOLEAN, p_note TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  req schedule_change_requests%ROWTYPE;
+BEGIN
+  IF NOT has_role('admin') THEN
+    RAISE EXCEPTION 'Only admins can review schedule requests' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO req FROM schedule_change_requests WHERE id = p_request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Schedule request % not found', p_request_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF req.status <> 'pending' THEN
+    RAISE EXCEPTION 'Schedule request % has already been reviewed', p_request_id;
+  END IF;
+
+  IF p_approve THEN
+    IF req.request_type = 'reschedule' THEN
+      PERFORM move_schedule_occurrence(
+        req.schedule_id, req.occurrence_date, req.new_date, req.new_start_time, req.new_end_time, NULL, req.reason
+      );
+    ELSE
+      INSERT INTO schedule_cancellations (schedule_id, occurrence_date, reason)
+      VALUES (req.schedule_id, req.occurrence_date, req.reason)
+      ON CONFLICT (schedule_id, occurrence_date) DO NOTHING;
+    END IF;
+  END IF;
+
+  UPDATE schedule_change_requests
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      reviewed_by = current_teacher_user_id(),
+      reviewed_at = NOW(),
+      review_note = p_note
+  WHERE id = p_request_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- NOTES:
+-- 1. Link an account to a teacher from Dashboard > Accounts. Every teachers row with that
+--    name (one per subject) gets the account's id in user_id.
+--
+-- 2. Reviewed requests are kept as a history; only pending ones can be withdrawn.
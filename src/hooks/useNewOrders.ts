@@ -1,10 +1,5 @@
 import { useState, useEffect } from 'react';
-import { supabase } from '../lib/supabase';
-
-interface Order {
-  id: number;
-  created_at: string;
-}
+import { listOrdersSince } from '../lib/repositories/orders';
 
 export function useNewOrders() {
   const [hasNewOrders, setHasNewOrders] = useState(false);
@@ -15,21 +10,15 @@ export function useNewOrders() {
         // Get orders from the last 24 hours
         const twentyFourHoursAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
         
-        const { data: orders, error } = await supabase
-          .from('store_orders')
-          .select('id, created_at')
-          .gt('created_at', twentyFourHoursAgo)
-          .order('created_at', { ascending: false });
-
-        if (error) throw error;
+        const orders = await listOrdersSince(twentyFourHoursAgo);
 
         // Check if any of these orders haven't been viewed
-        const newOrders = orders?.filter((order: Order) => {
+        const newOrders = orders.filter(order => {
           const isViewed = localStorage.getItem(`order_${order.id}_viewed`) === 'true';
           return !isViewed;
         });
 
-        setHasNewOrders(Boolean(newOrders?.length));
+        setHasNewOrders(newOrders.length > 0);
       } catch (error) {
         console.error('Error checking for new orders:', error);
       }
@@ -0,0 +1,39 @@
+import { useState, useEffect } from 'react';
+import { validateSession } from '../lib/auth';
+import { StaffSession, getStoredSession } from '../lib/session';
+
+export function useSession() {
+  const [session, setSession] = useState<StaffSession | null>(() => getStoredSession());
+  const [loading, setLoading] = useState(() => getStoredSession() !== null);
+
+  useEffect(() => {
+    if (!getStoredSession()) {
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    // Confirm the stored session with the server so revoked or expired sessions are dropped
+    validateSession()
+      .then(validSession => {
+        if (!cancelled) setSession(validSession);
+      })
+      .catch(error => {
+        console.error('Error validating session:', error);
+        if (!cancelled) setSession(null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { session, loading };
+}
+
+// Default export
+export default useSession;
@@ -0,0 +1,89 @@
+import { supabase } from './supabase';
+import { StaffSession, clearStoredSession, getStoredSession, storeSession } from './session';
+import type { Role } from './roles';
+
+interface LoginRow {
+  token: string;
+  user_id: string;
+  username: string;
+  role: Role;
+  expires_at: string;
+}
+
+interface SessionRow {
+  user_id: string;
+  username: string;
+  role: Role;
+  expires_at: string;
+}
+
+/**
+ * Signs a staff member in against teacher_users and stores the new session
+ * @returns The session, or null when the username or password is wrong
+ */
+export const signIn = async (username: string, password: string): Promise<StaffSession | null> => {
+  const { data, error } = await supabase.rpc('login', {
+    p_username: username.trim(),
+    p_password: password
+  });
+
+  if (error) throw error;
+
+  const row = (data as LoginRow[] | null)?.[0];
+  if (!row) return null;
+
+  const session: StaffSession = {
+    token: row.token,
+    userId: row.user_id,
+    username: row.username,
+    role: row.role,
+    expiresAt: row.expires_at
+  };
+  storeSession(session);
+  return session;
+};
+
+/**
+ * Checks the stored session with the database, clearing it if it was revoked or has expired
+ * @returns The still-valid session, or null
+ */
+export const validateSession = async (): Promise<StaffSession | null> => {
+  const stored = getStoredSession();
+  if (!stored) return null;
+
+  const { data, error } = await supabase.rpc('validate_session');
+  if (error) throw error;
+
+  const row = (data as SessionRow[] | null)?.[0];
+  if (!row) {
+    clearStoredSession();
+    return null;
+  }
+
+  const session: StaffSession = {
+    ...stored,
+    userId: row.user_id,
+    username: row.username,
+    role: row.role,
+    expiresAt: row.expires_at
+  };
+  storeSession(session);
+  return session;
+};
+
+/**
+ * Ends the session on the server and forgets it locally
+ */
+export const signOut = async () => {
+  try {
+    if (getStoredSession()) {
+      const { error } = await supabase.rpc('logout');
+      if (error) throw error;
+    }
+  } catch (error) {
+    // The local session is cleared regardless so the user is never stuck signed in
+    console.error('Error ending session:', error);
+  } finally {
+    clearStoredSession();
+  }
+};
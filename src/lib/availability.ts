@@ -0,0 +1,67 @@
+import { format } from 'date-fns';
+import type { TeacherAvailability, TeacherLeave } from './repositories/availability';
+import { parseDate } from './recurrence';
+
+// The rules are described in src/db/teacher_availability.sql
+
+const DAY_MINUTES = 24 * 60;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * The parts of a weekday outside a teacher's availability windows, as [start, end) minutes
+ * since midnight. Empty when the teacher has no windows at all, i.e. can teach any time.
+ */
+export const getUnavailableTimes = (availability: TeacherAvailability[], teacherName: string, weekday: string) => {
+  const windows = availability.filter(window => window.teacher_name === teacherName);
+  if (windows.length === 0) return [];
+
+  const gaps: [number, number][] = [];
+  let availableUntil = 0;
+  windows
+    .filter(window => window.day === weekday)
+    .map(window => [toMinutes(window.start_time), toMinutes(window.end_time)])
+    .sort((a, b) => a[0] - b[0])
+    .forEach(([start, end]) => {
+      if (start > availableUntil) gaps.push([availableUntil, start]);
+      availableUntil = Math.max(availableUntil, end);
+    });
+  if (availableUntil < DAY_MINUTES) gaps.push([availableUntil, DAY_MINUTES]);
+
+  return gaps;
+};
+
+/**
+ * Whether a teacher can teach on a weekday from start to end ('HH:mm')
+ */
+export const isAvailable = (
+  availability: TeacherAvailability[],
+  teacherName: string,
+  weekday: string,
+  startTime: string,
+  endTime: string
+) => {
+  const start = toMinutes(startTime);
+  const end = toMinutes(endTime);
+  return !getUnavailableTimes(availability, teacherName, weekday).some(([from, to]) => from < end && start < to);
+};
+
+/**
+ * The leave a teacher is on on a date, or null
+ */
+export const getLeaveOn = (leave: TeacherLeave[], teacherName: string, date: Date) => {
+  const dateString = format(date, 'yyyy-MM-dd');
+  // yyyy-MM-dd strings compare in date order
+  return leave.find(l => l.teacher_name === teacherName && l.start_date <= dateString && dateString <= l.end_date) || null;
+};
+
+/**
+ * The days of a leave, e.g. "Mar 3 – Mar 7, 2026" or "Tue, Mar 3, 2026"
+ */
+export const describeLeave = (leave: Pick<TeacherLeave, 'start_date' | 'end_date'>) =>
+  leave.start_date === leave.end_date
+    ? format(parseDate(leave.start_date), 'EEE, MMM d, yyyy')
+    : `${format(parseDate(leave.start_date), 'MMM d')} – ${format(parseDate(leave.end_date), 'MMM d, yyyy')}`;
@@ -0,0 +1,29 @@
+// Subscription links for the calendar-feed edge function (supabase/functions/calendar-feed)
+
+export type CalendarFeed =
+  | { kind: 'all' }
+  | { kind: 'teacher'; teacher: string }
+  | { kind: 'class'; grade: string; curriculum: string };
+
+/**
+ * https URL of a timetable feed, for calendars that take a link (e.g. Google Calendar's
+ * "From URL")
+ */
+export const getCalendarFeedUrl = (feed: CalendarFeed) => {
+  const params = new URLSearchParams();
+
+  if (feed.kind === 'teacher') params.set('teacher', feed.teacher);
+  if (feed.kind === 'class') {
+    params.set('grade', feed.grade);
+    params.set('curriculum', feed.curriculum);
+  }
+
+  const query = params.toString();
+  return `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed${query ? `?${query}` : ''}`;
+};
+
+/**
+ * webcal:// version of a feed URL, which opens the subscribe dialog of the device's
+ * calendar app
+ */
+export const toWebcalUrl = (url: string) => url.replace(/^https?:\/\//, 'webcal://');
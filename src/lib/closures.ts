@@ -0,0 +1,36 @@
+import { format } from 'date-fns';
+import type { Closure } from './repositories/closures';
+import { parseDate } from './recurrence';
+
+// The rules are described in src/db/closures.sql
+
+/**
+ * The closures in force on a date, for every grade or only some
+ */
+export const getClosuresOn = (closures: Closure[], date: Date) => {
+  const dateString = format(date, 'yyyy-MM-dd');
+  // yyyy-MM-dd strings compare in date order
+  return closures.filter(closure => closure.start_date <= dateString && dateString <= closure.end_date);
+};
+
+/**
+ * The closure that cancels a grade's classes on a date, or null
+ */
+export const getClosureFor = (closures: Closure[], grade: string, date: Date) =>
+  getClosuresOn(closures, date).find(closure => !closure.grades || closure.grades.includes(grade)) || null;
+
+/**
+ * Short description of a closure, e.g. "Spring Break (Apr 6 – Apr 10) for Grade 9, Grade 10"
+ */
+export const describeClosure = (closure: Closure) => {
+  const dates = closure.start_date === closure.end_date
+    ? format(parseDate(closure.start_date), 'MMM d')
+    : `${format(parseDate(closure.start_date), 'MMM d')} – ${format(parseDate(closure.end_date), 'MMM d')}`;
+  return `${closure.title} (${dates})${closure.grades ? ` for ${closure.grades.join(', ')}` : ''}`;
+};
+
+/**
+ * Banner text for a closure on a day, naming its grades when it doesn't close them all
+ */
+export const getClosureLabel = (closure: Closure) =>
+  closure.grades ? `${closure.title} (${closure.grades.join(', ')})` : closure.title;
@@ -1,7 +1,59 @@
+import { supabase } from './supabase';
+
+// The API key and secret live in the `cloudinary` edge function (supabase/functions/cloudinary);
+// the browser only ever sees signatures
 export const cloudinaryConfig = {
-  cloudName: 'dhvyx76fy',
-  apiKey: import.meta.env.VITE_CLOUDINARY_API_KEY || '',
-  apiSecret: import.meta.env.VITE_CLOUDINARY_API_SECRET || ''
+  cloudName: 'dhvyx76fy'
+};
+
+interface UploadSignature {
+  api_key: string;
+  timestamp: string;
+  signature: string;
+  // The parameters that were signed; the server sets the folder for teachers' uploads
+  params: Record<string, string>;
+}
+
+/**
+ * Builds the form data for a signed upload, asking the server to sign the given parameters.
+ * Teachers' uploads go to a folder of their own whatever folder and public_id are asked for.
+ * @param file The file to upload
+ * @param params Upload parameters to send along (folder, public_id, tags, upload_preset)
+ * @returns FormData ready to POST to the Cloudinary upload endpoint
+ */
+export const createSignedUploadForm = async (
+  file: File,
+  params: Record<string, string>
+): Promise<FormData> => {
+  const { data, error } = await supabase.functions.invoke<UploadSignature>('cloudinary', {
+    body: { action: 'sign', params }
+  });
+
+  if (error) throw error;
+  if (!data?.signature) throw new Error('Missing upload signature');
+
+  const formData = new FormData();
+  formData.append('file', file);
+  Object.entries(data.params).forEach(([key, value]) => formData.append(key, value));
+  formData.append('api_key', data.api_key);
+  formData.append('timestamp', data.timestamp);
+  formData.append('signature', data.signature);
+
+  return formData;
+};
+
+/**
+ * Deletes assets from Cloudinary through the server
+ * @param publicIds Public ids of the assets to delete
+ * @returns Cloudinary's result per public id ("ok", "not found" or an error message)
+ */
+export const deleteCloudinaryAssets = async (publicIds: string[]): Promise<Record<string, string>> => {
+  const { data, error } = await supabase.functions.invoke<{ results: Record<string, string> }>('cloudinary', {
+    body: { action: 'destroy', publicIds }
+  });
+
+  if (error) throw error;
+  return data?.results || {};
 };
 
 interface CloudinaryResponse {
@@ -11,17 +63,14 @@ interface CloudinaryResponse {
 }
 
 /**
- * Uploads a file (image or presentation) to Cloudinary using an unsigned upload
+ * Uploads a file (image or presentation) to Cloudinary using a server-signed upload
  * @param file The file to upload
  * @returns Promise with the Cloudinary response and file type
  */
 export const uploadImage = async (file: File): Promise<CloudinaryResponse> => {
   try {
-    const formData = new FormData();
-    formData.append('file', file);
-    // Using ml_default which is the default unsigned upload preset in Cloudinary
-    formData.append('upload_preset', 'ml_default'); 
-    formData.append('cloud_name', cloudinaryConfig.cloudName);
+    // Using ml_default which is the default upload preset in Cloudinary
+    const formData = await createSignedUploadForm(file, { upload_preset: 'ml_default' });
 
     // Determine file type
     const fileType = getFileType(file);
@@ -0,0 +1,1158 @@
+// Database types for the public schema, in the format produced by `supabase gen types`.
+// Regenerate with `npm run types:db` after changing any script in src/db and commit the
+// result; the repositories in src/lib/repositories are typed against it, so schema drift
+// shows up as a compile error.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[];
+
+export type Database = {
+  public: {
+    Tables: {
+      audit_log: {
+        Row: {
+          id: number;
+          occurred_at: string;
+          actor_id: string | null;
+          actor_username: string | null;
+          actor_role: string | null;
+          table_name: string;
+          row_id: string | null;
+          action: string;
+          old_data: Json | null;
+          new_data: Json | null;
+        };
+        Insert: {
+          id?: number;
+          occurred_at?: string;
+          actor_id?: string | null;
+          actor_username?: string | null;
+          actor_role?: string | null;
+          table_name: string;
+          row_id?: string | null;
+          action: string;
+          old_data?: Json | null;
+          new_data?: Json | null;
+        };
+        Update: {
+          id?: number;
+          occurred_at?: string;
+          actor_id?: string | null;
+          actor_username?: string | null;
+          actor_role?: string | null;
+          table_name?: string;
+          row_id?: string | null;
+          action?: string;
+          old_data?: Json | null;
+          new_data?: Json | null;
+        };
+        Relationships: [];
+      };
+      calendar_events: {
+        Row: {
+          id: string;
+          title: string;
+          description: string;
+          event_date: string;
+          is_holiday: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          title: string;
+          description: string;
+          event_date: string;
+          is_holiday?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          title?: string;
+          description?: string;
+          event_date?: string;
+          is_holiday?: boolean;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      class_schedules: {
+        Row: {
+          id: number;
+          teacher_id: number;
+          day: string;
+          start_time: string;
+          end_time: string;
+          room: string;
+          mode: string;
+          grade: string;
+          curriculum: string;
+          date_tag: string;
+          repeats: boolean;
+          subject: string;
+          description: string;
+          starts_on: string | null;
+          ends_on: string | null;
+          repeat_interval_weeks: number;
+          weekdays: string[] | null;
+          allow_overlap: boolean;
+          room_id: number | null;
+          capacity: number | null;
+          updated_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          teacher_id: number;
+          day: string;
+          start_time: string;
+          end_time: string;
+          room: string;
+          mode?: string;
+          grade: string;
+          curriculum: string;
+          date_tag: string;
+          repeats?: boolean;
+          subject: string;
+          description?: string;
+          starts_on?: string | null;
+          ends_on?: string | null;
+          repeat_interval_weeks?: number;
+          weekdays?: string[] | null;
+          allow_overlap?: boolean;
+          room_id?: number | null;
+          capacity?: number | null;
+          updated_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          teacher_id?: number;
+          day?: string;
+          start_time?: string;
+          end_time?: string;
+          room?: string;
+          mode?: string;
+          grade?: string;
+          curriculum?: string;
+          date_tag?: string;
+          repeats?: boolean;
+          subject?: string;
+          description?: string;
+          starts_on?: string | null;
+          ends_on?: string | null;
+          repeat_interval_weeks?: number;
+          weekdays?: string[] | null;
+          allow_overlap?: boolean;
+          room_id?: number | null;
+          capacity?: number | null;
+          updated_by?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'class_schedules_room_id_fkey';
+            columns: ['room_id'];
+            isOneToOne: false;
+            referencedRelation: 'rooms';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'class_schedules_teacher_id_fkey';
+            columns: ['teacher_id'];
+            isOneToOne: false;
+            referencedRelation: 'teachers';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'class_schedules_updated_by_fkey';
+            columns: ['updated_by'];
+            isOneToOne: false;
+            referencedRelation: 'teacher_users';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      closures: {
+        Row: {
+          id: string;
+          title: string;
+          start_date: string;
+          end_date: string;
+          grades: string[] | null;
+          calendar_event_id: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          title: string;
+          start_date: string;
+          end_date: string;
+          grades?: string[] | null;
+          calendar_event_id?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          title?: string;
+          start_date?: string;
+          end_date?: string;
+          grades?: string[] | null;
+          calendar_event_id?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'closures_calendar_event_id_fkey';
+            columns: ['calendar_event_id'];
+            isOneToOne: true;
+            referencedRelation: 'calendar_events';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      display_devices: {
+        Row: {
+          id: string;
+          name: string;
+          pairing_expires_at: string | null;
+          created_by: string | null;
+          created_at: string;
+          paired_at: string | null;
+          last_seen_at: string | null;
+          revoked_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          pairing_expires_at?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          paired_at?: string | null;
+          last_seen_at?: string | null;
+          revoked_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          pairing_expires_at?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          paired_at?: string | null;
+          last_seen_at?: string | null;
+          revoked_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'display_devices_created_by_fkey';
+            columns: ['created_by'];
+            isOneToOne: false;
+            referencedRelation: 'teacher_users';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      enrollments: {
+        Row: {
+          id: string;
+          student_id: string;
+          schedule_id: number | null;
+          grade: string | null;
+          curriculum: string | null;
+          subject: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          student_id: string;
+          schedule_id?: number | null;
+          grade?: string | null;
+          curriculum?: string | null;
+          subject?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          student_id?: string;
+          schedule_id?: number | null;
+          grade?: string | null;
+          curriculum?: string | null;
+          subject?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'enrollments_schedule_id_fkey';
+            columns: ['schedule_id'];
+            isOneToOne: false;
+            referencedRelation: 'class_schedules';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'enrollments_student_id_fkey';
+            columns: ['student_id'];
+            isOneToOne: false;
+            referencedRelation: 'students';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      gallery_images: {
+        Row: {
+          id: string;
+          image_url: string;
+          public_id: string;
+          tags: string[];
+          upload_date: string;
+        };
+        Insert: {
+          id?: string;
+          image_url: string;
+          public_id: string;
+          tags?: string[];
+          upload_date?: string;
+        };
+        Update: {
+          id?: string;
+          image_url?: string;
+          public_id?: string;
+          tags?: string[];
+          upload_date?: string;
+        };
+        Relationships: [];
+      };
+      news: {
+        Row: {
+          id: number;
+          title: string;
+          content: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: number;
+          title: string;
+          content: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: number;
+          title?: string;
+          content?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      presentation_categories: {
+        Row: {
+          id: string;
+          name: string;
+          is_active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      presentation_images: {
+        Row: {
+          id: string;
+          category_id: string;
+          image_url: string;
+          file_type: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          category_id: string;
+          image_url: string;
+          file_type?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          category_id?: string;
+          image_url?: string;
+          file_type?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'presentation_images_category_id_fkey';
+            columns: ['category_id'];
+            isOneToOne: false;
+            referencedRelation: 'presentation_categories';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      presentation_settings: {
+        Row: {
+          id: string;
+          show_classes: boolean;
+          show_news: boolean;
+          fullscreen: boolean;
+          transition_speed: number;
+          display_duration: number;
+          class_duration: number;
+          active_category_id: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          show_classes?: boolean;
+          show_news?: boolean;
+          fullscreen?: boolean;
+          transition_speed?: number;
+          display_duration?: number;
+          class_duration?: number;
+          active_category_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          show_classes?: boolean;
+          show_news?: boolean;
+          fullscreen?: boolean;
+          transition_speed?: number;
+          display_duration?: number;
+          class_duration?: number;
+          active_category_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'presentation_settings_active_category_id_fkey';
+            columns: ['active_category_id'];
+            isOneToOne: false;
+            referencedRelation: 'presentation_categories';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      rooms: {
+        Row: {
+          id: number;
+          name: string;
+          capacity: number | null;
+          floor: string | null;
+          is_online: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          name: string;
+          capacity?: number | null;
+          floor?: string | null;
+          is_online?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          name?: string;
+          capacity?: number | null;
+          floor?: string | null;
+          is_online?: boolean;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      schedule_cancellations: {
+        Row: {
+          id: string;
+          schedule_id: number;
+          occurrence_date: string;
+          reason: string | null;
+          canceled_by: string | null;
+          makeup_schedule_id: number | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          schedule_id: number;
+          occurrence_date: string;
+          reason?: string | null;
+          canceled_by?: string | null;
+          makeup_schedule_id?: number | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          schedule_id?: number;
+          occurrence_date?: string;
+          reason?: string | null;
+          canceled_by?: string | null;
+          makeup_schedule_id?: number | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'schedule_cancellations_schedule_id_fkey';
+            columns: ['schedule_id'];
+            isOneToOne: false;
+            referencedRelation: 'class_schedules';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'schedule_cancellations_canceled_by_fkey';
+            columns: ['canceled_by'];
+            isOneToOne: false;
+            referencedRelation: 'teacher_users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'schedule_cancellations_makeup_schedule_id_fkey';
+            columns: ['makeup_schedule_id'];
+            isOneToOne: false;
+            referencedRelation: 'class_schedules';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      schedule_change_requests: {
+        Row: {
+          id: string;
+          schedule_id: number;
+          request_type: string;
+          occurrence_date: string;
+          new_date: string | null;
+          new_start_time: string | null;
+          new_end_time: string | null;
+          reason: string | null;
+          status: string;
+          requested_by: string | null;
+          reviewed_by: string | null;
+          review_note: string | null;
+          created_at: string;
+          reviewed_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          schedule_id: number;
+          request_type: string;
+          occurrence_date: string;
+          new_date?: string | null;
+          new_start_time?: string | null;
+          new_end_time?: string | null;
+          reason?: string | null;
+          status?: string;
+          requested_by?: string | null;
+          reviewed_by?: string | null;
+          review_note?: string | null;
+          created_at?: string;
+          reviewed_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          schedule_id?: number;
+          request_type?: string;
+          occurrence_date?: string;
+          new_date?: string | null;
+          new_start_time?: string | null;
+          new_end_time?: string | null;
+          reason?: string | null;
+          status?: string;
+          requested_by?: string | null;
+          reviewed_by?: string | null;
+          review_note?: string | null;
+          created_at?: string;
+          reviewed_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'schedule_change_requests_schedule_id_fkey';
+            columns: ['schedule_id'];
+            isOneToOne: false;
+            referencedRelation: 'class_schedules';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'schedule_change_requests_requested_by_fkey';
+            columns: ['requested_by'];
+            isOneToOne: false;
+            referencedRelation: 'teacher_users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'schedule_change_requests_reviewed_by_fkey';
+            columns: ['reviewed_by'];
+            isOneToOne: false;
+            referencedRelation: 'teacher_users';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      schedule_substitutions: {
+        Row: {
+          id: string;
+          schedule_id: number;
+          occurrence_date: string;
+          teacher_id: number;
+          reason: string | null;
+          assigned_by: string | null;
+          allow_overlap: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          schedule_id: number;
+          occurrence_date: string;
+          teacher_id: number;
+          reason?: string | null;
+          assigned_by?: string | null;
+          allow_overlap?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          schedule_id?: number;
+          occurrence_date?: string;
+          teacher_id?: number;
+          reason?: string | null;
+          assigned_by?: string | null;
+          allow_overlap?: boolean;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'schedule_substitutions_schedule_id_fkey';
+            columns: ['schedule_id'];
+            isOneToOne: false;
+            referencedRelation: 'class_schedules';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'schedule_substitutions_teacher_id_fkey';
+            columns: ['teacher_id'];
+            isOneToOne: false;
+            referencedRelation: 'teachers';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'schedule_substitutions_assigned_by_fkey';
+            columns: ['assigned_by'];
+            isOneToOne: false;
+            referencedRelation: 'teacher_users';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      schedule_templates: {
+        Row: {
+          id: string;
+          name: string;
+          starts_on: string;
+          ends_on: string;
+          classes: Json;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          starts_on: string;
+          ends_on: string;
+          classes: Json;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          starts_on?: string;
+          ends_on?: string;
+          classes?: Json;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'schedule_templates_created_by_fkey';
+            columns: ['created_by'];
+            isOneToOne: false;
+            referencedRelation: 'teacher_users';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      store_order_items: {
+        Row: {
+          id: number;
+          order_id: number;
+          product_id: number;
+          quantity: number;
+          price_at_time: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          order_id: number;
+          product_id: number;
+          quantity: number;
+          price_at_time: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          order_id?: number;
+          product_id?: number;
+          quantity?: number;
+          price_at_time?: number;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'store_order_items_order_id_fkey';
+            columns: ['order_id'];
+            isOneToOne: false;
+            referencedRelation: 'store_orders';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'store_order_items_product_id_fkey';
+            columns: ['product_id'];
+            isOneToOne: false;
+            referencedRelation: 'store_products';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      store_orders: {
+        Row: {
+          id: number;
+          customer_name: string;
+          customer_email: string;
+          customer_phone: string;
+          customer_address: string;
+          total_amount: number;
+          invoice_id: string;
+          payment_status: string;
+          status: string;
+          user_id: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: number;
+          customer_name: string;
+          customer_email: string;
+          customer_phone: string;
+          customer_address?: string;
+          total_amount: number;
+          invoice_id: string;
+          payment_status?: string;
+          status?: string;
+          user_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: number;
+          customer_name?: string;
+          customer_email?: string;
+          customer_phone?: string;
+          customer_address?: string;
+          total_amount?: number;
+          invoice_id?: string;
+          payment_status?: string;
+          status?: string;
+          user_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      store_products: {
+        Row: {
+          id: number;
+          name: string;
+          description: string;
+          price: number;
+          image_url: string;
+          subject: string;
+          grade: string;
+          syllabus: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: number;
+          name: string;
+          description: string;
+          price: number;
+          image_url: string;
+          subject: string;
+          grade: string;
+          syllabus: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: number;
+          name?: string;
+          description?: string;
+          price?: number;
+          image_url?: string;
+          subject?: string;
+          grade?: string;
+          syllabus?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      students: {
+        Row: {
+          id: string;
+          name: string;
+          grade: string | null;
+          curriculum: string | null;
+          guardian_name: string | null;
+          phone: string | null;
+          email: string | null;
+          notes: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          grade?: string | null;
+          curriculum?: string | null;
+          guardian_name?: string | null;
+          phone?: string | null;
+          email?: string | null;
+          notes?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          grade?: string | null;
+          curriculum?: string | null;
+          guardian_name?: string | null;
+          phone?: string | null;
+          email?: string | null;
+          notes?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      subjects_content: {
+        Row: {
+          id: string;
+          subject_name: string;
+          subject_description: string;
+          whatsapp_link: string;
+          grade: string | null;
+          syllabus: string | null;
+        };
+        Insert: {
+          id?: string;
+          subject_name: string;
+          subject_description: string;
+          whatsapp_link: string;
+          grade?: string | null;
+          syllabus?: string | null;
+        };
+        Update: {
+          id?: string;
+          subject_name?: string;
+          subject_description?: string;
+          whatsapp_link?: string;
+          grade?: string | null;
+          syllabus?: string | null;
+        };
+        Relationships: [];
+      };
+      teacher_availability: {
+        Row: {
+          id: number;
+          teacher_name: string;
+          day: string;
+          start_time: string;
+          end_time: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          teacher_name: string;
+          day: string;
+          start_time: string;
+          end_time: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          teacher_name?: string;
+          day?: string;
+          start_time?: string;
+          end_time?: string;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      teacher_leave: {
+        Row: {
+          id: string;
+          teacher_name: string;
+          start_date: string;
+          end_date: string;
+          reason: string | null;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          teacher_name: string;
+          start_date: string;
+          end_date: string;
+          reason?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          teacher_name?: string;
+          start_date?: string;
+          end_date?: string;
+          reason?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'teacher_leave_created_by_fkey';
+            columns: ['created_by'];
+            isOneToOne: false;
+            referencedRelation: 'teacher_users';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      teacher_users: {
+        // password_hash is not readable through the API (see access_policies.sql)
+        Row: {
+          id: string;
+          username: string;
+          role: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          username: string;
+          role?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          username?: string;
+          role?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      teachers: {
+        Row: {
+          id: number;
+          name: string;
+          subject: string;
+          user_id: string | null;
+          updated_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          name: string;
+          subject: string;
+          user_id?: string | null;
+          updated_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          name?: string;
+          subject?: string;
+          user_id?: string | null;
+          updated_by?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'teachers_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'teacher_users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'teachers_updated_by_fkey';
+            columns: ['updated_by'];
+            isOneToOne: false;
+            referencedRelation: 'teacher_users';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      teachers_content: {
+        Row: {
+          id: string;
+          teacher_name: string;
+          subject_name: string;
+          qualifications: string[];
+          description: string | null;
+          picture_id: string | null;
+          grade: string | null;
+          syllabus: string | null;
+        };
+        Insert: {
+          id?: string;
+          teacher_name: string;
+          subject_name: string;
+          qualifications?: string[];
+          description?: string | null;
+          picture_id?: string | null;
+          grade?: string | null;
+          syllabus?: string | null;
+        };
+        Update: {
+          id?: string;
+          teacher_name?: string;
+          subject_name?: string;
+          qualifications?: string[];
+          description?: string | null;
+          picture_id?: string | null;
+          grade?: string | null;
+          syllabus?: string | null;
+        };
+        Relationships: [];
+      };
+    };
+    Views: {
+      [_ in never]: never;
+    };
+    Functions: {
+      class_rosters: {
+        Args: { p_schedule_ids: number[] };
+        Returns: { schedule_id: number; enrollment_id: string; student_id: string }[];
+      };
+      create_display_pairing_code: {
+        Args: { p_name: string };
+        Returns: { device_id: string; code: string; expires_at: string }[];
+      };
+      create_teacher_user: {
+        Args: { p_username: string; p_password: string; p_role: string };
+        Returns: string;
+      };
+      current_user_role: {
+        Args: Record<PropertyKey, never>;
+        Returns: string;
+      };
+      find_schedule_conflicts: {
+        Args: {
+          p_schedule_id: number | null;
+          p_teacher_id: number;
+          p_room: string;
+          p_day: string;
+          p_date_tag: string;
+          p_repeats: boolean;
+          p_start_time: string;
+          p_end_time: string;
+          p_weekdays?: string[] | null;
+          p_starts_on?: string | null;
+          p_ends_on?: string | null;
+          p_repeat_interval_weeks?: number;
+        };
+        Returns: { schedule_id: number; teacher_clash: boolean; room_clash: boolean }[];
+      };
+      import_class_schedules: {
+        Args: { p_rows: Json };
+        Returns: number;
+      };
+      login: {
+        Args: { p_username: string; p_password: string };
+        Returns: { token: string; user_id: string; username: string; role: string; expires_at: string }[];
+      };
+      logout: {
+        Args: Record<PropertyKey, never>;
+        Returns: undefined;
+      };
+      move_schedule_occurrence: {
+        Args: {
+          p_schedule_id: number;
+          p_occurrence_date: string;
+          p_new_date: string;
+          p_new_start_time: string;
+          p_new_end_time: string;
+          p_new_room?: string | null;
+          p_reason?: string | null;
+          p_allow_overlap?: boolean;
+        };
+        Returns: number;
+      };
+      redeem_display_pairing_code: {
+        Args: { p_code: string };
+        Returns: { device_id: string; name: string; token: string }[];
+      };
+      review_schedule_change_request: {
+        Args: { p_request_id: string; p_approve: boolean; p_note?: string | null };
+        Returns: undefined;
+      };
+      revoke_display_device: {
+        Args: { p_device_id: string };
+        Returns: undefined;
+      };
+      set_teacher_user_password: {
+        Args: { p_user_id: string; p_password: string };
+        Returns: undefined;
+      };
+      validate_display_device: {
+        Args: Record<PropertyKey, never>;
+        Returns: { device_id: string; name: string }[];
+      };
+      validate_session: {
+        Args: Record<PropertyKey, never>;
+        Returns: { user_id: string; username: string; role: string; expires_at: string }[];
+      };
+    };
+    Enums: {
+      [_ in never]: never;
+    };
+    CompositeTypes: {
+      [_ in never]: never;
+    };
+  };
+};
+
+type PublicSchema = Database['public'];
+
+export type Tables<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Row'];
+export type TablesInsert<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Insert'];
+export type TablesUpdate<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Update'];
@@ -0,0 +1,55 @@
+import { supabase } from './supabase';
+import { clearDisplayToken, getDisplayToken, storeDisplayToken } from './session';
+
+export interface PairedDisplay {
+  deviceId: string;
+  name: string;
+}
+
+interface RedeemRow {
+  device_id: string;
+  name: string;
+  token: string;
+}
+
+interface DisplayRow {
+  device_id: string;
+  name: string;
+}
+
+/**
+ * Pairs this browser as a presentation screen using a code generated in the dashboard
+ * @returns The paired display, or null when the code is wrong or has expired
+ */
+export const redeemPairingCode = async (code: string): Promise<PairedDisplay | null> => {
+  const { data, error } = await supabase.rpc('redeem_display_pairing_code', {
+    p_code: code.trim()
+  });
+
+  if (error) throw error;
+
+  const row = (data as RedeemRow[] | null)?.[0];
+  if (!row) return null;
+
+  storeDisplayToken(row.token);
+  return { deviceId: row.device_id, name: row.name };
+};
+
+/**
+ * Checks the stored display token with the database, forgetting it once revoked
+ * @returns The paired display, or null
+ */
+export const validateDisplayDevice = async (): Promise<PairedDisplay | null> => {
+  if (!getDisplayToken()) return null;
+
+  const { data, error } = await supabase.rpc('validate_display_device');
+  if (error) throw error;
+
+  const row = (data as DisplayRow[] | null)?.[0];
+  if (!row) {
+    clearDisplayToken();
+    return null;
+  }
+
+  return { deviceId: row.device_id, name: row.name };
+};
@@ -0,0 +1,105 @@
+import { format, differenceInCalendarDays, startOfWeek } from 'date-fns';
+import type { Schedule } from './repositories/schedules';
+
+// Keep occursOn() in sync with schedule_rule_occurs_on() in src/db/schedule_recurrence.sql
+
+// Weekdays in timetable order (weeks start on Monday)
+export const WEEKDAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+// The columns of a class that decide on which dates it runs
+export type RecurrenceRule = Pick<
+  Schedule,
+  'repeats' | 'day' | 'date_tag' | 'weekdays' | 'starts_on' | 'ends_on' | 'repeat_interval_weeks'
+>;
+
+// Parse a yyyy-MM-dd column as a local date
+export const parseDate = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * The weekdays a repeating class runs on, in timetable order
+ */
+export const getWeekdays = (rule: Pick<RecurrenceRule, 'day' | 'weekdays'>) => {
+  const days = rule.weekdays && rule.weekdays.length > 0 ? rule.weekdays : [rule.day];
+  return WEEKDAYS.filter(day => days.includes(day));
+};
+
+/**
+ * Whether a class runs on the given date, ignoring cancellations
+ */
+export const occursOn = (rule: RecurrenceRule, date: Date) => {
+  const dateString = format(date, 'yyyy-MM-dd');
+
+  if (!rule.repeats) return rule.date_tag === dateString;
+
+  // yyyy-MM-dd strings compare in date order
+  if (rule.starts_on && dateString < rule.starts_on) return false;
+  if (rule.ends_on && dateString > rule.ends_on) return false;
+  if (!getWeekdays(rule).includes(format(date, 'EEEE'))) return false;
+
+  const interval = rule.repeat_interval_weeks || 1;
+  if (interval === 1 || !rule.starts_on) return true;
+
+  // Count whole weeks from the week the class starts in
+  const weeks = Math.round(differenceInCalendarDays(
+    startOfWeek(date, { weekStartsOn: 1 }),
+    startOfWeek(parseDate(rule.starts_on), { weekStartsOn: 1 })
+  ) / 7);
+
+  return weeks % interval === 0;
+};
+
+/**
+ * Short description of when a class runs, e.g. "Every 2 weeks on Mon, Wed until Jun 30, 2026"
+ */
+export const describeRecurrence = (rule: RecurrenceRule) => {
+  if (!rule.repeats) {
+    return rule.date_tag ? `One-time (${format(parseDate(rule.date_tag), 'MMM d, yyyy')})` : 'One-time';
+  }
+
+  const interval = rule.repeat_interval_weeks || 1;
+  const days = getWeekdays(rule).map(day => day.slice(0, 3)).join(', ');
+  const description = `${interval === 1 ? 'Weekly' : `Every ${interval} weeks`} on ${days}`;
+
+  if (rule.starts_on && rule.ends_on) {
+    return `${description}, ${format(parseDate(rule.starts_on), 'MMM d')} – ${format(parseDate(rule.ends_on), 'MMM d, yyyy')}`;
+  }
+  if (rule.ends_on) return `${description} until ${format(parseDate(rule.ends_on), 'MMM d, yyyy')}`;
+  if (rule.starts_on) return `${description} from ${format(parseDate(rule.starts_on), 'MMM d, yyyy')}`;
+  return description;
+};
+
+/**
+ * The classes that run on a date in start time order, each with the cancellation of that
+ * occurrence if it was cancelled and its substitute teacher if it has one
+ */
+export const getOccurrences = <
+  S extends RecurrenceRule & { id: number; start_time: string },
+  C extends { schedule_id: number; occurrence_date: string },
+  U extends { schedule_id: number; occurrence_date: string } = never
+>(schedules: S[], cancellations: C[], date: Date, substitutions: U[] = []) => {
+  const dateString = format(date, 'yyyy-MM-dd');
+  const findFor = <T extends { schedule_id: number; occurrence_date: string }>(rows: T[], schedule: S) =>
+    rows.find(row => row.schedule_id === schedule.id && row.occurrence_date === dateString) || null;
+
+  return schedules
+    .filter(schedule => occursOn(schedule, date))
+    .sort((a, b) => a.start_time.localeCompare(b.start_time))
+    .map(schedule => ({
+      schedule,
+      cancellation: findFor(cancellations, schedule),
+      substitution: findFor(substitutions, schedule)
+    }));
+};
+
+/**
+ * Whether the named teacher teaches an occurrence: its substitute if it has one, otherwise
+ * the class's own teacher
+ */
+export const isTaughtBy = (
+  teacherName: string,
+  schedule: { teachers: { name: string } },
+  substitution: { substitute: { name: string } } | null
+) => (substitution ? substitution.substitute.name : schedule.teachers.name) === teacherName;
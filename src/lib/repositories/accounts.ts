@@ -0,0 +1,63 @@
+import { supabase } from '../supabase';
+import type { Tables } from '../database.types';
+import type { Role } from '../roles';
+
+// The columns staff may read (see access_policies.sql); the role column is constrained to
+// the roles in src/lib/roles.ts
+export type Account = Pick<Tables<'teacher_users'>, 'id' | 'username' | 'created_at' | 'updated_at'> & { role: Role };
+
+/**
+ * Lists staff accounts, ordered by username (admins only)
+ */
+export const listAccounts = async (): Promise<Account[]> => {
+  const { data, error } = await supabase
+    .from('teacher_users')
+    .select('id, username, role, created_at, updated_at')
+    .order('username');
+
+  if (error) throw error;
+  return (data || []) as Account[];
+};
+
+/**
+ * Creates a staff account; the password is hashed by the database
+ */
+export const createAccount = async (username: string, password: string, role: Role) => {
+  const { error } = await supabase.rpc('create_teacher_user', {
+    p_username: username,
+    p_password: password,
+    p_role: role
+  });
+
+  if (error) throw error;
+};
+
+export const updateAccountRole = async (id: string, role: Role) => {
+  const { error } = await supabase
+    .from('teacher_users')
+    .update({ role, updated_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+/**
+ * Sets a new password and signs the account out everywhere
+ */
+export const resetAccountPassword = async (id: string, password: string) => {
+  const { error } = await supabase.rpc('set_teacher_user_password', {
+    p_user_id: id,
+    p_password: password
+  });
+
+  if (error) throw error;
+};
+
+export const deleteAccount = async (id: string) => {
+  const { error } = await supabase
+    .from('teacher_users')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
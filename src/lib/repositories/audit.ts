@@ -0,0 +1,45 @@
+import { supabase } from '../supabase';
+import type { Tables } from '../database.types';
+
+export type AuditAction = 'INSERT' | 'UPDATE' | 'DELETE';
+
+// action is constrained by a CHECK and the snapshots are always row objects (audit_log.sql)
+export type AuditEntry = Omit<Tables<'audit_log'>, 'action' | 'old_data' | 'new_data'> & {
+  action: AuditAction;
+  old_data: Record<string, unknown> | null;
+  new_data: Record<string, unknown> | null;
+};
+
+export interface AuditFilters {
+  table?: string;
+  record?: string;
+  action?: string;
+  // Partial match on the username
+  actor?: string;
+  // yyyy-MM-dd, inclusive
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Lists audit entries matching the filters, newest first (admins only)
+ */
+export const listAuditEntries = async (filters: AuditFilters, offset: number, limit: number): Promise<AuditEntry[]> => {
+  let query = supabase
+    .from('audit_log')
+    .select('*')
+    .order('occurred_at', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (filters.table) query = query.eq('table_name', filters.table);
+  if (filters.record) query = query.eq('row_id', filters.record);
+  if (filters.action) query = query.eq('action', filters.action);
+  if (filters.actor) query = query.ilike('actor_username', `%${filters.actor}%`);
+  if (filters.from) query = query.gte('occurred_at', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) query = query.lte('occurred_at', new Date(`${filters.to}T23:59:59`).toISOString());
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return (data || []) as AuditEntry[];
+};
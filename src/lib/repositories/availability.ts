@@ -0,0 +1,81 @@
+import { supabase } from '../supabase';
+import type { Tables, TablesInsert } from '../database.types';
+
+// A weekly window in which a teacher can teach; see teacher_availability.sql
+export type TeacherAvailability = Tables<'teacher_availability'>;
+
+// Whole days a teacher is away, inclusive
+export type TeacherLeave = Tables<'teacher_leave'>;
+
+// created_by is filled in by the database from the signed-in account
+export type TeacherLeaveInsert = Omit<TablesInsert<'teacher_leave'>, 'created_by'>;
+
+// A window as entered on the Teachers page, before it belongs to a teacher
+export type AvailabilityWindow = Pick<TeacherAvailability, 'day' | 'start_time' | 'end_time'>;
+
+/**
+ * Lists the availability windows of every teacher, by teacher, weekday and start time
+ */
+export const listAvailability = async (): Promise<TeacherAvailability[]> => {
+  const { data, error } = await supabase
+    .from('teacher_availability')
+    .select('*')
+    .order('teacher_name')
+    .order('start_time');
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Replaces all of a teacher's availability windows. An empty list means the teacher can
+ * teach any time.
+ */
+export const replaceAvailability = async (teacherName: string, windows: AvailabilityWindow[]) => {
+  const { error: deleteError } = await supabase
+    .from('teacher_availability')
+    .delete()
+    .eq('teacher_name', teacherName);
+
+  if (deleteError) throw deleteError;
+  if (windows.length === 0) return;
+
+  const { error } = await supabase
+    .from('teacher_availability')
+    .insert(windows.map(window => ({ ...window, teacher_name: teacherName })));
+
+  if (error) throw error;
+};
+
+/**
+ * Lists leave of every teacher, earliest first
+ */
+export const listLeave = async (): Promise<TeacherLeave[]> => {
+  const { data, error } = await supabase
+    .from('teacher_leave')
+    .select('*')
+    .order('start_date');
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const createLeave = async (leave: TeacherLeaveInsert) => {
+  const { error } = await supabase
+    .from('teacher_leave')
+    .insert([leave]);
+
+  if (error) throw error;
+};
+
+/**
+ * Deletes a leave period. Classes cancelled or covered for it stay that way.
+ */
+export const deleteLeave = async (id: string) => {
+  const { error } = await supabase
+    .from('teacher_leave')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
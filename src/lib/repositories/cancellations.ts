@@ -0,0 +1,119 @@
+import { supabase } from '../supabase';
+import type { Tables, TablesInsert } from '../database.types';
+import type { Schedule } from './schedules';
+
+export type ScheduleCancellation = Tables<'schedule_cancellations'>;
+
+// canceled_by is filled in by the database from the signed-in account
+export type ScheduleCancellationInsert = Omit<TablesInsert<'schedule_cancellations'>, 'canceled_by'>;
+
+// A cancellation with the account that made it and, for a moved occurrence, where it went
+export type ScheduleCancellationDetails = ScheduleCancellation & {
+  canceler: { username: string } | null;
+  makeup: Pick<Schedule, 'date_tag' | 'start_time' | 'end_time' | 'room'> | null;
+};
+
+// A cancellation whose make-up class is known, seen from the make-up class: where it moved from
+export type MovedOccurrence = ScheduleCancellation & {
+  makeup_schedule_id: number;
+  schedule: Pick<Schedule, 'start_time' | 'end_time' | 'room'>;
+};
+
+/**
+ * Lists the cancellations of all classes between two dates, inclusive
+ * @param from First date, 'yyyy-MM-dd'
+ * @param to Last date, 'yyyy-MM-dd'
+ */
+export const listCancellations = async (from: string, to: string): Promise<ScheduleCancellationDetails[]> => {
+  const { data, error } = await supabase
+    .from('schedule_cancellations')
+    .select(`
+      *,
+      canceler:teacher_users!schedule_cancellations_canceled_by_fkey (username),
+      makeup:class_schedules!schedule_cancellations_makeup_schedule_id_fkey (date_tag, start_time, end_time, room)
+    `)
+    .gte('occurrence_date', from)
+    .lte('occurrence_date', to)
+    .order('occurrence_date');
+
+  if (error) throw error;
+  return (data || []) as ScheduleCancellationDetails[];
+};
+
+/**
+ * Lists the cancellations whose make-up class falls between two dates, inclusive, so the
+ * make-up classes can say which occurrence they replace
+ * @param from First date, 'yyyy-MM-dd'
+ * @param to Last date, 'yyyy-MM-dd'
+ */
+export const listMovedOccurrences = async (from: string, to: string): Promise<MovedOccurrence[]> => {
+  const { data, error } = await supabase
+    .from('schedule_cancellations')
+    .select(`
+      *,
+      schedule:class_schedules!schedule_cancellations_schedule_id_fkey (start_time, end_time, room),
+      makeup:class_schedules!schedule_cancellations_makeup_schedule_id_fkey!inner (date_tag)
+    `)
+    .gte('makeup.date_tag', from)
+    .lte('makeup.date_tag', to);
+
+  if (error) throw error;
+  return (data || []) as MovedOccurrence[];
+};
+
+export const createCancellation = async (cancellation: ScheduleCancellationInsert) => {
+  const { error } = await supabase
+    .from('schedule_cancellations')
+    .insert([cancellation]);
+
+  if (error) throw error;
+};
+
+interface OccurrenceMove {
+  date: string;
+  startTime: string;
+  endTime: string;
+  // null keeps the class's own room
+  room: string | null;
+  reason: string | null;
+}
+
+/**
+ * Moves one occurrence of a class, leaving the rest of the series as it is. The occurrence
+ * is cancelled and a one-off copy of the class is added on the new date as its make-up.
+ * @param occurrenceDate The date being moved, 'yyyy-MM-dd'
+ * @param allowOverlap Save even if the new slot clashes (admins only)
+ * @returns The id of the new one-off class
+ */
+export const moveOccurrence = async (
+  scheduleId: number,
+  occurrenceDate: string,
+  move: OccurrenceMove,
+  allowOverlap = false
+): Promise<number> => {
+  const { data, error } = await supabase.rpc('move_schedule_occurrence', {
+    p_schedule_id: scheduleId,
+    p_occurrence_date: occurrenceDate,
+    p_new_date: move.date,
+    p_new_start_time: move.startTime,
+    p_new_end_time: move.endTime,
+    p_new_room: move.room,
+    p_reason: move.reason,
+    p_allow_overlap: allowOverlap
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Deletes a cancellation, so the class runs on that date again
+ */
+export const deleteCancellation = async (id: string) => {
+  const { error } = await supabase
+    .from('schedule_cancellations')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
@@ -0,0 +1,53 @@
+import { supabase } from '../supabase';
+import type { Tables, TablesInsert, TablesUpdate } from '../database.types';
+
+export type Closure = Tables<'closures'>;
+// Closures of holiday calendar events are kept by the database, so only plain ones are written
+export type ClosureInsert = Omit<TablesInsert<'closures'>, 'calendar_event_id'>;
+export type ClosureUpdate = Omit<TablesUpdate<'closures'>, 'calendar_event_id'>;
+
+/**
+ * Lists closures, earliest first
+ * @param from Only closures ending on or after this yyyy-MM-dd date
+ * @param to Only closures starting on or before this yyyy-MM-dd date
+ */
+export const listClosures = async (from?: string, to?: string): Promise<Closure[]> => {
+  let query = supabase.from('closures').select('*');
+
+  if (from) query = query.gte('end_date', from);
+  if (to) query = query.lte('start_date', to);
+
+  const { data, error } = await query.order('start_date');
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const createClosure = async (closure: ClosureInsert) => {
+  const { error } = await supabase
+    .from('closures')
+    .insert([closure]);
+
+  if (error) throw error;
+};
+
+export const updateClosure = async (id: string, changes: ClosureUpdate) => {
+  const { error } = await supabase
+    .from('closures')
+    .update(changes)
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+/**
+ * Deletes a closure, so its classes run again
+ */
+export const deleteClosure = async (id: string) => {
+  const { error } = await supabase
+    .from('closures')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
@@ -0,0 +1,51 @@
+import { supabase } from '../supabase';
+import type { Tables } from '../database.types';
+
+export type DisplayDevice = Omit<Tables<'display_devices'>, 'created_by'>;
+
+export interface DisplayPairingCode {
+  device_id: string;
+  code: string;
+  expires_at: string;
+}
+
+export const listDisplayDevices = async (): Promise<DisplayDevice[]> => {
+  const { data, error } = await supabase
+    .from('display_devices')
+    .select('id, name, pairing_expires_at, created_at, paired_at, last_seen_at, revoked_at')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Registers a display and returns its one-time pairing code (admins only)
+ */
+export const createDisplayPairingCode = async (name: string): Promise<DisplayPairingCode> => {
+  const { data, error } = await supabase.rpc('create_display_pairing_code', { p_name: name });
+
+  if (error) throw error;
+
+  const row = data?.[0];
+  if (!row) throw new Error('No pairing code returned');
+  return row;
+};
+
+/**
+ * Invalidates a display's token; the screen needs a new pairing code afterwards
+ */
+export const revokeDisplayDevice = async (id: string) => {
+  const { error } = await supabase.rpc('revoke_display_device', { p_device_id: id });
+
+  if (error) throw error;
+};
+
+export const deleteDisplayDevice = async (id: string) => {
+  const { error } = await supabase
+    .from('display_devices')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
@@ -0,0 +1,73 @@
+import { supabase } from '../supabase';
+import type { Tables, TablesInsert } from '../database.types';
+
+export type GalleryImage = Tables<'gallery_images'>;
+
+/**
+ * Lists gallery images, newest upload first
+ * @param tag Only images carrying this tag
+ */
+export const listGalleryImages = async (tag?: string): Promise<GalleryImage[]> => {
+  let query = supabase
+    .from('gallery_images')
+    .select('*')
+    .order('upload_date', { ascending: false });
+
+  if (tag) {
+    query = query.contains('tags', [tag]);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Every tag used in the gallery, sorted and without duplicates
+ */
+export const listGalleryTags = async (): Promise<string[]> => {
+  const { data, error } = await supabase
+    .from('gallery_images')
+    .select('tags');
+
+  if (error) throw error;
+
+  const tags = (data || [])
+    .flatMap(item => item.tags || [])
+    .filter(Boolean);
+
+  return Array.from(new Set(tags)).sort();
+};
+
+export const createGalleryImage = async (image: TablesInsert<'gallery_images'>): Promise<GalleryImage> => {
+  const { data, error } = await supabase
+    .from('gallery_images')
+    .insert([image])
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const updateGalleryImageTags = async (id: string, tags: string[]) => {
+  const { error } = await supabase
+    .from('gallery_images')
+    .update({ tags })
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+/**
+ * Deletes the gallery record only; the Cloudinary asset is removed separately
+ */
+export const deleteGalleryImage = async (id: string) => {
+  const { error } = await supabase
+    .from('gallery_images')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
@@ -0,0 +1,52 @@
+import { supabase } from '../supabase';
+import type { Tables } from '../database.types';
+
+export type NewsItem = Tables<'news'>;
+
+/**
+ * Lists news posts, newest first
+ * @param limit Only the latest posts (the presentation screen shows five)
+ */
+export const listNews = async (limit?: number): Promise<NewsItem[]> => {
+  const query = supabase
+    .from('news')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  const { data, error } = limit ? await query.limit(limit) : await query;
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const createNews = async (title: string, content: string): Promise<NewsItem> => {
+  const { data, error } = await supabase
+    .from('news')
+    .insert([{ title, content }])
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const updateNews = async (id: number, title: string, content: string): Promise<NewsItem> => {
+  const { data, error } = await supabase
+    .from('news')
+    .update({ title, content, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const deleteNews = async (id: number) => {
+  const { error } = await supabase
+    .from('news')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
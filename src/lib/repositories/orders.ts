@@ -0,0 +1,77 @@
+import { supabase } from '../supabase';
+import type { Tables, TablesInsert } from '../database.types';
+
+export type Order = Tables<'store_orders'>;
+
+// An order with its line items and the names of the products bought
+export type OrderWithItems = Order & {
+  store_order_items: {
+    id: number;
+    quantity: number;
+    price_at_time: number;
+    store_products: { name: string } | null;
+  }[];
+};
+
+export const listOrders = async (): Promise<OrderWithItems[]> => {
+  const { data, error } = await supabase
+    .from('store_orders')
+    .select(`
+      *,
+      store_order_items (
+        id,
+        quantity,
+        price_at_time,
+        store_products (
+          name
+        )
+      )
+    `)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Lists the ids of orders placed after the given time, newest first
+ */
+export const listOrdersSince = async (since: string): Promise<Pick<Order, 'id' | 'created_at'>[]> => {
+  const { data, error } = await supabase
+    .from('store_orders')
+    .select('id, created_at')
+    .gt('created_at', since)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const createOrder = async (order: TablesInsert<'store_orders'>): Promise<Order> => {
+  const { data, error } = await supabase
+    .from('store_orders')
+    .insert([order])
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const updateOrderStatus = async (id: number, changes: Pick<Order, 'status'> | Pick<Order, 'payment_status'>) => {
+  const { error } = await supabase
+    .from('store_orders')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+export const deleteOrder = async (id: number) => {
+  const { error } = await supabase
+    .from('store_orders')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
@@ -0,0 +1,128 @@
+import { supabase } from '../supabase';
+import type { Tables, TablesInsert, TablesUpdate } from '../database.types';
+
+export type PresentationSettings = Tables<'presentation_settings'>;
+export type PresentationCategory = Tables<'presentation_categories'>;
+export type PresentationImage = Tables<'presentation_images'>;
+
+/**
+ * The presentation settings row, or null before it has been saved the first time
+ */
+export const getPresentationSettings = async (): Promise<PresentationSettings | null> => {
+  const { data, error } = await supabase
+    .from('presentation_settings')
+    .select('*')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+export const savePresentationSettings = async (settings: TablesInsert<'presentation_settings'>) => {
+  const { error } = await supabase
+    .from('presentation_settings')
+    .upsert(settings);
+
+  if (error) throw error;
+};
+
+export const updatePresentationSettings = async (id: string, changes: TablesUpdate<'presentation_settings'>) => {
+  const { error } = await supabase
+    .from('presentation_settings')
+    .update(changes)
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+/**
+ * Calls onChange whenever the settings are updated; returns a function that unsubscribes
+ */
+export const subscribeToPresentationSettings = (onChange: () => void) => {
+  const channel = supabase
+    .channel('presentation_settings_changes')
+    .on('postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'presentation_settings' },
+      onChange
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+export const listPresentationCategories = async (): Promise<PresentationCategory[]> => {
+  const { data, error } = await supabase
+    .from('presentation_categories')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const createPresentationCategory = async (name: string): Promise<PresentationCategory> => {
+  const { data, error } = await supabase
+    .from('presentation_categories')
+    .insert([{ name, is_active: false }])
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Deletes a category together with its images
+ */
+export const deletePresentationCategory = async (id: string) => {
+  const { error: imagesError } = await supabase
+    .from('presentation_images')
+    .delete()
+    .eq('category_id', id);
+
+  if (imagesError) throw imagesError;
+
+  const { error } = await supabase
+    .from('presentation_categories')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+/**
+ * Lists the slides of a category, newest first, without the original PowerPoint files
+ */
+export const listPresentationImages = async (categoryId: string): Promise<PresentationImage[]> => {
+  const { data, error } = await supabase
+    .from('presentation_images')
+    .select('*')
+    .eq('category_id', categoryId)
+    .not('file_type', 'eq', 'ppt-original')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const createPresentationImage = async (image: TablesInsert<'presentation_images'>): Promise<PresentationImage> => {
+  const { data, error } = await supabase
+    .from('presentation_images')
+    .insert([image])
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const deletePresentationImage = async (id: string) => {
+  const { error } = await supabase
+    .from('presentation_images')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
@@ -0,0 +1,52 @@
+import { supabase } from '../supabase';
+import type { Tables, TablesInsert } from '../database.types';
+
+export type Syllabus = 'Cambridge' | 'Edexcel';
+
+export type Product = Omit<Tables<'store_products'>, 'syllabus'> & {
+  syllabus: Syllabus;
+};
+
+export const listProducts = async (): Promise<Product[]> => {
+  const { data, error } = await supabase
+    .from('store_products')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as Product[];
+};
+
+/**
+ * Creates or updates a product depending on whether its id already exists
+ */
+export const saveProduct = async (product: TablesInsert<'store_products'>) => {
+  const { error } = await supabase
+    .from('store_products')
+    .upsert(product, { onConflict: 'id' });
+
+  if (error) throw error;
+};
+
+/**
+ * Whether any order references the product (such products cannot be deleted)
+ */
+export const productHasOrders = async (id: number) => {
+  const { data, error } = await supabase
+    .from('store_order_items')
+    .select('id')
+    .eq('product_id', id)
+    .limit(1);
+
+  if (error) throw error;
+  return Boolean(data && data.length > 0);
+};
+
+export const deleteProduct = async (id: number) => {
+  const { error } = await supabase
+    .from('store_products')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
@@ -0,0 +1,54 @@
+import { supabase } from '../supabase';
+import type { Tables, TablesInsert, TablesUpdate } from '../database.types';
+
+export type Room = Tables<'rooms'>;
+export type RoomInsert = TablesInsert<'rooms'>;
+export type RoomUpdate = TablesUpdate<'rooms'>;
+
+// Postgres error code for a room name that is already taken (names ignore case)
+export const DUPLICATE_ROOM_ERROR = '23505';
+
+/**
+ * Lists every room, ordered by name
+ */
+export const listRooms = async (): Promise<Room[]> => {
+  const { data, error } = await supabase
+    .from('rooms')
+    .select('*')
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const createRoom = async (room: RoomInsert) => {
+  const { error } = await supabase
+    .from('rooms')
+    .insert([room]);
+
+  if (error) throw error;
+};
+
+/**
+ * Changes a room; a new name is also written on the room's classes by the database
+ */
+export const updateRoom = async (id: number, changes: RoomUpdate) => {
+  const { error } = await supabase
+    .from('rooms')
+    .update(changes)
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+/**
+ * Deletes a room; its classes keep the name but are no longer linked to a room
+ */
+export const deleteRoom = async (id: number) => {
+  const { error } = await supabase
+    .from('rooms')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
@@ -0,0 +1,94 @@
+import { supabase } from '../supabase';
+import type { Tables, TablesInsert } from '../database.types';
+
+export type ChangeRequestType = 'cancel' | 'reschedule';
+export type ChangeRequestStatus = 'pending' | 'approved' | 'rejected';
+
+// request_type and status are constrained by CHECKs in teacher_portal.sql
+export type ChangeRequest = Omit<Tables<'schedule_change_requests'>, 'request_type' | 'status'> & {
+  request_type: ChangeRequestType;
+  status: ChangeRequestStatus;
+};
+
+export type ChangeRequestInsert = TablesInsert<'schedule_change_requests'> & {
+  request_type: ChangeRequestType;
+};
+
+// A request with the class it is about and the account that sent it, for the review queue
+export type ChangeRequestForReview = ChangeRequest & {
+  class_schedules: {
+    subject: string;
+    grade: string;
+    curriculum: string;
+    start_time: string;
+    end_time: string;
+    room: string;
+    teachers: { name: string } | null;
+  } | null;
+  requester: { username: string } | null;
+};
+
+/**
+ * Lists the requests sent by a staff account, newest first
+ */
+export const listOwnChangeRequests = async (userId: string): Promise<ChangeRequest[]> => {
+  const { data, error } = await supabase
+    .from('schedule_change_requests')
+    .select('*')
+    .eq('requested_by', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as ChangeRequest[];
+};
+
+/**
+ * Lists the latest requests of all teachers for the admin review queue, newest first
+ */
+export const listChangeRequestsForReview = async (limit = 100): Promise<ChangeRequestForReview[]> => {
+  const { data, error } = await supabase
+    .from('schedule_change_requests')
+    .select(`
+      *,
+      class_schedules (subject, grade, curriculum, start_time, end_time, room, teachers (name)),
+      requester:teacher_users!schedule_change_requests_requested_by_fkey (username)
+    `)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data || []) as ChangeRequestForReview[];
+};
+
+export const createChangeRequest = async (request: ChangeRequestInsert) => {
+  const { error } = await supabase
+    .from('schedule_change_requests')
+    .insert([request]);
+
+  if (error) throw error;
+};
+
+/**
+ * Deletes a request; the database only allows this for the sender's own pending requests
+ */
+export const withdrawChangeRequest = async (id: string) => {
+  const { error } = await supabase
+    .from('schedule_change_requests')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+/**
+ * Approves (applying the change to the timetable) or rejects a request (admins only)
+ */
+export const reviewChangeRequest = async (id: string, approve: boolean, note: string | null) => {
+  const { error } = await supabase.rpc('review_schedule_change_request', {
+    p_request_id: id,
+    p_approve: approve,
+    p_note: note
+  });
+
+  if (error) throw error;
+};
@@ -0,0 +1,176 @@
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '../supabase';
+import type { Tables, TablesInsert, TablesUpdate } from '../database.types';
+import type { Teacher } from './teachers';
+import type { RecurrenceRule } from '../recurrence';
+
+export type Schedule = Tables<'class_schedules'>;
+export type ScheduleInsert = TablesInsert<'class_schedules'>;
+export type ScheduleUpdate = TablesUpdate<'class_schedules'>;
+
+// A class together with the teacher row it belongs to
+export type ScheduleWithTeacher = Schedule & { teachers: Teacher };
+
+interface ScheduleFilter {
+  teacherId?: number;
+  day?: string;
+}
+
+/**
+ * Lists classes with their teacher, ordered by start time
+ * @param filter Optionally only one teacher row and/or one weekday ("Monday")
+ */
+export const listSchedules = async (filter: ScheduleFilter = {}): Promise<ScheduleWithTeacher[]> => {
+  let query = supabase.from('class_schedules').select('*, teachers(*)');
+
+  if (filter.teacherId !== undefined) query = query.eq('teacher_id', filter.teacherId);
+  if (filter.day) query = query.eq('day', filter.day);
+
+  const { data, error } = await query.order('start_time');
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * One class with its teacher, or null if it no longer exists
+ */
+export const getSchedule = async (id: number): Promise<ScheduleWithTeacher | null> => {
+  const { data, error } = await supabase
+    .from('class_schedules')
+    .select('*, teachers(*)')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Lists the classes of the given teacher rows, ordered by start time
+ */
+export const listSchedulesForTeachers = async (teacherIds: number[]): Promise<Schedule[]> => {
+  const { data, error } = await supabase
+    .from('class_schedules')
+    .select('*')
+    .in('teacher_id', teacherIds)
+    .order('start_time');
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const createSchedule = async (schedule: ScheduleInsert) => {
+  const { error } = await supabase
+    .from('class_schedules')
+    .insert([schedule]);
+
+  if (error) throw error;
+};
+
+/**
+ * Adds many classes at once, all or none: if any row fails (including a clash the conflict
+ * check finds, even with another row of the same batch) nothing is added
+ * @returns The number of classes added
+ */
+export const importSchedules = async (schedules: ScheduleInsert[]): Promise<number> => {
+  const { data, error } = await supabase.rpc('import_class_schedules', { p_rows: schedules });
+
+  if (error) throw error;
+  return data;
+};
+
+export const updateSchedule = async (id: number, changes: ScheduleUpdate) => {
+  const { error } = await supabase
+    .from('class_schedules')
+    .update(changes)
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+// A class that would be double-booked by a proposed one
+export type ScheduleConflict = {
+  schedule: ScheduleWithTeacher;
+  teacherClash: boolean;
+  roomClash: boolean;
+};
+
+// Postgres error code raised by the conflict trigger in schedule_conflicts.sql
+export const SCHEDULE_CONFLICT_ERROR = '23P01';
+
+/**
+ * Lists the classes that overlap a proposed class for the same teacher or room, using the
+ * same check the database enforces on save
+ * @param scheduleId The class being edited, so it is not reported against itself
+ */
+export const findScheduleConflicts = async (
+  schedule: Pick<Schedule, 'teacher_id' | 'room' | 'start_time' | 'end_time'> & RecurrenceRule,
+  scheduleId: number | null = null
+): Promise<ScheduleConflict[]> => {
+  const { data, error } = await supabase.rpc('find_schedule_conflicts', {
+    p_schedule_id: scheduleId,
+    p_teacher_id: schedule.teacher_id,
+    p_room: schedule.room,
+    p_day: schedule.day,
+    p_date_tag: schedule.date_tag,
+    p_repeats: schedule.repeats,
+    p_start_time: schedule.start_time,
+    p_end_time: schedule.end_time,
+    p_weekdays: schedule.weekdays,
+    p_starts_on: schedule.starts_on,
+    p_ends_on: schedule.ends_on,
+    p_repeat_interval_weeks: schedule.repeat_interval_weeks
+  });
+
+  if (error) throw error;
+  if (!data || data.length === 0) return [];
+
+  const { data: rows, error: rowsError } = await supabase
+    .from('class_schedules')
+    .select('*, teachers(*)')
+    .in('id', data.map(conflict => conflict.schedule_id))
+    .order('start_time');
+
+  if (rowsError) throw rowsError;
+
+  return (rows || []).map(row => {
+    const conflict = data.find(c => c.schedule_id === row.id);
+    return {
+      schedule: row,
+      teacherClash: Boolean(conflict?.teacher_clash),
+      roomClash: Boolean(conflict?.room_clash)
+    };
+  });
+};
+
+/**
+ * Deletes a class and every one of its occurrences
+ */
+export const deleteSchedule = async (id: number) => {
+  const { error } = await supabase
+    .from('class_schedules')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+/**
+ * Calls onChange whenever anyone adds, edits or deletes a class (see
+ * src/db/schedule_realtime.sql); returns a function that unsubscribes. The rows come
+ * without their teacher, and a deleted row only with its id.
+ */
+export const subscribeToScheduleChanges = (onChange: (change: RealtimePostgresChangesPayload<Schedule>) => void) => {
+  const channel = supabase
+    .channel('class_schedules_changes')
+    .on<Schedule>('postgres_changes',
+      { event: '*', schema: 'public', table: 'class_schedules' },
+      onChange
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
@@ -0,0 +1,131 @@
+import { supabase } from '../supabase';
+import type { Tables, TablesInsert, TablesUpdate } from '../database.types';
+
+// Public website content edited from the Site Editor
+
+export type SubjectContent = Tables<'subjects_content'>;
+export type CalendarEvent = Tables<'calendar_events'>;
+export type TeacherProfile = Tables<'teachers_content'>;
+
+export const listSubjectContents = async (): Promise<SubjectContent[]> => {
+  const { data, error } = await supabase
+    .from('subjects_content')
+    .select('*');
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const createSubjectContent = async (subject: TablesInsert<'subjects_content'>): Promise<SubjectContent> => {
+  const { data, error } = await supabase
+    .from('subjects_content')
+    .insert([subject])
+    .select('*')
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const updateSubjectContent = async (id: string, changes: TablesUpdate<'subjects_content'>) => {
+  const { error } = await supabase
+    .from('subjects_content')
+    .update(changes)
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+export const deleteSubjectContent = async (id: string) => {
+  const { error } = await supabase
+    .from('subjects_content')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+/**
+ * Lists calendar events, earliest first
+ * @param date Only events on this yyyy-MM-dd date (ordered by creation instead)
+ */
+export const listCalendarEvents = async (date?: string): Promise<CalendarEvent[]> => {
+  const query = supabase.from('calendar_events').select('*');
+
+  const { data, error } = date
+    ? await query.eq('event_date', date).order('created_at', { ascending: true })
+    : await query.order('event_date', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const createCalendarEvent = async (event: TablesInsert<'calendar_events'>): Promise<CalendarEvent> => {
+  const { data, error } = await supabase
+    .from('calendar_events')
+    .insert([{ ...event, created_at: new Date().toISOString() }])
+    .select('*')
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const updateCalendarEvent = async (id: string, changes: TablesUpdate<'calendar_events'>) => {
+  const { error } = await supabase
+    .from('calendar_events')
+    .update(changes)
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+export const deleteCalendarEvent = async (id: string) => {
+  const { error } = await supabase
+    .from('calendar_events')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+/**
+ * Lists teacher profiles shown on the website
+ * @param teacherName Only the profiles (one per subject) of this teacher
+ */
+export const listTeacherProfiles = async (teacherName?: string): Promise<TeacherProfile[]> => {
+  let query = supabase.from('teachers_content').select('*');
+
+  if (teacherName) query = query.eq('teacher_name', teacherName);
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const createTeacherProfile = async (profile: TablesInsert<'teachers_content'>) => {
+  const { error } = await supabase
+    .from('teachers_content')
+    .insert([profile]);
+
+  if (error) throw error;
+};
+
+export const updateTeacherProfile = async (id: string, changes: TablesUpdate<'teachers_content'>) => {
+  const { error } = await supabase
+    .from('teachers_content')
+    .update(changes)
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+export const deleteTeacherProfile = async (id: string) => {
+  const { error } = await supabase
+    .from('teachers_content')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
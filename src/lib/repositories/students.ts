@@ -0,0 +1,126 @@
+import { supabase } from '../supabase';
+import type { Tables, TablesInsert, TablesUpdate } from '../database.types';
+
+export type Student = Tables<'students'>;
+export type StudentInsert = TablesInsert<'students'>;
+export type StudentUpdate = TablesUpdate<'students'>;
+
+// In one class (schedule_id), or in every class of a grade and curriculum, optionally of
+// one subject; see src/db/students.sql
+export type Enrollment = Tables<'enrollments'>;
+export type EnrollmentInsert = TablesInsert<'enrollments'>;
+
+export type EnrollmentWithStudent = Enrollment & { students: Student };
+
+// A student on the roster of a class and the enrollment that puts them there
+export type RosterEntry = {
+  scheduleId: number;
+  enrollment: EnrollmentWithStudent;
+};
+
+// Error code raised by the capacity trigger in students.sql
+export const CLASS_FULL_ERROR = 'P0C01';
+
+// Postgres error code for a student already enrolled in that class or group
+export const DUPLICATE_ENROLLMENT_ERROR = '23505';
+
+/**
+ * Lists every student, ordered by name
+ */
+export const listStudents = async (): Promise<Student[]> => {
+  const { data, error } = await supabase
+    .from('students')
+    .select('*')
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const createStudent = async (student: StudentInsert) => {
+  const { error } = await supabase
+    .from('students')
+    .insert([student]);
+
+  if (error) throw error;
+};
+
+export const updateStudent = async (id: string, changes: StudentUpdate) => {
+  const { error } = await supabase
+    .from('students')
+    .update(changes)
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+/**
+ * Deletes a student and all of their enrollments
+ */
+export const deleteStudent = async (id: string) => {
+  const { error } = await supabase
+    .from('students')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+/**
+ * Lists every enrollment, oldest first
+ */
+export const listEnrollments = async (): Promise<Enrollment[]> => {
+  const { data, error } = await supabase
+    .from('enrollments')
+    .select('*')
+    .order('created_at');
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Enrolls a student; the database refuses it with CLASS_FULL_ERROR when a class it
+ * covers is full
+ */
+export const createEnrollment = async (enrollment: EnrollmentInsert) => {
+  const { error } = await supabase
+    .from('enrollments')
+    .insert([enrollment]);
+
+  if (error) throw error;
+};
+
+export const deleteEnrollment = async (id: string) => {
+  const { error } = await supabase
+    .from('enrollments')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+/**
+ * Lists the students on the rosters of classes, by class enrollments and group ones alike,
+ * ordered by student name
+ */
+export const listRosters = async (scheduleIds: number[]): Promise<RosterEntry[]> => {
+  const { data, error } = await supabase.rpc('class_rosters', { p_schedule_ids: scheduleIds });
+
+  if (error) throw error;
+  if (!data || data.length === 0) return [];
+
+  const { data: rows, error: rowsError } = await supabase
+    .from('enrollments')
+    .select('*, students(*)')
+    .in('id', [...new Set(data.map(entry => entry.enrollment_id))]);
+
+  if (rowsError) throw rowsError;
+
+  return data
+    .flatMap(entry => {
+      const enrollment = (rows || []).find(row => row.id === entry.enrollment_id);
+      return enrollment ? [{ scheduleId: entry.schedule_id, enrollment }] : [];
+    })
+    .sort((a, b) => a.enrollment.students.name.localeCompare(b.enrollment.students.name));
+};
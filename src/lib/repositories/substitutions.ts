@@ -0,0 +1,60 @@
+import { supabase } from '../supabase';
+import type { Tables, TablesInsert } from '../database.types';
+import type { Teacher } from './teachers';
+import type { ScheduleWithTeacher } from './schedules';
+
+export type ScheduleSubstitution = Tables<'schedule_substitutions'>;
+
+// assigned_by is filled in by the database from the signed-in account
+export type ScheduleSubstitutionInsert = Omit<TablesInsert<'schedule_substitutions'>, 'assigned_by'>;
+
+// A substitution with its substitute and the class they cover
+export type ScheduleSubstitutionDetails = ScheduleSubstitution & {
+  substitute: Teacher;
+  schedule: ScheduleWithTeacher;
+};
+
+/**
+ * Lists the substitutes of all classes between two dates, inclusive
+ * @param from First date, 'yyyy-MM-dd'
+ * @param to Last date, 'yyyy-MM-dd'
+ */
+export const listSubstitutions = async (from: string, to: string): Promise<ScheduleSubstitutionDetails[]> => {
+  const { data, error } = await supabase
+    .from('schedule_substitutions')
+    .select(`
+      *,
+      substitute:teachers!schedule_substitutions_teacher_id_fkey (*),
+      schedule:class_schedules!schedule_substitutions_schedule_id_fkey (*, teachers(*))
+    `)
+    .gte('occurrence_date', from)
+    .lte('occurrence_date', to)
+    .order('occurrence_date');
+
+  if (error) throw error;
+  return (data || []) as ScheduleSubstitutionDetails[];
+};
+
+/**
+ * Assigns a substitute to one occurrence of a class, replacing any substitute it already has
+ * @param allowOverlap Save even if the substitute teaches another class then (admins only)
+ */
+export const assignSubstitute = async (substitution: ScheduleSubstitutionInsert, allowOverlap = false) => {
+  const { error } = await supabase
+    .from('schedule_substitutions')
+    .upsert([{ ...substitution, allow_overlap: allowOverlap }], { onConflict: 'schedule_id,occurrence_date' });
+
+  if (error) throw error;
+};
+
+/**
+ * Removes a substitute, so the class's own teacher teaches that occurrence again
+ */
+export const deleteSubstitution = async (id: string) => {
+  const { error } = await supabase
+    .from('schedule_substitutions')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
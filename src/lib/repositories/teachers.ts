@@ -0,0 +1,114 @@
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '../supabase';
+import type { Tables } from '../database.types';
+
+// One row per teacher and subject; a teacher teaching two subjects has two rows
+export type Teacher = Tables<'teachers'>;
+
+/**
+ * Lists every teacher row, ordered by name
+ */
+export const listTeachers = async (): Promise<Teacher[]> => {
+  const { data, error } = await supabase
+    .from('teachers')
+    .select('*')
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Lists the teacher rows linked to a staff account
+ */
+export const listTeachersForUser = async (userId: string): Promise<Teacher[]> => {
+  const { data, error } = await supabase
+    .from('teachers')
+    .select('*')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Adds a subject for a teacher (or a new teacher with their first subject)
+ */
+export const createTeacher = async (name: string, subject: string) => {
+  const { error } = await supabase
+    .from('teachers')
+    .insert([{ name, subject }]);
+
+  if (error) throw error;
+};
+
+export const updateTeacherSubject = async (id: number, subject: string) => {
+  const { error } = await supabase
+    .from('teachers')
+    .update({ subject })
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+/**
+ * Renames a teacher across all of their subject rows
+ */
+export const renameTeacher = async (currentName: string, newName: string) => {
+  const { error } = await supabase
+    .from('teachers')
+    .update({ name: newName })
+    .eq('name', currentName);
+
+  if (error) throw error;
+};
+
+export const deleteTeacher = async (id: number) => {
+  const { error } = await supabase
+    .from('teachers')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+/**
+ * Links every subject row of a teacher to a staff account, unlinking whoever the account
+ * was linked to before. Pass null as the name to only unlink.
+ */
+export const linkTeacherToUser = async (userId: string, teacherName: string | null) => {
+  const { error: unlinkError } = await supabase
+    .from('teachers')
+    .update({ user_id: null })
+    .eq('user_id', userId);
+
+  if (unlinkError) throw unlinkError;
+
+  if (teacherName) {
+    const { error } = await supabase
+      .from('teachers')
+      .update({ user_id: userId })
+      .eq('name', teacherName);
+
+    if (error) throw error;
+  }
+};
+
+/**
+ * Calls onChange whenever anyone adds, edits or deletes a teacher row (see
+ * src/db/schedule_realtime.sql); returns a function that unsubscribes. A deleted row
+ * only comes with its id.
+ */
+export const subscribeToTeacherChanges = (onChange: (change: RealtimePostgresChangesPayload<Teacher>) => void) => {
+  const channel = supabase
+    .channel('teachers_changes')
+    .on<Teacher>('postgres_changes',
+      { event: '*', schema: 'public', table: 'teachers' },
+      onChange
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
@@ -0,0 +1,44 @@
+import { supabase } from '../supabase';
+import type { Tables } from '../database.types';
+import type { TemplateClass } from '../scheduleTemplates';
+
+// classes is stored as JSON; see src/db/schedule_templates.sql
+export type ScheduleTemplate = Omit<Tables<'schedule_templates'>, 'classes'> & { classes: TemplateClass[] };
+
+// Postgres error code for a template name that is already taken
+export const DUPLICATE_TEMPLATE_ERROR = '23505';
+
+/**
+ * Lists the saved templates, newest first
+ */
+export const listTemplates = async (): Promise<ScheduleTemplate[]> => {
+  const { data, error } = await supabase
+    .from('schedule_templates')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as ScheduleTemplate[];
+};
+
+/**
+ * Saves classes as a named template
+ * @param startsOn First day the classes were taken from, 'yyyy-MM-dd'
+ * @param endsOn Last day the classes were taken from, 'yyyy-MM-dd'
+ */
+export const createTemplate = async (name: string, startsOn: string, endsOn: string, classes: TemplateClass[]) => {
+  const { error } = await supabase
+    .from('schedule_templates')
+    .insert([{ name, starts_on: startsOn, ends_on: endsOn, classes }]);
+
+  if (error) throw error;
+};
+
+export const deleteTemplate = async (id: string) => {
+  const { error } = await supabase
+    .from('schedule_templates')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
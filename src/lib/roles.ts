@@ -0,0 +1,115 @@
+import { getStoredSession } from './session';
+
+// Must match the CHECK constraint on teacher_users.role (see auth_schema.sql)
+export type Role = 'admin' | 'front_desk' | 'teacher' | 'display';
+
+export const ROLES: Role[] = ['admin', 'front_desk', 'teacher', 'display'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Admin',
+  front_desk: 'Front Desk',
+  teacher: 'Teacher',
+  display: 'Display / Kiosk'
+};
+
+export type Permission =
+  | 'schedule.edit'
+  | 'schedule.delete'
+  | 'schedule.override'
+  | 'teachers.edit'
+  | 'teachers.delete'
+  | 'rooms.edit'
+  | 'rooms.delete'
+  | 'students.edit'
+  | 'students.delete'
+  | 'orders.update'
+  | 'orders.delete'
+  | 'gallery.edit'
+  | 'gallery.delete'
+  | 'content.edit'
+  | 'presentation.edit'
+  | 'accounts.manage';
+
+// Keep in sync with the RLS policies in src/db/access_policies.sql
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: [
+    'schedule.edit',
+    'schedule.delete',
+    'schedule.override',
+    'teachers.edit',
+    'teachers.delete',
+    'rooms.edit',
+    'rooms.delete',
+    'students.edit',
+    'students.delete',
+    'orders.update',
+    'orders.delete',
+    'gallery.edit',
+    'gallery.delete',
+    'content.edit',
+    'presentation.edit',
+    'accounts.manage'
+  ],
+  front_desk: [
+    'schedule.edit',
+    'teachers.edit',
+    'rooms.edit',
+    'students.edit',
+    'orders.update',
+    'gallery.edit',
+    'content.edit',
+    'presentation.edit'
+  ],
+  teacher: [],
+  display: []
+};
+
+type DashboardRoute =
+  | 'dashboard'
+  | 'teacherSchedule'
+  | 'siteEditor'
+  | 'teachers'
+  | 'rooms'
+  | 'students'
+  | 'presentationEditor'
+  | 'accounts'
+  | 'teacherPortal'
+  | 'scheduleRequests'
+  | 'presentation'
+  | 'displays'
+  | 'workload'
+  | 'closures'
+  | 'audit';
+
+// Roles allowed on each dashboard route, shared by the route guards and the navbar
+export const ROUTE_ROLES: Record<DashboardRoute, Role[]> = {
+  dashboard: ['admin', 'front_desk', 'teacher'],
+  teacherSchedule: ['admin', 'front_desk'],
+  siteEditor: ['admin', 'front_desk'],
+  teachers: ['admin', 'front_desk'],
+  rooms: ['admin', 'front_desk'],
+  students: ['admin', 'front_desk'],
+  presentationEditor: ['admin', 'front_desk'],
+  accounts: ['admin'],
+  teacherPortal: ['teacher'],
+  scheduleRequests: ['admin'],
+  presentation: ['admin', 'front_desk', 'display'],
+  displays: ['admin'],
+  workload: ['admin'],
+  closures: ['admin', 'front_desk'],
+  audit: ['admin']
+};
+
+export function hasPermission(role: Role, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
+
+/**
+ * Checks whether the signed-in staff member may perform an action
+ * @param permission The action to check
+ * @returns false when nobody is signed in
+ */
+export function can(permission: Permission): boolean {
+  const session = getStoredSession();
+  return session !== null && hasPermission(session.role, permission);
+}
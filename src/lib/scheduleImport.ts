@@ -0,0 +1,484 @@
+import { addDays, format } from 'date-fns';
+import type { ScheduleInsert } from './repositories/schedules';
+import type { Teacher } from './repositories/teachers';
+import { WEEKDAYS, RecurrenceRule, occursOn, parseDate } from './recurrence';
+
+// Parsing and checking of CSV and .ics files for the schedule import wizard. Nothing here
+// talks to the database; the wizard checks conflicts with existing classes and commits
+// with importSchedules().
+
+export const SCHEDULE_MODES = ['Class', 'Mock', 'Seminar'];
+
+// One class read from a file, keyed by column name. line is the line (CSV) or event
+// number (.ics) shown in the preview.
+export interface ImportRecord {
+  line: number;
+  values: Record<string, string>;
+  // Set when the record can't be imported whatever the mapping, e.g. a monthly event
+  error?: string;
+}
+
+export interface ImportTable {
+  columns: string[];
+  records: ImportRecord[];
+}
+
+// Fields of the scheduling form a column can be mapped to; teacher is matched by name
+export type ImportField =
+  | 'teacher'
+  | 'subject'
+  | 'grade'
+  | 'curriculum'
+  | 'room'
+  | 'mode'
+  | 'weekdays'
+  | 'start_time'
+  | 'end_time'
+  | 'repeats'
+  | 'date_tag'
+  | 'starts_on'
+  | 'ends_on'
+  | 'repeat_interval_weeks'
+  | 'description';
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean; aliases: string[] }[] = [
+  { field: 'teacher', label: 'Teacher', required: true, aliases: ['teacher name', 'tutor', 'instructor'] },
+  { field: 'subject', label: 'Subject', required: true, aliases: ['course', 'summary'] },
+  { field: 'grade', label: 'Grade', required: true, aliases: ['year', 'level'] },
+  { field: 'curriculum', label: 'Curriculum', required: true, aliases: ['board', 'syllabus'] },
+  { field: 'room', label: 'Room', required: false, aliases: ['location', 'classroom'] },
+  { field: 'mode', label: 'Mode', required: false, aliases: ['type'] },
+  { field: 'weekdays', label: 'Days', required: false, aliases: ['day', 'days', 'weekday'] },
+  { field: 'start_time', label: 'Start Time', required: true, aliases: ['start', 'from', 'begins'] },
+  { field: 'end_time', label: 'End Time', required: true, aliases: ['end', 'to', 'ends'] },
+  { field: 'repeats', label: 'Repeats', required: false, aliases: ['repeat', 'recurring', 'weekly'] },
+  { field: 'date_tag', label: 'Date (one-time class)', required: false, aliases: ['date'] },
+  { field: 'starts_on', label: 'Starts On', required: false, aliases: ['term start', 'first date'] },
+  { field: 'ends_on', label: 'Ends On', required: false, aliases: ['term end', 'last date', 'until'] },
+  { field: 'repeat_interval_weeks', label: 'Every N Weeks', required: false, aliases: ['interval', 'every'] },
+  { field: 'description', label: 'Description', required: false, aliases: ['notes', 'details'] }
+];
+
+// Column name for each field; unmapped fields are left empty
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+// A checked record: the class to insert, or why it can't be
+export interface ImportRow {
+  line: number;
+  teacherName: string;
+  schedule: (ScheduleInsert & RecurrenceRule) | null;
+  errors: string[];
+}
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Splits CSV text into records keyed by the header row. Handles quoted fields (with
+ * commas, quotes and line breaks inside) and comma, semicolon or tab separators.
+ */
+export const parseCsv = (text: string): ImportTable => {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] || '';
+  const separator = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const lines: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let startLine = 1;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === separator) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      cells.push(cell);
+      lines.push({ line: startLine, cells });
+      cells = [];
+      cell = '';
+      line++;
+      startLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || cells.length > 0) {
+    cells.push(cell);
+    lines.push({ line: startLine, cells });
+  }
+
+  const nonEmpty = lines.filter(l => l.cells.some(c => c.trim()));
+  if (nonEmpty.length === 0) return { columns: [], records: [] };
+
+  const columns = nonEmpty[0].cells.map((c, i) => c.trim() || `Column ${i + 1}`);
+  const records = nonEmpty.slice(1).map(({ line, cells }) => ({
+    line,
+    values: Object.fromEntries(columns.map((column, i) => [column, (cells[i] || '').trim()]))
+  }));
+
+  return { columns, records };
+};
+
+const ICS_WEEKDAYS: Record<string, string> = {
+  MO: 'Monday', TU: 'Tuesday', WE: 'Wednesday', TH: 'Thursday', FR: 'Friday', SA: 'Saturday', SU: 'Sunday'
+};
+
+const unescapeIcsText = (value: string) =>
+  value.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1');
+
+// Local date and time of a DATE-TIME value; UTC values ("...Z") are converted to local time
+const parseIcsDateTime = (value: string) => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  if (hour === undefined) return { date: `${year}-${month}-${day}`, time: null };
+
+  const date = utc
+    ? new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second))
+    : new Date(+year, +month - 1, +day, +hour, +minute, +second);
+
+  return { date: format(date, 'yyyy-MM-dd'), time: format(date, 'HH:mm') };
+};
+
+/**
+ * Reads the events of an iCalendar file into records with one column per import field,
+ * so they can be mapped like a CSV. Weekly RRULEs become repeating classes; the
+ * "Teacher:", "Grade:", "Curriculum:" and "Mode:" lines written by our own calendar
+ * feed are picked out of the description.
+ */
+export const parseIcs = (text: string): ImportTable => {
+  // Unfold continuation lines (RFC 5545 3.1)
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const records: ImportRecord[] = [];
+  let properties: Record<string, { params: string; value: string }> | null = null;
+
+  for (const rawLine of lines) {
+    const line = rawLine.trimEnd();
+
+    if (line === 'BEGIN:VEVENT') {
+      properties = {};
+    } else if (line === 'END:VEVENT' && properties) {
+      records.push(icsEventToRecord(properties, records.length + 1));
+      properties = null;
+    } else if (properties) {
+      const colon = line.indexOf(':');
+      if (colon === -1) continue;
+
+      const [name, ...params] = line.slice(0, colon).split(';');
+      // Keep the first of repeated properties (e.g. several EXDATEs aren't imported)
+      if (!properties[name.toUpperCase()]) {
+        properties[name.toUpperCase()] = { params: params.join(';'), value: line.slice(colon + 1) };
+      }
+    }
+  }
+
+  return { columns: IMPORT_FIELDS.map(f => f.field), records };
+};
+
+const icsEventToRecord = (
+  properties: Record<string, { params: string; value: string }>,
+  line: number
+): ImportRecord => {
+  const values: Record<string, string> = Object.fromEntries(IMPORT_FIELDS.map(f => [f.field, '']));
+  const start = properties.DTSTART && parseIcsDateTime(properties.DTSTART.value);
+  const end = properties.DTEND && parseIcsDateTime(properties.DTEND.value);
+
+  values.subject = unescapeIcsText(properties.SUMMARY?.value || '');
+  values.room = unescapeIcsText(properties.LOCATION?.value || '');
+
+  // "Key: value" lines of our own feed; everything else stays the description
+  const descriptionLines: string[] = [];
+  for (const descriptionLine of unescapeIcsText(properties.DESCRIPTION?.value || '').split('\n')) {
+    const match = descriptionLine.match(/^(Teacher|Grade|Curriculum|Mode|Room): (.*)$/);
+    if (match) {
+      const field = match[1].toLowerCase();
+      if (!values[field]) values[field] = match[2].trim();
+    } else if (!/^Moved from /.test(descriptionLine)) {
+      descriptionLines.push(descriptionLine);
+    }
+  }
+  values.description = descriptionLines.join('\n').trim();
+
+  // Our feed's summaries read "Subject (Grade Curriculum)"
+  const classSuffix = ` (${values.grade} ${values.curriculum})`;
+  if (values.grade && values.curriculum && values.subject.endsWith(classSuffix)) {
+    values.subject = values.subject.slice(0, -classSuffix.length);
+  }
+
+  if (!values.teacher && properties.ORGANIZER) {
+    values.teacher = properties.ORGANIZER.params.match(/CN="?([^";]+)"?/)?.[1] || '';
+  }
+
+  if (!start || !start.time || !end || !end.time) {
+    return { line, values, error: 'All-day events and events without a start and end time cannot be imported' };
+  }
+
+  values.start_time = start.time;
+  values.end_time = end.time;
+
+  const rrule = properties.RRULE?.value;
+  if (!rrule) {
+    values.repeats = 'no';
+    values.date_tag = start.date;
+    return { line, values };
+  }
+
+  const rule = Object.fromEntries(rrule.split(';').map(part => part.split('=')));
+  if (rule.FREQ !== 'WEEKLY') {
+    return { line, values, error: `Only weekly repeats can be imported (this event repeats ${String(rule.FREQ).toLowerCase()})` };
+  }
+
+  if (rule.COUNT) {
+    return { line, values, error: 'Repeats limited by a number of times (COUNT) cannot be imported; use an end date' };
+  }
+
+  values.repeats = 'yes';
+  values.starts_on = start.date;
+  values.repeat_interval_weeks = rule.INTERVAL || '1';
+  values.weekdays = rule.BYDAY
+    ? rule.BYDAY.split(',').map((code: string) => ICS_WEEKDAYS[code.slice(-2)] || code).join(', ')
+    : format(parseDate(start.date), 'EEEE');
+  if (rule.UNTIL) values.ends_on = parseIcsDateTime(rule.UNTIL)?.date || '';
+
+  return { line, values };
+};
+
+/**
+ * Maps every field to the column with the same name or a common alternative, if any
+ */
+export const autoMapColumns = (columns: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+
+  for (const { field, label, aliases } of IMPORT_FIELDS) {
+    const names = [field, label, ...aliases].map(normalize);
+    const column = columns.find(c => names.includes(normalize(c)));
+    if (column && !Object.values(mapping).includes(column)) mapping[field] = column;
+  }
+
+  return mapping;
+};
+
+// "9:00", "09:00:00", "9am", "2:30 PM" -> "HH:mm"
+const parseTime = (value: string) => {
+  const match = value.trim().toLowerCase().match(/^(\d{1,2})(?:[:.](\d{2}))?(?::\d{2})?\s*(am|pm)?$/);
+  if (!match) return null;
+
+  let hour = Number(match[1]);
+  const minute = Number(match[2] || 0);
+  if (match[3]) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (match[3] === 'pm' ? 12 : 0);
+  }
+  if (hour > 23 || minute > 59) return null;
+
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+};
+
+// yyyy-MM-dd (or yyyy/MM/dd) -> yyyy-MM-dd; day-first and month-first dates are ambiguous
+const parseDateValue = (value: string) => {
+  const match = value.trim().match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/);
+  if (!match) return null;
+
+  const date = `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`;
+  return format(parseDate(date), 'yyyy-MM-dd') === date ? date : null;
+};
+
+// "Mon, Wed", "Monday;Thursday", "MO WE" -> weekday names in timetable order
+const parseWeekdays = (value: string) => {
+  const parts = value.toLowerCase().split(/[,;/\s]+/).filter(Boolean);
+  // Two letters are enough to tell the days apart ("tu", "th", "sa", "su")
+  const days = parts.map(part => part.length >= 2 ? WEEKDAYS.find(day => day.toLowerCase().startsWith(part)) : undefined);
+
+  if (days.some(day => !day)) return null;
+  return WEEKDAYS.filter(day => days.includes(day));
+};
+
+const parseBoolean = (value: string) => {
+  const normalized = value.trim().toLowerCase();
+  if (['yes', 'y', 'true', '1', 'weekly', 'repeat', 'repeats', 'repeating'].includes(normalized)) return true;
+  if (['no', 'n', 'false', '0', 'once', 'one-time', 'one time'].includes(normalized)) return false;
+  return null;
+};
+
+/**
+ * Checks each record against the same rules as the scheduling form and turns the valid
+ * ones into classes. Teachers are matched by name and subject, ignoring case.
+ */
+export const buildImportRows = (table: ImportTable, mapping: ColumnMapping, teachers: Teacher[]): ImportRow[] =>
+  table.records.map(record => {
+    const get = (field: ImportField) => {
+      const column = mapping[field];
+      return column ? (record.values[column] || '').trim() : '';
+    };
+
+    const errors: string[] = record.error ? [record.error] : [];
+    const teacherName = get('teacher');
+    const subject = get('subject');
+    const grade = get('grade');
+    const curriculum = get('curriculum');
+
+    for (const { field, label, required } of IMPORT_FIELDS) {
+      if (required && !get(field)) errors.push(`${label} is missing`);
+    }
+
+    let teacher: Teacher | undefined;
+    if (teacherName) {
+      const named = teachers.filter(t => t.name.toLowerCase() === teacherName.toLowerCase());
+      teacher = named.find(t => t.subject.toLowerCase() === subject.toLowerCase());
+
+      if (named.length === 0) {
+        errors.push(`No teacher named "${teacherName}"`);
+      } else if (!teacher && subject) {
+        errors.push(`${named[0].name} doesn't teach ${subject} (teaches ${named.map(t => t.subject).join(', ')})`);
+      }
+    }
+
+    const modeValue = get('mode') || 'Class';
+    const mode = SCHEDULE_MODES.find(m => m.toLowerCase() === modeValue.toLowerCase());
+    if (!mode) errors.push(`Mode must be one of ${SCHEDULE_MODES.join(', ')}`);
+
+    const startTime = get('start_time') ? parseTime(get('start_time')) : null;
+    const endTime = get('end_time') ? parseTime(get('end_time')) : null;
+    if (get('start_time') && !startTime) errors.push(`Start time "${get('start_time')}" is not a time`);
+    if (get('end_time') && !endTime) errors.push(`End time "${get('end_time')}" is not a time`);
+    if (startTime && endTime && endTime <= startTime) errors.push('The class must end after it starts');
+
+    const dates: Partial<Record<'date_tag' | 'starts_on' | 'ends_on', string>> = {};
+    for (const field of ['date_tag', 'starts_on', 'ends_on'] as const) {
+      const value = get(field);
+      if (!value) continue;
+
+      const date = parseDateValue(value);
+      if (date) dates[field] = date;
+      else errors.push(`${IMPORT_FIELDS.find(f => f.field === field)!.label} "${value}" is not a yyyy-MM-dd date`);
+    }
+
+    let weekdays = get('weekdays') ? parseWeekdays(get('weekdays')) : [];
+    if (weekdays === null) {
+      errors.push(`Days "${get('weekdays')}" are not weekday names`);
+      weekdays = [];
+    }
+
+    let repeats = weekdays.length > 0 && !dates.date_tag;
+    if (get('repeats')) {
+      const parsed = parseBoolean(get('repeats'));
+      if (parsed === null) errors.push(`Repeats "${get('repeats')}" should be yes or no`);
+      else repeats = parsed;
+    }
+
+    const interval = get('repeat_interval_weeks') ? Number(get('repeat_interval_weeks')) : 1;
+
+    if (repeats) {
+      // A repeating class given only a date runs weekly on that day from that date
+      if (weekdays.length === 0 && dates.date_tag) {
+        weekdays = [format(parseDate(dates.date_tag), 'EEEE')];
+        dates.starts_on = dates.starts_on || dates.date_tag;
+      }
+      if (weekdays.length === 0) errors.push('A repeating class needs at least one day');
+      if (!Number.isInteger(interval) || interval < 1 || interval > 52) {
+        errors.push('Every N weeks must be a whole number from 1 to 52');
+      } else if (interval > 1 && !dates.starts_on) {
+        errors.push('A class that repeats every few weeks needs a start date');
+      }
+      if (dates.starts_on && dates.ends_on && dates.ends_on < dates.starts_on) {
+        errors.push('The end date must be on or after the start date');
+      }
+    } else if (!dates.date_tag) {
+      errors.push('A one-time class needs a date');
+    }
+
+    if (errors.length > 0 || !teacher || !mode || !startTime || !endTime) {
+      return { line: record.line, teacherName, schedule: null, errors };
+    }
+
+    const schedule: ScheduleInsert & RecurrenceRule = {
+      teacher_id: teacher.id,
+      subject: teacher.subject,
+      grade,
+      curriculum,
+      room: get('room'),
+      mode,
+      description: get('description'),
+      // day keeps the first weekday so filters by day still find repeating classes
+      day: repeats ? weekdays[0] : format(parseDate(dates.date_tag!), 'EEEE'),
+      start_time: startTime,
+      end_time: endTime,
+      repeats,
+      date_tag: repeats ? dates.starts_on || '' : dates.date_tag!,
+      weekdays: repeats ? weekdays : null,
+      repeat_interval_weeks: repeats ? interval : 1,
+      starts_on: repeats ? dates.starts_on || null : null,
+      ends_on: repeats ? dates.ends_on || null : null
+    };
+
+    return { line: record.line, teacherName: teacher.name, schedule, errors };
+  });
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Whether two classes run on a common date within the coming year (or on a one-off's date)
+const shareADate = (a: RecurrenceRule, b: RecurrenceRule) => {
+  if (!a.repeats) return occursOn(b, parseDate(a.date_tag));
+  if (!b.repeats) return occursOn(a, parseDate(b.date_tag));
+
+  const today = new Date();
+  for (let offset = 0; offset < 365; offset++) {
+    const date = addDays(today, offset);
+    if (occursOn(a, date) && occursOn(b, date)) return true;
+  }
+  return false;
+};
+
+/**
+ * Clashes between the classes of one file, which the conflict check against the database
+ * can't see before they are saved. Uses the same rule as find_schedule_conflicts():
+ * same teacher, or same non-empty room, overlapping times on a common date.
+ * @returns For each row index, the lines of the rows it clashes with
+ */
+export const findBatchClashes = (rows: ImportRow[]) => {
+  const clashes = new Map<number, number[]>();
+
+  rows.forEach((a, i) => {
+    rows.slice(i + 1).forEach((b, offset) => {
+      if (!a.schedule || !b.schedule) return;
+
+      const roomA = (a.schedule.room || '').trim().toLowerCase();
+      const roomB = (b.schedule.room || '').trim().toLowerCase();
+      const sameTeacher = a.teacherName === b.teacherName;
+      const sameRoom = roomA !== '' && roomA === roomB;
+      if (!sameTeacher && !sameRoom) return;
+
+      const overlaps = toMinutes(a.schedule.start_time) < toMinutes(b.schedule.end_time) &&
+        toMinutes(b.schedule.start_time) < toMinutes(a.schedule.end_time);
+      if (!overlaps || !shareADate(a.schedule, b.schedule)) return;
+
+      const j = i + 1 + offset;
+      clashes.set(i, [...(clashes.get(i) || []), b.line]);
+      clashes.set(j, [...(clashes.get(j) || []), a.line]);
+    });
+  });
+
+  return clashes;
+};
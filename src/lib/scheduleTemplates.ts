@@ -0,0 +1,141 @@
+import { format, addDays, differenceInCalendarDays, startOfWeek } from 'date-fns';
+import type { Schedule } from './repositories/schedules';
+import { occursOn, parseDate } from './recurrence';
+
+// The rules are described in src/db/schedule_templates.sql
+
+// The columns of a class a template keeps: all but its id and bookkeeping
+export type TemplateClass = Pick<
+  Schedule,
+  | 'teacher_id'
+  | 'subject'
+  | 'grade'
+  | 'curriculum'
+  | 'room'
+  | 'room_id'
+  | 'mode'
+  | 'description'
+  | 'day'
+  | 'start_time'
+  | 'end_time'
+  | 'repeats'
+  | 'date_tag'
+  | 'weekdays'
+  | 'starts_on'
+  | 'ends_on'
+  | 'repeat_interval_weeks'
+  | 'capacity'
+>;
+
+// A class as it would be added for new dates, or null when it doesn't run in them
+export interface ClonedClass {
+  source: TemplateClass;
+  schedule: TemplateClass | null;
+}
+
+const toTemplateClass = (schedule: Schedule): TemplateClass => ({
+  teacher_id: schedule.teacher_id,
+  subject: schedule.subject,
+  grade: schedule.grade,
+  curriculum: schedule.curriculum,
+  room: schedule.room,
+  room_id: schedule.room_id,
+  mode: schedule.mode,
+  description: schedule.description,
+  day: schedule.day,
+  start_time: schedule.start_time,
+  end_time: schedule.end_time,
+  repeats: schedule.repeats,
+  date_tag: schedule.date_tag,
+  weekdays: schedule.weekdays,
+  starts_on: schedule.starts_on,
+  ends_on: schedule.ends_on,
+  repeat_interval_weeks: schedule.repeat_interval_weeks,
+  capacity: schedule.capacity
+});
+
+const getDays = (from: Date, to: Date) =>
+  Array.from({ length: Math.max(differenceInCalendarDays(to, from) + 1, 0) }, (_, i) => addDays(from, i));
+
+/**
+ * The classes that run at least once between two dates, inclusive, e.g. to save a term
+ */
+export const getClassesBetween = (schedules: Schedule[], from: Date, to: Date): TemplateClass[] => {
+  const days = getDays(from, to);
+  return schedules.filter(schedule => days.some(day => occursOn(schedule, day))).map(toTemplateClass);
+};
+
+/**
+ * The classes that run in the week starting on a Monday, to repeat that week over other
+ * dates. A repeating class keeps only the weekdays it runs on that week and loses its
+ * start and end dates; one that repeats every few weeks keeps its cycle.
+ */
+export const getWeekClasses = (schedules: Schedule[], weekStart: Date): TemplateClass[] => {
+  const days = getDays(weekStart, addDays(weekStart, 6));
+
+  return schedules.flatMap(schedule => {
+    const weekdays = days.filter(day => occursOn(schedule, day)).map(day => format(day, 'EEEE'));
+    if (weekdays.length === 0) return [];
+
+    const copy = toTemplateClass(schedule);
+    return [schedule.repeats ? { ...copy, day: weekdays[0], weekdays, starts_on: null, ends_on: null } : copy];
+  });
+};
+
+/**
+ * Moves classes taken from the dates starting on sourceStart to the dates from..to,
+ * inclusive. One-off dates and class start and end dates move by the whole weeks between
+ * the two first days, so every class keeps its weekday, and repeating classes are cut to
+ * the new dates. A class that repeats every few weeks keeps its cycle: when it is cut, it
+ * starts in the first week of its cycle on or after the new first day.
+ */
+export const cloneClasses = (classes: TemplateClass[], sourceStart: Date, from: Date, to: Date): ClonedClass[] => {
+  const shift = differenceInCalendarDays(
+    startOfWeek(from, { weekStartsOn: 1 }),
+    startOfWeek(sourceStart, { weekStartsOn: 1 })
+  );
+  const move = (date: string) => format(addDays(parseDate(date), shift), 'yyyy-MM-dd');
+  const first = format(from, 'yyyy-MM-dd');
+  const last = format(to, 'yyyy-MM-dd');
+  const weekOf = (date: string) => startOfWeek(parseDate(date), { weekStartsOn: 1 });
+
+  return classes.map(source => {
+    if (!source.repeats) {
+      const date = move(source.date_tag);
+      // yyyy-MM-dd strings compare in date order
+      return { source, schedule: first <= date && date <= last ? { ...source, date_tag: date } : null };
+    }
+
+    const movedStart = source.starts_on ? move(source.starts_on) : null;
+    let startsOn = movedStart && movedStart > first ? movedStart : first;
+
+    // occursOn() counts the cycle from the week of starts_on. Without a start of its own
+    // (a copied week) the class runs in the week of the new first day, which is in its cycle.
+    const interval = source.repeat_interval_weeks || 1;
+    const weeks = movedStart ? Math.round(differenceInCalendarDays(weekOf(startsOn), weekOf(movedStart)) / 7) : 0;
+    if (weeks % interval !== 0) {
+      startsOn = format(addDays(weekOf(startsOn), 7 * (interval - weeks % interval)), 'yyyy-MM-dd');
+    }
+
+    const endsOn = source.ends_on && move(source.ends_on) < last ? move(source.ends_on) : last;
+    const schedule = { ...source, starts_on: startsOn, ends_on: endsOn };
+
+    // A class runs in its first cycle or not at all
+    const runs = startsOn <= endsOn && getDays(parseDate(startsOn), parseDate(endsOn))
+      .slice(0, 7 * interval)
+      .some(day => occursOn(schedule, day));
+
+    return { source, schedule: runs ? schedule : null };
+  });
+};
+
+/**
+ * Whether two classes are the same class: same teacher row, subject, group and times
+ */
+export const isSameClass = (a: TemplateClass, b: TemplateClass) =>
+  a.teacher_id === b.teacher_id &&
+  a.subject === b.subject &&
+  a.grade === b.grade &&
+  a.curriculum === b.curriculum &&
+  a.start_time.slice(0, 5) === b.start_time.slice(0, 5) &&
+  a.end_time.slice(0, 5) === b.end_time.slice(0, 5);
@@ -0,0 +1,77 @@
+import type { Role } from './roles';
+
+export interface StaffSession {
+  token: string;
+  userId: string;
+  username: string;
+  role: Role;
+  expiresAt: string;
+}
+
+const SESSION_STORAGE_KEY = 'staffSession';
+
+/**
+ * Reads the staff session saved by the login page
+ * @returns The stored session, or null when there is none or it has expired
+ */
+export function getStoredSession(): StaffSession | null {
+  const raw = localStorage.getItem(SESSION_STORAGE_KEY);
+  if (!raw) return null;
+
+  try {
+    const session = JSON.parse(raw) as StaffSession;
+    if (!session.token || !session.role || new Date(session.expiresAt).getTime() <= Date.now()) {
+      clearStoredSession();
+      return null;
+    }
+    return session;
+  } catch {
+    clearStoredSession();
+    return null;
+  }
+}
+
+export function storeSession(session: StaffSession) {
+  localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+}
+
+export function clearStoredSession() {
+  localStorage.removeItem(SESSION_STORAGE_KEY);
+  // Flag used before real accounts existed
+  localStorage.removeItem('isAuthenticated');
+}
+
+const DISPLAY_TOKEN_KEY = 'displayToken';
+
+/**
+ * Token of a paired presentation screen (see src/db/display_devices.sql)
+ * @returns The token, or null when this browser isn't a paired display
+ */
+export function getDisplayToken(): string | null {
+  return localStorage.getItem(DISPLAY_TOKEN_KEY);
+}
+
+export function storeDisplayToken(token: string) {
+  localStorage.setItem(DISPLAY_TOKEN_KEY, token);
+}
+
+export function clearDisplayToken() {
+  localStorage.removeItem(DISPLAY_TOKEN_KEY);
+}
+
+/**
+ * fetch wrapper for the Supabase client that sends the session and display tokens with
+ * every request, so database functions and RLS policies can tell who is calling
+ */
+export const fetchWithSession: typeof fetch = (input, init) => {
+  const session = getStoredSession();
+  const displayToken = getDisplayToken();
+  if (!session && !displayToken) {
+    return fetch(input, init);
+  }
+
+  const headers = new Headers(init?.headers);
+  if (session) headers.set('x-session-token', session.token);
+  if (displayToken) headers.set('x-display-token', displayToken);
+  return fetch(input, { ...init, headers });
+};
@@ -0,0 +1,46 @@
+// Tables exported as CSV or Excel (.xlsx) files
+import writeXlsxFile from 'write-excel-file/browser';
+
+export type Cell = string | number;
+
+export interface Sheet {
+  name: string;
+  rows: Cell[][];
+}
+
+const escapeCsvCell = (cell: Cell) => {
+  // Text that a spreadsheet would read as a formula, e.g. a name typed as "=HYPERLINK(...)",
+  // is kept as text with a leading apostrophe
+  const text = typeof cell === 'string' && /^[=+\-@\t\r]/.test(cell) ? `'${cell}` : String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * A CSV file of the rows. Starts with a byte order mark so Excel reads it as UTF-8.
+ */
+export const toCsv = (rows: Cell[][]) =>
+  new Blob(['\uFEFF' + rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n')], {
+    type: 'text/csv;charset=utf-8'
+  });
+
+// Excel allows 31 characters and none of []:*?/\ in a sheet name
+const sheetName = (name: string) => name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet';
+
+/**
+ * An Excel workbook with one worksheet per sheet, in order
+ */
+export const toXlsx = (sheets: Sheet[]) =>
+  writeXlsxFile(sheets.map(sheet => ({ sheet: sheetName(sheet.name), data: sheet.rows }))).toBlob();
+
+/**
+ * Saves a file through the browser's download
+ */
+export const downloadFile = (file: Blob, fileName: string) => {
+  const url = URL.createObjectURL(file);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking the URL straight away cancels the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+};
@@ -1,4 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
+import { fetchWithSession } from './session';
+import type { Database } from './database.types';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -7,4 +9,7 @@ if (!supabaseUrl || !supabaseAnonKey) {
   throw new Error('Missing Supabase environment variables');
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey); 
\ No newline at end of file
+// The only Supabase client in the app; components go through src/lib/repositories
+export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey, {
+  global: { fetch: fetchWithSession }
+}); 
\ No newline at end of file
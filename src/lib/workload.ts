@@ -0,0 +1,73 @@
+import { format, addDays, differenceInCalendarDays } from 'date-fns';
+import type { ScheduleWithTeacher } from './repositories/schedules';
+import type { ScheduleSubstitutionDetails } from './repositories/substitutions';
+import type { Closure } from './repositories/closures';
+import { getOccurrences } from './recurrence';
+import { getClosureFor } from './closures';
+
+// One class as it was (or will be) taught on a date, and who taught it
+export interface TaughtOccurrence {
+  schedule: ScheduleWithTeacher;
+  date: string;
+  hours: number;
+  teacherName: string;
+  // The class's own teacher when a substitute taught it
+  coveredFor: string | null;
+}
+
+export interface WorkloadTotal {
+  key: string;
+  classes: number;
+  hours: number;
+}
+
+const getHours = (startTime: string, endTime: string) => {
+  const [startHour, startMinute] = startTime.split(':').map(Number);
+  const [endHour, endMinute] = endTime.split(':').map(Number);
+  return (endHour * 60 + endMinute - (startHour * 60 + startMinute)) / 60;
+};
+
+/**
+ * Every occurrence of the classes between two dates, inclusive, leaving out cancelled
+ * ones and ones during a closure of their grade. A moved occurrence counts once, as its
+ * make-up class, and a covered one counts for its substitute.
+ * @param cancellations At least the cancellations between the two dates
+ * @param substitutions At least the substitutions between the two dates
+ * @param closures At least the closures overlapping the two dates
+ */
+export const getTaughtOccurrences = (
+  schedules: ScheduleWithTeacher[],
+  cancellations: { schedule_id: number; occurrence_date: string }[],
+  substitutions: ScheduleSubstitutionDetails[],
+  closures: Closure[],
+  from: Date,
+  to: Date
+): TaughtOccurrence[] =>
+  Array.from({ length: Math.max(differenceInCalendarDays(to, from) + 1, 0) }, (_, i) => addDays(from, i))
+    .flatMap(day => getOccurrences(schedules, cancellations, day, substitutions)
+      .filter(({ schedule, cancellation }) => !cancellation && !getClosureFor(closures, schedule.grade, day))
+      .map(({ schedule, substitution }) => ({
+        schedule,
+        date: format(day, 'yyyy-MM-dd'),
+        hours: getHours(schedule.start_time, schedule.end_time),
+        teacherName: substitution ? substitution.substitute.name : schedule.teachers.name,
+        coveredFor: substitution ? schedule.teachers.name : null
+      })));
+
+/**
+ * Classes and hours per group, most hours first
+ * @param getKey The group of an occurrence, e.g. its teacher's name
+ */
+export const totalWorkload = (occurrences: TaughtOccurrence[], getKey: (occurrence: TaughtOccurrence) => string) => {
+  const totals = new Map<string, WorkloadTotal>();
+
+  occurrences.forEach(occurrence => {
+    const key = getKey(occurrence);
+    const total = totals.get(key) || { key, classes: 0, hours: 0 };
+    total.classes++;
+    total.hours += occurrence.hours;
+    totals.set(key, total);
+  });
+
+  return [...totals.values()].sort((a, b) => b.hours - a.hours || a.key.localeCompare(b.key));
+};
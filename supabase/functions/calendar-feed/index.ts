@@ -0,0 +1,513 @@
+// iCalendar (.ics) timetable feeds
+// Public, read-only feeds of class_schedules that phone and desktop calendars can
+// subscribe to. Repeating classes become RRULEs, cancelled occurrences and ones during a
+// closure of their grade become EXDATEs, and moved occurrences show up as their one-off
+// make-up class. An occurrence with a substitute leaves its teacher's feed for the
+// substitute's, and names the substitute in the other feeds, as on the schedule page.
+//
+//   /calendar-feed                                 every class
+//   /calendar-feed?teacher=Jane%20Doe              one teacher (all of their subjects)
+//   /calendar-feed?grade=Grade%209&curriculum=IGCSE one grade and curriculum
+//
+// Deploy with: supabase functions deploy calendar-feed --no-verify-jwt
+// Secrets:     supabase secrets set CALENDAR_TIMEZONE=...   (optional IANA zone; without it
+//              times are "floating" and shown in the subscriber's own time zone)
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS'
+};
+
+// Classes and cancellations older than this are left out to keep feeds small; repeating
+// classes start in the feed on their first occurrence in this window
+const HISTORY_DAYS = 90;
+
+// Weekdays in timetable order, with their iCalendar BYDAY codes
+const WEEKDAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+const BYDAY = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+interface FeedSchedule {
+  id: number;
+  subject: string;
+  grade: string;
+  curriculum: string;
+  room: string | null;
+  mode: string;
+  description: string | null;
+  day: string;
+  start_time: string;
+  end_time: string;
+  repeats: boolean;
+  date_tag: string;
+  weekdays: string[] | null;
+  starts_on: string | null;
+  ends_on: string | null;
+  repeat_interval_weeks: number;
+  created_at: string | null;
+  teachers: { name: string };
+}
+
+interface FeedCancellation {
+  schedule_id: number;
+  occurrence_date: string;
+  reason: string | null;
+  makeup_schedule_id: number | null;
+}
+
+interface FeedSubstitution {
+  schedule_id: number;
+  occurrence_date: string;
+  substitute: { name: string };
+  schedule: FeedSchedule;
+}
+
+interface FeedClosure {
+  start_date: string;
+  end_date: string;
+  grades: string[] | null;
+}
+
+// What the events of a feed are built from; teacher is set for one teacher's feed
+interface FeedContext {
+  teacher: string | null;
+  cancellations: FeedCancellation[];
+  substitutions: FeedSubstitution[];
+  closures: FeedClosure[];
+  since: string;
+  host: string;
+  stamp: string;
+  timeZone: string | null;
+}
+
+const requireEnv = (name: string) => {
+  const value = Deno.env.get(name);
+  if (!value) throw new Error(`Missing ${name}`);
+  return value;
+};
+
+const text = (body: string, status = 200) =>
+  new Response(body, { status, headers: { ...corsHeaders, 'Content-Type': 'text/plain; charset=utf-8' } });
+
+// yyyy-MM-dd of a Date, in UTC so the arithmetic below never crosses a DST change
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+const addDays = (date: string, days: number) => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return toDateString(result);
+};
+
+// 0 for Monday ... 6 for Sunday
+const weekdayIndex = (date: string) => (new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7;
+
+// Whole weeks between the Mondays of the weeks of two dates
+const weeksBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${addDays(to, -weekdayIndex(to))}T00:00:00Z`) -
+    Date.parse(`${addDays(from, -weekdayIndex(from))}T00:00:00Z`)) / (7 * 24 * 60 * 60 * 1000));
+
+/** Escapes a TEXT value (RFC 5545 3.3.11) */
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/** Folds a content line at 75 octets, continuing with a space (RFC 5545 3.1) */
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+/** Offset from UTC of a time zone at an instant, in minutes east of UTC */
+const getOffset = (formatter: Intl.DateTimeFormat, instant: number) => {
+  const parts = Object.fromEntries(formatter.formatToParts(new Date(instant)).map(part => [part.type, part.value]));
+  const local = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second);
+  return Math.round((local - Math.floor(instant / 1000) * 1000) / 60000);
+};
+
+const getOffsetFormatter = (timeZone: string) =>
+  new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  });
+
+/** A wall-clock date and time in a time zone as a UTC date-time, e.g. 20260131T235959Z */
+const toUtcDateTime = (date: string, time: string, timeZone: string) => {
+  const formatter = getOffsetFormatter(timeZone);
+  const local = Date.parse(`${date}T${time}Z`);
+  // The offset at the local time read as UTC can be one change off, so look again
+  const guess = local - getOffset(formatter, local) * 60000;
+  const instant = local - getOffset(formatter, guess) * 60000;
+  return new Date(instant).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+const formatOffset = (minutes: number) =>
+  `${minutes < 0 ? '-' : '+'}${pad(Math.floor(Math.abs(minutes) / 60))}${pad(Math.abs(minutes) % 60)}`;
+
+/**
+ * The VTIMEZONE every TZID must have (RFC 5545 3.6.5). Its daylight saving rules are read
+ * from this year's changes: each becomes a yearly rule on the same weekday of the month
+ * (e.g. the last Sunday of March), the way most zones define them.
+ */
+const buildTimeZone = (timeZone: string, year: number) => {
+  const formatter = getOffsetFormatter(timeZone);
+  const DAY = 24 * 60 * 60 * 1000;
+  const changes: { instant: number; from: number; to: number }[] = [];
+
+  // Find the days the offset changes on, then the minute within the day
+  for (let day = Date.UTC(year, 0, 1); day < Date.UTC(year + 1, 0, 1); day += DAY) {
+    const from = getOffset(formatter, day);
+    if (getOffset(formatter, day + DAY) === from) continue;
+
+    let low = day;
+    let high = day + DAY;
+    while (high - low > 60 * 1000) {
+      const middle = low + Math.floor((high - low) / 2 / 60000) * 60000;
+      if (getOffset(formatter, middle) === from) low = middle;
+      else high = middle;
+    }
+    changes.push({ instant: high, from, to: getOffset(formatter, high) });
+  }
+
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+
+  if (changes.length === 0) {
+    const offset = formatOffset(getOffset(formatter, Date.UTC(year, 0, 1)));
+    lines.push('BEGIN:STANDARD', 'DTSTART:19700101T000000', `TZOFFSETFROM:${offset}`, `TZOFFSETTO:${offset}`, 'END:STANDARD');
+  }
+
+  for (const { instant, from, to } of changes) {
+    // The change as the wall clock showed it just before
+    const local = new Date(instant + from * 60000);
+    const month = local.getUTCMonth();
+    const date = local.getUTCDate();
+    const weekday = (local.getUTCDay() + 6) % 7;
+    const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    const week = date + 7 > daysInMonth ? -1 : Math.ceil(date / 7);
+
+    // The same rule in 1970, where the observance starts
+    const first = new Date(Date.UTC(1970, month, 1));
+    const last = new Date(Date.UTC(1970, month + 1, 0));
+    const startDate = week === -1
+      ? last.getUTCDate() - (((last.getUTCDay() + 6) % 7) - weekday + 7) % 7
+      : 1 + (weekday - ((first.getUTCDay() + 6) % 7) + 7) % 7 + (week - 1) * 7;
+
+    const kind = to > from ? 'DAYLIGHT' : 'STANDARD';
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:1970${pad(month + 1)}${pad(startDate)}T${pad(local.getUTCHours())}${pad(local.getUTCMinutes())}00`,
+      `RRULE:FREQ=YEARLY;BYMONTH=${month + 1};BYDAY=${week}${BYDAY[weekday]}`,
+      `TZOFFSETFROM:${formatOffset(from)}`,
+      `TZOFFSETTO:${formatOffset(to)}`,
+      `END:${kind}`
+    );
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+};
+
+/** A local date and time property, with TZID when the institute's time zone is set */
+const dateTimeProperty = (name: string, date: string, time: string, timeZone: string | null) => {
+  const value = `${date.replace(/-/g, '')}T${time.slice(0, 8).replace(/:/g, '').padEnd(6, '0')}`;
+  return timeZone ? `${name};TZID=${timeZone}:${value}` : `${name}:${value}`;
+};
+
+const getWeekdays = (schedule: FeedSchedule) => {
+  const days = schedule.weekdays && schedule.weekdays.length > 0 ? schedule.weekdays : [schedule.day];
+  return WEEKDAYS.filter(day => days.includes(day));
+};
+
+/** Whether a class runs on a date, ignoring cancellations; occursOn() in src/lib/recurrence.ts */
+const occursOn = (schedule: FeedSchedule, date: string) => {
+  if (!schedule.repeats) return schedule.date_tag === date;
+
+  // yyyy-MM-dd strings compare in date order
+  if (schedule.starts_on && date < schedule.starts_on) return false;
+  if (schedule.ends_on && date > schedule.ends_on) return false;
+  if (!getWeekdays(schedule).includes(WEEKDAYS[weekdayIndex(date)])) return false;
+
+  const interval = schedule.repeat_interval_weeks || 1;
+  return interval === 1 || !schedule.starts_on || weeksBetween(schedule.starts_on, date) % interval === 0;
+};
+
+/**
+ * The first date on or after since that a repeating class runs on, which iCalendar needs
+ * as DTSTART. Starting there rather than at starts_on keeps older occurrences, whose
+ * cancellations the feed no longer reads, out of subscribers' calendars; "every N weeks"
+ * is still counted from starts_on, so it lines up with the schedule page.
+ */
+const firstOccurrence = (schedule: FeedSchedule, since: string) => {
+  const start = schedule.starts_on || (schedule.created_at || new Date().toISOString()).slice(0, 10);
+  const from = start > since ? start : since;
+
+  for (let offset = 0; offset < 7 * (schedule.repeat_interval_weeks || 1); offset++) {
+    const date = addDays(from, offset);
+    if (occursOn(schedule, date)) return date;
+  }
+  return null;
+};
+
+/** Whether a grade is closed on a date; getClosureFor() in src/lib/closures.ts */
+const isClosed = (closures: FeedClosure[], grade: string, date: string) =>
+  closures.some(closure =>
+    closure.start_date <= date && date <= closure.end_date && (!closure.grades || closure.grades.includes(grade)));
+
+/** Whether an occurrence still takes place: not cancelled or moved, and not in a closure */
+const takesPlace = (schedule: FeedSchedule, date: string, context: FeedContext) =>
+  !context.cancellations.some(c => c.schedule_id === schedule.id && c.occurrence_date === date) &&
+  !isClosed(context.closures, schedule.grade, date);
+
+/** The dates from since on that a repeating class would run on but its grade is closed */
+const getClosedDates = (schedule: FeedSchedule, context: FeedContext) => {
+  const dates: string[] = [];
+  for (const closure of context.closures) {
+    if (closure.grades && !closure.grades.includes(schedule.grade)) continue;
+    const first = closure.start_date > context.since ? closure.start_date : context.since;
+    for (let date = first; date <= closure.end_date; date = addDays(date, 1)) {
+      if (occursOn(schedule, date)) dates.push(date);
+    }
+  }
+  return dates;
+};
+
+const describe = (schedule: FeedSchedule, movedFrom: FeedCancellation | undefined, substitute?: string) => {
+  const lines = [
+    // One "Key: value" per line so the schedule import wizard can read feeds back in
+    `Teacher: ${substitute || schedule.teachers.name}`,
+    `Grade: ${schedule.grade}`,
+    `Curriculum: ${schedule.curriculum}`,
+    `Mode: ${schedule.mode}`
+  ];
+  if (schedule.room) lines.push(`Room: ${schedule.room}`);
+  if (substitute) lines.push(`Covering for ${schedule.teachers.name}`);
+  if (movedFrom) {
+    lines.push(`Moved from ${movedFrom.occurrence_date}${movedFrom.reason ? ` (${movedFrom.reason})` : ''}`);
+  }
+  if (schedule.description) lines.push('', schedule.description);
+  return lines.join('\n');
+};
+
+/** The properties every event has, from BEGIN:VEVENT on; the caller ends the event */
+const startEvent = (uid: string, schedule: FeedSchedule, date: string, description: string, context: FeedContext) => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${uid}@${context.host}`,
+    `DTSTAMP:${context.stamp}`,
+    dateTimeProperty('DTSTART', date, schedule.start_time, context.timeZone),
+    dateTimeProperty('DTEND', date, schedule.end_time, context.timeZone),
+    `SUMMARY:${escapeText(`${schedule.subject} (${schedule.grade} ${schedule.curriculum})`)}`,
+    `DESCRIPTION:${escapeText(description)}`
+  ];
+  if (schedule.room) lines.push(`LOCATION:${escapeText(schedule.room)}`);
+  return lines;
+};
+
+const buildEvent = (schedule: FeedSchedule, context: FeedContext) => {
+  const own = context.cancellations.filter(c => c.schedule_id === schedule.id);
+  const movedFrom = context.cancellations.find(c => c.makeup_schedule_id === schedule.id);
+  const covered = context.substitutions.filter(substitution =>
+    substitution.schedule_id === schedule.id && takesPlace(schedule, substitution.occurrence_date, context));
+  const date = schedule.repeats ? firstOccurrence(schedule, context.since) : schedule.date_tag;
+  if (!date) return [];
+
+  if (!schedule.repeats) {
+    const substitution = covered.find(c => c.occurrence_date === date);
+    // The substitute's feed has it instead
+    if (substitution && context.teacher) return [];
+
+    const description = describe(schedule, movedFrom, substitution?.substitute.name);
+    const lines = startEvent(`class-${schedule.id}`, schedule, date, description, context);
+    if (!takesPlace(schedule, date, context)) lines.push('STATUS:CANCELLED');
+    lines.push('END:VEVENT');
+    return lines;
+  }
+
+  const lines = startEvent(`class-${schedule.id}`, schedule, date, describe(schedule, movedFrom), context);
+  const rule = [
+    'FREQ=WEEKLY',
+    `INTERVAL=${schedule.repeat_interval_weeks || 1}`,
+    `BYDAY=${getWeekdays(schedule).map(day => BYDAY[WEEKDAYS.indexOf(day)]).join(',')}`,
+    'WKST=MO'
+  ];
+  // UNTIL has to be in UTC when DTSTART has a time zone, and floating when it doesn't;
+  // either way it is the end of ends_on in the institute's time zone
+  if (schedule.ends_on) {
+    rule.push(`UNTIL=${context.timeZone
+      ? toUtcDateTime(schedule.ends_on, '23:59:59', context.timeZone)
+      : `${schedule.ends_on.replace(/-/g, '')}T235959`}`);
+  }
+  lines.push(`RRULE:${rule.join(';')}`);
+
+  const excluded = [
+    ...own.map(c => c.occurrence_date),
+    ...getClosedDates(schedule, context),
+    // The substitute's feed has these instead
+    ...(context.teacher ? covered.map(c => c.occurrence_date) : [])
+  ];
+  for (const excludedDate of [...new Set(excluded)].sort()) {
+    lines.push(dateTimeProperty('EXDATE', excludedDate, schedule.start_time, context.timeZone));
+  }
+  lines.push('END:VEVENT');
+
+  // Elsewhere a covered occurrence replaces the series' one, naming the substitute
+  if (!context.teacher) {
+    for (const substitution of covered) {
+      const description = describe(schedule, movedFrom, substitution.substitute.name);
+      lines.push(
+        ...startEvent(`class-${schedule.id}`, schedule, substitution.occurrence_date, description, context),
+        dateTimeProperty('RECURRENCE-ID', substitution.occurrence_date, schedule.start_time, context.timeZone),
+        'END:VEVENT'
+      );
+    }
+  }
+
+  return lines;
+};
+
+/** The occurrences of other teachers' classes that a teacher covers, as one-off events */
+const buildCoverEvents = (substitutions: FeedSubstitution[], context: FeedContext) =>
+  substitutions
+    .filter(substitution => takesPlace(substitution.schedule, substitution.occurrence_date, context))
+    .flatMap(({ schedule, occurrence_date, substitute }) => [
+      ...startEvent(
+        `cover-${schedule.id}-${occurrence_date}`,
+        schedule,
+        occurrence_date,
+        describe(schedule, context.cancellations.find(c => c.makeup_schedule_id === schedule.id), substitute.name),
+        context
+      ),
+      'END:VEVENT'
+    ]);
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'GET') {
+    return text('Method not allowed', 405);
+  }
+
+  try {
+    const url = new URL(req.url);
+    const teacher = url.searchParams.get('teacher');
+    const grade = url.searchParams.get('grade');
+    const curriculum = url.searchParams.get('curriculum');
+
+    if ((grade && !curriculum) || (!grade && curriculum)) {
+      return text('grade and curriculum must be given together', 400);
+    }
+
+    // Timetables, cancellations, substitutions and closures are public, so the anon key is enough
+    const client = createClient(requireEnv('SUPABASE_URL'), requireEnv('SUPABASE_ANON_KEY'));
+    const since = addDays(toDateString(new Date()), -HISTORY_DAYS);
+
+    let query = client
+      .from('class_schedules')
+      .select('*, teachers!inner(name)')
+      .or(`and(repeats.eq.true,or(ends_on.is.null,ends_on.gte.${since})),and(repeats.eq.false,date_tag.gte.${since})`);
+
+    if (teacher) query = query.eq('teachers.name', teacher);
+    if (grade && curriculum) query = query.eq('grade', grade).eq('curriculum', curriculum);
+
+    const { data: schedules, error } = await query.order('start_time');
+    if (error) throw error;
+
+    const { data: cancellations, error: cancellationsError } = await client
+      .from('schedule_cancellations')
+      .select('schedule_id, occurrence_date, reason, makeup_schedule_id')
+      .gte('occurrence_date', since);
+    if (cancellationsError) throw cancellationsError;
+
+    const { data: substitutions, error: substitutionsError } = await client
+      .from('schedule_substitutions')
+      .select(`
+        schedule_id,
+        occurrence_date,
+        substitute:teachers!schedule_substitutions_teacher_id_fkey (name),
+        schedule:class_schedules!schedule_substitutions_schedule_id_fkey (*, teachers(name))
+      `)
+      .gte('occurrence_date', since);
+    if (substitutionsError) throw substitutionsError;
+
+    const { data: closures, error: closuresError } = await client
+      .from('closures')
+      .select('start_date, end_date, grades')
+      .gte('end_date', since);
+    if (closuresError) throw closuresError;
+
+    const timeZone = Deno.env.get('CALENDAR_TIMEZONE') || null;
+    const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const context: FeedContext = {
+      teacher,
+      cancellations: cancellations || [],
+      substitutions: (substitutions || []) as unknown as FeedSubstitution[],
+      closures: closures || [],
+      since,
+      host: url.host,
+      stamp,
+      timeZone
+    };
+    const name = teacher || (grade && curriculum ? `${grade} ${curriculum}` : 'All classes');
+
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Continental//Timetable//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${escapeText(`Timetable - ${name}`)}`,
+      'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+      'X-PUBLISHED-TTL:PT1H'
+    ];
+    if (timeZone) {
+      lines.push(`X-WR-TIMEZONE:${timeZone}`, ...buildTimeZone(timeZone, new Date().getUTCFullYear()));
+    }
+
+    for (const schedule of (schedules || []) as FeedSchedule[]) {
+      lines.push(...buildEvent(schedule, context));
+    }
+
+    if (teacher) {
+      lines.push(...buildCoverEvents(context.substitutions.filter(({ substitute, schedule }) =>
+        substitute.name === teacher &&
+        (!grade || (schedule.grade === grade && schedule.curriculum === curriculum))), context));
+    }
+
+    lines.push('END:VCALENDAR');
+
+    return new Response(lines.map(foldLine).join('\r\n') + '\r\n', {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="timetable.ics"',
+        'Cache-Control': 'public, max-age=900'
+      }
+    });
+  } catch (err) {
+    console.error('Calendar feed error:', err);
+    return text('Internal error', 500);
+  }
+});
@@ -0,0 +1,185 @@
+// Cloudinary signing and deletion endpoint
+// Keeps the Cloudinary API secret on the server. The dashboard calls it through
+// supabase.functions.invoke('cloudinary') with the staff session header, and it either
+// signs upload parameters or destroys assets on the caller's behalf.
+//
+// Deploy with: supabase functions deploy cloudinary --no-verify-jwt
+// Secrets:     supabase secrets set CLOUDINARY_CLOUD_NAME=... CLOUDINARY_API_KEY=... CLOUDINARY_API_SECRET=...
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-session-token, x-display-token',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+// Roles allowed to use each action; keep in sync with ROLE_PERMISSIONS in src/lib/roles.ts
+const ACTION_ROLES: Record<string, string[]> = {
+  // Teachers upload their own profile picture from the teacher portal
+  sign: ['admin', 'front_desk', 'teacher'],
+  destroy: ['admin']
+};
+
+// Upload parameters the browser may ask us to sign; anything else is rejected
+const SIGNABLE_PARAMS = ['folder', 'public_id', 'tags', 'upload_preset'];
+
+// Teachers may only add new images under their own account's folder: the folder is chosen
+// here, Cloudinary picks a random public id, and existing assets are never replaced
+const TEACHER_FOLDER = 'teachers';
+
+const RESOURCE_TYPES = ['image', 'raw'];
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+const requireEnv = (name: string) => {
+  const value = Deno.env.get(name);
+  if (!value) throw new Error(`Missing ${name}`);
+  return value;
+};
+
+/**
+ * Cloudinary signature: SHA-1 of the sorted `key=value` pairs joined with `&`, followed
+ * by the API secret
+ */
+const signParams = async (params: Record<string, string>, apiSecret: string) => {
+  const toSign = Object.keys(params)
+    .sort()
+    .map(key => `${key}=${params[key]}`)
+    .join('&');
+
+  const hashBuffer = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(toSign + apiSecret));
+  return Array.from(new Uint8Array(hashBuffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+interface Caller {
+  id: string;
+  role: string;
+}
+
+// Account and role of the staff session behind the request, checked by the database like
+// any other call
+const getCaller = async (req: Request): Promise<Caller | null> => {
+  const client = createClient(requireEnv('SUPABASE_URL'), requireEnv('SUPABASE_ANON_KEY'), {
+    global: { headers: { 'x-session-token': req.headers.get('x-session-token') || '' } }
+  });
+
+  const [{ data: id, error: idError }, { data: role, error: roleError }] = await Promise.all([
+    client.rpc('current_teacher_user_id'),
+    client.rpc('current_user_role')
+  ]);
+  if (idError) throw idError;
+  if (roleError) throw roleError;
+  return id && role ? { id: id as string, role: role as string } : null;
+};
+
+/**
+ * Signs upload parameters and returns the ones signed, which the browser must send as they
+ * are; for teachers they differ from the ones asked for
+ */
+const handleSign = async (params: Record<string, unknown>, caller: Caller) => {
+  const toSign: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(params || {})) {
+    if (!SIGNABLE_PARAMS.includes(key)) {
+      return json({ error: `Parameter "${key}" cannot be signed` }, 400);
+    }
+    toSign[key] = String(value);
+  }
+
+  if (caller.role === 'teacher') {
+    delete toSign.public_id;
+    toSign.folder = `${TEACHER_FOLDER}/${caller.id}`;
+    toSign.overwrite = 'false';
+  }
+
+  const signed = { ...toSign };
+  toSign.timestamp = Math.round(Date.now() / 1000).toString();
+
+  return json({
+    api_key: requireEnv('CLOUDINARY_API_KEY'),
+    timestamp: toSign.timestamp,
+    signature: await signParams(toSign, requireEnv('CLOUDINARY_API_SECRET')),
+    params: signed
+  });
+};
+
+const handleDestroy = async (publicIds: unknown, resourceType: unknown) => {
+  if (!Array.isArray(publicIds) || publicIds.some(id => typeof id !== 'string' || !id)) {
+    return json({ error: 'publicIds must be a list of public ids' }, 400);
+  }
+
+  const type = typeof resourceType === 'string' ? resourceType : 'image';
+  if (!RESOURCE_TYPES.includes(type)) {
+    return json({ error: `Unsupported resource type "${type}"` }, 400);
+  }
+
+  const cloudName = requireEnv('CLOUDINARY_CLOUD_NAME');
+  const apiKey = requireEnv('CLOUDINARY_API_KEY');
+  const apiSecret = requireEnv('CLOUDINARY_API_SECRET');
+
+  // Cloudinary's "result" per asset: "ok", "not found", or an error message
+  const results: Record<string, string> = {};
+
+  for (const publicId of publicIds as string[]) {
+    const timestamp = Math.round(Date.now() / 1000).toString();
+
+    const formData = new FormData();
+    formData.append('public_id', publicId);
+    formData.append('timestamp', timestamp);
+    formData.append('api_key', apiKey);
+    formData.append('signature', await signParams({ public_id: publicId, timestamp }, apiSecret));
+
+    try {
+      const response = await fetch(`https://api.cloudinary.com/v1_1/${cloudName}/${type}/destroy`, {
+        method: 'POST',
+        body: formData
+      });
+      const body = await response.json();
+      results[publicId] = response.ok ? body.result : body.error?.message || response.statusText;
+    } catch (err) {
+      console.error(`Error destroying ${publicId}:`, err);
+      results[publicId] = 'request failed';
+    }
+  }
+
+  return json({ results });
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const body = await req.json();
+    const allowedRoles = ACTION_ROLES[body?.action];
+
+    if (!allowedRoles) {
+      return json({ error: 'Unknown action' }, 400);
+    }
+
+    const caller = await getCaller(req);
+    if (!caller || !allowedRoles.includes(caller.role)) {
+      return json({ error: 'Not allowed' }, 403);
+    }
+
+    if (body.action === 'sign') {
+      return await handleSign(body.params, caller);
+    }
+
+    return await handleDestroy(body.publicIds, body.resourceType);
+  } catch (err) {
+    console.error('Cloudinary function error:', err);
+    return json({ error: 'Internal error' }, 500);
+  }
+});